@@ -5,7 +5,8 @@
 
 import type { Change, PackageRelease, ReleaseManifest, GitRange } from './types';
 import type { ILLM, ILogger, IAnalytics } from '@kb-labs/sdk';
-import { resolveGitRange } from './git-range';
+import { resolveGitRange, resolvePackageRange } from './git-range';
+import type { TagFormatOptions } from './tag-format';
 import { parseCommits } from './parser';
 import { detectProvider, enhanceChangeWithLinks } from './providers';
 import { createReleaseManifest, formatAsJson } from './formatters/json';
@@ -55,7 +56,7 @@ export interface GenerateChangelogOptions {
     autoUnshallow?: boolean;
     requireSignedTags?: boolean;
     baseUrl?: string;
-  };
+  } & TagFormatOptions;
   /** Platform services for AI-powered formatting, logging, and analytics */
   platform?: { llm?: ILLM; logger?: ILogger; analytics?: IAnalytics };
   /** Progress callback */
@@ -117,10 +118,11 @@ export async function generateChangelog(
 
   // Step 3: Parse commits
   onProgress?.('Parsing commits...');
-  const changes = await parseCommits({
+  const parse = (from: string, to: string, packagePath?: string) => parseCommits({
     cwd: gitCwd,
-    from: range.from,
-    to: range.to,
+    from,
+    to,
+    packagePath,
     ignoreAuthors: changelogConfig?.ignoreAuthors || [],
     includeTypes: changelogConfig?.includeTypes,
     excludeTypes: changelogConfig?.excludeTypes,
@@ -128,11 +130,16 @@ export async function generateChangelog(
     collapseReverts: changelogConfig?.collapseReverts,
     preferMergeSummary: changelogConfig?.preferMergeSummary,
   });
+  const changes = await parse(range.from, range.to);
 
   // Step 4: Enhance changes with provider links
   onProgress?.('Enhancing changes with links...');
   const enhancedChanges = changes.map(change => enhanceChangeWithLinks(change, provider));
 
+  // Without an explicit range, each package starts at its own release tag —
+  // the same range the core planner uses to compute its bump
+  const usePackageRanges = !rangeOptions?.from && !rangeOptions?.sinceTag;
+
   // Step 5: Build package releases
   onProgress?.('Building package releases...');
 
@@ -152,19 +159,37 @@ export async function generateChangelog(
     return rel.endsWith('/') ? rel : rel + '/';
   }
 
-  const packageReleases: PackageRelease[] = packages.map(pkg => {
+  const allChanges = new Map(enhancedChanges.map(c => [c.sha, c]));
+
+  const packageReleases: PackageRelease[] = [];
+  for (const pkg of packages) {
     const pkgPrefix = normalizePkgPath(pkg.path);
 
-    // Filter changes that touched at least one file inside this package's directory.
-    // Falls back to all changes when the package sits at repo root (monorepo root release).
     const isRoot = pkgPrefix === '/' || pkgPrefix === '' || pkgPrefix === './';
-    const pkgChanges = isRoot
-      ? enhancedChanges
-      : enhancedChanges.filter(c =>
-          !c.filesChanged || c.filesChanged.length === 0
-            ? true // keep commits with no file info (e.g. merge commits, empty commits)
-            : c.filesChanged.some(f => f.startsWith(pkgPrefix))
-        );
+    let pkgChanges: Change[];
+    if (usePackageRanges) {
+      // A root package (monorepo root release) takes every commit in its range
+      const pkgRange = await resolvePackageRange({
+        cwd: gitCwd,
+        packageName: pkg.name,
+        currentVersion: pkg.currentVersion,
+        to: range.to,
+        tagFormats: gitConfig,
+      });
+      pkgChanges = (await parse(pkgRange.from, pkgRange.to, isRoot ? undefined : pkgPrefix))
+        .map(change => enhanceChangeWithLinks(change, provider));
+      for (const change of pkgChanges) {allChanges.set(change.sha, change);}
+    } else {
+      // Filter changes that touched at least one file inside this package's directory.
+      // Falls back to all changes when the package sits at repo root (monorepo root release).
+      pkgChanges = isRoot
+        ? enhancedChanges
+        : enhancedChanges.filter(c =>
+            !c.filesChanged || c.filesChanged.length === 0
+              ? true // keep commits with no file info (e.g. merge commits, empty commits)
+              : c.filesChanged.some(f => f.startsWith(pkgPrefix))
+          );
+    }
 
     const hasBreaking = pkgChanges.some(c => c.breaking && c.breaking.length > 0);
     const hasFeat = pkgChanges.some(c => c.type === 'feat');
@@ -177,7 +202,7 @@ export async function generateChangelog(
     else if (hasFix) {reason = 'fix';}
     else if (hasPerf) {reason = 'perf';}
 
-    return {
+    packageReleases.push({
       name: pkg.name,
       prev: pkg.currentVersion,
       next: pkg.nextVersion,
@@ -185,8 +210,8 @@ export async function generateChangelog(
       reason,
       breaking: pkgChanges.filter(c => c.breaking && c.breaking.length > 0).flatMap(c => c.breaking!),
       changes: pkgChanges,
-    };
-  });
+    });
+  }
 
   // Step 6: Create release manifest
   const manifest = createReleaseManifest(range, packageReleases);
@@ -306,7 +331,7 @@ export async function generateChangelog(
   return {
     markdown,
     manifest: JSON.parse(formatAsJson(manifest)),
-    changes: enhancedChanges,
+    changes: [...allChanges.values()],
     range,
     packages: packageReleases,
   };
@@ -4,6 +4,7 @@
 
 import simpleGit from 'simple-git';
 import type { GitRange } from './types';
+import { DEFAULT_TAG_FORMAT, releaseTagMatchers, tagFormatToRegExp, type TagFormatOptions } from './tag-format';
 
 /**
  * Resolve git range from various sources (tags, refs, dates)
@@ -80,18 +81,19 @@ export async function findLastTag(
 }
 
 /**
- * Find last tag for specific package
+ * Find last tag for specific package (any version), matching the configured tag format
  */
 export async function findPackageTag(
   git: ReturnType<typeof simpleGit>,
   packageName: string,
-  requireSigned?: boolean
+  requireSigned?: boolean,
+  tagFormats: TagFormatOptions = {}
 ): Promise<string | null> {
   try {
     const tags = await git.tags();
     
-    // Match package tag patterns: @scope/package@1.0.0 or @pkg@1.0.0
-    const packageRegex = new RegExp(`@${packageName.replace('@', '')}@v?\\d+\\.\\d+\\.\\d+`);
+    // Match package tags of any version, e.g. @scope/package@1.0.0 with the default format
+    const packageRegex = tagFormatToRegExp(tagFormats.tagFormat || DEFAULT_TAG_FORMAT, { name: packageName });
     
     const packageTags = tags.all.filter(tag => packageRegex.test(tag));
     
@@ -107,6 +109,47 @@ export async function findPackageTag(
   }
 }
 
+/**
+ * Find the release tag for a package version: its per-package tag first, then the lockstep tag
+ * (`name@version` and `vX.Y.Z` unless configured otherwise, see tag-format).
+ */
+export async function findReleaseTag(
+  git: ReturnType<typeof simpleGit>,
+  packageName: string,
+  version: string,
+  tagFormats: TagFormatOptions = {}
+): Promise<string | null> {
+  try {
+    const existing = (await git.raw(['tag', '--list'])).split('\n').map(t => t.trim()).filter(Boolean);
+    for (const matcher of releaseTagMatchers(packageName, version, tagFormats)) {
+      const tag = existing.find(t => matcher.test(t));
+      if (tag) {return tag;}
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the commit range for one package: from the release tag of its current version
+ * (see findReleaseTag) to `to`, or from the first commit when it was never released.
+ * The planner and the changelog both use this, so bumps and changelog entries cover the same commits.
+ */
+export async function resolvePackageRange(options: {
+  cwd: string;
+  packageName: string;
+  currentVersion: string;
+  to?: string;
+  tagFormats?: TagFormatOptions;
+}): Promise<GitRange & { tag?: string }> {
+  const git = simpleGit(options.cwd);
+  const tag = await findReleaseTag(git, options.packageName, options.currentVersion, options.tagFormats);
+  const to = options.to || 'HEAD';
+  if (tag) {return { from: tag, to, tag };}
+  return { from: await findFirstCommit(git), to };
+}
+
 /**
  * Filter to only signed tags
  */
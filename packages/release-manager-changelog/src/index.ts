@@ -6,6 +6,7 @@ export * from './types';
 export * from './parser';
 export * from './cache';
 export * from './git-range';
+export * from './tag-format';
 export * from './versioning';
 export * from './providers';
 export * from './formatters/json';
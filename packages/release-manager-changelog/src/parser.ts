@@ -224,10 +224,10 @@ function parseConventionalCommit(commitMessage: string): {
   const footers: string[] = [];
   const footerLines = body.split('\n');
   for (const line of footerLines) {
-    if (/^[A-Z-]+:\s*/.test(line)) {
+    if (/^(?:[A-Z-]+|BREAKING CHANGE):\s*/.test(line)) {
       footers.push(line);
-      // Check for BREAKING CHANGE footer
-      const breakingMatch = line.match(/^BREAKING CHANGE:\s*(.+)/);
+      // Check for BREAKING CHANGE / BREAKING-CHANGE footer
+      const breakingMatch = line.match(/^BREAKING[ -]CHANGE:\s*(.+)/);
       if (breakingMatch && breakingMatch[1]) {
         breaking.push({ summary: breakingMatch[1] });
       }
@@ -0,0 +1,119 @@
+/**
+ * Release tag and commit message templates.
+ *
+ * Placeholders: {name} (`@kb-labs/core`), {unscopedName} (`core`), {scope} (`kb-labs`),
+ * {version} and {date} (YYYY-MM-DD). Tag creation and tag discovery both go through
+ * this module, so a configured format is always found again on the next release.
+ */
+
+export interface TagFormatOptions {
+  /** Per-package tag, e.g. `release/{unscopedName}/{version}` or `{unscopedName}-v{version}` */
+  tagFormat?: string;
+  /** Tag for lockstep releases (every package on one version) */
+  lockstepTagFormat?: string;
+}
+
+export interface TemplateValues {
+  name?: string;
+  version?: string;
+  date?: string;
+  /** Extra placeholders, e.g. {packages} in commit messages */
+  [key: string]: string | undefined;
+}
+
+export const DEFAULT_TAG_FORMAT = '{name}@{version}';
+export const DEFAULT_LOCKSTEP_TAG_FORMAT = 'v{version}';
+export const DEFAULT_COMMIT_MESSAGE = 'chore(release): publish {packages}';
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+const KNOWN_PLACEHOLDERS = new Set(['name', 'unscopedName', 'scope', 'version', 'date']);
+
+/** Version pattern used to discover tags when the version is not known up front */
+const VERSION_PATTERN = 'v?\\d+\\.\\d+\\.\\d+(?:-[0-9A-Za-z.-]+)?';
+const DATE_PATTERN = '\\d{4}-\\d{2}-\\d{2}';
+
+/**
+ * Split a package name into its placeholder values (`@kb-labs/core` → scope `kb-labs`, unscopedName `core`).
+ */
+function nameValues(name: string | undefined): Record<string, string> {
+  if (!name) {return {};}
+  const match = name.match(/^@([^/]+)\/(.+)$/);
+  return {
+    name,
+    unscopedName: match ? match[2]! : name,
+    scope: match ? match[1]! : '',
+  };
+}
+
+function resolveValues(values: TemplateValues): Record<string, string | undefined> {
+  return {
+    date: new Date().toISOString().slice(0, 10),
+    ...nameValues(values.name),
+    ...values,
+  };
+}
+
+/**
+ * Fill a template. Known placeholders without a value (e.g. {name} in a multi-package commit)
+ * render empty; unknown ones are left as-is so typos stay visible.
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  const resolved = resolveValues(values);
+  return template.replace(PLACEHOLDER, (match, key: string) =>
+    resolved[key] ?? (KNOWN_PLACEHOLDERS.has(key) || key in values ? '' : match));
+}
+
+/**
+ * Tag name for one package release.
+ */
+export function formatPackageTag(name: string, version: string, options: TagFormatOptions = {}): string {
+  return renderTemplate(options.tagFormat || DEFAULT_TAG_FORMAT, { name, version });
+}
+
+/**
+ * Tag name for a lockstep release.
+ */
+export function formatLockstepTag(version: string, options: TagFormatOptions = {}): string {
+  return renderTemplate(options.lockstepTagFormat || DEFAULT_LOCKSTEP_TAG_FORMAT, { version });
+}
+
+/**
+ * RegExp matching tags produced by `format`. Given values are matched literally;
+ * {version} and {date} fall back to patterns, so tags can be found without knowing them.
+ */
+export function tagFormatToRegExp(format: string, values: TemplateValues = {}): RegExp {
+  const resolved = { ...nameValues(values.name), ...values };
+  let source = '';
+  let last = 0;
+  for (const match of format.matchAll(PLACEHOLDER)) {
+    source += escapeRegExp(format.slice(last, match.index));
+    const key = match[1]!;
+    const value = resolved[key];
+    if (value !== undefined) {
+      source += escapeRegExp(value);
+    } else if (key === 'version') {
+      source += VERSION_PATTERN;
+    } else if (key === 'date') {
+      source += DATE_PATTERN;
+    } else {
+      source += '[^/]+?';
+    }
+    last = match.index! + match[0].length;
+  }
+  source += escapeRegExp(format.slice(last));
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Matchers for the release tag of a package version: its per-package tag first, then the lockstep tag.
+ */
+export function releaseTagMatchers(name: string, version: string, options: TagFormatOptions = {}): RegExp[] {
+  return [
+    tagFormatToRegExp(options.tagFormat || DEFAULT_TAG_FORMAT, { name, version }),
+    tagFormatToRegExp(options.lockstepTagFormat || DEFAULT_LOCKSTEP_TAG_FORMAT, { version }),
+  ];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -144,6 +144,16 @@ export interface GitRange {
   to: string;
 }
 
+/**
+ * Configurable bump rules for computeBump.
+ */
+export interface BumpRules {
+  /** Bump per commit type, merged over the defaults (feat → minor; fix, perf, refactor → patch) */
+  types?: Record<string, VersionBump>;
+  /** 0.x versions: breaking changes bump minor and minor bumps become patch */
+  preMajor?: boolean;
+}
+
 export interface ChangeCache {
   meta: {
     graphHash: string;
@@ -4,20 +4,49 @@
  */
 
 import semver from 'semver';
-import type { Change, VersionBump } from './types';
+import type { BumpRules, Change, VersionBump } from './types';
+
+/**
+ * Default bump per commit type. Breaking changes are always major (see BumpRules.preMajor).
+ */
+export const DEFAULT_BUMP_TYPES: Record<string, VersionBump> = {
+  feat: 'minor',
+  fix: 'patch',
+  perf: 'patch',
+  refactor: 'patch',
+};
+
+const BUMP_ORDER: VersionBump[] = ['none', 'patch', 'minor', 'major'];
 
 /**
  * Compute version bump from changes
+ *
+ * @param options.rules - Per-type overrides and 0.x handling
+ * @param options.currentVersion - Needed for `rules.preMajor`
  */
-export function computeBump(changes: Change[]): VersionBump {
-  const hasBreaking = changes.some(c => c.breaking && c.breaking.length > 0);
-  const hasFeature = changes.some(c => c.type === 'feat');
-  const hasFix = changes.some(c => ['fix', 'perf', 'refactor'].includes(c.type));
-  
-  if (hasBreaking) {return 'major';}
-  if (hasFeature) {return 'minor';}
-  if (hasFix) {return 'patch';}
-  return 'none';
+export function computeBump(
+  changes: Change[],
+  options?: { rules?: BumpRules; currentVersion?: string }
+): VersionBump {
+  const types = { ...DEFAULT_BUMP_TYPES, ...options?.rules?.types };
+
+  let bump: VersionBump = 'none';
+  for (const change of changes) {
+    const changeBump: VersionBump = change.breaking && change.breaking.length > 0
+      ? 'major'
+      : types[change.type] ?? 'none';
+    if (BUMP_ORDER.indexOf(changeBump) > BUMP_ORDER.indexOf(bump)) {bump = changeBump;}
+  }
+
+  const isPreMajor = options?.currentVersion !== undefined
+    && semver.valid(options.currentVersion) !== null
+    && semver.major(options.currentVersion) === 0;
+  if (options?.rules?.preMajor && isPreMajor) {
+    if (bump === 'major') {return 'minor';}
+    if (bump === 'minor') {return 'patch';}
+  }
+
+  return bump;
 }
 
 /**
@@ -111,13 +140,16 @@ export function getRipplePackages(
 
 /**
  * Apply version policy (independent, ripple, or lockstep)
+ *
+ * @param rules - Bump rules, the same ones release planning uses (config.bumpRules)
  */
 export function applyVersionPolicy(
   changes: Change[],
   affectedPackages: string[],
   currentVersions: Record<string, string>,
   policy: 'independent' | 'ripple' | 'lockstep',
-  dependencyGraph?: Record<string, string[]>
+  dependencyGraph?: Record<string, string[]>,
+  rules?: BumpRules
 ): Record<string, {
   nextVersion: string;
   bump: VersionBump;
@@ -141,9 +173,9 @@ export function applyVersionPolicy(
     // Each package versions independently
     for (const pkg of affectedPackages) {
       const pkgChanges = changesByPackage[pkg] || [];
-      const bump = computeBump(pkgChanges);
-      const reasonInfo = getImpactReason(pkgChanges);
       const currentVersion = currentVersions[pkg] || '0.0.0';
+      const bump = computeBump(pkgChanges, { rules, currentVersion });
+      const reasonInfo = getImpactReason(pkgChanges);
       const nextVersion = computeNextVersion(currentVersion, bump);
       
       result[pkg] = {
@@ -158,9 +190,9 @@ export function applyVersionPolicy(
     
     for (const pkg of affectedPackages) {
       const pkgChanges = changesByPackage[pkg] || [];
-      const bump = computeBump(pkgChanges);
-      const reasonInfo = getImpactReason(pkgChanges);
       const currentVersion = currentVersions[pkg] || '0.0.0';
+      const bump = computeBump(pkgChanges, { rules, currentVersion });
+      const reasonInfo = getImpactReason(pkgChanges);
       const nextVersion = computeNextVersion(currentVersion, bump);
       
       result[pkg] = {
@@ -193,8 +225,6 @@ export function applyVersionPolicy(
   } else if (policy === 'lockstep') {
     // All packages share same version
     const allChanges = Object.values(changesByPackage).flat();
-    const bump = computeBump(allChanges);
-    const reasonInfo = getImpactReason(allChanges);
     
     // Find highest current version
     let highestVersion = '0.0.0';
@@ -204,6 +234,8 @@ export function applyVersionPolicy(
       }
     }
     
+    const bump = computeBump(allChanges, { rules, currentVersion: highestVersion });
+    const reasonInfo = getImpactReason(allChanges);
     const nextVersion = computeNextVersion(highestVersion, bump);
     
     for (const pkg of affectedPackages) {
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'node:events';
+import { spawn } from 'node:child_process';
+import { publishPackagesProgrammatic } from '../shared/publish-programmatic';
+
+vi.mock('node:child_process', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('node:child_process')>()),
+  // npm that always succeeds
+  spawn: vi.fn(() => {
+    const child = Object.assign(new EventEmitter(), { stdout: new EventEmitter(), stderr: new EventEmitter() });
+    setImmediate(() => child.emit('close', 0));
+    return child;
+  }),
+}));
+
+describe('publishPackagesProgrammatic', () => {
+  beforeEach(() => {
+    vi.mocked(spawn).mockClear();
+  });
+
+  it('binds each token to the registry it was resolved for', async () => {
+    const tokens: Record<string, string> = {
+      'https://registry.npmjs.org': 'npm-token',
+      'https://verdaccio.example.com/npm/': 'mirror-token',
+    };
+
+    const result = await publishPackagesProgrammatic({
+      packages: [{
+        name: '@kb-labs/a',
+        version: '1.1.0',
+        path: '/repo/packages/a',
+        tarball: '/repo/.kb/release/artifacts/root/kb-labs-a-1.1.0.tgz',
+        registries: Object.keys(tokens),
+      }],
+      tokenFor: registry => tokens[registry!],
+    });
+
+    expect(result.published).toEqual(['@kb-labs/a@1.1.0']);
+    const calls = vi.mocked(spawn).mock.calls;
+    expect(calls.map(([, args]) => args)).toEqual([
+      ['publish', '"/repo/.kb/release/artifacts/root/kb-labs-a-1.1.0.tgz"', '--access=public', '--registry=https://registry.npmjs.org',
+        "'--//registry.npmjs.org/:_authToken=${NODE_AUTH_TOKEN}'"],
+      ['publish', '"/repo/.kb/release/artifacts/root/kb-labs-a-1.1.0.tgz"', '--access=public', '--registry=https://verdaccio.example.com/npm/',
+        "'--//verdaccio.example.com/npm/:_authToken=${NODE_AUTH_TOKEN}'"],
+    ]);
+    // The token itself only travels in the environment
+    expect(calls.map(([, , options]) => options?.env?.NODE_AUTH_TOKEN)).toEqual(['npm-token', 'mirror-token']);
+  });
+});
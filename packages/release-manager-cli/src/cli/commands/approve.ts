@@ -0,0 +1,110 @@
+/**
+ * Release approve command — sign off on (or reject) a release waiting for approval.
+ *
+ * Without --plan-hash it only shows the pending plan and its hash: approving means
+ * confirming that exact hash, so an approval never covers a plan nobody reviewed.
+ * The approver is whoever runs the command (KB_RELEASE_OWNER, the git user or the OS user),
+ * and can't be the person who started the release. Resuming the release then publishes it, or rolls
+ * it back if rejected; a run waiting for the decision (`approval.wait`) continues on its own.
+ */
+
+import { defineCommand, type CLIInput, type CommandResult, type PluginContextV3 } from '@kb-labs/sdk';
+import {
+  approveRelease,
+  rejectRelease,
+  readReleaseApproval,
+  defaultReleaseOwner,
+  type ReleaseApprovalStatus,
+} from '@kb-labs/release-manager-core';
+import { findRepoRoot } from '../../shared/utils';
+
+interface ApproveFlags {
+  scope?: string;
+  'plan-hash'?: string;
+  reject?: boolean;
+  reason?: string;
+  json?: boolean;
+}
+
+type ReleaseApproveResult = CommandResult & {
+  message?: string;
+  approval?: ReleaseApprovalStatus;
+};
+
+export default defineCommand({
+  id: 'release:approve',
+  description: 'Approve or reject a release waiting for sign-off',
+
+  handler: {
+    async execute(ctx: PluginContextV3, input: CLIInput<ApproveFlags>): Promise<ReleaseApproveResult> {
+      const { flags } = input;
+      const cwd = ctx.cwd || process.cwd();
+      const repoRoot = await findRepoRoot(cwd);
+      const scope = flags.scope || 'root';
+      const approver = defaultReleaseOwner(repoRoot);
+
+      let approval: ReleaseApprovalStatus | null;
+      let message: string;
+      let ok = true;
+      try {
+        if (flags.reject) {
+          approval = await rejectRelease(repoRoot, scope, { rejectedBy: approver, reason: flags.reason });
+          message = `Release for scope "${scope}" rejected — run kb release run --scope ${scope} --resume to roll it back`;
+        } else if (flags['plan-hash']) {
+          approval = await approveRelease(repoRoot, scope, { approver, planHash: flags['plan-hash'] });
+          message = `Release for scope "${scope}" approved — run kb release run --scope ${scope} --resume to publish it`;
+        } else {
+          approval = await readReleaseApproval(repoRoot, scope);
+          message = approval?.status === 'pending-approval'
+            ? `Review the plan, then run: kb release approve --scope ${scope} --plan-hash ${approval.planHash}`
+            : `No release awaiting approval for scope "${scope}"`;
+        }
+      } catch (error) {
+        approval = null;
+        ok = false;
+        message = error instanceof Error ? error.message : String(error);
+      }
+
+      if (flags.json) {
+        ctx.ui?.json?.({ ok, message, approval });
+      } else {
+        const sections: Array<{ header?: string; items: string[] }> = [];
+
+        if (approval) {
+          sections.push({
+            header: `Plan (${approval.status})`,
+            items: [
+              ...approval.packages.map(p => `${p.name}@${p.version}`),
+              ...(approval.distTag ? [`dist-tag: ${approval.distTag}`] : []),
+            ],
+          });
+          sections.push({
+            header: 'Request',
+            items: [
+              `Plan hash: ${approval.planHash}`,
+              `Requested by ${approval.requestedBy} at ${approval.requestedAt}`,
+              `Expires at ${approval.expiresAt}`,
+              ...(approval.approval ? [`Approved by ${approval.approval.approver} at ${approval.approval.approvedAt}`] : []),
+              ...(approval.rejection
+                ? [`Rejected by ${approval.rejection.rejectedBy} at ${approval.rejection.rejectedAt}`
+                  + (approval.rejection.reason ? ` — ${approval.rejection.reason}` : '')]
+                : []),
+            ],
+          });
+        }
+
+        sections.push({
+          items: [`${ok ? ctx.ui.symbols.info : ctx.ui.symbols.error} ${message}`],
+        });
+
+        ctx.ui.sideBox({
+          title: 'Release Approval',
+          sections,
+          status: ok ? 'success' : 'error',
+        });
+      }
+
+      return { exitCode: ok ? 0 : 1, message, ...(approval && { approval }) };
+    },
+  },
+});
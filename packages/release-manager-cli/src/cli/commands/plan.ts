@@ -19,6 +19,8 @@ interface PlanFlags {
   scope?: string;
   bump?: 'patch' | 'minor' | 'major' | 'auto';
   strict?: boolean;
+  channel?: string;
+  graduate?: boolean;
   json?: boolean;
 }
 
@@ -26,6 +28,8 @@ type ReleasePlanResult = CommandResult & {
   plan?: {
     strategy: string;
     registry: string;
+    channel?: string;
+    distTag?: string;
     packages: Array<{
       name: string;
       currentVersion?: string;
@@ -68,6 +72,8 @@ export default defineCommand({
         config,
         scope: flags.scope,
         bumpOverride: flags.bump as VersionBump | undefined,
+        channel: flags.channel,
+        graduate: flags.graduate,
       });
 
       if (plan.packages.length === 0) {
@@ -113,6 +119,8 @@ export default defineCommand({
           items: [
             `Strategy: ${plan.strategy}`,
             `Registry: ${plan.registry}`,
+            ...(plan.channel ? [`Channel: ${plan.channel} (dist-tag: ${plan.distTag})`] : []),
+            ...(plan.graduate ? ['Graduating prereleases to stable'] : []),
             `Packages: ${plan.packages.length}`,
           ],
         });
@@ -125,7 +133,12 @@ export default defineCommand({
               pkg.currentVersion && pkg.nextVersion
                 ? `${pkg.currentVersion} → ${pkg.nextVersion}`
                 : pkg.nextVersion || 'new';
-            packageItems.push(`${ctx.ui.symbols.success} ${pkg.name}: ${versionInfo}`);
+            const ripple = pkg.rippleFrom?.length ? ` (ripple from ${pkg.rippleFrom.join(', ')})` : '';
+            const changes = pkg.changes?.reason === 'changed'
+              ? ` (${pkg.changes.files?.length ?? 0} file(s) changed since ${pkg.changes.since})`
+              : pkg.changes?.reason === 'no-release-tag' ? ' (no release tag — first release)' : '';
+            const drift = pkg.drift ? ` (registry latest: ${pkg.registryLatest})` : '';
+            packageItems.push(`${pkg.drift ? ctx.ui.symbols.info : ctx.ui.symbols.success} ${pkg.name}: ${versionInfo}${changes}${ripple}${drift}`);
           }
           sections.push({
             header: 'Packages to release',
@@ -137,6 +150,46 @@ export default defineCommand({
           });
         }
 
+        // Only when some package is routed away from the default registry or mirrored
+        if (plan.packages.some(pkg => pkg.registries)) {
+          const byRegistry = new Map<string, string[]>();
+          for (const pkg of plan.packages) {
+            for (const [i, registry] of (pkg.registries ?? [plan.registry]).entries()) {
+              byRegistry.set(registry, [...(byRegistry.get(registry) ?? []), i > 0 ? `${pkg.name} (mirror)` : pkg.name]);
+            }
+          }
+          sections.push({
+            header: 'Registries',
+            items: [...byRegistry].map(([registry, names]) => `${registry}: ${names.join(', ')}`),
+          });
+        }
+
+        // Only for packages with a recorded API baseline that changed
+        const apiItems = plan.packages
+          .filter(pkg => pkg.api && pkg.api.bump !== 'patch')
+          .map(pkg => {
+            const api = pkg.api!;
+            const details = [
+              api.removed.length > 0 && `removed: ${api.removed.join(', ')}`,
+              api.changed.length > 0 && `changed: ${api.changed.join(', ')}`,
+              api.added.length > 0 && `added: ${api.added.join(', ')}`,
+            ].filter(Boolean).join('; ');
+            return `${pkg.name}: ${api.bump} (${details})`;
+          });
+        if (apiItems.length > 0) {
+          sections.push({
+            header: 'API changes',
+            items: apiItems,
+          });
+        }
+
+        if (plan.warnings?.length) {
+          sections.push({
+            header: 'Warnings',
+            items: plan.warnings.map(w => `${ctx.ui.symbols.info} ${w}`),
+          });
+        }
+
         // Artifacts section
         if (artifacts.length > 0) {
           const artifactsLines = displayArtifacts(artifacts, {
@@ -6,7 +6,13 @@
  */
 
 import { defineCommand, type CLIInput, type PluginContextV3, useLoader, useConfig } from '@kb-labs/sdk';
-import { planRelease, type ReleaseConfig } from '@kb-labs/release-manager-core';
+import {
+  planRelease,
+  packageRegistries,
+  createRegistryTokenResolver,
+  DEFAULT_REGISTRY,
+  type ReleaseConfig,
+} from '@kb-labs/release-manager-core';
 import { findRepoRoot } from '../../shared/utils';
 import { publishPackagesProgrammatic, type ProgrammaticPublishResult } from '../../shared/publish-programmatic';
 import { publishPackagesWithOTP, type PublishWithOTPResult } from '../../shared/publish-with-otp';
@@ -18,6 +24,8 @@ interface PublishFlags {
   tag?: string;
   access?: string;
   token?: string;
+  channel?: string;
+  graduate?: boolean;
   json?: boolean;
 }
 
@@ -41,8 +49,6 @@ export default defineCommand({
       const { flags } = input;
       const { scope, otp: initialOtp, tag, access, json } = flags;
       const dryRun = flags['dry-run'];
-      const token = flags.token ?? process.env.NPM_TOKEN ?? process.env.NODE_AUTH_TOKEN;
-
       const cwd = ctx.cwd || process.cwd();
       const repoRoot = await findRepoRoot(cwd);
 
@@ -52,13 +58,25 @@ export default defineCommand({
 
       const fileConfig = await useConfig<ReleaseConfig>();
       const config: ReleaseConfig = fileConfig ?? {};
-      const plan = await planRelease({ cwd: repoRoot, config, scope });
+      const plan = await planRelease({
+        cwd: repoRoot,
+        config,
+        scope,
+        channel: flags.channel,
+        graduate: flags.graduate,
+      });
+      // Explicit --tag wins over the channel's dist-tag
+      const distTag = tag ?? plan.distTag;
 
       const packages = plan.packages.map(pkg => ({
         name: pkg.name,
         version: pkg.nextVersion,
         path: pkg.path,
+        registries: packageRegistries(plan, pkg),
       }));
+      // --token covers every registry; otherwise each registry gets its own
+      const tokenFor = await createRegistryTokenResolver(repoRoot, config);
+      const hasTokens = !!flags.token || packages.every(p => p.registries.every(r => tokenFor(r)));
 
       discoveryLoader.succeed(`Found ${packages.length} package(s)`);
 
@@ -74,22 +92,24 @@ export default defineCommand({
 
       // 2. Publish — token-first (programmatic), OTP fallback for interactive terminal
       let result: ProgrammaticPublishResult | PublishWithOTPResult;
-      if (token) {
+      if (hasTokens) {
         result = await publishPackagesProgrammatic({
           packages,
           dryRun,
           otp: initialOtp,
-          tag,
+          tag: distTag,
           access: access as 'public' | 'restricted' | undefined,
-          token,
+          token: flags.token,
+          tokenFor,
         });
       } else {
         result = await publishPackagesWithOTP({
           packages,
           dryRun,
           otp: initialOtp,
-          tag,
+          tag: distTag,
           access: access ?? 'public',
+          tokenFor,
           ui: ctx.ui,
           logger: ctx.platform?.logger,
         });
@@ -121,11 +141,23 @@ export default defineCommand({
         const successItems: string[] = [];
         for (const r of result.results.filter((r) => r.success)) {
           successItems.push(`${ctx.ui.symbols.success} ${r.name}@${r.version}`);
-          successItems.push(`  └─ https://www.npmjs.com/package/${r.name}`);
+          if (packages.find(p => p.name === r.name)?.registries[0] === DEFAULT_REGISTRY) {
+            successItems.push(`  └─ https://www.npmjs.com/package/${r.name}`);
+          }
         }
         sections.push({ header: 'Published', items: successItems });
       }
 
+      if (result.registries.length > 1) {
+        sections.push({
+          header: 'Registries',
+          items: result.registries.map(r =>
+            `${r.errors.length > 0 ? ctx.ui.symbols.error : ctx.ui.symbols.success} ${r.registry}: `
+            + `${dryRun ? `${r.skipped.length} checked` : `${r.published.length} published`}`
+            + (r.errors.length > 0 ? `, ${r.errors.length} failed` : '')),
+        });
+      }
+
       if (failed > 0) {
         const failItems = result.results
           .filter((r) => !r.success)
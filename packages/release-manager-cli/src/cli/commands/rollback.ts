@@ -1,51 +1,111 @@
 /**
- * Release rollback command
+ * Release rollback command — thin adapter over core rollbackRelease().
  */
 
 import { defineCommand, type CLIInput, type CommandResult, type PluginContextV3 } from '@kb-labs/sdk';
-import { restoreSnapshot } from '@kb-labs/release-manager-core';
+import { rollbackRelease, listSnapshots, type RollbackResult } from '@kb-labs/release-manager-core';
 import { findRepoRoot } from '../../shared/utils';
 
 interface RollbackFlags {
+  id?: string;
+  list?: boolean;
+  'dry-run'?: boolean;
+  npm?: 'none' | 'deprecate' | 'unpublish';
+  message?: string;
   json?: boolean;
 }
 
 type ReleaseRollbackResult = CommandResult & {
   message?: string;
+  rollback?: RollbackResult;
 };
 
 export default defineCommand({
   id: 'release:rollback',
-  description: 'Rollback last release',
+  description: 'Rollback a release',
 
   handler: {
     async execute(ctx: PluginContextV3, input: CLIInput<RollbackFlags>): Promise<ReleaseRollbackResult> {
       const { flags } = input;
       const cwd = ctx.cwd || process.cwd();
       const repoRoot = await findRepoRoot(cwd);
+      const dryRun = flags['dry-run'] === true;
+
+      if (flags.list) {
+        const snapshots = await listSnapshots(repoRoot);
+        if (flags.json) {
+          ctx.ui?.json?.(snapshots.map(s => ({ id: s.id, ts: s.ts, scope: s.scope, release: s.release })));
+        } else {
+          ctx.ui.sideBox({
+            title: 'Release Snapshots',
+            sections: [{
+              items: snapshots.length > 0
+                ? snapshots.map(s => {
+                  const published = s.release?.published?.length ? ` — ${s.release.published.join(', ')}` : '';
+                  return `${s.id} (${s.scope || 'root'})${published}`;
+                })
+                : ['No snapshots found'],
+            }],
+            status: 'success',
+          });
+        }
+        return { exitCode: 0 };
+      }
+
+      const result = await rollbackRelease({
+        cwd: repoRoot,
+        id: flags.id,
+        dryRun,
+        npm: flags.npm,
+        deprecateMessage: flags.message,
+        logger: ctx.platform?.logger,
+      });
 
-      await restoreSnapshot(repoRoot);
+      const ok = result.errors.length === 0;
+      const message = dryRun
+        ? `Dry-run: ${result.actions.length} rollback step(s) for snapshot ${result.id}`
+        : ok ? `Rolled back snapshot ${result.id}` : `Rollback of snapshot ${result.id} finished with errors`;
 
-      ctx.platform?.logger?.info?.('Release rollback completed');
+      ctx.platform?.logger?.info?.('Release rollback completed', {
+        id: result.id,
+        dryRun,
+        actions: result.actions.length,
+        errors: result.errors.length,
+      });
 
       if (flags.json) {
-        ctx.ui?.json?.({ exitCode: 4, message: 'Rollback completed' });
+        ctx.ui?.json?.({ exitCode: ok ? (dryRun ? 0 : 4) : 1, message, rollback: result });
       } else {
+        const sections: Array<{ header?: string; items: string[] }> = [];
+
+        sections.push({
+          header: dryRun ? 'Would undo' : 'Undone',
+          items: result.actions.length > 0
+            ? result.actions.map(a => {
+              if (dryRun) {return `${ctx.ui.symbols.info} ${a.description}`;}
+              return a.done
+                ? `${ctx.ui.symbols.success} ${a.description}`
+                : `${ctx.ui.symbols.error} ${a.description}`;
+            })
+            : ['Nothing to undo'],
+        });
+
+        if (result.errors.length > 0) {
+          sections.push({
+            header: 'Errors',
+            items: result.errors.map(e => `${ctx.ui.symbols.error} ${e}`),
+          });
+        }
+
         ctx.ui.sideBox({
-          title: 'Rollback',
-          sections: [
-            {
-              items: [
-                `${ctx.ui.symbols.success} ${ctx.ui.colors.success('Release state restored from backup snapshot')}`,
-              ],
-            },
-          ],
-          status: 'success',
+          title: dryRun ? 'Rollback Dry-Run' : 'Rollback',
+          sections,
+          status: ok ? 'success' : 'error',
         });
       }
 
       // Return exit code 4 for rollback executed
-      return { exitCode: 4, message: 'Rollback completed' };
+      return { exitCode: ok ? (dryRun ? 0 : 4) : 1, message, rollback: result };
     },
   },
 });
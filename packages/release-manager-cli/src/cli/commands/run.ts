@@ -1,6 +1,9 @@
 /**
  * Release run command — thin adapter over core runReleasePipeline().
  * Mirror of rest/handlers/run-handler.ts for CLI context.
+ *
+ * Ctrl+C cancels the release (child processes killed, snapshot restored if nothing was
+ * published yet); a second Ctrl+C exits immediately.
  */
 
 import {
@@ -15,10 +18,12 @@ import {
 import {
   runReleasePipeline,
   resolveScopePath,
+  createRegistryTokenResolver,
   type ReleaseConfig,
   type ReleaseReport,
   type PublishablePackage,
   type PublishResult,
+  type PackagePublisher,
 } from '@kb-labs/release-manager-core';
 import { findRepoRoot } from '../../shared/utils';
 import { createChangelogGenerator } from '../../shared/changelog-factory';
@@ -33,6 +38,13 @@ interface RunFlags {
   'skip-checks'?: boolean;
   'skip-build'?: boolean;
   'skip-verify'?: boolean;
+  channel?: string;
+  graduate?: boolean;
+  resume?: boolean;
+  canary?: boolean;
+  concurrency?: number;
+  'fail-fast'?: boolean;
+  'force-build'?: boolean;
   json?: boolean;
 }
 
@@ -64,17 +76,29 @@ export default defineCommand({
       const llm = useLLM();
       const changelog = createChangelogGenerator(config, llm ?? undefined);
 
-      // Token-first publisher (same as REST), OTP fallback for interactive terminal
-      const token = process.env.NPM_TOKEN ?? process.env.NODE_AUTH_TOKEN;
+      // Token-first publisher (same as REST), OTP fallback for interactive terminal —
+      // used unless every registry the packages go to has a token
+      const tokenFor = await createRegistryTokenResolver(repoRoot, config);
       const publisher = {
-        async publish(packages: PublishablePackage[], opts: { dryRun?: boolean; access?: string }): Promise<PublishResult> {
-          if (token) {
-            return publishPackagesProgrammatic({ packages, dryRun: opts.dryRun }) as any;
+        async publish(packages: PublishablePackage[], opts: Parameters<PackagePublisher['publish']>[1]): Promise<PublishResult> {
+          if (packages.every(p => (p.registries ?? [undefined]).every(r => tokenFor(r)))) {
+            return publishPackagesProgrammatic({
+              packages,
+              dryRun: opts.dryRun,
+              tag: opts.tag,
+              tokenFor,
+              onPublished: opts.onPublished,
+              signal: opts.signal,
+            }) as any;
           }
           return publishPackagesWithOTP({
             packages,
             dryRun: opts.dryRun,
+            tag: opts.tag,
+            onPublished: opts.onPublished,
+            signal: opts.signal,
             access: opts.access ?? 'public',
+            tokenFor,
             ui: ctx.ui,
             logger: ctx.platform?.logger,
           }) as any;
@@ -86,6 +110,14 @@ export default defineCommand({
 
       const scopeCwd = await resolveScopePath(repoRoot, flags.scope || 'root');
 
+      const abort = new AbortController();
+      const onSigint = () => {
+        if (abort.signal.aborted) {process.exit(130);}
+        pipelineLoader.update({ text: 'Cancelling release (Ctrl+C again to exit now)...' });
+        abort.abort();
+      };
+      process.on('SIGINT', onSigint);
+
       const result = await runReleasePipeline({
         cwd,
         repoRoot,
@@ -96,14 +128,27 @@ export default defineCommand({
         skipChecks: flags['skip-checks'],
         skipBuild: flags['skip-build'],
         skipVerify: flags['skip-verify'],
+        channel: flags.channel,
+        graduate: flags.graduate,
+        resume: flags.resume,
+        canary: flags.canary,
+        concurrency: flags.concurrency,
+        failFast: flags['fail-fast'],
+        forceBuild: flags['force-build'],
         checks: (flags.scope ? config.scopes?.[flags.scope]?.checks : undefined) ?? config.checks ?? [],
         publisher,
         changelog,
         logger: ctx.platform?.logger,
         onProgress: (_stage, message) => pipelineLoader.update({ text: message }),
-      });
+        signal: abort.signal,
+      }).finally(() => process.off('SIGINT', onSigint));
 
-      pipelineLoader.succeed(result.success ? 'Release completed' : 'Release failed');
+      const cancelled = result.report.stage === 'cancelled';
+      const pendingApproval = result.report.stage === 'pending-approval';
+      const kind = flags.canary ? 'Canary release' : 'Release';
+      pipelineLoader.succeed(result.success ? `${kind} completed`
+        : cancelled ? `${kind} cancelled`
+          : pendingApproval ? `${kind} awaiting approval` : `${kind} failed`);
 
       if (flags.json) {
         ctx.ui?.json?.(result.report);
@@ -113,7 +158,7 @@ export default defineCommand({
 
         if (report.result.published?.length) {
           sections.push({
-            header: 'Published',
+            header: report.canary ? `Published (dist-tag: ${report.plan?.distTag})` : 'Published',
             items: report.result.published.map(p => `${ctx.ui.symbols.success} ${p}`),
           });
         }
@@ -132,6 +177,38 @@ export default defineCommand({
           });
         }
 
+        if (report.result.registries && report.result.registries.length > 1) {
+          sections.push({
+            header: 'Registries',
+            items: report.result.registries.map(r =>
+              `${r.errors.length > 0 ? ctx.ui.symbols.error : ctx.ui.symbols.success} ${r.registry}: `
+              + [
+                r.published.length > 0 && `${r.published.length} published`,
+                r.skipped.length > 0 && `${r.skipped.length} skipped`,
+                r.errors.length > 0 && `${r.errors.length} failed`,
+              ].filter(Boolean).join(', ')),
+          });
+        }
+
+        if (pendingApproval) {
+          const scopeFlag = flags.scope ? ` --scope ${flags.scope}` : '';
+          sections.push({
+            header: 'Approval',
+            items: [
+              `${ctx.ui.symbols.info} Review and approve: kb release approve${scopeFlag}`,
+              `Then publish: kb release run${scopeFlag} --resume`,
+            ],
+          });
+        }
+
+        if (report.result.approval) {
+          const a = report.result.approval;
+          sections.push({
+            header: 'Approval',
+            items: [`${ctx.ui.symbols.success} Approved by ${a.approver} at ${a.approvedAt}`, `Plan hash: ${a.planHash}`],
+          });
+        }
+
         if (report.result.git) {
           const g = report.result.git;
           sections.push({
@@ -144,15 +221,33 @@ export default defineCommand({
           });
         }
 
+        if (report.result.releases?.length) {
+          sections.push({
+            header: 'Provider releases',
+            items: report.result.releases.map(r =>
+              `${ctx.ui.symbols.success} ${r.tag} (${r.action})${r.url ? ` ${r.url}` : ''}`
+              + (r.assets.length ? ` — ${r.assets.length} asset(s)` : '')),
+          });
+        }
+
+        if (report.result.hooks?.length) {
+          sections.push({
+            header: 'Hooks',
+            items: report.result.hooks.map(h =>
+              `${h.ok ? ctx.ui.symbols.success : ctx.ui.symbols.error} ${h.hook}: ${h.target}`
+              + (h.error ? ` — ${h.error.split('\n')[0]}` : '')),
+          });
+        }
+
         ctx.ui.sideBox({
-          title: 'Release',
+          title: flags.canary ? 'Canary Release' : 'Release',
           sections,
-          status: result.success ? 'success' : 'error',
+          status: result.success || pendingApproval ? 'success' : 'error',
           timing: report.result.timingMs,
         });
       }
 
-      return { exitCode: result.success ? 0 : 1, report: result.report };
+      return { exitCode: result.success || pendingApproval ? 0 : cancelled ? 130 : 1, report: result.report };
     },
   },
 });
@@ -4,7 +4,7 @@
  */
 
 import { defineCommand, type CLIInput, type CommandResult, type PluginContextV3, useConfig } from '@kb-labs/sdk';
-import { planRelease, type VersionBump, type ReleaseConfig } from '@kb-labs/release-manager-core';
+import { planRelease, checkApiChanges, type VersionBump, type ReleaseConfig } from '@kb-labs/release-manager-core';
 import { resolveGitRange, parseCommits } from '@kb-labs/release-manager-changelog';
 import { findRepoRoot } from '../../shared/utils';
 
@@ -13,6 +13,7 @@ interface VerifyFlags {
   bump?: 'patch' | 'minor' | 'major' | 'auto';
   'fail-if-empty'?: boolean;
   'fail-on-breaking'?: boolean;
+  'fail-on-api'?: boolean;
   'allow-types'?: string;
   json?: boolean;
 }
@@ -22,6 +23,7 @@ type ReleaseVerifyResult = CommandResult & {
     packages: Array<{ name: string }>;
   };
   breakingDetected?: boolean;
+  apiInsufficient?: string[];
   valid?: boolean;
   issues?: string[];
 };
@@ -42,12 +44,17 @@ export default defineCommand({
         ...(flags.bump && { bump: flags.bump }),
       };
 
+      // The API check runs below, so a bump it doesn't justify is reported as an issue instead of thrown
+      const apiCheck = config.api?.check ?? 'warn';
       const plan = await planRelease({
         cwd: repoRoot,
-        config,
+        config: { ...config, api: { check: 'off' } },
         scope: flags.scope,
         bumpOverride: flags.bump as VersionBump | undefined,
       });
+      const api = apiCheck !== 'off'
+        ? await checkApiChanges(plan.packages, config)
+        : { insufficient: [], warnings: [] };
 
       const hasPackages = plan.packages.length > 0;
       const hasBreaking = plan.packages.some(pkg => {
@@ -70,6 +77,12 @@ export default defineCommand({
         issues.push('Breaking changes detected (--fail-on-breaking)');
       }
 
+      const failOnApi = flags['fail-on-api'] || apiCheck === 'error';
+      if (failOnApi && api.insufficient.length > 0) {
+        isValid = false;
+        issues.push(...api.insufficient.map(message => `API: ${message}`));
+      }
+
       if (flags['allow-types']) {
         const allowedTypes = flags['allow-types'].split(',');
         const range = await resolveGitRange({
@@ -91,7 +104,7 @@ export default defineCommand({
       }
 
       if (flags.json) {
-        ctx.ui?.json?.({ valid: isValid, hasPackages, hasBreaking, issues, plan });
+        ctx.ui?.json?.({ valid: isValid, hasPackages, hasBreaking, apiInsufficient: api.insufficient, issues, plan });
       } else {
         const sections: Array<{ header?: string; items: string[] }> = [
           {
@@ -104,6 +117,22 @@ export default defineCommand({
           },
         ];
 
+        const apiItems = plan.packages
+          .filter(pkg => pkg.api && pkg.api.bump !== 'patch')
+          .map(pkg => `${pkg.name}: ${pkg.bump} planned, API requires ${pkg.api!.bump}`
+            + ` (removed ${pkg.api!.removed.length}, changed ${pkg.api!.changed.length}, added ${pkg.api!.added.length})`);
+        if (apiItems.length > 0) {
+          sections.push({ header: 'API changes', items: apiItems });
+        }
+
+        const warnings = failOnApi ? api.warnings : [...api.warnings, ...api.insufficient];
+        if (warnings.length > 0) {
+          sections.push({
+            header: 'Warnings',
+            items: warnings.map(warning => `${ctx.ui.symbols.info} ${warning}`),
+          });
+        }
+
         if (issues.length > 0) {
           sections.push({
             header: 'Issues',
@@ -124,6 +153,7 @@ export default defineCommand({
         plan,
         issues,
         breakingDetected: hasBreaking,
+        apiInsufficient: api.insufficient,
       };
     },
   },
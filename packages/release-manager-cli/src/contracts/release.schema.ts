@@ -11,6 +11,8 @@ export const ReleasePlanSchema = z
         bump: z.enum(['patch', 'minor', 'major', 'auto'] as const),
         isPublished: z.boolean(),
         dependencies: z.array(z.string()).optional(),
+        devDependencies: z.array(z.string()).optional(),
+        registries: z.array(z.string()).optional(),
       })
     ),
     strategy: z.string(),
@@ -32,7 +34,7 @@ export const ReleaseReportSchema = z
         dryRun: z.boolean().optional(),
       })
       .passthrough(),
-    stage: z.enum(['planning', 'checking', 'versioning', 'publishing', 'verifying', 'rollback'] as const),
+    stage: z.enum(['planning', 'checking', 'versioning', 'approval', 'pending-approval', 'publishing', 'verifying', 'rollback', 'cancelled'] as const),
     plan: ReleasePlanSchema.optional(),
     result: z
       .object({
@@ -45,6 +47,7 @@ export const ReleaseReportSchema = z
         errors: z.array(z.string()).optional(),
       })
       .passthrough(),
+    canary: z.boolean().optional(),
   })
   .passthrough();
 
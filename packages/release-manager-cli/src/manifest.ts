@@ -113,6 +113,8 @@ export const manifest = {
             default: 'auto',
             description: 'Version bump strategy',
           },
+          channel: { type: 'string', description: 'Prerelease channel (alpha, beta, rc)' },
+          graduate: { type: 'boolean', description: 'Promote prereleases to stable (2.1.0-rc.3 → 2.1.0)' },
           json: { type: 'boolean', description: 'Print plan as JSON' },
         }),
 
@@ -120,6 +122,8 @@ export const manifest = {
           'kb release plan',
           'kb release plan --scope packages/*',
           'kb release plan --bump minor',
+          'kb release plan --channel rc',
+          'kb release plan --graduate',
           'kb release plan --json',
         ],
       },
@@ -139,12 +143,24 @@ export const manifest = {
           strict: { type: 'boolean', description: 'Fail on any check failure' },
           'dry-run': { type: 'boolean', description: 'Simulate release without publishing' },
           'skip-checks': { type: 'boolean', description: 'Skip pre-release checks' },
+          channel: { type: 'string', description: 'Prerelease channel (alpha, beta, rc)' },
+          graduate: { type: 'boolean', description: 'Promote prereleases to stable (2.1.0-rc.3 → 2.1.0)' },
+          resume: { type: 'boolean', description: 'Continue the last interrupted (or approved) release from its journal' },
+          canary: { type: 'boolean', description: 'Publish changed packages as <version>-canary.<sha>.<timestamp> under the canary dist-tag, without versioning or tagging' },
+          concurrency: { type: 'number', description: 'Max packages built/verified in parallel' },
+          'force-build': { type: 'boolean', description: 'Rebuild all packages, ignoring unchanged build hashes' },
+          'fail-fast': { type: 'boolean', description: 'Stop build/verify on the first failure instead of collecting all failures' },
           json: { type: 'boolean', description: 'Print result as JSON' },
         }),
 
         examples: [
           'kb release run',
           'kb release run --dry-run',
+          'kb release run --channel beta',
+          'kb release run --resume',
+          'kb release run --canary',
+          'kb release run --concurrency 8 --fail-fast',
+          'kb release run --force-build',
           'kb release run --strict --json',
           'kb release run --scope packages/core',
         ],
@@ -171,6 +187,8 @@ export const manifest = {
             description: 'Package access level',
           },
           token: { type: 'string', description: 'NPM auth token (overrides NPM_TOKEN env)' },
+          channel: { type: 'string', description: 'Prerelease channel (alpha, beta, rc); publishes under its dist-tag' },
+          graduate: { type: 'boolean', description: 'Promote prereleases to stable (2.1.0-rc.3 → 2.1.0)' },
           json: { type: 'boolean', description: 'Output in JSON format' },
         }),
 
@@ -187,17 +205,58 @@ export const manifest = {
       {
         id: 'release:rollback',
         group: 'release',
-        describe: 'Rollback last release',
-        longDescription: 'Restore workspace state from backup snapshot',
+        describe: 'Rollback a release',
+        longDescription: 'Undo a release from its snapshot: delete tags, revert the release commit, restore versions and CHANGELOG.md, optionally deprecate or unpublish on npm',
 
         handler: './cli/commands/rollback.js#default',
         handlerPath: './cli/commands/rollback.js',
 
         flags: defineCommandFlags({
+          id: { type: 'string', description: 'Snapshot id to roll back (default: latest)' },
+          list: { type: 'boolean', description: 'List available snapshots' },
+          'dry-run': { type: 'boolean', description: 'Print what would be undone without changing anything' },
+          npm: {
+            type: 'string',
+            choices: ['none', 'deprecate', 'unpublish'] as const,
+            default: 'none',
+            description: 'How to undo published versions on npm',
+          },
+          message: { type: 'string', description: 'Deprecation message (with --npm deprecate)' },
+          json: { type: 'boolean', description: 'Output in JSON format' },
+        }),
+
+        examples: [
+          'kb release rollback',
+          'kb release rollback --list',
+          'kb release rollback --id 2026-03-01T10-00-00-000Z --dry-run',
+          'kb release rollback --npm deprecate --message "Broken build"',
+          'kb release rollback --json',
+        ],
+      },
+
+      // release:approve - Approve or reject a release waiting for sign-off
+      {
+        id: 'release:approve',
+        group: 'release',
+        describe: 'Approve or reject a release waiting for sign-off',
+        longDescription: 'Show the plan of a release waiting for approval, then approve it by confirming its plan hash or reject it, then resume the release to publish it (or roll it back via its snapshot). You approve as KB_RELEASE_OWNER, your git user or your OS user, and never a release you started',
+
+        handler: './cli/commands/approve.js#default',
+        handlerPath: './cli/commands/approve.js',
+
+        flags: defineCommandFlags({
+          scope: { type: 'string', description: 'Scope of the release waiting for approval (default: root)' },
+          'plan-hash': { type: 'string', description: 'Hash of the plan you reviewed — approves the release' },
+          reject: { type: 'boolean', description: 'Reject the release instead of approving it' },
+          reason: { type: 'string', description: 'Why the release is rejected (with --reject)' },
           json: { type: 'boolean', description: 'Output in JSON format' },
         }),
 
-        examples: ['kb release rollback', 'kb release rollback --json'],
+        examples: [
+          'kb release approve --scope @kb-labs/core',
+          'kb release approve --scope @kb-labs/core --plan-hash sha256-3f2a...',
+          'kb release approve --scope @kb-labs/core --reject --reason "Changelog incomplete"',
+        ],
       },
 
       // release:report - Show last release report
@@ -282,6 +341,7 @@ export const manifest = {
         flags: defineCommandFlags({
           'fail-if-empty': { type: 'boolean', description: 'Fail if no version bumps needed' },
           'fail-on-breaking': { type: 'boolean', description: 'Fail if breaking changes detected' },
+          'fail-on-api': { type: 'boolean', description: 'Fail if a planned bump is lower than the public API changes require' },
           'allow-types': {
             type: 'string',
             description: 'Comma-separated types required (e.g., feat,fix)',
@@ -293,6 +353,7 @@ export const manifest = {
           'kb release verify',
           'kb release verify --fail-if-empty',
           'kb release verify --allow-types feat,fix',
+          'kb release verify --fail-on-api',
         ],
       },
     ],
@@ -402,7 +463,7 @@ export const manifest = {
           zod: '@kb-labs/release-manager-contracts#SaveChangelogResponseSchema',
         },
       },
-      // POST /run - Execute release process
+      // POST /run - Start a release job (responds with the job ID right away)
       {
         method: 'POST',
         path: RELEASE_ROUTES.RUN,
@@ -414,7 +475,43 @@ export const manifest = {
         output: {
           zod: '@kb-labs/release-manager-contracts#RunReleaseResponseSchema',
         },
-        timeoutMs: 300000, // 5 minutes for release execution
+      },
+      // GET /runs/:id - Status of a release or build job
+      {
+        method: 'GET',
+        path: RELEASE_ROUTES.RUN_STATUS,
+        handler: './rest/handlers/run-status-handler.js#default',
+        handlerPath: './rest/handlers/run-status-handler.js',
+        input: {
+          zod: '@kb-labs/release-manager-contracts#RunStatusInputSchema',
+        },
+        output: {
+          zod: '@kb-labs/release-manager-contracts#RunStatusResponseSchema',
+        },
+      },
+      // GET /runs/:id/events - SSE stream of job events (ReleaseJobEventSchema per message)
+      {
+        method: 'GET',
+        path: RELEASE_ROUTES.RUN_EVENTS,
+        handler: './rest/handlers/run-events-handler.js#default',
+        handlerPath: './rest/handlers/run-events-handler.js',
+        input: {
+          zod: '@kb-labs/release-manager-contracts#RunEventsInputSchema',
+        },
+        timeoutMs: 3600000, // Stream stays open for the whole release
+      },
+      // POST /runs/:id/cancel - Cancel a running release or build job
+      {
+        method: 'POST',
+        path: RELEASE_ROUTES.RUN_CANCEL,
+        handler: './rest/handlers/run-cancel-handler.js#default',
+        handlerPath: './rest/handlers/run-cancel-handler.js',
+        input: {
+          zod: '@kb-labs/release-manager-contracts#CancelRunRequestSchema',
+        },
+        output: {
+          zod: '@kb-labs/release-manager-contracts#CancelRunResponseSchema',
+        },
       },
       // GET /report - Get latest release report
       {
@@ -486,7 +583,7 @@ export const manifest = {
           zod: '@kb-labs/release-manager-contracts#PreviewResponseSchema',
         },
       },
-      // POST /build - Trigger package build
+      // POST /build - Start a build job (responds with the job ID right away)
       {
         method: 'POST',
         path: RELEASE_ROUTES.BUILD,
@@ -498,7 +595,6 @@ export const manifest = {
         output: {
           zod: '@kb-labs/release-manager-contracts#BuildResponseSchema',
         },
-        timeoutMs: 300000, // 5 minutes for build
       },
       // GET /checklist - Get unified release checklist status
       {
@@ -534,6 +630,71 @@ export const manifest = {
         },
         timeoutMs: 600000, // 10 minutes - all checks combined
       },
+      // GET /lock - Get the release lock holder for a scope
+      {
+        method: 'GET',
+        path: RELEASE_ROUTES.LOCK,
+        handler: './rest/handlers/lock-handler.js#default',
+        handlerPath: './rest/handlers/lock-handler.js',
+        input: {
+          zod: '@kb-labs/release-manager-contracts#LockInputSchema',
+        },
+        output: {
+          zod: '@kb-labs/release-manager-contracts#LockResponseSchema',
+        },
+      },
+      // DELETE /lock - Force-release a scope's release lock
+      {
+        method: 'DELETE',
+        path: RELEASE_ROUTES.LOCK_RELEASE,
+        handler: './rest/handlers/lock-release-handler.js#default',
+        handlerPath: './rest/handlers/lock-release-handler.js',
+        input: {
+          zod: '@kb-labs/release-manager-contracts#ReleaseLockRequestSchema',
+        },
+        output: {
+          zod: '@kb-labs/release-manager-contracts#ReleaseLockResponseSchema',
+        },
+      },
+      // GET /approval - Pending approval request (or last decision) for a scope
+      {
+        method: 'GET',
+        path: RELEASE_ROUTES.APPROVAL,
+        handler: './rest/handlers/approval-handler.js#default',
+        handlerPath: './rest/handlers/approval-handler.js',
+        input: {
+          zod: '@kb-labs/release-manager-contracts#ApprovalInputSchema',
+        },
+        output: {
+          zod: '@kb-labs/release-manager-contracts#ApprovalResponseSchema',
+        },
+      },
+      // POST /approve - Approve the release waiting for sign-off
+      {
+        method: 'POST',
+        path: RELEASE_ROUTES.APPROVE,
+        handler: './rest/handlers/approve-handler.js#default',
+        handlerPath: './rest/handlers/approve-handler.js',
+        input: {
+          zod: '@kb-labs/release-manager-contracts#ApproveReleaseRequestSchema',
+        },
+        output: {
+          zod: '@kb-labs/release-manager-contracts#ApprovalDecisionResponseSchema',
+        },
+      },
+      // POST /reject - Reject the release waiting for sign-off
+      {
+        method: 'POST',
+        path: RELEASE_ROUTES.REJECT,
+        handler: './rest/handlers/reject-handler.js#default',
+        handlerPath: './rest/handlers/reject-handler.js',
+        input: {
+          zod: '@kb-labs/release-manager-contracts#RejectReleaseRequestSchema',
+        },
+        output: {
+          zod: '@kb-labs/release-manager-contracts#ApprovalDecisionResponseSchema',
+        },
+      },
     ],
   },
 
@@ -0,0 +1,20 @@
+/**
+ * Approval handler - Get the pending approval request (or last decision) for a scope
+ *
+ * Reads: .kb/release/plans/{scope}/current/status.json
+ */
+
+import { defineHandler, findRepoRoot, type RestInput } from '@kb-labs/sdk';
+import type { ApprovalInput, ApprovalResponse } from '@kb-labs/release-manager-contracts';
+import { readReleaseApproval } from '@kb-labs/release-manager-core';
+
+export default defineHandler({
+  async execute(ctx, input: RestInput<ApprovalInput>): Promise<ApprovalResponse> {
+    const scope = input.query?.scope || 'root';
+    const cwd = ctx.cwd ?? process.cwd();
+    const repoRoot = await findRepoRoot(cwd);
+
+    const approval = await readReleaseApproval(repoRoot, scope);
+    return approval ? { scope, approval } : { scope };
+  },
+});
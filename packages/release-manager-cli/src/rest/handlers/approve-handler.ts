@@ -0,0 +1,33 @@
+/**
+ * Approve handler - Sign off on the release waiting for approval
+ *
+ * Writes: .kb/release/plans/{scope}/current/status.json
+ * Resuming the release (POST /run with resume) publishes it. The approval records who approved,
+ * when, and the plan hash they reviewed (refused if the plan changed since).
+ */
+
+import { defineHandler, findRepoRoot, type RestInput } from '@kb-labs/sdk';
+import type { ApproveReleaseRequest, ApprovalDecisionResponse } from '@kb-labs/release-manager-contracts';
+import { approveRelease } from '@kb-labs/release-manager-core';
+
+export default defineHandler({
+  async execute(ctx, input: RestInput<unknown, ApproveReleaseRequest>): Promise<ApprovalDecisionResponse> {
+    const scope = input.body?.scope || 'root';
+    const cwd = ctx.cwd ?? process.cwd();
+    const repoRoot = await findRepoRoot(cwd);
+
+    try {
+      const approval = await approveRelease(repoRoot, scope, {
+        approver: input.body?.approver ?? '',
+        planHash: input.body?.planHash ?? '',
+      });
+      return { success: true, scope, approval, message: `Release for scope "${scope}" approved by ${approval.approval?.approver}` };
+    } catch (error) {
+      return {
+        success: false,
+        scope,
+        message: `Failed to approve release: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+});
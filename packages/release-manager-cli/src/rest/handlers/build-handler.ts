@@ -1,10 +1,12 @@
 /**
- * Build handler — thin adapter over core buildPackages().
+ * Build handler — starts core buildPackages() as a background job.
+ *
+ * Returns the job ID immediately; follow it via GET /runs/:id and GET /runs/:id/events.
  */
 
 import { defineHandler, findRepoRoot, type RestInput } from '@kb-labs/sdk';
-import type { BuildRequest, BuildResponse } from '@kb-labs/release-manager-contracts';
-import { buildPackages } from '@kb-labs/release-manager-core';
+import type { BuildRequest, BuildResponse, BuildResult } from '@kb-labs/release-manager-contracts';
+import { buildPackages, startReleaseJob, type ReleaseJobReporter } from '@kb-labs/release-manager-core';
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { scopeToDir } from '../../shared/utils';
@@ -15,50 +17,81 @@ export default defineHandler({
     const scope = input.body?.scope || 'root';
     const cwd = ctx.cwd ?? process.cwd();
     const repoRoot = await findRepoRoot(cwd);
-    const startTime = Date.now();
 
-    // Read plan
-    const scopeDir = scopeToDir(scope);
-    const planPath = join(repoRoot, '.kb/release/plans', scopeDir, 'current', 'plan.json');
+    const { job } = await startReleaseJob(
+      repoRoot,
+      { kind: 'build', scope, logger: ctx.platform?.logger },
+      reporter => runBuild(repoRoot, scope, input.body, reporter),
+    );
 
-    let plan: { packages: Array<{ name: string; path: string; currentVersion: string; nextVersion: string; bump: any }> };
-    try {
-      plan = JSON.parse(await readFile(planPath, 'utf-8'));
-    } catch {
-      return { scope, success: false, packages: [], builtCount: 0, totalCount: 0, totalDurationMs: Date.now() - startTime };
-    }
+    return { scope, jobId: job.id, status: job.status };
+  },
+});
+
+async function runBuild(
+  repoRoot: string,
+  scope: string,
+  body: BuildRequest | undefined,
+  reporter: ReleaseJobReporter,
+): Promise<BuildResult> {
+  const startTime = Date.now();
 
-    // Build via core
-    const results = await buildPackages(plan.packages as any, { logger: ctx.platform?.logger });
+  // Read plan
+  const scopeDir = scopeToDir(scope);
+  const planPath = join(repoRoot, '.kb/release/plans', scopeDir, 'current', 'plan.json');
 
-    // Copy changelog if exists
-    const changelogPath = join(repoRoot, '.kb/release/plans', scopeDir, 'current', 'changelog.md');
-    let changelogContent: string | undefined;
-    try { changelogContent = await readFile(changelogPath, 'utf-8'); } catch { /* skip */ }
+  let plan: { packages: Array<{ name: string; path: string; currentVersion: string; nextVersion: string; bump: any }> };
+  try {
+    plan = JSON.parse(await readFile(planPath, 'utf-8'));
+  } catch {
+    return { scope, success: false, packages: [], builtCount: 0, totalCount: 0, totalDurationMs: Date.now() - startTime };
+  }
 
-    if (changelogContent) {
-      for (const r of results) {
-        if (!r.success) {break;}
-        const pkg = plan.packages.find(p => p.name === r.name);
-        if (!pkg) {continue;}
-        const pkgPath = pkg.path.startsWith('/') ? pkg.path : join(repoRoot, pkg.path);
-        try {
-          await writeFile(join(pkgPath, 'CHANGELOG.md'), changelogContent, 'utf-8');
-          const distDir = join(pkgPath, 'dist');
-          if (!existsSync(distDir)) {await mkdir(distDir, { recursive: true });}
-          await writeFile(join(distDir, 'CHANGELOG.md'), changelogContent, 'utf-8');
-        } catch { /* skip */ }
-      }
+  // Build via core
+  reporter.stage('versioning', `Building ${plan.packages.length} package(s)...`);
+  const results = await buildPackages(plan.packages as any, {
+    logger: reporter.logger,
+    concurrency: body?.concurrency,
+    failFast: body?.failFast,
+    repoRoot,
+    force: body?.force,
+    signal: reporter.signal,
+    onProgress: (name, result) => reporter.package({
+      package: name,
+      phase: 'build',
+      status: !result.success ? 'failed' : result.cached ? 'skipped' : 'succeeded',
+      message: result.error,
+      durationMs: result.durationMs,
+    }),
+  });
+
+  // Copy changelog if exists
+  const changelogPath = join(repoRoot, '.kb/release/plans', scopeDir, 'current', 'changelog.md');
+  let changelogContent: string | undefined;
+  try { changelogContent = await readFile(changelogPath, 'utf-8'); } catch { /* skip */ }
+
+  if (changelogContent) {
+    for (const r of results) {
+      if (!r.success) {continue;}
+      const pkg = plan.packages.find(p => p.name === r.name);
+      if (!pkg) {continue;}
+      const pkgPath = pkg.path.startsWith('/') ? pkg.path : join(repoRoot, pkg.path);
+      try {
+        await writeFile(join(pkgPath, 'CHANGELOG.md'), changelogContent, 'utf-8');
+        const distDir = join(pkgPath, 'dist');
+        if (!existsSync(distDir)) {await mkdir(distDir, { recursive: true });}
+        await writeFile(join(distDir, 'CHANGELOG.md'), changelogContent, 'utf-8');
+      } catch { /* skip */ }
     }
+  }
 
-    const builtCount = results.filter(r => r.success).length;
-    return {
-      scope,
-      success: results.every(r => r.success),
-      packages: results.map(r => ({ name: r.name, success: r.success, error: r.error, durationMs: r.durationMs })),
-      builtCount,
-      totalCount: plan.packages.length,
-      totalDurationMs: Date.now() - startTime,
-    };
-  },
-});
+  const builtCount = results.filter(r => r.success).length;
+  return {
+    scope,
+    success: results.every(r => r.success),
+    packages: results.map(r => ({ name: r.name, success: r.success, error: r.error, durationMs: r.durationMs, cached: r.cached })),
+    builtCount,
+    totalCount: plan.packages.length,
+    totalDurationMs: Date.now() - startTime,
+  };
+}
@@ -1,7 +1,7 @@
 /**
  * Checklist handler - Get unified release checklist status
  *
- * Returns status of all release steps: plan, changelog, build, preview
+ * Returns status of all release steps: plan, changelog, build, preview, registry
  */
 
 import { defineHandler, findRepoRoot, type RestInput } from '@kb-labs/sdk';
@@ -12,6 +12,7 @@ import type {
 } from '@kb-labs/release-manager-contracts';
 import { readFile, access, readdir, stat } from 'node:fs/promises';
 import { scopeToDir } from '../../shared/utils';
+import { getPlanRegistryStatus } from '../../shared/registry-status';
 import { join } from 'node:path';
 
 interface ChecklistInput {
@@ -153,13 +154,43 @@ export default defineHandler({
       ? 'npm token configured'
       : 'Set NPM_TOKEN (granular access token) in environment';
 
+    // Check planned versions against the registry
+    let registryItem: ReleaseChecklist['registry'];
+
+    if (plan && plan.packages.length > 0) {
+      const registry = await getPlanRegistryStatus(plan, repoRoot);
+      const publishedCount = registry.published.length;
+      const driftCount = registry.drift.length;
+
+      if (publishedCount > 0) {
+        registryItem = {
+          status: 'error',
+          message: `Already published: ${registry.published.join(', ')}`,
+          publishedCount,
+          driftCount,
+        };
+      } else if (!registry.reachable) {
+        registryItem = { status: 'warning', message: `Could not reach ${registry.registry}` };
+      } else if (driftCount > 0) {
+        registryItem = {
+          status: 'warning',
+          message: `${driftCount} package${driftCount !== 1 ? 's' : ''} behind registry latest — re-plan recommended`,
+          publishedCount,
+          driftCount,
+        };
+      } else {
+        registryItem = { status: 'ready', message: 'Planned versions are free on the registry', publishedCount, driftCount };
+      }
+    }
+
     // Determine if can publish
     const canPublish =
       planStatus === 'ready' &&
       changelogStatus === 'ready' &&
       buildStatus === 'ready' &&
       previewStatus === 'ready' &&
-      npmStatus === 'ready';
+      npmStatus === 'ready' &&
+      registryItem?.status !== 'error';
 
     return {
       scope,
@@ -190,6 +221,7 @@ export default defineHandler({
         status: npmStatus,
         message: npmMessage,
       },
+      registry: registryItem,
       canPublish,
     };
   },
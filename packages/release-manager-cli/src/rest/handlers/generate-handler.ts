@@ -32,12 +32,17 @@ export default defineHandler({
     const config: ReleaseConfig = {
       bump: bump as VersionBump,
       strategy: 'semver',
-      registry: 'https://registry.npmjs.org',
+      registry: releaseConfig?.registry,
+      registries: releaseConfig?.registries,
+      registryTokens: releaseConfig?.registryTokens,
       rollback: { enabled: true },
       versioningStrategy: releaseConfig?.versioningStrategy,
       packages: releaseConfig?.packages,
       scopes: releaseConfig?.scopes,
       publish: releaseConfig?.publish,
+      channel: releaseConfig?.channel,
+      channels: releaseConfig?.channels,
+      api: releaseConfig?.api,
     };
 
     // Use core planner to discover packages and compute versions.
@@ -47,6 +52,8 @@ export default defineHandler({
       config,
       scope: scope !== 'root' ? scope : undefined,
       bumpOverride: bump as VersionBump | undefined,
+      channel: input.body?.channel,
+      graduate: input.body?.graduate,
     });
 
     let tokensUsed = 0;
@@ -59,7 +66,11 @@ export default defineHandler({
       let reason = 'Based on ' + pkg.bump + ' bump';
       let pkgConfidence = 0.7;
 
-      if (useLLM && ctx.platform?.llm) {
+      if (pkg.rippleFrom?.length) {
+        // Ripple bumps are mechanical — no need to ask the LLM
+        reason = 'Dependency update (ripple from ' + pkg.rippleFrom.join(', ') + ')';
+        pkgConfidence = 1;
+      } else if (useLLM && ctx.platform?.llm) {
         // Get git commits for this package to provide context to LLM
         const gitAnalysis = await analyzeGitCommits(ctx, pkg.path);
 
@@ -104,6 +115,10 @@ export default defineHandler({
       strategy: corePlan.strategy,
       registry: corePlan.registry,
       rollbackEnabled: corePlan.rollbackEnabled,
+      channel: corePlan.channel,
+      distTag: corePlan.distTag,
+      graduate: corePlan.graduate,
+      warnings: corePlan.warnings,
       createdAt: new Date().toISOString(),
     };
 
@@ -12,11 +12,13 @@ import { dirToScope, scopeToDir } from '../../shared/utils';
 
 export interface HistoryInput {
   scope?: string; // Optional scope filter
+  canary?: string; // Optional filter: 'true' = canaries only, 'false' = real releases only
 }
 
 export default defineHandler({
   async execute(ctx, input: RestInput<HistoryInput>): Promise<HistoryResponse> {
     const filterScope = input.query?.scope; // Optional scope filter
+    const filterCanary = input.query?.canary === undefined ? undefined : input.query.canary === 'true';
     const cwd = ctx.cwd ?? process.cwd();
     const repoRoot = await findRepoRoot(cwd);
     const historyDir = join(repoRoot, '.kb/release/history');
@@ -53,6 +55,10 @@ export default defineHandler({
           try {
             const reportRaw = await readFile(reportPath, 'utf-8');
             const report = JSON.parse(reportRaw);
+            const canary = report.canary === true;
+            if (filterCanary !== undefined && canary !== filterCanary) {
+              continue;
+            }
 
             releases.push({
               id: releaseId,
@@ -63,6 +69,7 @@ export default defineHandler({
               success: report.result?.ok || false,
               stage: report.stage,
               error: report.result?.errors?.[0],
+              ...(canary && { canary }),
             });
           } catch (error) {
             // Skip invalid/incomplete releases
@@ -0,0 +1,20 @@
+/**
+ * Lock handler - Get the release lock holder for a scope
+ *
+ * Reads: .kb/release/locks/{scope}.lock
+ */
+
+import { defineHandler, findRepoRoot, type RestInput } from '@kb-labs/sdk';
+import type { LockInput, LockResponse } from '@kb-labs/release-manager-contracts';
+import { readReleaseLock } from '@kb-labs/release-manager-core';
+
+export default defineHandler({
+  async execute(ctx, input: RestInput<LockInput>): Promise<LockResponse> {
+    const scope = input.query?.scope || 'root';
+    const cwd = ctx.cwd ?? process.cwd();
+    const repoRoot = await findRepoRoot(cwd);
+
+    const lock = await readReleaseLock(repoRoot, scope);
+    return lock ? { scope, locked: true, lock } : { scope, locked: false };
+  },
+});
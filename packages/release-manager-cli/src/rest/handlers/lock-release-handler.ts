@@ -0,0 +1,47 @@
+/**
+ * Lock release handler - Force-release a scope's release lock
+ *
+ * Deletes: .kb/release/locks/{scope}.lock
+ * Meant for locks left behind by a crashed run; a live release's lock is released only
+ * with `force`, since the run would then continue unprotected.
+ */
+
+import { defineHandler, findRepoRoot, type RestInput } from '@kb-labs/sdk';
+import type { ReleaseLockRequest, ReleaseLockResponse } from '@kb-labs/release-manager-contracts';
+import { forceReleaseLock, readReleaseLock } from '@kb-labs/release-manager-core';
+
+export default defineHandler({
+  async execute(ctx, input: RestInput<ReleaseLockRequest, unknown>): Promise<ReleaseLockResponse> {
+    const scope = input.query?.scope || 'root';
+    const cwd = ctx.cwd ?? process.cwd();
+    const repoRoot = await findRepoRoot(cwd);
+
+    try {
+      const lock = await readReleaseLock(repoRoot, scope);
+      if (!lock) {
+        return { success: true, scope, message: `Scope "${scope}" is not locked` };
+      }
+      if (!lock.stale && !input.query?.force) {
+        return {
+          success: false,
+          scope,
+          message: `Release in progress by ${lock.owner} (pid ${lock.pid} on ${lock.host}) since ${lock.acquiredAt} — pass force=true to release it anyway`,
+        };
+      }
+
+      const released = await forceReleaseLock(repoRoot, scope);
+      return {
+        success: true,
+        scope,
+        ...(released && { released }),
+        message: `Release lock for scope "${scope}" has been released`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        scope,
+        message: `Failed to release lock: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+});
@@ -2,7 +2,8 @@
  * Preview handler - Get list of files that will be published for each package
  *
  * Uses npm-packlist to determine what files will be included in the tarball
- * Also checks build status (dist/ folder existence)
+ * Also checks build status (dist/ existence and whether sources changed since the last build)
+ * and the size change since each package's last release in history
  */
 
 import { defineHandler, findRepoRoot, type RestInput } from '@kb-labs/sdk';
@@ -14,23 +15,28 @@ import type {
   ReleasePlan,
   BuildStatus,
 } from '@kb-labs/release-manager-contracts';
-import { readFile, stat, access } from 'node:fs/promises';
+import { readFile, stat } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { computeBuildHashes, getBuildFreshness, readReleasedSizes } from '@kb-labs/release-manager-core';
 import { scopeToDir } from '../../shared/utils';
 import { join } from 'node:path';
 import packlist from 'npm-packlist';
 
 /**
- * Check if dist folder exists and determine build status
+ * Determine build status from dist/ and the build hash recorded by the last core build
  */
-async function checkBuildStatus(packagePath: string): Promise<BuildStatus> {
-  const distPath = join(packagePath, 'dist');
-  try {
-    await access(distPath);
-    // TODO: Could check if dist is older than src for 'outdated' status
-    return 'ready';
-  } catch {
-    return 'not_built';
+async function checkBuildStatus(
+  repoRoot: string,
+  packageName: string,
+  packagePath: string,
+  hash: string | undefined,
+): Promise<BuildStatus> {
+  if (!hash) {
+    // Hash couldn't be computed — fall back to dist/ existence
+    return existsSync(join(packagePath, 'dist')) ? 'outdated' : 'not_built';
   }
+  const freshness = await getBuildFreshness(repoRoot, packageName, packagePath, hash);
+  return freshness === 'fresh' ? 'ready' : freshness;
 }
 
 /**
@@ -75,12 +81,17 @@ export default defineHandler({
     let totalFiles = 0;
     let allBuilt = true;
 
+    // pkg.path can be absolute or relative
+    const resolvePath = (path: string) => path.startsWith('/') ? path : join(repoRoot, path);
+    const hashes = await computeBuildHashes(plan.packages.map(p => ({ ...p, path: resolvePath(p.path) })))
+      .catch(() => new Map<string, string>());
+    const releasedSizes = await readReleasedSizes(repoRoot);
+
     for (const pkg of plan.packages) {
-      // pkg.path can be absolute or relative
-      const packagePath = pkg.path.startsWith('/') ? pkg.path : join(repoRoot, pkg.path);
+      const packagePath = resolvePath(pkg.path);
 
       // Check build status
-      const buildStatus = await checkBuildStatus(packagePath);
+      const buildStatus = await checkBuildStatus(repoRoot, pkg.name, packagePath, hashes.get(pkg.name));
       if (buildStatus !== 'ready') {
         allBuilt = false;
       }
@@ -131,6 +142,7 @@ export default defineHandler({
         );
 
         const packageTotalSize = filesWithSize.reduce((sum: number, f: PackageFile) => sum + f.size, 0);
+        const released = releasedSizes.get(pkg.name);
 
         packages.push({
           name: pkg.name,
@@ -141,6 +153,10 @@ export default defineHandler({
           expectedFiles: expectedFiles.length > 0 ? expectedFiles : undefined,
           totalSize: packageTotalSize,
           fileCount: files.length,
+          ...(released && {
+            previousRelease: { version: released.version, totalSize: released.unpacked, fileCount: released.files },
+            sizeDelta: packageTotalSize - released.unpacked,
+          }),
         });
 
         totalSize += packageTotalSize;
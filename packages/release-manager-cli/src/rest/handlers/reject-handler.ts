@@ -0,0 +1,32 @@
+/**
+ * Reject handler - Reject the release waiting for approval
+ *
+ * Writes: .kb/release/plans/{scope}/current/status.json
+ * Resuming the release (POST /run with resume) rolls it back via its snapshot.
+ */
+
+import { defineHandler, findRepoRoot, type RestInput } from '@kb-labs/sdk';
+import type { RejectReleaseRequest, ApprovalDecisionResponse } from '@kb-labs/release-manager-contracts';
+import { rejectRelease } from '@kb-labs/release-manager-core';
+
+export default defineHandler({
+  async execute(ctx, input: RestInput<unknown, RejectReleaseRequest>): Promise<ApprovalDecisionResponse> {
+    const scope = input.body?.scope || 'root';
+    const cwd = ctx.cwd ?? process.cwd();
+    const repoRoot = await findRepoRoot(cwd);
+
+    try {
+      const approval = await rejectRelease(repoRoot, scope, {
+        rejectedBy: input.body?.rejectedBy ?? '',
+        reason: input.body?.reason,
+      });
+      return { success: true, scope, approval, message: `Release for scope "${scope}" rejected by ${approval.rejection?.rejectedBy}` };
+    } catch (error) {
+      return {
+        success: false,
+        scope,
+        message: `Failed to reject release: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+});
@@ -0,0 +1,28 @@
+/**
+ * Run cancel handler - Cancel a running release or build job
+ *
+ * The job stops at its next step boundary (running child processes are killed), restores
+ * the snapshot if nothing was published yet and finishes with status "cancelled".
+ */
+
+import { defineHandler, findRepoRoot, type RestInput } from '@kb-labs/sdk';
+import type { CancelRunResponse } from '@kb-labs/release-manager-contracts';
+import { cancelReleaseJob } from '@kb-labs/release-manager-core';
+
+export interface RunCancelParams {
+  id: string; // Job ID returned by POST /run or POST /build
+}
+
+export default defineHandler({
+  async execute(ctx, input: RestInput<unknown, unknown, RunCancelParams>): Promise<CancelRunResponse> {
+    const { id } = input.params!;
+    const cwd = ctx.cwd ?? process.cwd();
+    const repoRoot = await findRepoRoot(cwd);
+
+    const job = await cancelReleaseJob<CancelRunResponse['result']>(repoRoot, id);
+    if (!job) {
+      throw new Error(`Job "${id}" not found`);
+    }
+    return job;
+  },
+});
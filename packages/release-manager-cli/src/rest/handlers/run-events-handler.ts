@@ -0,0 +1,35 @@
+/**
+ * Run events handler - Stream a job's events as Server-Sent Events
+ *
+ * Tails: .kb/release/runs/{id}/events.jsonl
+ * Each message has `id: <seq>`, `event: stage | package | log | done` and the event as JSON data;
+ * the stream ends after the `done` event. Reconnect with ?after=<last id> to resume.
+ */
+
+import { defineHandler, findRepoRoot, type RestInput } from '@kb-labs/sdk';
+import type { RunEventsInput } from '@kb-labs/release-manager-contracts';
+import { createReleaseJobEventStream, readReleaseJob } from '@kb-labs/release-manager-core';
+
+export interface RunEventsParams {
+  id: string; // Job ID returned by POST /run or POST /build
+}
+
+export default defineHandler({
+  async execute(ctx, input: RestInput<RunEventsInput, unknown, RunEventsParams>): Promise<Response> {
+    const { id } = input.params!;
+    const cwd = ctx.cwd ?? process.cwd();
+    const repoRoot = await findRepoRoot(cwd);
+
+    if (!await readReleaseJob(repoRoot, id)) {
+      throw new Error(`Job "${id}" not found`);
+    }
+
+    return new Response(createReleaseJobEventStream(repoRoot, id, { after: Number(input.query?.after ?? 0) }), {
+      headers: {
+        'content-type': 'text/event-stream',
+        'cache-control': 'no-cache',
+        connection: 'keep-alive',
+      },
+    });
+  },
+});
@@ -1,18 +1,26 @@
 /**
- * Run release handler — thin adapter over core runReleasePipeline().
+ * Run release handler — starts core runReleasePipeline() as a background job.
+ *
+ * Returns the job ID immediately; follow it via GET /runs/:id and GET /runs/:id/events,
+ * cancel it via POST /runs/:id/cancel.
  */
 
 import { defineHandler, findRepoRoot, type RestInput, useConfig, useLLM } from '@kb-labs/sdk';
 import type {
   RunReleaseRequest,
   RunReleaseResponse,
+  RunReleaseResult,
 } from '@kb-labs/release-manager-contracts';
 import {
   runReleasePipeline,
+  startReleaseJob,
+  readReleaseLock,
   resolveScopePath,
+  createRegistryTokenResolver,
   type ReleaseConfig,
   type PublishablePackage,
   type PublishResult,
+  type PackagePublisher,
 } from '@kb-labs/release-manager-core';
 import { publishPackagesProgrammatic } from '../../shared/publish-programmatic';
 import { createChangelogGenerator } from '../../shared/changelog-factory';
@@ -23,6 +31,10 @@ export default defineHandler({
     const dryRun = input.body?.dryRun ?? false;
     const skipChecks = input.body?.skipChecks ?? false;
     const otp = input.body?.otp;
+    const channel = input.body?.channel;
+    const graduate = input.body?.graduate ?? false;
+    const resume = input.body?.resume ?? false;
+    const canary = input.body?.canary ?? false;
     const cwd = ctx.cwd ?? process.cwd();
     const repoRoot = await findRepoRoot(cwd);
     const scopeCwd = await resolveScopePath(repoRoot, scope);
@@ -33,45 +45,71 @@ export default defineHandler({
     const llm = useLLM();
     const changelog = createChangelogGenerator(config, llm ?? undefined);
 
-    // Programmatic publisher (token-based, no interactive OTP)
+    // Programmatic publisher (token-based, no interactive OTP), with a token per registry
+    const tokenFor = await createRegistryTokenResolver(repoRoot, config);
     const publisher = {
-      async publish(packages: PublishablePackage[], opts: { dryRun?: boolean }): Promise<PublishResult> {
+      async publish(packages: PublishablePackage[], opts: Parameters<PackagePublisher['publish']>[1]): Promise<PublishResult> {
         return publishPackagesProgrammatic({
           packages,
           dryRun: opts.dryRun,
+          tag: opts.tag,
+          tokenFor,
+          onPublished: opts.onPublished,
+          signal: opts.signal,
           otp,
         });
       },
     };
 
-    const result = await runReleasePipeline({
-      cwd,
-      repoRoot,
-      scopeCwd,
-      scope,
-      config,
-      dryRun,
-      skipChecks,
-      checks: config.scopes?.[scope]?.checks ?? config.checks ?? [],
-      publisher,
-      changelog,
-      logger: ctx.platform?.logger,
-    });
+    // Fail the request itself (not just the job) when the scope is already being released
+    const lock = dryRun ? null : await readReleaseLock(repoRoot, scope);
+    if (lock && !lock.stale) {
+      throw new Error(`Release in progress for scope "${scope}" by ${lock.owner} (pid ${lock.pid} on ${lock.host}) since ${lock.acquiredAt}`);
+    }
+
+    const { job } = await startReleaseJob(repoRoot, { kind: 'run', scope, logger: ctx.platform?.logger }, async (reporter): Promise<RunReleaseResult> => {
+      const result = await runReleasePipeline({
+        cwd,
+        repoRoot,
+        scopeCwd,
+        scope,
+        config,
+        dryRun,
+        skipChecks,
+        channel,
+        graduate,
+        resume,
+        canary,
+        concurrency: input.body?.concurrency,
+        failFast: input.body?.failFast,
+        forceBuild: input.body?.forceBuild,
+        checks: config.scopes?.[scope]?.checks ?? config.checks ?? [],
+        publisher,
+        changelog,
+        logger: reporter.logger,
+        onProgress: reporter.stage,
+        onPackageEvent: reporter.package,
+        signal: reporter.signal,
+      });
 
-    // Track analytics
-    await ctx.platform?.analytics?.track?.(result.success ? 'release.completed' : 'release.failed', {
-      scope,
-      packagesCount: result.plan.packages.length,
-      publishedCount: result.report.result.published?.length ?? 0,
-      dryRun,
-      durationMs: result.report.result.timingMs,
+      // Track analytics
+      await ctx.platform?.analytics?.track?.(result.success ? 'release.completed' : 'release.failed', {
+        scope,
+        packagesCount: result.plan.packages.length,
+        publishedCount: result.report.result.published?.length ?? 0,
+        dryRun,
+        canary,
+        durationMs: result.report.result.timingMs,
+      });
+
+      return {
+        scope,
+        report: result.report as any,
+        success: result.success,
+        errors: result.report.result.errors,
+      };
     });
 
-    return {
-      scope,
-      report: result.report as any,
-      success: result.success,
-      errors: result.report.result.errors,
-    };
+    return { scope, jobId: job.id, status: job.status };
   },
 });
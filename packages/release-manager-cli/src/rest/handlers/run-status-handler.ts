@@ -0,0 +1,27 @@
+/**
+ * Run status handler - Get the status of a release or build job
+ *
+ * Reads: .kb/release/runs/{id}/job.json
+ */
+
+import { defineHandler, findRepoRoot, type RestInput } from '@kb-labs/sdk';
+import type { RunStatusResponse } from '@kb-labs/release-manager-contracts';
+import { readReleaseJob } from '@kb-labs/release-manager-core';
+
+export interface RunStatusParams {
+  id: string; // Job ID returned by POST /run or POST /build
+}
+
+export default defineHandler({
+  async execute(ctx, input: RestInput<unknown, unknown, RunStatusParams>): Promise<RunStatusResponse> {
+    const { id } = input.params!;
+    const cwd = ctx.cwd ?? process.cwd();
+    const repoRoot = await findRepoRoot(cwd);
+
+    const job = await readReleaseJob<RunStatusResponse['result']>(repoRoot, id);
+    if (!job) {
+      throw new Error(`Job "${id}" not found`);
+    }
+    return job;
+  },
+});
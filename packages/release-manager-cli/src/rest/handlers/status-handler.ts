@@ -6,14 +6,17 @@
  * - .kb/release/plans/{scope}/current/status.json
  * - .kb/release/plans/{scope}/current/changelog.md
  * - .kb/release/history/ for last release
+ * - the registry, for planned versions that are already published
  */
 
 import { defineHandler, findRepoRoot, type RestInput } from '@kb-labs/sdk';
-import type { StatusResponse, ReleasePlan, ReleaseScopeInfo, StatusInput } from '@kb-labs/release-manager-contracts';
+import type { StatusResponse, ReleasePlan, ReleaseScopeInfo, StatusInput, RegistryStatus } from '@kb-labs/release-manager-contracts';
 import { readFile, access } from 'node:fs/promises';
 import { join } from 'node:path';
 import { glob } from 'glob';
+import { readReleaseApproval } from '@kb-labs/release-manager-core';
 import { scopeToDir } from '../../shared/utils';
+import { getPlanRegistryStatus } from '../../shared/registry-status';
 
 export default defineHandler({
   async execute(ctx, input: RestInput<StatusInput>): Promise<StatusResponse> {
@@ -28,15 +31,15 @@ export default defineHandler({
       const scopeDirName = scopeToDir(scope);
       const scopeDir = join(repoRoot, '.kb/release/plans', scopeDirName, 'current');
       const planPath = join(scopeDir, 'plan.json');
-      const statusPath = join(scopeDir, 'status.json');
       const changelogPath = join(scopeDir, 'changelog.md');
 
       // Check if plan exists
       const hasPlan = await fileExists(planPath);
       const hasChangelog = await fileExists(changelogPath);
 
-      let planStatus: 'idle' | 'ready' | 'running' | 'completed' | 'failed' = 'idle';
+      let planStatus: StatusResponse['planStatus'] = 'idle';
       let packagesInPlan = 0;
+      let registry: RegistryStatus | undefined;
 
       if (hasPlan) {
         try {
@@ -45,8 +48,9 @@ export default defineHandler({
 
           packagesInPlan = plan.packages.length;
 
-          // Determine status based on plan metadata
-          if (plan.packages.some(pkg => pkg.isPublished)) {
+          // Completed means every planned version is live on the registry
+          registry = packagesInPlan > 0 ? await getPlanRegistryStatus(plan, repoRoot) : undefined;
+          if (registry && registry.published.length === packagesInPlan) {
             planStatus = 'completed';
           } else if (packagesInPlan > 0) {
             planStatus = 'ready';
@@ -56,6 +60,12 @@ export default defineHandler({
         }
       }
 
+      // A verified release held for sign-off (status.json)
+      const approval = await readReleaseApproval(repoRoot, scope);
+      if (approval?.status === 'pending-approval') {
+        planStatus = 'pending-approval';
+      }
+
       // Check for last release in history
       let lastReleaseAt: string | undefined;
       let hasReport = false;
@@ -84,6 +94,7 @@ export default defineHandler({
         planStatus,
         packagesInPlan,
         lastReleaseAt,
+        registry,
       };
   },
 });
@@ -42,6 +42,8 @@ export function createChangelogGenerator(config: ReleaseConfig, llm?: any): Chan
             autoUnshallow: config.git?.autoUnshallow,
             requireSignedTags: config.git?.requireSignedTags,
             baseUrl: config.git?.baseUrl ?? undefined,
+            tagFormat: config.git?.tagFormat,
+            lockstepTagFormat: config.git?.lockstepTagFormat,
           },
           platform: llm ? { llm } : undefined,
         });
@@ -1,25 +1,39 @@
 /**
  * Programmatic npm publishing for REST handlers (non-interactive context)
  *
- * Uses `npm publish` CLI via spawn with NODE_AUTH_TOKEN env variable.
+ * Uses `npm publish` CLI via spawn with the token in the NODE_AUTH_TOKEN env variable.
  * This is the correct approach for granular access tokens (classic tokens
- * were revoked by npm in December 2025).
+ * were revoked by npm in December 2025). The token is bound to the registry it was
+ * resolved for (`--//host/path/:_authToken=${NODE_AUTH_TOKEN}`, expanded by npm), so it
+ * works without an .npmrc entry for that registry and never appears in the command line.
  *
- * Token resolution order:
+ * Token resolution order, per registry:
  * 1. options.token (explicit override)
- * 2. NPM_TOKEN env variable
- * 3. NODE_AUTH_TOKEN env variable
+ * 2. options.tokenFor(registry) (see resolveRegistryToken in core)
+ * 3. NPM_TOKEN env variable
+ * 4. NODE_AUTH_TOKEN env variable
+ *
+ * Packages with several registries are published to the primary (first) one, then mirrored
+ * to the rest; a package that failed on its primary registry is not mirrored.
  */
 
 import { spawn } from 'node:child_process';
-import { readFileSync, writeFileSync, readdirSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
 import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { packPackage, assertTarballIntegrity, registryAuthKey, type RegistryPublishResult } from '@kb-labs/release-manager-core';
 import { useLogger } from '@kb-labs/sdk';
 
 export interface PackageToPublish {
   name: string;
   version: string;
   path: string;
+  /** Registries to publish to, primary first (`registry` option when absent) */
+  registries?: string[];
+  /** Verified tarball to publish as-is (packed from `path` when absent) */
+  tarball?: string;
+  /** Integrity recorded at verification — publishing is refused on mismatch */
+  integrity?: string;
 }
 
 export interface ProgrammaticPublishOptions {
@@ -30,6 +44,12 @@ export interface ProgrammaticPublishOptions {
   access?: 'public' | 'restricted';
   registry?: string;
   token?: string;
+  /** Token for a registry (undefined = npm's default registry); falls back to NPM_TOKEN / NODE_AUTH_TOKEN */
+  tokenFor?: (registry: string | undefined) => string | undefined;
+  /** Called after each successful (non-dry-run) publish, once per registry */
+  onPublished?: (pkg: PackageToPublish, registry?: string) => void | Promise<void>;
+  /** Once aborted, no further package is published (a publish under way still finishes) */
+  signal?: AbortSignal;
 }
 
 export interface PublishResult {
@@ -45,21 +65,27 @@ export interface ProgrammaticPublishResult {
   failed: string[];
   skipped: string[];
   errors: string[];
+  /** Outcomes per registry */
+  registries: RegistryPublishResult[];
 }
 
 /**
- * Resolve npm auth token from options or environment
+ * Resolve npm auth token for a registry from options or environment
  */
-function resolveToken(token?: string): string | undefined {
-  return token ?? process.env.NPM_TOKEN ?? process.env.NODE_AUTH_TOKEN;
+function resolveToken(options: ProgrammaticPublishOptions, registry: string | undefined): string | undefined {
+  if (options.token) {return options.token;}
+  if (options.tokenFor) {return options.tokenFor(registry);}
+  return process.env.NPM_TOKEN ?? process.env.NODE_AUTH_TOKEN;
 }
 
 /**
- * Publish a single package using npm CLI
- * Passes auth token via NODE_AUTH_TOKEN env (recommended for granular tokens)
+ * Publish a single package tarball using npm CLI
+ * Passes auth token via NODE_AUTH_TOKEN env (recommended for granular tokens), bound to `registry`
  */
 function publishSinglePackage(options: {
   packagePath: string;
+  /** Tarball to publish; npm still runs in packagePath so its .npmrc applies */
+  tarball: string;
   token: string | undefined;
   otp?: string;
   dryRun?: boolean;
@@ -67,10 +93,10 @@ function publishSinglePackage(options: {
   access?: string;
   registry?: string;
 }): Promise<void> {
-  const { packagePath, token, otp, dryRun, tag, access, registry } = options;
+  const { packagePath, tarball, token, otp, dryRun, tag, access, registry } = options;
 
   return new Promise((resolve, reject) => {
-    const args = ['publish'];
+    const args = ['publish', JSON.stringify(tarball)];
 
     if (dryRun) {
       args.push('--dry-run');
@@ -92,10 +118,15 @@ function publishSinglePackage(options: {
       args.push(`--otp=${otp}`);
     }
 
-    // Pass token via env — this is the correct way for granular tokens
+    // Pass token via env — this is the correct way for granular tokens. Without a registry
+    // npm's default one is used, and the .npmrc has to map it to ${NODE_AUTH_TOKEN}
     const env: NodeJS.ProcessEnv = { ...process.env };
     if (token) {
       env['NODE_AUTH_TOKEN'] = token;
+      if (registry) {
+        // Single-quoted so the shell leaves the reference for npm to expand
+        args.push(`'--${registryAuthKey(registry)}=\${NODE_AUTH_TOKEN}'`);
+      }
     }
 
     const child = spawn('npm', args, {
@@ -137,131 +168,86 @@ function publishSinglePackage(options: {
 export async function publishPackagesProgrammatic(
   options: ProgrammaticPublishOptions
 ): Promise<ProgrammaticPublishResult> {
-  const { packages, dryRun, otp, tag, access, registry } = options;
+  const { packages, dryRun, otp, tag, access } = options;
   const logger = useLogger();
 
-  const token = resolveToken(options.token);
-
-  if (!token && !dryRun) {
-    const error = 'No npm token found. Set NPM_TOKEN (or NODE_AUTH_TOKEN) in environment.';
-    logger.error(error);
-    return {
-      results: [],
-      published: [],
-      failed: packages.map((p) => `${p.name}@${p.version}`),
-      skipped: [],
-      errors: [error],
-    };
-  }
-
   const results: PublishResult[] = [];
+  const byRegistry = new Map<string, RegistryPublishResult>();
+  const registryResult = (registry: string | undefined): RegistryPublishResult => {
+    const key = registry ?? 'default';
+    if (!byRegistry.has(key)) {byRegistry.set(key, { registry: key, published: [], skipped: [], errors: [] });}
+    return byRegistry.get(key)!;
+  };
 
-  // Build version map from all packages in this release for link: → ^version replacement
-  const versionMap = new Map(packages.map(p => [p.name, p.version]));
+  // Local dependencies on packages in this release are packed as ^version
+  const versions = Object.fromEntries(packages.map(p => [p.name, p.version]));
 
   for (const pkg of packages) {
-    logger.info(`Publishing ${pkg.name}@${pkg.version}`, { path: pkg.path, dryRun });
+    if (options.signal?.aborted) {break;}
+    const spec = `${pkg.name}@${pkg.version}`;
+    const registries = pkg.registries ?? [options.registry];
+    logger.info(`Publishing ${spec}`, { path: pkg.path, dryRun, registries });
 
-    // Replace link: deps with real versions before publish, restore after
-    const pkgJsonPath = join(pkg.path, 'package.json');
-    const originalPkgJson = readFileSync(pkgJsonPath, 'utf-8');
-    let restored = false;
+    // Publish the verified tarball as-is, or pack one exactly the way verification does
+    const packDir = pkg.tarball ? undefined : await mkdtemp(join(tmpdir(), 'kb-publish-'));
+    const failures: string[] = [];
 
     try {
-      const pkgJson = JSON.parse(originalPkgJson);
-      let modified = false;
-
-      for (const section of ['dependencies', 'peerDependencies'] as const) {
-        const deps = pkgJson[section];
-        if (!deps) {continue;}
-        for (const [depName, depValue] of Object.entries(deps)) {
-          if (typeof depValue !== 'string') {continue;}
-          const val = depValue as string;
-
-          if (val.startsWith('link:')) {
-            // Cross-repo link: → ^version from plan or linked package.json
-            const planVersion = versionMap.get(depName);
-            if (planVersion) {
-              deps[depName] = `^${planVersion}`;
-              modified = true;
-            } else {
-              try {
-                const linkPath = val.replace('link:', '');
-                const linkedPkg = JSON.parse(readFileSync(join(pkg.path, linkPath, 'package.json'), 'utf-8'));
-                deps[depName] = `^${linkedPkg.version}`;
-                modified = true;
-              } catch {
-                deps[depName] = '*';
-                modified = true;
-              }
-            }
-          } else if (val.startsWith('workspace:')) {
-            // Intra-repo workspace:* → ^version (pnpm does this automatically, but npm doesn't)
-            const planVersion = versionMap.get(depName);
-            if (planVersion) {
-              deps[depName] = val === 'workspace:*' ? `^${planVersion}` : val.replace('workspace:', '');
-              modified = true;
-            } else {
-              // Not in plan — resolve from current version in monorepo
-              try {
-                // Find the package in the same repo by scanning packages/*/package.json
-                const repoRoot = join(pkg.path, '..');
-                const candidates = readdirSync(repoRoot, { withFileTypes: true })
-                  .filter(d => d.isDirectory())
-                  .map(d => join(repoRoot, d.name, 'package.json'));
-                for (const candidate of candidates) {
-                  try {
-                    const cPkg = JSON.parse(readFileSync(candidate, 'utf-8'));
-                    if (cPkg.name === depName) {
-                      deps[depName] = `^${cPkg.version}`;
-                      modified = true;
-                      break;
-                    }
-                  } catch { /* skip */ }
-                }
-              } catch {
-                deps[depName] = '*';
-                modified = true;
-              }
-            }
-          }
+      let tarball: string;
+      try {
+        if (pkg.tarball && pkg.integrity) {
+          await assertTarballIntegrity(pkg.tarball, pkg.integrity);
         }
+        tarball = pkg.tarball ?? await packPackage(pkg.path, packDir!, { versions });
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`Failed to publish ${spec}`, undefined, { error: message });
+        failures.push(message);
+        continue;
       }
 
-      if (modified) {
-        writeFileSync(pkgJsonPath, JSON.stringify(pkgJson, null, 2) + '\n');
-        logger.info(`Replaced link: deps for ${pkg.name}`);
-      }
+      for (const [i, registry] of registries.entries()) {
+        try {
+          const token = resolveToken(options, registry);
+          if (!token && !dryRun) {
+            throw new Error(`No npm token found${registry ? ` for ${registry}` : ''}. Set NPM_TOKEN (or NODE_AUTH_TOKEN) in environment.`);
+          }
 
-      await publishSinglePackage({
-        packagePath: pkg.path,
-        token,
-        otp,
-        dryRun,
-        tag,
-        access: access ?? 'public',
-        registry,
-      });
-
-      results.push({ name: pkg.name, version: pkg.version, success: true });
-      logger.info(`Published ${pkg.name}@${pkg.version}`);
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : String(error);
-
-      logger.error(`Failed to publish ${pkg.name}@${pkg.version}`, undefined, { error: message });
-
-      results.push({
-        name: pkg.name,
-        version: pkg.version,
-        success: false,
-        error: message,
-      });
-    } finally {
-      // Always restore original package.json
-      if (!restored) {
-        writeFileSync(pkgJsonPath, originalPkgJson);
-        restored = true;
+          await publishSinglePackage({
+            packagePath: pkg.path,
+            tarball,
+            token,
+            otp,
+            dryRun,
+            tag,
+            access: access ?? 'public',
+            registry,
+          });
+
+        } catch (error: unknown) {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.error(`Failed to publish ${spec}${registry ? ` to ${registry}` : ''}`, undefined, { error: message });
+          registryResult(registry).errors.push(`${pkg.name}: ${message}`);
+          failures.push(registries.length > 1 ? `${message} (${registry})` : message);
+          // Mirrors never get ahead of the primary registry
+          if (i === 0) {break;}
+          continue;
+        }
+
+        if (dryRun) {
+          registryResult(registry).skipped.push(`${spec} (dry-run)`);
+        } else {
+          registryResult(registry).published.push(spec);
+          logger.info(`Published ${spec}${registry ? ` to ${registry}` : ''}`);
+          // Let the caller journal progress as soon as the package is live
+          await options.onPublished?.(pkg, registry);
+        }
       }
+    } finally {
+      if (packDir) {await rm(packDir, { recursive: true, force: true });}
+      results.push(failures.length > 0
+        ? { name: pkg.name, version: pkg.version, success: false, error: failures.join('\n') }
+        : { name: pkg.name, version: pkg.version, success: true });
     }
   }
 
@@ -275,5 +261,6 @@ export async function publishPackagesProgrammatic(
     failed,
     skipped: dryRun ? packages.map((p) => `${p.name}@${p.version} (dry-run)`) : [],
     errors,
+    registries: [...byRegistry.values()],
   };
 }
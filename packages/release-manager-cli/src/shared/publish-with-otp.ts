@@ -1,11 +1,19 @@
 /**
  * Shared publishing logic with interactive OTP support
  * Used by both `release:run` and `release publish` commands
+ *
+ * Packages with several registries are published to the primary (first) one, then mirrored
+ * to the rest; a package that failed on its primary registry is not mirrored.
+ *
+ * A registry with a token (`tokenFor`) is published to with it, bound to that registry like
+ * the programmatic publisher does; the others use the npm login, with OTP prompts.
  */
 
 import { spawn } from 'node:child_process';
-import { readFileSync, writeFileSync, readdirSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
 import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { packPackage, assertTarballIntegrity, registryAuthKey, type RegistryPublishResult } from '@kb-labs/release-manager-core';
 import * as readline from 'node:readline/promises';
 import { useLoader } from '@kb-labs/sdk';
 
@@ -13,6 +21,12 @@ export interface PackageToPublish {
   name: string;
   version: string;
   path: string;
+  /** Registries to publish to, primary first (npm's default registry when absent) */
+  registries?: string[];
+  /** Verified tarball to publish as-is (packed from `path` when absent) */
+  tarball?: string;
+  /** Integrity recorded at verification — publishing is refused on mismatch */
+  integrity?: string;
 }
 
 export interface PublishWithOTPOptions {
@@ -21,6 +35,12 @@ export interface PublishWithOTPOptions {
   otp?: string;
   tag?: string;
   access?: string;
+  /** Token for a registry (undefined = npm's default registry); registries without one use the npm login */
+  tokenFor?: (registry: string | undefined) => string | undefined;
+  /** Called after each successful (non-dry-run) publish, once per registry */
+  onPublished?: (pkg: PackageToPublish, registry?: string) => void | Promise<void>;
+  /** Once aborted, no further package is published (a publish under way still finishes) */
+  signal?: AbortSignal;
   ui: {
     write?: (text: string) => void;
   };
@@ -45,6 +65,8 @@ export interface PublishWithOTPResult {
   failed: string[];
   skipped: string[];
   errors: string[];
+  /** Outcomes per registry */
+  registries: RegistryPublishResult[];
 }
 
 /**
@@ -57,184 +79,159 @@ export async function publishPackagesWithOTP(
   let otp = options.otp;
 
   const results: PublishResult[] = [];
+  const byRegistry = new Map<string, RegistryPublishResult>();
+  const registryResult = (registry: string | undefined): RegistryPublishResult => {
+    const key = registry ?? 'default';
+    if (!byRegistry.has(key)) {byRegistry.set(key, { registry: key, published: [], skipped: [], errors: [] });}
+    return byRegistry.get(key)!;
+  };
 
-  // Build version map from all packages in this release for link: → ^version replacement
-  const versionMap = new Map(packages.map(p => [p.name, p.version]));
+  // Local dependencies on packages in this release are packed as ^version
+  const versions = Object.fromEntries(packages.map(p => [p.name, p.version]));
 
   for (const pkg of packages) {
+    if (options.signal?.aborted) {break;}
     logger?.info('Publishing package', { name: pkg.name, version: pkg.version });
 
-    // Replace link: deps with real versions before publish, restore after
-    const pkgJsonPath = join(pkg.path, 'package.json');
-    const originalPkgJson = readFileSync(pkgJsonPath, 'utf-8');
-    let restored = false;
+    // Publish the verified tarball as-is, or pack one exactly the way verification does
+    const packDir = pkg.tarball ? undefined : await mkdtemp(join(tmpdir(), 'kb-publish-'));
 
     try {
-      const pkgJson = JSON.parse(originalPkgJson);
-      let modified = false;
-
-      for (const section of ['dependencies', 'peerDependencies'] as const) {
-        const deps = pkgJson[section];
-        if (!deps) {continue;}
-        for (const [depName, depValue] of Object.entries(deps)) {
-          if (typeof depValue !== 'string') {continue;}
-          const val = depValue as string;
-
-          if (val.startsWith('link:')) {
-            const planVersion = versionMap.get(depName);
-            if (planVersion) {
-              deps[depName] = `^${planVersion}`;
-              modified = true;
-            } else {
-              try {
-                const linkPath = val.replace('link:', '');
-                const linkedPkg = JSON.parse(readFileSync(join(pkg.path, linkPath, 'package.json'), 'utf-8'));
-                deps[depName] = `^${linkedPkg.version}`;
-                modified = true;
-              } catch {
-                deps[depName] = '*';
-                modified = true;
-              }
-            }
-          } else if (val.startsWith('workspace:')) {
-            const planVersion = versionMap.get(depName);
-            if (planVersion) {
-              deps[depName] = val === 'workspace:*' ? `^${planVersion}` : val.replace('workspace:', '');
-              modified = true;
-            } else {
-              try {
-                const repoRoot = join(pkg.path, '..');
-                const candidates = readdirSync(repoRoot, { withFileTypes: true })
-                  .filter(d => d.isDirectory())
-                  .map(d => join(repoRoot, d.name, 'package.json'));
-                for (const candidate of candidates) {
-                  try {
-                    const cPkg = JSON.parse(readFileSync(candidate, 'utf-8'));
-                    if (cPkg.name === depName) {
-                      deps[depName] = `^${cPkg.version}`;
-                      modified = true;
-                      break;
-                    }
-                  } catch { /* skip */ }
-                }
-              } catch {
-                deps[depName] = '*';
-                modified = true;
-              }
-            }
-          }
+      let tarball: string;
+      try {
+        if (pkg.tarball && pkg.integrity) {
+          await assertTarballIntegrity(pkg.tarball, pkg.integrity);
         }
+        tarball = pkg.tarball ?? await packPackage(pkg.path, packDir!, { versions });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger?.error('Package publish failed', { name: pkg.name, version: pkg.version, error: errorMessage });
+        results.push({ name: pkg.name, version: pkg.version, success: false, error: errorMessage });
+        continue;
       }
 
-      if (modified) {
-        writeFileSync(pkgJsonPath, JSON.stringify(pkgJson, null, 2) + '\n');
-        logger?.info(`Replaced link: deps for ${pkg.name}`);
-      }
-
-      const loader = useLoader(`Publishing ${pkg.name}@${pkg.version}...`);
-      loader.start();
-
-      let attempts = 0;
-      const maxAttempts = 3;
-      let published = false;
-
-      while (!published && attempts < maxAttempts) {
-        attempts++;
-
-        try {
-          await publishSinglePackage({
-            packagePath: pkg.path,
-            otp,
-            dryRun,
-            tag,
-            access,
-          });
-
-          published = true;
-          results.push({ name: pkg.name, version: pkg.version, success: true });
-
-          const successMsg = dryRun
-            ? `Dry-run succeeded for ${pkg.name}@${pkg.version}`
-            : `Published ${pkg.name}@${pkg.version}`;
-
-          loader.succeed(successMsg);
-          logger?.info('Package published successfully', {
-            name: pkg.name,
-            version: pkg.version,
-            dryRun,
-          });
-        } catch (error: any) {
-          const errorMessage = error.message || String(error);
-
-          // Check if OTP is required
-          if (errorMessage.includes('EOTP') || errorMessage.includes('one-time password')) {
-            if (attempts < maxAttempts) {
-              loader.succeed(`🔐 2FA required for ${pkg.name}`);
-              logger?.info('OTP required for publishing', {
-                name: pkg.name,
-                attempt: attempts,
-              });
+      const registries = pkg.registries ?? [undefined];
+      const failures: string[] = [];
+
+      for (const [i, registry] of registries.entries()) {
+        const target = `${pkg.name}@${pkg.version}${registries.length > 1 ? ` to ${registry}` : ''}`;
+        const loader = useLoader(`Publishing ${target}...`);
+        loader.start();
+
+        let attempts = 0;
+        const maxAttempts = 3;
+        let published = false;
+        let failure: string | undefined;
+
+        while (!published && attempts < maxAttempts) {
+          attempts++;
+
+          try {
+            await publishSinglePackage({
+              packagePath: pkg.path,
+              tarball,
+              token: options.tokenFor?.(registry),
+              otp,
+              dryRun,
+              tag,
+              access,
+              registry,
+            });
 
-              const rl = readline.createInterface({
-                input: process.stdin,
-                output: process.stdout,
-              });
+            published = true;
 
-              try {
-                otp = await rl.question('   Enter OTP code: ');
-                rl.close();
+            const successMsg = dryRun
+              ? `Dry-run succeeded for ${target}`
+              : `Published ${target}`;
 
-                if (!otp || otp.trim().length !== 6) {
-                  ui.write?.('   ⚠️  Invalid OTP code (must be 6 digits)\n');
-                  logger?.warn('Invalid OTP code provided', { length: otp?.trim().length });
-                  otp = undefined;
-                  continue;
+            loader.succeed(successMsg);
+            logger?.info('Package published successfully', {
+              name: pkg.name,
+              version: pkg.version,
+              registry,
+              dryRun,
+            });
+          } catch (error: any) {
+            const errorMessage = error.message || String(error);
+
+            // Check if OTP is required
+            if (errorMessage.includes('EOTP') || errorMessage.includes('one-time password')) {
+              if (attempts < maxAttempts) {
+                loader.succeed(`🔐 2FA required for ${pkg.name}`);
+                logger?.info('OTP required for publishing', {
+                  name: pkg.name,
+                  attempt: attempts,
+                });
+
+                const rl = readline.createInterface({
+                  input: process.stdin,
+                  output: process.stdout,
+                });
+
+                try {
+                  otp = await rl.question('   Enter OTP code: ');
+                  rl.close();
+
+                  if (!otp || otp.trim().length !== 6) {
+                    ui.write?.('   ⚠️  Invalid OTP code (must be 6 digits)\n');
+                    logger?.warn('Invalid OTP code provided', { length: otp?.trim().length });
+                    otp = undefined;
+                    continue;
+                  }
+
+                  loader.update({ text: `Publishing ${target} with OTP...` });
+                  loader.start();
+                  logger?.debug('Retrying with OTP');
+                } catch (e) {
+                  rl.close();
+                  throw e;
                 }
-
-                loader.update({ text: `Publishing ${pkg.name}@${pkg.version} with OTP...` });
-                loader.start();
-                logger?.debug('Retrying with OTP');
-              } catch (e) {
-                rl.close();
-                throw e;
+              } else {
+                loader.fail('Max OTP attempts reached');
+                logger?.error('Max OTP attempts reached', {
+                  name: pkg.name,
+                  attempts: maxAttempts,
+                });
+                failure = 'Max OTP attempts reached';
+                break;
               }
             } else {
-              loader.fail('Max OTP attempts reached');
-              logger?.error('Max OTP attempts reached', {
-                name: pkg.name,
-                attempts: maxAttempts,
-              });
-              results.push({
+              loader.fail(`Failed: ${errorMessage}`);
+              logger?.error('Package publish failed', {
                 name: pkg.name,
                 version: pkg.version,
-                success: false,
-                error: 'Max OTP attempts reached',
+                registry,
+                error: errorMessage,
               });
+              failure = errorMessage;
               break;
             }
-          } else {
-            loader.fail(`Failed: ${errorMessage}`);
-            logger?.error('Package publish failed', {
-              name: pkg.name,
-              version: pkg.version,
-              error: errorMessage,
-            });
-            results.push({
-              name: pkg.name,
-              version: pkg.version,
-              success: false,
-              error: errorMessage,
-            });
-            break;
           }
         }
+
+        if (!published) {
+          failure ??= 'Max OTP attempts reached';
+          registryResult(registry).errors.push(`${pkg.name}: ${failure}`);
+          failures.push(registries.length > 1 ? `${failure} (${registry})` : failure);
+          // Mirrors never get ahead of the primary registry
+          if (i === 0) {break;}
+          continue;
+        }
+
+        if (dryRun) {
+          registryResult(registry).skipped.push(`${pkg.name}@${pkg.version} (dry-run)`);
+        } else {
+          registryResult(registry).published.push(`${pkg.name}@${pkg.version}`);
+          // Let the caller journal progress as soon as the package is live
+          await options.onPublished?.(pkg, registry);
+        }
       }
+
+      results.push(failures.length > 0
+        ? { name: pkg.name, version: pkg.version, success: false, error: failures.join('\n') }
+        : { name: pkg.name, version: pkg.version, success: true });
     } finally {
-      // Always restore original package.json
-      if (!restored) {
-        writeFileSync(pkgJsonPath, originalPkgJson);
-        restored = true;
-      }
+      if (packDir) {await rm(packDir, { recursive: true, force: true });}
     }
   }
 
@@ -255,25 +252,30 @@ export async function publishPackagesWithOTP(
     failed,
     skipped: dryRun ? packages.map((p) => `${p.name}@${p.version} (dry-run)`) : [],
     errors,
+    registries: [...byRegistry.values()],
   };
 }
 
 interface PublishSingleOptions {
   packagePath: string;
+  /** Tarball to publish; npm still runs in packagePath so its .npmrc applies */
+  tarball: string;
+  token?: string;
   otp?: string;
   dryRun?: boolean;
   tag?: string;
   access?: string;
+  registry?: string;
 }
 
 /**
- * Publish a single package using npm CLI
+ * Publish a single package tarball using npm CLI
  */
 function publishSinglePackage(options: PublishSingleOptions): Promise<void> {
-  const { packagePath, otp, dryRun, tag, access } = options;
+  const { packagePath, tarball, token, otp, dryRun, tag, access, registry } = options;
 
   return new Promise((resolve, reject) => {
-    const args = ['publish'];
+    const args = ['publish', JSON.stringify(tarball)];
 
     if (dryRun) {
       args.push('--dry-run');
@@ -291,10 +293,24 @@ function publishSinglePackage(options: PublishSingleOptions): Promise<void> {
       args.push(`--access=${access}`);
     }
 
+    if (registry) {
+      args.push(`--registry=${registry}`);
+    }
+
+    const env: NodeJS.ProcessEnv = { ...process.env };
+    if (token) {
+      env['NODE_AUTH_TOKEN'] = token;
+      if (registry) {
+        // Single-quoted so the shell leaves the reference for npm to expand
+        args.push(`'--${registryAuthKey(registry)}=\${NODE_AUTH_TOKEN}'`);
+      }
+    }
+
     const child = spawn('npm', args, {
       cwd: packagePath,
       stdio: ['inherit', 'pipe', 'pipe'],
       shell: true,
+      env,
     });
 
     let stdout = '';
@@ -0,0 +1,43 @@
+/**
+ * Compare a saved release plan against the live registry (REST status/checklist).
+ *
+ * Each package is checked on its primary registry, with the same token resolution as
+ * publishing: the registry's .npmrc `_authToken`, then NPM_TOKEN / NODE_AUTH_TOKEN for the
+ * plan's default registry.
+ */
+
+import {
+  createRegistryClient,
+  inspectRegistryState,
+  loadNpmrc,
+  resolveRegistryToken,
+} from '@kb-labs/release-manager-core';
+import type { ReleasePlan, RegistryStatus } from '@kb-labs/release-manager-contracts';
+
+export async function getPlanRegistryStatus(plan: ReleasePlan, repoRoot: string): Promise<RegistryStatus> {
+  const npmrc = await loadNpmrc([repoRoot]);
+  const byRegistry = new Map<string, ReleasePlan['packages']>();
+  for (const pkg of plan.packages) {
+    const registry = pkg.registries?.[0] ?? plan.registry;
+    byRegistry.set(registry, [...(byRegistry.get(registry) ?? []), pkg]);
+  }
+
+  const states = (await Promise.all([...byRegistry].map(([registry, packages]) => {
+    const client = createRegistryClient({
+      registry,
+      token: resolveRegistryToken(registry, { config: { registry: plan.registry }, npmrc }),
+    });
+    return inspectRegistryState(packages, client);
+  }))).flat();
+
+  return {
+    registry: plan.registry,
+    reachable: states.every(s => !s.error),
+    published: states
+      .filter(s => s.nextVersionTaken || (s.nextVersion === s.currentVersion && s.isPublished))
+      .map(s => `${s.name}@${s.nextVersion}`),
+    drift: states
+      .filter(s => s.drift && s.registryLatest)
+      .map(s => ({ name: s.name, currentVersion: s.currentVersion, registryLatest: s.registryLatest! })),
+  };
+}
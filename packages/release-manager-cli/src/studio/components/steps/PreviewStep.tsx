@@ -19,7 +19,8 @@ import {
   UIIcon,
 } from '@kb-labs/sdk/studio';
 import { useData, useMutateData } from '@kb-labs/sdk/studio';
-import type { PreviewResponse, BuildRequest, BuildResponse } from '@kb-labs/release-manager-contracts';
+import type { PreviewResponse, BuildRequest, BuildResponse, BuildResult } from '@kb-labs/release-manager-contracts';
+import { useReleaseJob } from '../../hooks/useReleaseJob';
 
 function formatBytes(bytes: number): string {
   if (bytes === 0) { return '0 B'; }
@@ -55,10 +56,26 @@ interface PreviewStepProps {
 export function PreviewStep({ selectedScope, onPreviewReady }: PreviewStepProps) {
   const previewUrl = selectedScope ? `/v1/plugins/release/preview?scope=${encodeURIComponent(selectedScope)}` : '';
   const { data: previewData, isLoading, error, refetch } = useData<PreviewResponse>(previewUrl);
-  const { mutateAsync: triggerBuild, isLoading: buildLoading } = useMutateData<BuildRequest, BuildResponse>(
+  const { mutateAsync: triggerBuild, isLoading: buildRequestLoading } = useMutateData<BuildRequest, BuildResponse>(
     '/v1/plugins/release/build',
     'POST',
   );
+  const [buildJobId, setBuildJobId] = React.useState<string | null>(null);
+  const { job: buildJob, running: buildRunning } = useReleaseJob(buildJobId);
+  const buildLoading = buildRequestLoading || buildRunning;
+
+  // The build runs as a background job — report once it finishes
+  React.useEffect(() => {
+    if (!buildJob || buildJob.status === 'running') { return; }
+    setBuildJobId(null);
+    const result = buildJob.result as BuildResult | undefined;
+    if (buildJob.status === 'completed' && result?.success) {
+      UIMessage.success(`Build completed: ${result.builtCount}/${result.totalCount} packages`);
+      refetch();
+    } else {
+      UIMessage.error(buildJob.error ? `Build failed: ${buildJob.error}` : 'Build failed');
+    }
+  }, [buildJob, refetch]);
 
   const needsBuild = previewData?.packages.some((pkg) => pkg.buildStatus !== 'ready') ?? false;
   const allBuilt = previewData?.allBuilt ?? false;
@@ -73,13 +90,8 @@ export function PreviewStep({ selectedScope, onPreviewReady }: PreviewStepProps)
 
   const handleBuild = async () => {
     try {
-      const result = await triggerBuild({ scope: selectedScope });
-      if (result.success) {
-        UIMessage.success(`Build completed: ${result.builtCount}/${result.totalCount} packages`);
-        refetch();
-      } else {
-        UIMessage.error('Build failed');
-      }
+      const { jobId } = await triggerBuild({ scope: selectedScope });
+      setBuildJobId(jobId);
     } catch (err) {
       UIMessage.error(`Build failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
@@ -27,9 +27,11 @@ import type {
   RunChecksResponse,
   RunReleaseRequest,
   RunReleaseResponse,
+  RunReleaseResult,
   ResetPlanRequest,
   ResetPlanResponse,
 } from '@kb-labs/release-manager-contracts';
+import { useReleaseJob } from '../../hooks/useReleaseJob';
 
 type CheckStatus = 'pending' | 'running' | 'success' | 'error';
 
@@ -56,6 +58,7 @@ export function ReleaseStep({ selectedScope, onReleaseComplete }: ReleaseStepPro
   const [releaseStarted, setReleaseStarted] = React.useState(false);
   const [releaseComplete, setReleaseComplete] = React.useState(false);
   const [releaseError, setReleaseError] = React.useState<string | null>(null);
+  const [releaseJobId, setReleaseJobId] = React.useState<string | null>(null);
 
   const planUrl = selectedScope ? `/v1/plugins/release/plan?scope=${encodeURIComponent(selectedScope)}` : '';
   const checksUrl = selectedScope ? `/v1/plugins/release/checks?scope=${encodeURIComponent(selectedScope)}` : '';
@@ -66,6 +69,24 @@ export function ReleaseStep({ selectedScope, onReleaseComplete }: ReleaseStepPro
   const { mutateAsync: runChecks } = useMutateData<RunChecksRequest, RunChecksResponse>('/v1/plugins/release/checks/run', 'POST');
   const { mutateAsync: runRelease, isLoading: releaseLoading } = useMutateData<RunReleaseRequest, RunReleaseResponse>('/v1/plugins/release/run', 'POST');
   const { mutateAsync: rollback, isLoading: rollbackLoading } = useMutateData<ResetPlanRequest, ResetPlanResponse>('/v1/plugins/release/plan', 'DELETE');
+  const { job: releaseJob, running: releaseRunning } = useReleaseJob(releaseJobId);
+
+  // The release runs as a background job — settle the UI once it finishes
+  React.useEffect(() => {
+    if (!releaseJob || releaseJob.status === 'running') { return; }
+    setReleaseJobId(null);
+    const result = releaseJob.result as RunReleaseResult | undefined;
+    if (releaseJob.status === 'completed' && result?.success) {
+      setReleaseComplete(true);
+      UIMessage.success('Release published successfully!');
+      onReleaseComplete();
+    } else {
+      const errorMessage = result?.errors?.join(', ') || releaseJob.error || 'Unknown publish error';
+      setReleaseError(errorMessage);
+      setReleaseStarted(false);
+      UIMessage.error(`Release failed: ${errorMessage}`);
+    }
+  }, [releaseJob, onReleaseComplete]);
 
   React.useEffect(() => {
     if (checksConfig && !checksComplete && !checksRunning && checks.length === 0) {
@@ -119,17 +140,8 @@ export function ReleaseStep({ selectedScope, onReleaseComplete }: ReleaseStepPro
     setReleaseStarted(true);
     setReleaseError(null);
     try {
-      const result = await runRelease({ scope: selectedScope, dryRun: false, otp });
-      if (result.success) {
-        setReleaseComplete(true);
-        UIMessage.success('Release published successfully!');
-        onReleaseComplete();
-      } else {
-        const errorMessage = result.errors?.join(', ') || 'Unknown publish error';
-        setReleaseError(errorMessage);
-        setReleaseStarted(false);
-        UIMessage.error(`Release failed: ${errorMessage}`);
-      }
+      const { jobId } = await runRelease({ scope: selectedScope, dryRun: false, otp });
+      setReleaseJobId(jobId);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       setReleaseError(errorMessage);
@@ -346,12 +358,17 @@ export function ReleaseStep({ selectedScope, onReleaseComplete }: ReleaseStepPro
             size="large"
             icon={<UIIcon name="RocketOutlined" />}
             onClick={() => void handleRunRelease()}
-            loading={releaseLoading}
+            loading={releaseLoading || releaseRunning}
             disabled={!allChecksPassed || releaseStarted}
             block
           >
             Publish to npm
           </UIButton>
+          {releaseRunning && releaseJob?.message && (
+            <UITypographyText type="secondary" style={{ textAlign: 'center', display: 'block', fontSize: 12 }}>
+              {releaseJob.message}
+            </UITypographyText>
+          )}
           <UITypographyText type="secondary" style={{ textAlign: 'center', display: 'block', fontSize: 12 }}>
             This action will publish packages to the npm registry
           </UITypographyText>
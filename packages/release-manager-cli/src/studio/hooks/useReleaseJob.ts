@@ -0,0 +1,25 @@
+/**
+ * Follow a release/build job started via POST /run or POST /build by polling GET /runs/:id.
+ */
+
+import * as React from 'react';
+import { useData } from '@kb-labs/sdk/studio';
+import type { RunStatusResponse } from '@kb-labs/release-manager-contracts';
+
+const POLL_INTERVAL_MS = 1000;
+
+export function useReleaseJob(jobId: string | null) {
+  const jobUrl = jobId ? `/v1/plugins/release/runs/${encodeURIComponent(jobId)}` : '';
+  const { data, refetch } = useData<RunStatusResponse>(jobUrl);
+
+  const job = jobId && data?.id === jobId ? data : undefined;
+  const running = !!jobId && (!job || job.status === 'running');
+
+  React.useEffect(() => {
+    if (!running) { return; }
+    const timer = setInterval(() => { void refetch(); }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [running, refetch]);
+
+  return { job, running };
+}
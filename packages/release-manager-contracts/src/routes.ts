@@ -54,9 +54,18 @@ export const RELEASE_ROUTES = {
   CHANGELOG_SAVE: '/changelog/save',
 
   // === Release ===
-  /** POST /run - Execute full release process */
+  /** POST /run - Start a release job (returns its ID immediately) */
   RUN: '/run',
 
+  /** GET /runs/:id - Status of a release or build job */
+  RUN_STATUS: '/runs/:id',
+
+  /** GET /runs/:id/events - SSE stream of a job's stages, package events and log lines */
+  RUN_EVENTS: '/runs/:id/events',
+
+  /** POST /runs/:id/cancel - Cancel a running release or build job */
+  RUN_CANCEL: '/runs/:id/cancel',
+
   /** POST /publish - Publish packages to npm */
   PUBLISH: '/publish',
 
@@ -68,7 +77,7 @@ export const RELEASE_ROUTES = {
   REPORT: '/report',
 
   // === History ===
-  /** GET /history - List all releases (supports ?scope= filter) */
+  /** GET /history - List all releases (supports ?scope= and ?canary=true|false filters) */
   HISTORY: '/history',
 
   /** GET /history/:scope/:id/report - Get specific release report */
@@ -85,7 +94,7 @@ export const RELEASE_ROUTES = {
   GIT_TIMELINE: '/git-timeline',
 
   // === Build ===
-  /** POST /build - Trigger package build */
+  /** POST /build - Start a build job (returns its ID immediately) */
   BUILD: '/build',
 
   // === Checklist ===
@@ -97,6 +106,20 @@ export const RELEASE_ROUTES = {
   CHECKS: '/checks',
   /** POST /checks/run - Run pre-release checks from kb.config.json */
   CHECKS_RUN: '/checks/run',
+
+  // === Release Lock ===
+  /** GET /lock - Get the release lock holder for a scope */
+  LOCK: '/lock',
+  /** DELETE /lock - Force-release a scope's lock (left by a crashed run) */
+  LOCK_RELEASE: '/lock',
+
+  // === Release Approval ===
+  /** GET /approval - Pending approval request (or last decision) for a scope */
+  APPROVAL: '/approval',
+  /** POST /approve - Approve the pending release so it continues to publish */
+  APPROVE: '/approve',
+  /** POST /reject - Reject the pending release (rolled back via its snapshot) */
+  REJECT: '/reject',
 } as const;
 
 /**
@@ -115,6 +138,9 @@ export const RELEASE_FULL_ROUTES = {
   CHANGELOG_GENERATE: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.CHANGELOG_GENERATE}`,
   CHANGELOG_SAVE: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.CHANGELOG_SAVE}`,
   RUN: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.RUN}`,
+  RUN_STATUS: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.RUN_STATUS}`,
+  RUN_EVENTS: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.RUN_EVENTS}`,
+  RUN_CANCEL: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.RUN_CANCEL}`,
   PUBLISH: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.PUBLISH}`,
   ROLLBACK: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.ROLLBACK}`,
   REPORT: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.REPORT}`,
@@ -127,6 +153,11 @@ export const RELEASE_FULL_ROUTES = {
   CHECKLIST: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.CHECKLIST}`,
   CHECKS: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.CHECKS}`,
   CHECKS_RUN: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.CHECKS_RUN}`,
+  LOCK: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.LOCK}`,
+  LOCK_RELEASE: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.LOCK_RELEASE}`,
+  APPROVAL: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.APPROVAL}`,
+  APPROVE: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.APPROVE}`,
+  REJECT: `${RELEASE_BASE_PATH}${RELEASE_ROUTES.REJECT}`,
 } as const;
 
 /**
@@ -145,6 +176,9 @@ export const RELEASE_WIDGET_ROUTES = {
   CHANGELOG_GENERATE: 'changelog/generate',
   CHANGELOG_SAVE: 'changelog/save',
   RUN: 'run',
+  RUN_STATUS: 'runs/:id',
+  RUN_EVENTS: 'runs/:id/events',
+  RUN_CANCEL: 'runs/:id/cancel',
   PUBLISH: 'publish',
   ROLLBACK: 'rollback',
   REPORT: 'report',
@@ -156,6 +190,11 @@ export const RELEASE_WIDGET_ROUTES = {
   BUILD: 'build',
   CHECKLIST: 'checklist',
   CHECKS_RUN: 'checks/run',
+  LOCK: 'lock',
+  LOCK_RELEASE: 'lock',
+  APPROVAL: 'approval',
+  APPROVE: 'approve',
+  REJECT: 'reject',
 } as const;
 
 export type ReleaseRoute = typeof RELEASE_ROUTES[keyof typeof RELEASE_ROUTES];
@@ -30,7 +30,7 @@ export type ScopesResponse = z.infer<typeof ScopesResponseSchema>;
 // Status
 // ============================================================================
 
-export const PlanStatusSchema = z.enum(['idle', 'ready', 'running', 'completed', 'failed']);
+export const PlanStatusSchema = z.enum(['idle', 'ready', 'running', 'pending-approval', 'completed', 'failed']);
 
 export type PlanStatus = z.infer<typeof PlanStatusSchema>;
 
@@ -40,6 +40,23 @@ export const StatusInputSchema = z.object({
 
 export type StatusInput = z.infer<typeof StatusInputSchema>;
 
+export const RegistryDriftSchema = z.object({
+  name: z.string(),
+  currentVersion: z.string(), // package.json version
+  registryLatest: z.string(), // dist-tags.latest on the registry
+});
+
+export type RegistryDrift = z.infer<typeof RegistryDriftSchema>;
+
+export const RegistryStatusSchema = z.object({
+  registry: z.string(),
+  reachable: z.boolean(),
+  published: z.array(z.string()), // Planned `name@version` already on the registry
+  drift: z.array(RegistryDriftSchema),
+});
+
+export type RegistryStatus = z.infer<typeof RegistryStatusSchema>;
+
 export const StatusResponseSchema = z.object({
   scope: z.string(),
   scopeInfo: ReleaseScopeInfoSchema.optional(), // Package metadata (name, version, description)
@@ -49,6 +66,7 @@ export const StatusResponseSchema = z.object({
   planStatus: PlanStatusSchema,
   packagesInPlan: z.number().int().min(0),
   lastReleaseAt: z.string().datetime().optional(),
+  registry: RegistryStatusSchema.optional(), // Plan compared against the registry
 });
 
 export type StatusResponse = z.infer<typeof StatusResponseSchema>;
@@ -69,6 +87,38 @@ export const PackageVersionSchema = z.object({
   bump: VersionBumpSchema,
   isPublished: z.boolean(),
   dependencies: z.array(z.string()).optional(),
+  devDependencies: z.array(z.string()).optional(), // Workspace packages needed only to build (build order only)
+  rippleFrom: z.array(z.string()).optional(), // Bumped dependencies that caused a ripple bump
+  changes: z.object({
+    reason: z.enum(['changed', 'no-release-tag', 'dependency', 'graduate']), // Why the package is in the plan
+    since: z.string().optional(), // Release tag changes were computed from
+    files: z.array(z.string()).optional(), // Changed files relative to the package
+  }).optional(),
+  registryLatest: z.string().optional(), // dist-tags.latest at planning time
+  drift: z.boolean().optional(), // package.json is behind the registry's latest
+  artifact: z.object({
+    tarball: z.string(), // Verified .tgz that gets published
+    integrity: z.string(), // sha512 integrity at verification time
+  }).optional(),
+  registries: z.array(z.string()).optional(), // Registries it publishes to, primary first (unset = plan registry)
+  api: z.object({
+    bump: z.enum(['major', 'minor', 'patch']), // Bump the public API changes require
+    removed: z.array(z.string()), // Exports removed since the last release ('name', './sub#name')
+    changed: z.array(z.string()), // Exports whose declaration changed
+    added: z.array(z.string()), // Exports added
+  }).optional(), // Public API diff against the last release (unset without a recorded baseline)
+  size: z.object({
+    packed: z.number().int().min(0), // Tarball size in bytes
+    unpacked: z.number().int().min(0), // Total size of the packed files
+    files: z.number().int().min(0),
+    largest: z.array(z.object({ path: z.string(), size: z.number().int().min(0) })), // Largest files, biggest first
+    previous: z.object({
+      version: z.string(),
+      packed: z.number().int().min(0),
+      unpacked: z.number().int().min(0),
+      files: z.number().int().min(0),
+    }).optional(), // Size at the last release in history
+  }).optional(), // Measured at verification
   reason: z.string().optional(), // LLM-generated reasoning for version bump
 });
 
@@ -79,8 +129,13 @@ export const ReleasePlanSchema = z.object({
   scope: z.string(),
   packages: z.array(PackageVersionSchema),
   strategy: z.literal('semver'),
-  registry: z.string().url(),
+  registry: z.string().url(), // Default registry
   rollbackEnabled: z.boolean(),
+  channel: z.string().optional(), // Prerelease channel (alpha, beta, rc)
+  distTag: z.string().optional(), // npm dist-tag for the channel
+  graduate: z.boolean().optional(), // Prereleases promoted to stable
+  canary: z.boolean().optional(), // Canary plan — versions only exist in the published manifests
+  warnings: z.array(z.string()).optional(), // Non-fatal planning issues (drift, registry unreachable)
   createdAt: z.string().datetime(),
 });
 
@@ -110,6 +165,8 @@ export const GeneratePlanRequestSchema = z.object({
   bump: VersionBumpSchema.optional(),
   strict: z.boolean().optional(),
   useLLM: z.boolean().optional().default(true), // Use LLM for intelligent version bump analysis
+  channel: z.string().optional(), // Prerelease channel override (alpha, beta, rc)
+  graduate: z.boolean().optional(), // Promote prereleases to stable
 });
 
 export type GeneratePlanRequest = z.infer<typeof GeneratePlanRequestSchema>;
@@ -219,13 +276,33 @@ export const ReleaseStageSchema = z.enum([
   'planning',
   'checking',
   'versioning',
+  'approval',
+  'pending-approval',
   'publishing',
   'verifying',
   'rollback',
+  'cancelled',
 ]);
 
 export type ReleaseStage = z.infer<typeof ReleaseStageSchema>;
 
+export const ReleaseApprovalSchema = z.object({
+  approver: z.string(),
+  approvedAt: z.string(),
+  planHash: z.string(), // Hash of the plan the approver reviewed
+});
+
+export type ReleaseApproval = z.infer<typeof ReleaseApprovalSchema>;
+
+export const RegistryPublishResultSchema = z.object({
+  registry: z.string(),
+  published: z.array(z.string()),
+  skipped: z.array(z.string()), // Dry-run, or already live from a previous attempt
+  errors: z.array(z.string()),
+});
+
+export type RegistryPublishResult = z.infer<typeof RegistryPublishResultSchema>;
+
 export const ReleaseReportSchema = z.object({
   schemaVersion: z.literal('1.0'),
   ts: z.string().datetime(),
@@ -251,9 +328,25 @@ export const ReleaseReportSchema = z.object({
       tagged: z.array(z.string()),
       pushed: z.boolean(),
     }).optional(),
+    releases: z.array(z.object({
+      tag: z.string(),
+      action: z.enum(['created', 'updated']),
+      url: z.string().optional(),
+      assets: z.array(z.string()),
+    })).optional(),
+    hooks: z.array(z.object({
+      hook: z.enum(['beforePlan', 'afterPlan', 'beforeBuild', 'afterVersion', 'beforePublish', 'afterPublish', 'afterGit', 'onFailure']),
+      target: z.string(),
+      ok: z.boolean(),
+      durationMs: z.number().int().min(0),
+      error: z.string().optional(),
+    })).optional(),
+    approval: ReleaseApprovalSchema.optional(), // Sign-off the release was published under
+    registries: z.array(RegistryPublishResultSchema).optional(), // Publish outcomes per registry
     timingMs: z.number().int().min(0),
     errors: z.array(z.string()).optional(),
   }),
+  canary: z.boolean().optional(), // Canary release (published under the canary dist-tag)
 });
 
 export type ReleaseReport = z.infer<typeof ReleaseReportSchema>;
@@ -264,18 +357,45 @@ export const RunReleaseRequestSchema = z.object({
   dryRun: z.boolean().optional(),
   skipChecks: z.boolean().optional(),
   otp: z.string().length(6).optional(),
+  channel: z.string().optional(),
+  graduate: z.boolean().optional(),
+  resume: z.boolean().optional(), // Continue the last interrupted release from its journal
+  canary: z.boolean().optional(), // Publish changed packages as canaries, without versioning or tagging
+  concurrency: z.number().int().min(1).optional(), // Parallel build/verify workers
+  failFast: z.boolean().optional(), // Stop build/verify on the first failure
+  forceBuild: z.boolean().optional(), // Rebuild packages even if sources are unchanged
 });
 
 export type RunReleaseRequest = z.infer<typeof RunReleaseRequestSchema>;
 
-export const RunReleaseResponseSchema = z.object({
+/** Outcome of a release job (the job's `result`, see GET /runs/:id) */
+export const RunReleaseResultSchema = z.object({
   scope: z.string(),
   report: ReleaseReportSchema,
   success: z.boolean(),
   errors: z.array(z.string()).optional(),
 });
 
-export type RunReleaseResponse = z.infer<typeof RunReleaseResponseSchema>;
+export type RunReleaseResult = z.infer<typeof RunReleaseResultSchema>;
+
+export const ReleaseJobKindSchema = z.enum(['run', 'build']);
+
+export const ReleaseJobStatusSchema = z.enum(['running', 'completed', 'failed', 'cancelled', 'interrupted']);
+
+export type ReleaseJobStatus = z.infer<typeof ReleaseJobStatusSchema>;
+
+/** Returned by POST /run and POST /build — follow the job via /runs/:id */
+export const JobAcceptedResponseSchema = z.object({
+  scope: z.string(),
+  jobId: z.string(),
+  status: ReleaseJobStatusSchema,
+});
+
+export type JobAcceptedResponse = z.infer<typeof JobAcceptedResponseSchema>;
+
+export const RunReleaseResponseSchema = JobAcceptedResponseSchema;
+
+export type RunReleaseResponse = JobAcceptedResponse;
 
 // ============================================================================
 // Report
@@ -302,6 +422,7 @@ export const ReleaseHistoryItemSchema = z.object({
   success: z.boolean(),
   stage: ReleaseStageSchema,
   error: z.string().optional(),
+  canary: z.boolean().optional(), // Canary release
 });
 
 export type ReleaseHistoryItem = z.infer<typeof ReleaseHistoryItemSchema>;
@@ -459,6 +580,12 @@ export const PackagePreviewSchema = z.object({
   expectedFiles: z.array(z.string()).optional(), // From package.json "files" field
   totalSize: z.number().int().min(0),
   fileCount: z.number().int().min(0),
+  previousRelease: z.object({
+    version: z.string(),
+    totalSize: z.number().int().min(0), // Unpacked size at that release
+    fileCount: z.number().int().min(0),
+  }).optional(), // Last release of the package in history
+  sizeDelta: z.number().int().optional(), // totalSize change in bytes since previousRelease
 });
 
 export type PackagePreview = z.infer<typeof PackagePreviewSchema>;
@@ -474,7 +601,7 @@ export const PreviewResponseSchema = z.object({
   packages: z.array(PackagePreviewSchema),
   totalSize: z.number().int().min(0),
   totalFiles: z.number().int().min(0),
-  allBuilt: z.boolean(), // True if all packages have dist/
+  allBuilt: z.boolean(), // True if all packages have an up-to-date dist/
 });
 
 export type PreviewResponse = z.infer<typeof PreviewResponseSchema>;
@@ -485,11 +612,15 @@ export type PreviewResponse = z.infer<typeof PreviewResponseSchema>;
 
 export const BuildRequestSchema = z.object({
   scope: z.string(),
+  concurrency: z.number().int().min(1).optional(), // Parallel builds within a dependency wave
+  failFast: z.boolean().optional(), // false = build everything possible and report all failures
+  force: z.boolean().optional(), // Rebuild even if sources are unchanged since the last build
 });
 
 export type BuildRequest = z.infer<typeof BuildRequestSchema>;
 
-export const BuildResponseSchema = z.object({
+/** Outcome of a build job (the job's `result`, see GET /runs/:id) */
+export const BuildResultSchema = z.object({
   scope: z.string(),
   success: z.boolean(),
   packages: z.array(z.object({
@@ -497,13 +628,18 @@ export const BuildResponseSchema = z.object({
     success: z.boolean(),
     error: z.string().optional(),
     durationMs: z.number().int().min(0).optional(),
+    cached: z.boolean().optional(), // Skipped — sources unchanged since the last build
   })),
   builtCount: z.number().int().min(0),
   totalCount: z.number().int().min(0),
   totalDurationMs: z.number().int().min(0),
 });
 
-export type BuildResponse = z.infer<typeof BuildResponseSchema>;
+export type BuildResult = z.infer<typeof BuildResultSchema>;
+
+export const BuildResponseSchema = JobAcceptedResponseSchema;
+
+export type BuildResponse = JobAcceptedResponse;
 
 // ============================================================================
 // Release Checklist Status
@@ -542,6 +678,12 @@ export const ReleaseChecklistSchema = z.object({
     status: ChecklistItemStatusSchema,
     message: z.string(),
   }),
+  registry: z.object({
+    status: ChecklistItemStatusSchema,
+    message: z.string(),
+    publishedCount: z.number().int().min(0).optional(),
+    driftCount: z.number().int().min(0).optional(),
+  }).optional(),
   canPublish: z.boolean(),
 });
 
@@ -595,3 +737,201 @@ export const GetChecksResponseSchema = z.object({
 });
 
 export type GetChecksResponse = z.infer<typeof GetChecksResponseSchema>;
+
+// ============================================================================
+// Release Lock
+// ============================================================================
+
+export const ReleaseLockInfoSchema = z.object({
+  scope: z.string(),
+  pid: z.number().int(),
+  host: z.string(),
+  owner: z.string(),
+  acquiredAt: z.string(),
+  stale: z.boolean(), // Holder is gone — the next run takes the lock over
+});
+
+export type ReleaseLockInfo = z.infer<typeof ReleaseLockInfoSchema>;
+
+export const LockInputSchema = z.object({
+  scope: z.string().default('root'),
+});
+
+export type LockInput = z.infer<typeof LockInputSchema>;
+
+export const LockResponseSchema = z.object({
+  scope: z.string(),
+  locked: z.boolean(),
+  lock: ReleaseLockInfoSchema.optional(),
+});
+
+export type LockResponse = z.infer<typeof LockResponseSchema>;
+
+export const ReleaseLockRequestSchema = z.object({
+  scope: z.string().default('root'),
+  // Also release a lock whose holder is still running (query string: force=true)
+  force: z.union([z.boolean(), z.enum(['true', 'false']).transform(v => v === 'true')]).optional(),
+});
+
+export type ReleaseLockRequest = z.infer<typeof ReleaseLockRequestSchema>;
+
+export const ReleaseLockResponseSchema = z.object({
+  success: z.boolean(),
+  scope: z.string(),
+  released: ReleaseLockInfoSchema.omit({ stale: true }).optional(),
+  message: z.string(),
+});
+
+export type ReleaseLockResponse = z.infer<typeof ReleaseLockResponseSchema>;
+
+// ============================================================================
+// Release Approval
+// ============================================================================
+
+export const ReleaseApprovalStateSchema = z.enum(['pending-approval', 'approved', 'rejected', 'expired']);
+
+export type ReleaseApprovalState = z.infer<typeof ReleaseApprovalStateSchema>;
+
+export const ReleaseApprovalStatusSchema = z.object({
+  status: ReleaseApprovalStateSchema,
+  scope: z.string(),
+  releaseId: z.string(), // Release run the request belongs to
+  planHash: z.string(), // Pass back to approve exactly this plan
+  packages: z.array(z.object({
+    name: z.string(),
+    version: z.string(),
+    integrity: z.string().optional(), // Verified tarball
+  })),
+  distTag: z.string().optional(),
+  requestedBy: z.string(), // Can't approve their own release
+  requestedAt: z.string(),
+  expiresAt: z.string(),
+  approval: ReleaseApprovalSchema.optional(),
+  rejection: z.object({
+    rejectedBy: z.string(),
+    rejectedAt: z.string(),
+    reason: z.string().optional(),
+  }).optional(),
+});
+
+export type ReleaseApprovalStatus = z.infer<typeof ReleaseApprovalStatusSchema>;
+
+export const ApprovalInputSchema = z.object({
+  scope: z.string().default('root'),
+});
+
+export type ApprovalInput = z.infer<typeof ApprovalInputSchema>;
+
+export const ApprovalResponseSchema = z.object({
+  scope: z.string(),
+  approval: ReleaseApprovalStatusSchema.optional(), // Pending request or the last decision
+});
+
+export type ApprovalResponse = z.infer<typeof ApprovalResponseSchema>;
+
+export const ApproveReleaseRequestSchema = z.object({
+  scope: z.string().default('root'),
+  approver: z.string().min(1),
+  planHash: z.string().min(1), // From GET /approval — refused if the plan changed since
+});
+
+export type ApproveReleaseRequest = z.infer<typeof ApproveReleaseRequestSchema>;
+
+export const RejectReleaseRequestSchema = z.object({
+  scope: z.string().default('root'),
+  rejectedBy: z.string().min(1),
+  reason: z.string().optional(),
+});
+
+export type RejectReleaseRequest = z.infer<typeof RejectReleaseRequestSchema>;
+
+/** Response of POST /approve and POST /reject */
+export const ApprovalDecisionResponseSchema = z.object({
+  success: z.boolean(),
+  scope: z.string(),
+  approval: ReleaseApprovalStatusSchema.optional(),
+  message: z.string(),
+});
+
+export type ApprovalDecisionResponse = z.infer<typeof ApprovalDecisionResponseSchema>;
+
+// ============================================================================
+// Release Jobs (async /run and /build)
+// ============================================================================
+
+export const RunStatusInputSchema = z.object({
+  id: z.string(),
+});
+
+export type RunStatusInput = z.infer<typeof RunStatusInputSchema>;
+
+export const RunStatusResponseSchema = z.object({
+  id: z.string(),
+  kind: ReleaseJobKindSchema,
+  scope: z.string(),
+  status: ReleaseJobStatusSchema,
+  stage: ReleaseStageSchema.optional(), // Last stage reported by the job
+  message: z.string().optional(),
+  pid: z.number().int(),
+  host: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  finishedAt: z.string().optional(),
+  cancelRequestedAt: z.string().optional(), // Set once cancellation was requested
+  result: z.union([RunReleaseResultSchema, BuildResultSchema]).optional(), // Set when completed or cancelled
+  error: z.string().optional(), // Set when failed or interrupted
+});
+
+export type RunStatusResponse = z.infer<typeof RunStatusResponseSchema>;
+
+export const CancelRunRequestSchema = z.object({
+  id: z.string(),
+});
+
+export type CancelRunRequest = z.infer<typeof CancelRunRequestSchema>;
+
+/** The job as of the cancel request — it reports "cancelled" once it has stopped */
+export const CancelRunResponseSchema = RunStatusResponseSchema;
+
+export type CancelRunResponse = z.infer<typeof CancelRunResponseSchema>;
+
+export const RunEventsInputSchema = z.object({
+  id: z.string(),
+  after: z.coerce.number().int().min(0).optional(), // Resume after this event id (SSE Last-Event-ID)
+});
+
+export type RunEventsInput = z.infer<typeof RunEventsInputSchema>;
+
+const JobEventBaseSchema = z.object({
+  seq: z.number().int().min(1), // SSE event id
+  ts: z.string(),
+});
+
+/** One `data:` payload of the GET /runs/:id/events stream; the SSE event name is `type` */
+export const ReleaseJobEventSchema = z.discriminatedUnion('type', [
+  JobEventBaseSchema.extend({
+    type: z.literal('stage'),
+    stage: ReleaseStageSchema,
+    message: z.string(),
+  }),
+  JobEventBaseSchema.extend({
+    type: z.literal('package'),
+    package: z.string(),
+    phase: z.enum(['build', 'verify', 'publish']),
+    status: z.enum(['succeeded', 'failed', 'skipped']),
+    message: z.string().optional(),
+    durationMs: z.number().int().min(0).optional(),
+  }),
+  JobEventBaseSchema.extend({
+    type: z.literal('log'),
+    level: z.enum(['info', 'warn', 'error']),
+    message: z.string(),
+  }),
+  JobEventBaseSchema.extend({
+    type: z.literal('done'),
+    status: ReleaseJobStatusSchema.exclude(['running']),
+    error: z.string().optional(),
+  }),
+]);
+
+export type ReleaseJobEvent = z.infer<typeof ReleaseJobEventSchema>;
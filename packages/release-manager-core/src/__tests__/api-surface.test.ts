@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { API_BASELINE_FILE, checkApiChanges, diffApiSurface, extractApiSurface, recordApiSurface, type ApiSurface } from '../api-surface';
+import type { PackageVersion } from '../types';
+
+const INDEX_D_TS = [
+  '/** Greets someone */',
+  'export declare function greet(name: string): string;',
+  'export interface Options {',
+  '  // how loud',
+  '  loud?: boolean;',
+  '}',
+  'declare const VERSION = "1";',
+  'export { VERSION };',
+].join('\n');
+
+function writeFiles(dir: string, files: Record<string, string>): void {
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(join(dir, file, '..'), { recursive: true });
+    writeFileSync(join(dir, file), content);
+  }
+}
+
+// ─── extractApiSurface / diffApiSurface ───────────────────────────────────────
+
+describe('extractApiSurface', () => {
+  let pkgDir: string;
+
+  beforeEach(() => {
+    pkgDir = join(tmpdir(), `kb-api-surface-${randomBytes(4).toString('hex')}`);
+    writeFiles(pkgDir, {
+      'package.json': JSON.stringify({
+        name: '@kb-labs/lib',
+        version: '1.2.0',
+        type: 'module',
+        exports: {
+          '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+          './utils': { types: './dist/utils.d.ts', import: './dist/utils.js' },
+        },
+      }),
+      'dist/index.js': '',
+      'dist/index.d.ts': INDEX_D_TS,
+      'dist/utils.js': '',
+      'dist/utils.d.ts': 'export declare const sep: string;\n',
+    });
+  });
+
+  afterEach(() => {
+    rmSync(pkgDir, { recursive: true, force: true });
+  });
+
+  it('reads normalized declarations of every entrypoint', async () => {
+    const surface = await extractApiSurface(pkgDir);
+
+    expect(surface).toEqual({
+      version: '1.2.0',
+      entrypoints: {
+        '.': {
+          greet: 'function greet(name: string): string;',
+          Options: 'interface Options { loud?: boolean; }',
+          VERSION: 'const VERSION = "1"',
+        },
+        './utils': { sep: 'const sep: string' },
+      },
+    });
+  });
+
+  it('returns null for a package that was not built', async () => {
+    rmSync(join(pkgDir, 'dist'), { recursive: true });
+
+    expect(await extractApiSurface(pkgDir)).toBeNull();
+  });
+
+  it('classifies removed and changed exports as major, added ones as minor', async () => {
+    const baseline = (await extractApiSurface(pkgDir))!;
+
+    writeFiles(pkgDir, {
+      // Comments and how an export is written don't count as changes
+      'dist/index.d.ts': INDEX_D_TS.replace('/** Greets someone */', '') + '\nexport declare function wave(): void;\n',
+    });
+    expect(diffApiSurface(baseline, (await extractApiSurface(pkgDir))!))
+      .toEqual({ bump: 'minor', removed: [], changed: [], added: ['wave'] });
+
+    writeFiles(pkgDir, {
+      'dist/index.d.ts': INDEX_D_TS.replace('name: string', 'name: string, loud: boolean'),
+      'dist/utils.d.ts': 'export {};\n',
+    });
+    expect(diffApiSurface(baseline, (await extractApiSurface(pkgDir))!))
+      .toEqual({ bump: 'major', removed: ['./utils#sep'], changed: ['greet'], added: [] });
+  });
+});
+
+// ─── checkApiChanges ──────────────────────────────────────────────────────────
+
+describe('checkApiChanges', () => {
+  let pkgDir: string;
+
+  const planned = (bump: PackageVersion['bump'], currentVersion = '1.2.0'): PackageVersion => ({
+    name: '@kb-labs/lib',
+    path: pkgDir,
+    currentVersion,
+    nextVersion: '',
+    bump,
+    isPublished: false,
+  });
+
+  beforeEach(async () => {
+    pkgDir = join(tmpdir(), `kb-api-check-${randomBytes(4).toString('hex')}`);
+    writeFiles(pkgDir, {
+      'package.json': JSON.stringify({ name: '@kb-labs/lib', version: '1.2.0', types: './dist/index.d.ts' }),
+      'dist/index.d.ts': INDEX_D_TS,
+    });
+    await recordApiSurface(pkgDir);
+  });
+
+  afterEach(() => {
+    rmSync(pkgDir, { recursive: true, force: true });
+  });
+
+  it('records the surface as the baseline inside the package', () => {
+    const baseline: ApiSurface = JSON.parse(readFileSync(join(pkgDir, API_BASELINE_FILE), 'utf-8'));
+
+    expect(baseline.version).toBe('1.2.0');
+    expect(Object.keys(baseline.entrypoints['.']!)).toEqual(['greet', 'Options', 'VERSION']);
+  });
+
+  it('flags a planned bump lower than the API changes require', async () => {
+    writeFiles(pkgDir, { 'dist/index.d.ts': INDEX_D_TS.replace('export declare function greet(name: string): string;', '') });
+    const pkg = planned('minor');
+
+    const result = await checkApiChanges([pkg], {});
+
+    expect(pkg.api).toEqual({ bump: 'major', removed: ['greet'], changed: [], added: [] });
+    expect(result.insufficient).toEqual(['@kb-labs/lib: minor planned but the API changes require major (removed: greet)']);
+    expect((await checkApiChanges([planned('major')], {})).insufficient).toEqual([]);
+  });
+
+  it('lowers the requirement for 0.x versions with preMajor', async () => {
+    writeFiles(pkgDir, { 'dist/index.d.ts': INDEX_D_TS.replace('export declare function greet(name: string): string;', '') });
+
+    expect((await checkApiChanges([planned('minor', '0.4.0')], { bumpRules: { preMajor: true } })).insufficient).toEqual([]);
+    expect((await checkApiChanges([planned('patch', '0.4.0')], { bumpRules: { preMajor: true } })).insufficient)
+      .toEqual(['@kb-labs/lib: patch planned but the API changes require minor (removed: greet)']);
+  });
+
+  it('warns instead of diffing when the package has no built declarations', async () => {
+    rmSync(join(pkgDir, 'dist'), { recursive: true });
+    const pkg = planned('patch');
+
+    const result = await checkApiChanges([pkg], {});
+
+    expect(pkg.api).toBeUndefined();
+    expect(result).toEqual({
+      insufficient: [],
+      warnings: ['@kb-labs/lib: public API not checked — no built declarations (build before planning)'],
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import {
+  computePlanHash,
+  requestReleaseApproval,
+  readReleaseApproval,
+  approveRelease,
+  rejectRelease,
+  waitForReleaseApproval,
+} from '../approval';
+import { acquireReleaseLock } from '../lock';
+import type { ReleasePlan } from '../types';
+
+function makePlan(packages: Array<[string, string]>, distTag?: string): ReleasePlan {
+  return {
+    packages: packages.map(([name, nextVersion]) => ({
+      name,
+      path: `/repo/packages/${name.split('/').pop()}`,
+      currentVersion: '1.0.0',
+      nextVersion,
+      bump: 'minor',
+      isPublished: false,
+    })),
+    strategy: 'semver',
+    registry: 'https://registry.npmjs.org',
+    rollbackEnabled: true,
+    ...(distTag && { distTag }),
+  };
+}
+
+const plan = makePlan([['@kb-labs/core', '1.1.0'], ['@kb-labs/cli', '1.1.0']]);
+
+// ─── computePlanHash ──────────────────────────────────────────────────────────
+
+describe('computePlanHash', () => {
+  it('ignores package order but not versions or dist-tag', () => {
+    const hash = computePlanHash(plan);
+
+    expect(hash).toMatch(/^sha256-[0-9a-f]{64}$/);
+    expect(computePlanHash(makePlan([['@kb-labs/cli', '1.1.0'], ['@kb-labs/core', '1.1.0']]))).toBe(hash);
+    expect(computePlanHash(makePlan([['@kb-labs/core', '1.2.0'], ['@kb-labs/cli', '1.1.0']]))).not.toBe(hash);
+    expect(computePlanHash(makePlan([['@kb-labs/core', '1.1.0'], ['@kb-labs/cli', '1.1.0']], 'next'))).not.toBe(hash);
+  });
+});
+
+// ─── approval requests ────────────────────────────────────────────────────────
+
+describe('release approval', () => {
+  let repoRoot: string;
+  const statusFile = () => join(repoRoot, '.kb', 'release', 'plans', 'kb-labs-core', 'current', 'status.json');
+
+  beforeEach(() => {
+    repoRoot = join(tmpdir(), `kb-approval-test-${randomBytes(4).toString('hex')}`);
+    mkdirSync(repoRoot, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  it('persists a pending request and records who approved which plan', async () => {
+    const request = await requestReleaseApproval(repoRoot, '@kb-labs/core', { plan, releaseId: 'r1', requestedBy: 'alice' });
+
+    expect(request.status).toBe('pending-approval');
+    expect(request.packages.map(p => `${p.name}@${p.version}`)).toEqual(['@kb-labs/core@1.1.0', '@kb-labs/cli@1.1.0']);
+    expect(JSON.parse(readFileSync(statusFile(), 'utf-8'))).toEqual(request);
+
+    const approved = await approveRelease(repoRoot, '@kb-labs/core', { approver: 'bob', planHash: request.planHash });
+
+    expect(approved.status).toBe('approved');
+    expect(approved.approval).toEqual({ approver: 'bob', approvedAt: expect.any(String), planHash: request.planHash });
+    expect(await readReleaseApproval(repoRoot, '@kb-labs/core')).toEqual(approved);
+  });
+
+  it('refuses an approval for a different plan hash or by the requester', async () => {
+    const request = await requestReleaseApproval(repoRoot, '@kb-labs/core', { plan, releaseId: 'r1', requestedBy: 'alice' });
+
+    await expect(approveRelease(repoRoot, '@kb-labs/core', { approver: 'bob', planHash: 'sha256-stale' }))
+      .rejects.toThrow(/^Plan changed since it was reviewed/);
+    await expect(approveRelease(repoRoot, '@kb-labs/core', { approver: 'alice', planHash: request.planHash }))
+      .rejects.toThrow('Release started by alice must be approved by someone else');
+    expect((await readReleaseApproval(repoRoot, '@kb-labs/core'))?.status).toBe('pending-approval');
+  });
+
+  it('refuses an approval by whoever holds the release lock', async () => {
+    const lock = await acquireReleaseLock(repoRoot, '@kb-labs/core', { owner: 'ci-bot' });
+    const request = await requestReleaseApproval(repoRoot, '@kb-labs/core', { plan, releaseId: 'r1', requestedBy: 'alice' });
+
+    await expect(approveRelease(repoRoot, '@kb-labs/core', { approver: 'ci-bot', planHash: request.planHash }))
+      .rejects.toThrow('Release started by ci-bot must be approved by someone else');
+    await lock.release();
+  });
+
+  it('records a rejection and refuses to approve it afterwards', async () => {
+    const request = await requestReleaseApproval(repoRoot, '@kb-labs/core', { plan, releaseId: 'r1', requestedBy: 'alice' });
+
+    const rejected = await rejectRelease(repoRoot, '@kb-labs/core', { rejectedBy: 'bob', reason: 'Changelog incomplete' });
+
+    expect(rejected.status).toBe('rejected');
+    expect(rejected.rejection).toMatchObject({ rejectedBy: 'bob', reason: 'Changelog incomplete' });
+    await expect(approveRelease(repoRoot, '@kb-labs/core', { approver: 'carol', planHash: request.planHash }))
+      .rejects.toThrow('Release for scope "@kb-labs/core" is not awaiting approval (rejected)');
+  });
+
+  it('reports a pending request past its expiry as expired', async () => {
+    const request = await requestReleaseApproval(repoRoot, '@kb-labs/core', {
+      plan, releaseId: 'r1', requestedBy: 'alice', expiresInMs: -1,
+    });
+
+    expect((await readReleaseApproval(repoRoot, '@kb-labs/core'))?.status).toBe('expired');
+    await expect(approveRelease(repoRoot, '@kb-labs/core', { approver: 'bob', planHash: request.planHash }))
+      .rejects.toThrow(/^Approval request for scope "@kb-labs\/core" expired at /);
+  });
+
+  it('reuses the request of a resumed release but replaces one for another plan', async () => {
+    const first = await requestReleaseApproval(repoRoot, '@kb-labs/core', { plan, releaseId: 'r1', requestedBy: 'alice' });
+    await approveRelease(repoRoot, '@kb-labs/core', { approver: 'bob', planHash: first.planHash });
+
+    const resumed = await requestReleaseApproval(repoRoot, '@kb-labs/core', { plan, releaseId: 'r1', requestedBy: 'alice' });
+    expect(resumed.status).toBe('approved');
+
+    const changed = makePlan([['@kb-labs/core', '1.2.0']]);
+    const next = await requestReleaseApproval(repoRoot, '@kb-labs/core', { plan: changed, releaseId: 'r1', requestedBy: 'alice' });
+    expect(next.status).toBe('pending-approval');
+    expect(next.planHash).toBe(computePlanHash(changed));
+  });
+
+  // ─── waitForReleaseApproval ─────────────────────────────────────────────────
+
+  it('waits until the request is approved', async () => {
+    const request = await requestReleaseApproval(repoRoot, '@kb-labs/core', { plan, releaseId: 'r1', requestedBy: 'alice' });
+
+    const waiting = waitForReleaseApproval(repoRoot, '@kb-labs/core', { releaseId: 'r1', pollMs: 10 });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await approveRelease(repoRoot, '@kb-labs/core', { approver: 'bob', planHash: request.planHash });
+
+    expect((await waiting).approval?.approver).toBe('bob');
+  });
+
+  it('persists expiry and returns the pending request when aborted', async () => {
+    await requestReleaseApproval(repoRoot, '@kb-labs/core', { plan, releaseId: 'r1', requestedBy: 'alice', expiresInMs: -1 });
+
+    expect((await waitForReleaseApproval(repoRoot, '@kb-labs/core', { releaseId: 'r1' })).status).toBe('expired');
+    expect(JSON.parse(readFileSync(statusFile(), 'utf-8')).status).toBe('expired');
+
+    await requestReleaseApproval(repoRoot, '@kb-labs/core', { plan, releaseId: 'r2', requestedBy: 'alice' });
+    const abort = new AbortController();
+    const waiting = waitForReleaseApproval(repoRoot, '@kb-labs/core', { releaseId: 'r2', pollMs: 60_000, signal: abort.signal });
+    abort.abort();
+
+    expect((await waiting).status).toBe('pending-approval');
+  });
+
+  it('throws when the request is replaced by another release', async () => {
+    await requestReleaseApproval(repoRoot, '@kb-labs/core', { plan, releaseId: 'r1', requestedBy: 'alice' });
+    await requestReleaseApproval(repoRoot, '@kb-labs/core', { plan, releaseId: 'r2', requestedBy: 'alice' });
+
+    await expect(waitForReleaseApproval(repoRoot, '@kb-labs/core', { releaseId: 'r1' }))
+      .rejects.toThrow('Approval request for scope "@kb-labs/core" was withdrawn');
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { buildPackages, spawnCommand } from '../build';
+import { groupPackagesIntoWaves } from '../graph';
+import type { PackageVersion } from '../types';
+
+function makePackage(root: string, name: string, buildScript: string, dependencies: string[] = []): PackageVersion {
+  const path = join(root, name);
+  mkdirSync(path, { recursive: true });
+  writeFileSync(join(path, 'package.json'), JSON.stringify({ name, version: '1.0.0', scripts: { build: buildScript } }));
+  return { name, path, currentVersion: '1.0.0', nextVersion: '1.0.1', bump: 'patch', isPublished: false, dependencies };
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {throw new Error('Timed out waiting for condition');}
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+// ─── waves ────────────────────────────────────────────────────────────────────
+
+describe('groupPackagesIntoWaves', () => {
+  it('puts each package after all of its dependencies', () => {
+    const pkg = (name: string, dependencies: string[] = []) => ({ name, dependencies });
+    const waves = groupPackagesIntoWaves([
+      pkg('app', ['core', 'utils']),
+      pkg('core', ['utils']),
+      pkg('utils'),
+      pkg('cli', ['utils', 'external']),
+      pkg('docs'),
+    ]);
+
+    expect(waves.map(w => w.map(p => p.name))).toEqual([
+      ['utils', 'docs'],
+      ['core', 'cli'],
+      ['app'],
+    ]);
+  });
+
+  it('orders by devDependencies unless they close a cycle, and fails on runtime cycles', () => {
+    const waves = groupPackagesIntoWaves([
+      { name: 'core', dependencies: [], devDependencies: ['testkit'] },
+      { name: 'testkit', dependencies: ['utils'], devDependencies: ['core'] },
+      { name: 'utils', dependencies: [], devDependencies: ['lint-config'] },
+      { name: 'lint-config' },
+    ]);
+
+    // core ⇄ testkit is a dev-only cycle, so neither waits for the other
+    expect(waves.map(w => w.map(p => p.name))).toEqual([
+      ['core', 'lint-config'],
+      ['utils'],
+      ['testkit'],
+    ]);
+    expect(() => groupPackagesIntoWaves([
+      { name: 'a', dependencies: ['b'] },
+      { name: 'b', dependencies: ['a'] },
+    ])).toThrow(/a → b → a/);
+  });
+});
+
+// ─── buildPackages ────────────────────────────────────────────────────────────
+
+describe('buildPackages — failure modes', () => {
+  let root: string;
+  let packages: PackageVersion[];
+
+  beforeEach(() => {
+    root = join(tmpdir(), `kb-build-test-${randomBytes(4).toString('hex')}`);
+    packages = [
+      makePackage(root, 'broken', 'exit 1'),
+      makePackage(root, 'ok', 'exit 0'),
+      makePackage(root, 'dependent', 'exit 0', ['broken']),
+    ];
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('collects all failures and skips dependents of failed packages', async () => {
+    const progress: string[] = [];
+    const results = await buildPackages(packages, {
+      concurrency: 2,
+      failFast: false,
+      onProgress: name => progress.push(name),
+    });
+
+    const byName = Object.fromEntries(results.map(r => [r.name, r]));
+    expect(byName.broken?.success).toBe(false);
+    expect(byName.ok?.success).toBe(true);
+    expect(byName.dependent?.success).toBe(false);
+    expect(byName.dependent?.error).toMatch(/dependency failed to build: broken/);
+    expect(progress.sort()).toEqual(['broken', 'dependent', 'ok']);
+  }, 30_000);
+
+  it('stops starting new builds after the first failure in fail-fast mode', async () => {
+    const results = await buildPackages(packages, { concurrency: 1, failFast: true });
+
+    expect(results.map(r => r.name)).toEqual(['broken']);
+    expect(results[0]?.success).toBe(false);
+  }, 30_000);
+});
+
+// ─── incremental builds ───────────────────────────────────────────────────────
+
+describe('buildPackages — incremental', () => {
+  let root: string;
+  let packages: PackageVersion[];
+
+  beforeEach(() => {
+    root = join(tmpdir(), `kb-build-cache-test-${randomBytes(4).toString('hex')}`);
+    packages = [
+      makePackage(root, 'lib', 'mkdir -p dist'),
+      makePackage(root, 'app', 'mkdir -p dist', ['lib']),
+    ];
+    for (const pkg of packages) {
+      mkdirSync(join(pkg.path, 'src'), { recursive: true });
+      writeFileSync(join(pkg.path, 'src', 'index.ts'), 'export const x = 1;\n');
+    }
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('skips unchanged packages and rebuilds dependents of changed ones', async () => {
+    const first = await buildPackages(packages, { repoRoot: root });
+    expect(first.map(r => r.cached ?? false)).toEqual([false, false]);
+
+    const second = await buildPackages(packages, { repoRoot: root });
+    expect(second.map(r => r.cached)).toEqual([true, true]);
+
+    writeFileSync(join(root, 'lib', 'src', 'index.ts'), 'export const x = 2;\n');
+    const third = await buildPackages(packages, { repoRoot: root });
+    expect(third.map(r => [r.name, r.cached ?? false])).toEqual([['lib', false], ['app', false]]);
+  }, 30_000);
+
+  it('rebuilds everything with force', async () => {
+    await buildPackages(packages, { repoRoot: root });
+    const forced = await buildPackages(packages, { repoRoot: root, force: true });
+    expect(forced.every(r => r.success && !r.cached)).toBe(true);
+  }, 30_000);
+});
+
+// ─── cancellation ─────────────────────────────────────────────────────────────
+
+describe('cancellation', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = join(tmpdir(), `kb-build-cancel-test-${randomBytes(4).toString('hex')}`);
+    mkdirSync(root, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('kills the whole process tree when the signal aborts', async () => {
+    const abort = new AbortController();
+    const pidFile = join(root, 'background.pid');
+    const running = spawnCommand(`sleep 30 & echo $! > ${pidFile}; wait`, root, 60_000, { signal: abort.signal });
+
+    await waitFor(() => existsSync(pidFile) && readFileSync(pidFile, 'utf-8').trim() !== '');
+    const backgroundPid = Number(readFileSync(pidFile, 'utf-8').trim());
+    abort.abort();
+
+    expect(await running).toMatchObject({ success: false, error: 'Cancelled' });
+    await waitFor(() => !isAlive(backgroundPid));
+  }, 15_000);
+
+  it('does not start a command once the signal has aborted', async () => {
+    const abort = new AbortController();
+    abort.abort();
+
+    const result = await spawnCommand(`touch ${join(root, 'ran')}`, root, 60_000, { signal: abort.signal });
+
+    expect(result).toMatchObject({ success: false, error: 'Cancelled' });
+    expect(existsSync(join(root, 'ran'))).toBe(false);
+  });
+
+  it('kills running builds and starts no new ones', async () => {
+    const abort = new AbortController();
+    const packages = [
+      makePackage(root, 'slow', `touch ${join(root, 'started')} && sleep 30`),
+      makePackage(root, 'next', 'exit 0'),
+    ];
+
+    const building = buildPackages(packages, { concurrency: 1, signal: abort.signal });
+    await waitFor(() => existsSync(join(root, 'started')));
+    abort.abort();
+
+    const results = await building;
+    expect(results.map(r => r.name)).toEqual(['slow']);
+    expect(results[0]).toMatchObject({ success: false, error: 'Cancelled' });
+  }, 30_000);
+});
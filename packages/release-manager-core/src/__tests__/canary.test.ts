@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { computeCanaryVersion, toCanaryPlan } from '../canary';
+import type { ReleasePlan } from '../types';
+
+const timestamp = new Date('2026-10-19T14:30:05.123Z');
+
+// ─── computeCanaryVersion ─────────────────────────────────────────────────────
+
+describe('computeCanaryVersion', () => {
+  it('appends the short SHA and a UTC timestamp to the planned base version', () => {
+    expect(computeCanaryVersion('1.4.0', { sha: '1a2b3c4', timestamp })).toBe('1.4.0-canary.1a2b3c4.20261019143005');
+    expect(computeCanaryVersion('2.1.0-rc.3', { sha: '1a2b3c4', timestamp })).toBe('2.1.0-canary.1a2b3c4.20261019143005');
+  });
+
+  it('keeps an all-digit SHA a valid prerelease identifier', () => {
+    expect(computeCanaryVersion('1.4.0', { sha: '0123456', timestamp })).toBe('1.4.0-canary.g0123456.20261019143005');
+  });
+
+  it('refuses a version that is not semver', () => {
+    expect(() => computeCanaryVersion('latest', { sha: '1a2b3c4', timestamp })).toThrow('Cannot compute a canary version from "latest"');
+  });
+});
+
+// ─── toCanaryPlan ─────────────────────────────────────────────────────────────
+
+describe('toCanaryPlan', () => {
+  it('gives every package its canary version under the canary dist-tag', () => {
+    const plan: ReleasePlan = {
+      packages: [
+        { name: '@kb-labs/core', path: '/repo/core', currentVersion: '1.3.2', nextVersion: '1.4.0', bump: 'minor', isPublished: true },
+        { name: '@kb-labs/cli', path: '/repo/cli', currentVersion: '0.9.0-beta.1', nextVersion: '0.9.0-beta.2', bump: 'patch', isPublished: false },
+      ],
+      strategy: 'semver',
+      registry: 'https://registry.npmjs.org',
+      rollbackEnabled: true,
+      channel: 'beta',
+      distTag: 'beta',
+    };
+
+    const canary = toCanaryPlan(plan, { sha: '1a2b3c4', timestamp });
+
+    expect(canary.packages.map(p => `${p.name}@${p.nextVersion}`)).toEqual([
+      '@kb-labs/core@1.4.0-canary.1a2b3c4.20261019143005',
+      '@kb-labs/cli@0.9.0-canary.1a2b3c4.20261019143005',
+    ]);
+    expect(canary.packages.every(p => !p.isPublished)).toBe(true);
+    expect(canary).toMatchObject({ distTag: 'canary', canary: true, channel: undefined });
+    // The original plan is left as planned
+    expect(plan.packages[0]!.nextVersion).toBe('1.4.0');
+  });
+});
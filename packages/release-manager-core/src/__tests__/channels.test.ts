@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveChannel,
+  computePrereleaseVersion,
+  graduateVersion,
+  isPrereleaseVersion,
+} from '../channels';
+import { applyVersionStrategy } from '../versioning-strategies';
+import type { PackageVersion, ReleaseConfig } from '../types';
+
+// ─── resolveChannel ───────────────────────────────────────────────────────────
+
+describe('resolveChannel', () => {
+  it('returns undefined for stable releases', () => {
+    expect(resolveChannel({})).toBeUndefined();
+  });
+
+  it('defaults preid and dist-tag to the channel name', () => {
+    expect(resolveChannel({ channel: 'beta' })).toEqual({ name: 'beta', preid: 'beta', distTag: 'beta' });
+  });
+
+  it('applies per-channel preid and dist-tag', () => {
+    const config: ReleaseConfig = { channel: 'rc', channels: { rc: { preid: 'rc', distTag: 'next' } } };
+    expect(resolveChannel(config)).toEqual({ name: 'rc', preid: 'rc', distTag: 'next' });
+  });
+
+  it('prefers scope channel over global channel', () => {
+    const config: ReleaseConfig = { channel: 'beta', scopes: { '@kb-labs/core': { channel: 'alpha' } } };
+    expect(resolveChannel(config, '@kb-labs/core')?.name).toBe('alpha');
+    expect(resolveChannel(config, '@kb-labs/other')?.name).toBe('beta');
+  });
+
+  it('prefers explicit override over config', () => {
+    const config: ReleaseConfig = { channel: 'beta', scopes: { '@kb-labs/core': { channel: 'alpha' } } };
+    expect(resolveChannel(config, '@kb-labs/core', 'rc')?.name).toBe('rc');
+  });
+
+  it('rejects invalid prerelease identifiers', () => {
+    expect(() => resolveChannel({ channel: 'rc', channels: { rc: { preid: 'r.c' } } })).toThrow(/Invalid prerelease identifier/);
+  });
+});
+
+// ─── computePrereleaseVersion ─────────────────────────────────────────────────
+
+describe('computePrereleaseVersion', () => {
+  it('starts a prerelease line from a stable version', () => {
+    expect(computePrereleaseVersion('2.0.0', 'minor', 'rc')).toBe('2.1.0-rc.1');
+    expect(computePrereleaseVersion('2.0.0', 'major', 'rc')).toBe('3.0.0-rc.1');
+    expect(computePrereleaseVersion('2.0.0', 'patch', 'rc')).toBe('2.0.1-rc.1');
+  });
+
+  it('increments the counter on repeated runs', () => {
+    expect(computePrereleaseVersion('2.1.0-rc.1', 'minor', 'rc')).toBe('2.1.0-rc.2');
+    expect(computePrereleaseVersion('2.1.0-rc.3', 'patch', 'rc')).toBe('2.1.0-rc.4');
+    expect(computePrereleaseVersion('3.0.0-rc.2', 'minor', 'rc')).toBe('3.0.0-rc.3');
+  });
+
+  it('moves to a higher base when the bump exceeds the current line', () => {
+    expect(computePrereleaseVersion('2.1.0-rc.3', 'major', 'rc')).toBe('3.0.0-rc.1');
+    expect(computePrereleaseVersion('2.0.1-rc.1', 'minor', 'rc')).toBe('2.1.0-rc.1');
+  });
+
+  it('switches channels on the same base', () => {
+    expect(computePrereleaseVersion('2.1.0-alpha.4', 'minor', 'beta')).toBe('2.1.0-beta.1');
+    expect(computePrereleaseVersion('2.1.0-beta.2', 'minor', 'rc')).toBe('2.1.0-rc.1');
+  });
+
+  it('never goes backwards when switching to a lower channel', () => {
+    expect(computePrereleaseVersion('2.1.0-rc.2', 'minor', 'beta')).toBe('2.1.1-beta.1');
+  });
+});
+
+// ─── graduateVersion ──────────────────────────────────────────────────────────
+
+describe('graduateVersion', () => {
+  it('drops the prerelease suffix', () => {
+    expect(graduateVersion('2.1.0-rc.3')).toBe('2.1.0');
+  });
+
+  it('leaves stable versions unchanged', () => {
+    expect(graduateVersion('2.1.0')).toBe('2.1.0');
+  });
+
+  it('detects prerelease versions', () => {
+    expect(isPrereleaseVersion('2.1.0-rc.3')).toBe(true);
+    expect(isPrereleaseVersion('2.1.0')).toBe(false);
+  });
+});
+
+// ─── lockstep with channels ───────────────────────────────────────────────────
+
+describe('applyVersionStrategy with channels', () => {
+  const pkg = (name: string, currentVersion: string, bump: PackageVersion['bump']): PackageVersion => ({
+    name, path: `/tmp/${name}`, currentVersion, nextVersion: currentVersion, bump, isPublished: false,
+  });
+
+  it('lockstep produces a shared prerelease version', () => {
+    const result = applyVersionStrategy(
+      [pkg('a', '2.1.0-rc.1', 'minor'), pkg('b', '2.1.0-rc.2', 'patch')],
+      { strategy: 'lockstep', preid: 'rc' },
+    );
+    expect(result.map(p => p.nextVersion)).toEqual(['2.1.0-rc.3', '2.1.0-rc.3']);
+  });
+
+  it('lockstep graduates to the shared stable version', () => {
+    const result = applyVersionStrategy(
+      [pkg('a', '2.1.0-rc.1', 'patch'), pkg('b', '2.1.0-rc.2', 'patch')],
+      { strategy: 'lockstep', graduate: true },
+    );
+    expect(result.map(p => p.nextVersion)).toEqual(['2.1.0', '2.1.0']);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { runReleaseHooks, type ReleaseHookPayload } from '../hooks';
+import type { ReleasePlan } from '../types';
+
+const plan: ReleasePlan = {
+  packages: [{
+    name: '@kb-labs/core',
+    path: '/repo/packages/core',
+    currentVersion: '1.0.0',
+    nextVersion: '1.1.0',
+    bump: 'minor',
+    isPublished: false,
+  }],
+  strategy: 'semver',
+  registry: 'https://registry.npmjs.org',
+  rollbackEnabled: true,
+};
+
+const payload: ReleaseHookPayload = { hook: 'afterPlan', scope: '@kb-labs/core', dryRun: false, plan };
+
+// ─── runReleaseHooks ──────────────────────────────────────────────────────────
+
+describe('runReleaseHooks', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `kb-hooks-test-${randomBytes(4).toString('hex')}`);
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns no results when the hook is not configured', async () => {
+    expect(await runReleaseHooks({ beforePlan: 'true' }, payload, { cwd: dir })).toEqual([]);
+    expect(await runReleaseHooks(undefined, payload, { cwd: dir })).toEqual([]);
+  });
+
+  it('pipes the payload as JSON to shell hooks', async () => {
+    const results = await runReleaseHooks(
+      { afterPlan: 'cat > payload.json && echo "$KB_RELEASE_HOOK" > hook.txt' },
+      payload,
+      { cwd: dir },
+    );
+
+    expect(results).toMatchObject([{ hook: 'afterPlan', ok: true }]);
+    expect(JSON.parse(readFileSync(join(dir, 'payload.json'), 'utf-8'))).toEqual(payload);
+    expect(readFileSync(join(dir, 'hook.txt'), 'utf-8').trim()).toBe('afterPlan');
+  });
+
+  it('calls module hooks with the payload', async () => {
+    writeFileSync(join(dir, 'hook.mjs'), [
+      "import { writeFileSync } from 'node:fs';",
+      'export async function afterPlan(payload) {',
+      `  writeFileSync(${JSON.stringify(join(dir, 'seen.json'))}, JSON.stringify(payload.plan.packages.map(p => p.nextVersion)));`,
+      '}',
+    ].join('\n'));
+
+    const results = await runReleaseHooks({ afterPlan: { module: './hook.mjs' } }, payload, { cwd: dir });
+
+    expect(results).toMatchObject([{ hook: 'afterPlan', target: './hook.mjs', ok: true }]);
+    expect(JSON.parse(readFileSync(join(dir, 'seen.json'), 'utf-8'))).toEqual(['1.1.0']);
+  });
+
+  it('stops at the first failing hook and reports why', async () => {
+    writeFileSync(join(dir, 'fail.mjs'), "export default () => { throw new Error('changelog not approved'); };\n");
+
+    const results = await runReleaseHooks(
+      {
+        afterPlan: [
+          { command: 'echo first > first.txt' },
+          { module: join(dir, 'fail.mjs') },
+          'echo never > never.txt',
+        ],
+      },
+      payload,
+      { cwd: dir },
+    );
+
+    expect(results.map(r => r.ok)).toEqual([true, false]);
+    expect(results[1]!.error).toBe('changelog not approved');
+    expect(existsSync(join(dir, 'never.txt'))).toBe(false);
+  });
+
+  it('fails shell hooks on a non-zero exit', async () => {
+    const results = await runReleaseHooks({ afterPlan: 'echo "registry frozen" >&2; exit 3' }, payload, { cwd: dir });
+
+    expect(results).toMatchObject([{ ok: false, error: 'registry frozen' }]);
+  });
+
+  it('kills a running shell hook when the release is cancelled', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+
+    const results = await runReleaseHooks(
+      { afterPlan: ['sleep 30', 'touch never.txt'] },
+      payload,
+      { cwd: dir, signal: controller.signal },
+    );
+
+    expect(results).toMatchObject([{ target: 'sleep 30', ok: false, error: 'Cancelled' }]);
+    expect(results[0]!.durationMs).toBeLessThan(10_000);
+    expect(existsSync(join(dir, 'never.txt'))).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir, hostname } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { spawnSync } from 'node:child_process';
+import { getEventListeners } from 'node:events';
+import {
+  startReleaseJob,
+  readReleaseJob,
+  readReleaseJobEvents,
+  followReleaseJobEvents,
+  cancelReleaseJob,
+  createReleaseJobEventStream,
+  type ReleaseJobEvent,
+} from '../jobs';
+
+describe('release jobs', () => {
+  let repoRoot: string;
+
+  beforeEach(() => {
+    repoRoot = join(tmpdir(), `kb-jobs-test-${randomBytes(4).toString('hex')}`);
+    mkdirSync(repoRoot, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  // ─── lifecycle ──────────────────────────────────────────────────────────────
+
+  it('returns immediately and records stage, package and log events until done', async () => {
+    let finish!: () => void;
+    const gate = new Promise<void>(resolve => { finish = resolve; });
+
+    const { job, done } = await startReleaseJob(repoRoot, { kind: 'run', scope: '@kb-labs/core' }, async (reporter) => {
+      reporter.stage('planning', 'Planning release...');
+      await gate;
+      reporter.package({ package: '@kb-labs/core', phase: 'build', status: 'succeeded', durationMs: 12 });
+      reporter.logger.warn('registry', { slow: true });
+      return { success: true };
+    });
+
+    expect(job).toMatchObject({ kind: 'run', scope: '@kb-labs/core', status: 'running', pid: process.pid });
+    expect((await readReleaseJob(repoRoot, job.id))?.status).toBe('running');
+
+    finish();
+    const finished = await done;
+
+    expect(finished).toMatchObject({ status: 'completed', stage: 'planning', message: 'Planning release...', result: { success: true } });
+    expect(await readReleaseJob(repoRoot, job.id)).toEqual(finished);
+
+    const events = await readReleaseJobEvents(repoRoot, job.id);
+    expect(events.map(({ ts: _ts, ...e }) => e)).toEqual([
+      { seq: 1, type: 'stage', stage: 'planning', message: 'Planning release...' },
+      { seq: 2, type: 'package', package: '@kb-labs/core', phase: 'build', status: 'succeeded', durationMs: 12 },
+      { seq: 3, type: 'log', level: 'warn', message: 'registry {"slow":true}' },
+      { seq: 4, type: 'done', status: 'completed' },
+    ]);
+    expect((await readReleaseJobEvents(repoRoot, job.id, 2)).map(e => e.seq)).toEqual([3, 4]);
+  });
+
+  it('fails the job when its function throws', async () => {
+    const { done } = await startReleaseJob(repoRoot, { kind: 'build', scope: 'root' }, async () => {
+      throw new Error('tsup crashed');
+    });
+
+    expect(await done).toMatchObject({ status: 'failed', error: 'tsup crashed' });
+  });
+
+  it('reports jobs whose process died as interrupted', async () => {
+    const deadPid = spawnSync('true').pid!;
+    const dir = join(repoRoot, '.kb', 'release', 'runs', 'job-1');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'events.jsonl'), '');
+    writeFileSync(join(dir, 'job.json'), JSON.stringify({
+      id: 'job-1', kind: 'run', scope: 'root', status: 'running', pid: deadPid, host: hostname(),
+      createdAt: new Date().toISOString(), updatedAt: new Date().toISOString(),
+    }));
+
+    expect((await readReleaseJob(repoRoot, 'job-1'))?.status).toBe('interrupted');
+    const events: ReleaseJobEvent[] = [];
+    for await (const event of followReleaseJobEvents(repoRoot, 'job-1', { pollMs: 10 })) {events.push(event);}
+    expect(events).toMatchObject([{ seq: 1, type: 'done', status: 'interrupted' }]);
+  });
+
+  it('rejects job ids that would escape the runs directory', async () => {
+    expect(await readReleaseJob(repoRoot, '../../secrets')).toBeNull();
+    expect(await readReleaseJobEvents(repoRoot, '../../secrets')).toEqual([]);
+  });
+
+  // ─── cancellation ───────────────────────────────────────────────────────────
+
+  const untilCancelled = (signal: AbortSignal) =>
+    new Promise<{ success: boolean }>(resolve => signal.addEventListener('abort', () => resolve({ success: false }), { once: true }));
+
+  it('aborts the job signal on cancel and finishes as cancelled', async () => {
+    const { job, done } = await startReleaseJob(repoRoot, { kind: 'run', scope: 'root' }, reporter => untilCancelled(reporter.signal));
+
+    expect(await cancelReleaseJob(repoRoot, job.id)).toMatchObject({ status: 'running', cancelRequestedAt: expect.any(String) });
+    const finished = await done;
+
+    expect(finished).toMatchObject({ status: 'cancelled', result: { success: false }, cancelRequestedAt: expect.any(String) });
+    expect((await readReleaseJobEvents(repoRoot, job.id)).map(({ seq: _seq, ts: _ts, ...e }) => e)).toEqual([
+      { type: 'log', level: 'warn', message: 'Cancellation requested' },
+      { type: 'done', status: 'cancelled' },
+    ]);
+    // Nothing left to cancel
+    expect((await cancelReleaseJob(repoRoot, job.id))?.status).toBe('cancelled');
+    expect(await cancelReleaseJob(repoRoot, 'no-such-job')).toBeNull();
+  });
+
+  it('picks up cancellation requested by another process', async () => {
+    const { job, done } = await startReleaseJob(repoRoot, { kind: 'build', scope: 'root' }, reporter => untilCancelled(reporter.signal));
+
+    writeFileSync(join(repoRoot, '.kb', 'release', 'runs', job.id, 'cancel'), new Date().toISOString());
+
+    expect((await done).status).toBe('cancelled');
+  });
+
+  // ─── SSE stream ─────────────────────────────────────────────────────────────
+
+  it('streams events live as Server-Sent Events, resuming after a given id', async () => {
+    let finish!: () => void;
+    const gate = new Promise<void>(resolve => { finish = resolve; });
+    const { job, done } = await startReleaseJob(repoRoot, { kind: 'run', scope: 'root' }, async (reporter) => {
+      reporter.stage('planning', 'one');
+      await gate;
+      reporter.stage('publishing', 'two');
+    });
+
+    const body = new Response(createReleaseJobEventStream(repoRoot, job.id, { after: 1, pollMs: 10 })).text();
+    setTimeout(finish, 50);
+    await done;
+
+    const messages = (await body).trim().split('\n\n');
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toMatch(/^id: 2\nevent: stage\ndata: \{.*"message":"two"/);
+    expect(messages[1]).toMatch(/^id: 3\nevent: done\ndata: \{.*"status":"completed"/);
+  });
+
+  it('leaves no abort listener behind between polls', async () => {
+    let finish!: () => void;
+    const gate = new Promise<void>(resolve => { finish = resolve; });
+    const { job, done } = await startReleaseJob(repoRoot, { kind: 'run', scope: 'root' }, () => gate);
+    const abort = new AbortController();
+
+    const events = followReleaseJobEvents(repoRoot, job.id, { pollMs: 5, signal: abort.signal });
+    const following = (async () => { for await (const _event of events) { /* drain */ } })();
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    // Only the current poll's listener is attached, however many polls ran
+    expect(getEventListeners(abort.signal, 'abort').length).toBeLessThanOrEqual(1);
+    finish();
+    await done;
+    await following;
+    expect(getEventListeners(abort.signal, 'abort')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync, existsSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import {
+  createJournal,
+  loadJournal,
+  listJournals,
+  clearJournal,
+  recordStep,
+  recordPublished,
+  isStepDone,
+} from '../journal';
+import type { ReleasePlan } from '../types';
+
+const plan: ReleasePlan = {
+  packages: [],
+  strategy: 'semver',
+  registry: 'https://registry.npmjs.org',
+  rollbackEnabled: true,
+};
+
+describe('release journal', () => {
+  let repoRoot: string;
+  const journalsDir = () => join(repoRoot, '.kb', 'release', 'journal');
+
+  beforeEach(() => {
+    repoRoot = join(tmpdir(), `kb-journal-test-${randomBytes(4).toString('hex')}`);
+    mkdirSync(repoRoot, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  // ─── create / load / clear ──────────────────────────────────────────────────
+
+  it('persists a new journal per scope with the plan step completed', async () => {
+    const journal = await createJournal(repoRoot, '@kb-labs/core', plan, 'snap-1');
+
+    expect(journal).toMatchObject({
+      scope: '@kb-labs/core',
+      status: 'running',
+      plan,
+      snapshotId: 'snap-1',
+      steps: { plan: { status: 'completed' } },
+      published: [],
+    });
+    expect(readdirSync(journalsDir())).toEqual(['kb-labs-core.json']);
+    expect(await loadJournal(repoRoot, '@kb-labs/core')).toEqual(journal);
+    expect(await loadJournal(repoRoot)).toBeNull();
+  });
+
+  it('stores the unscoped release as root', async () => {
+    await createJournal(repoRoot, undefined, plan);
+
+    expect(readdirSync(journalsDir())).toEqual(['root.json']);
+    expect(await loadJournal(repoRoot, 'root')).toMatchObject({ scope: 'root' });
+  });
+
+  it('treats a corrupt journal as missing', async () => {
+    mkdirSync(journalsDir(), { recursive: true });
+    writeFileSync(join(journalsDir(), 'root.json'), '{"schemaVersion":');
+
+    expect(await loadJournal(repoRoot)).toBeNull();
+  });
+
+  it('clears the journal of one scope only', async () => {
+    await createJournal(repoRoot, 'root', plan);
+    await createJournal(repoRoot, '@kb-labs/core', plan);
+
+    await clearJournal(repoRoot);
+
+    expect(existsSync(join(journalsDir(), 'root.json'))).toBe(false);
+    expect(await loadJournal(repoRoot, '@kb-labs/core')).not.toBeNull();
+  });
+
+  it('lists the journals of every scope, skipping unreadable ones', async () => {
+    await createJournal(repoRoot, 'root', plan);
+    await createJournal(repoRoot, '@kb-labs/core', plan);
+    writeFileSync(join(journalsDir(), 'broken.json'), 'not json');
+
+    const scopes = (await listJournals(repoRoot)).map(j => j.scope).sort();
+
+    expect(scopes).toEqual(['@kb-labs/core', 'root']);
+  });
+
+  it('lists nothing before the first release', async () => {
+    expect(await listJournals(repoRoot)).toEqual([]);
+  });
+
+  // ─── steps ──────────────────────────────────────────────────────────────────
+
+  it('records step outcomes and fails the journal on a failed step', async () => {
+    const journal = await createJournal(repoRoot, 'root', plan);
+
+    await recordStep(repoRoot, journal, 'checks', 'skipped');
+    await recordStep(repoRoot, journal, 'build', 'failed', 'Build failed: @kb-labs/a');
+
+    const saved = await loadJournal(repoRoot);
+    expect(saved).toMatchObject({
+      status: 'failed',
+      steps: {
+        checks: { status: 'skipped' },
+        build: { status: 'failed', error: 'Build failed: @kb-labs/a' },
+      },
+    });
+    expect(saved?.steps.checks).not.toHaveProperty('error');
+  });
+
+  it('counts completed and skipped steps as done, failed and missing ones as not', async () => {
+    const journal = await createJournal(repoRoot, 'root', plan);
+    await recordStep(repoRoot, journal, 'checks', 'skipped');
+    await recordStep(repoRoot, journal, 'build', 'failed', 'boom');
+
+    expect(isStepDone(journal, 'plan')).toBe(true);
+    expect(isStepDone(journal, 'checks')).toBe(true);
+    expect(isStepDone(journal, 'build')).toBe(false);
+    expect(isStepDone(journal, 'publish')).toBe(false);
+    expect(isStepDone(null, 'plan')).toBe(false);
+  });
+
+  // ─── published packages ─────────────────────────────────────────────────────
+
+  it('records each published package once, in publish order', async () => {
+    const journal = await createJournal(repoRoot, 'root', plan);
+
+    await recordPublished(repoRoot, journal, '@kb-labs/b@1.0.1');
+    await recordPublished(repoRoot, journal, '@kb-labs/a@1.0.1');
+    await recordPublished(repoRoot, journal, '@kb-labs/b@1.0.1');
+
+    expect((await loadJournal(repoRoot))?.published).toEqual(['@kb-labs/b@1.0.1', '@kb-labs/a@1.0.1']);
+  });
+
+  it('tracks every registry a package went live on, primary first', async () => {
+    const journal = await createJournal(repoRoot, 'root', plan);
+
+    await recordPublished(repoRoot, journal, '@kb-labs/a@1.0.1', 'https://registry.npmjs.org');
+    await recordPublished(repoRoot, journal, '@kb-labs/a@1.0.1', 'https://npm.mirror.example.com');
+    await recordPublished(repoRoot, journal, '@kb-labs/a@1.0.1', 'https://registry.npmjs.org');
+
+    const saved = await loadJournal(repoRoot);
+    expect(saved?.published).toEqual(['@kb-labs/a@1.0.1']);
+    expect(saved?.publishedTo).toEqual({
+      '@kb-labs/a@1.0.1': ['https://registry.npmjs.org', 'https://npm.mirror.example.com'],
+    });
+  });
+});
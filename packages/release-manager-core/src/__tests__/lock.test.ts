@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir, hostname } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { spawnSync } from 'node:child_process';
+import { acquireReleaseLock, readReleaseLock, forceReleaseLock, type ReleaseLockInfo } from '../lock';
+
+describe('release lock', () => {
+  let repoRoot: string;
+  const locksDir = () => join(repoRoot, '.kb', 'release', 'locks');
+
+  function writeLock(scopeFile: string, info: ReleaseLockInfo): void {
+    mkdirSync(locksDir(), { recursive: true });
+    writeFileSync(join(locksDir(), scopeFile), JSON.stringify(info));
+  }
+
+  beforeEach(() => {
+    repoRoot = join(tmpdir(), `kb-lock-test-${randomBytes(4).toString('hex')}`);
+    mkdirSync(repoRoot, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  // ─── acquire / release ──────────────────────────────────────────────────────
+
+  it('records holder metadata and removes the lock on release', async () => {
+    const lock = await acquireReleaseLock(repoRoot, '@kb-labs/core', { owner: 'alice' });
+
+    const file = join(locksDir(), 'kb-labs-core.lock');
+    expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual({
+      scope: '@kb-labs/core',
+      pid: process.pid,
+      host: hostname(),
+      owner: 'alice',
+      acquiredAt: lock.info.acquiredAt,
+    });
+    expect(readdirSync(locksDir())).toEqual(['kb-labs-core.lock']);
+
+    await lock.release();
+    expect(existsSync(file)).toBe(false);
+  });
+
+  it('refuses a second release of the same scope while the holder is alive', async () => {
+    const lock = await acquireReleaseLock(repoRoot, 'root', { owner: 'ci' });
+
+    await expect(acquireReleaseLock(repoRoot, 'root', { owner: 'bob' }))
+      .rejects.toThrow(new RegExp(`^Release in progress for scope "root" by ci \\(pid ${process.pid} on .+\\) since `));
+    // Other scopes are independent
+    const other = await acquireReleaseLock(repoRoot, '@kb-labs/cli');
+    await other.release();
+
+    await lock.release();
+  });
+
+  // ─── stale locks ────────────────────────────────────────────────────────────
+
+  it('takes over a lock whose process is gone', async () => {
+    const deadPid = spawnSync('true').pid!;
+    writeLock('root.lock', { scope: 'root', pid: deadPid, host: hostname(), owner: 'crashed', acquiredAt: new Date().toISOString() });
+
+    expect((await readReleaseLock(repoRoot, 'root'))?.stale).toBe(true);
+    const lock = await acquireReleaseLock(repoRoot, 'root', { owner: 'alice' });
+    expect((await readReleaseLock(repoRoot, 'root'))?.owner).toBe('alice');
+    await lock.release();
+  });
+
+  it('judges locks from other hosts by age', async () => {
+    writeLock('root.lock', { scope: 'root', pid: 1, host: 'build-agent-7', owner: 'ci', acquiredAt: new Date().toISOString() });
+
+    expect((await readReleaseLock(repoRoot, 'root'))?.stale).toBe(false);
+    await expect(acquireReleaseLock(repoRoot, 'root')).rejects.toThrow(/by ci \(pid 1 on build-agent-7\)/);
+    expect((await readReleaseLock(repoRoot, 'root', { staleMs: 0 }))?.stale).toBe(true);
+  });
+
+  // ─── force release ──────────────────────────────────────────────────────────
+
+  it('force-releases a lock without letting the old holder remove its successor', async () => {
+    const first = await acquireReleaseLock(repoRoot, 'root', { owner: 'alice' });
+
+    expect((await forceReleaseLock(repoRoot, 'root'))?.owner).toBe('alice');
+    const second = await acquireReleaseLock(repoRoot, 'root', { owner: 'bob' });
+
+    await first.release();
+    expect((await readReleaseLock(repoRoot, 'root'))?.owner).toBe('bob');
+    await second.release();
+    expect(await readReleaseLock(repoRoot, 'root')).toBeNull();
+    expect(await forceReleaseLock(repoRoot, 'root')).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { readNpmrc, registryAuthKey, resolveRegistryToken, resolveDefaultRegistry, type NpmrcConfig } from '../npmrc';
+
+// ─── readNpmrc ────────────────────────────────────────────────────────────────
+
+describe('readNpmrc', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `kb-npmrc-test-${randomBytes(4).toString('hex')}`);
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads registries and tokens, expanding env vars, with earlier files winning', async () => {
+    writeFileSync(join(dir, 'project'), [
+      '# project settings',
+      '@acme:registry=https://verdaccio.example.com/',
+      '//verdaccio.example.com/:_authToken=${VERDACCIO_TOKEN}',
+      'always-auth=true',
+    ].join('\n'));
+    writeFileSync(join(dir, 'user'), [
+      'registry=https://registry.example.com/',
+      '@acme:registry=https://ignored.example.com/',
+      '; comment',
+      '//registry.npmjs.org/:_authToken=npm-user-token',
+    ].join('\n'));
+
+    const npmrc = await readNpmrc([join(dir, 'project'), join(dir, 'missing'), join(dir, 'user')], { VERDACCIO_TOKEN: 'v-token' });
+
+    expect(npmrc).toEqual({
+      registry: 'https://registry.example.com/',
+      scopedRegistries: { '@acme': 'https://verdaccio.example.com/' },
+      authTokens: {
+        '//verdaccio.example.com/': 'v-token',
+        '//registry.npmjs.org/': 'npm-user-token',
+      },
+    });
+  });
+
+  it('drops tokens whose env var is unset', async () => {
+    writeFileSync(join(dir, '.npmrc'), '//verdaccio.example.com/:_authToken=${VERDACCIO_TOKEN}\n');
+
+    expect((await readNpmrc([join(dir, '.npmrc')], {})).authTokens).toEqual({});
+  });
+});
+
+// ─── resolveRegistryToken ─────────────────────────────────────────────────────
+
+describe('resolveRegistryToken', () => {
+  const npmrc: NpmrcConfig = {
+    scopedRegistries: {},
+    authTokens: {
+      '//npm.example.com/': 'host-token',
+      '//npm.example.com/repo/internal/': 'repo-token',
+    },
+  };
+  const env = { NPM_TOKEN: 'npm-token', INTERNAL_TOKEN: 'env-token' };
+
+  it('prefers the env var configured for the registry', () => {
+    const config = { registryTokens: { 'https://npm.example.com/repo/internal/': 'INTERNAL_TOKEN' } };
+
+    expect(resolveRegistryToken('https://npm.example.com/repo/internal', { config, npmrc, env })).toBe('env-token');
+  });
+
+  it('uses the longest matching .npmrc auth token', () => {
+    expect(resolveRegistryToken('https://npm.example.com/repo/internal/', { npmrc, env })).toBe('repo-token');
+    expect(resolveRegistryToken('https://npm.example.com/repo/other', { npmrc, env })).toBe('host-token');
+  });
+
+  it('falls back to NPM_TOKEN for the default registry only', () => {
+    expect(resolveRegistryToken('https://registry.npmjs.org/', { npmrc, env })).toBe('npm-token');
+    expect(resolveRegistryToken('https://verdaccio.example.com', { npmrc, env })).toBeUndefined();
+    expect(resolveRegistryToken('https://verdaccio.example.com', { config: { registry: 'https://verdaccio.example.com/' }, env }))
+      .toBe('npm-token');
+  });
+});
+
+describe('registryAuthKey', () => {
+  it('names the auth token of exactly the registry', () => {
+    expect(registryAuthKey('https://npm.example.com/repo/internal')).toBe('//npm.example.com/repo/internal/:_authToken');
+    expect(registryAuthKey('https://registry.npmjs.org/')).toBe('//registry.npmjs.org/:_authToken');
+  });
+});
+
+describe('resolveDefaultRegistry', () => {
+  it('prefers config, then .npmrc, then npmjs', () => {
+    const npmrc: NpmrcConfig = { registry: 'https://npmrc.example.com/', scopedRegistries: {}, authTokens: {} };
+
+    expect(resolveDefaultRegistry({ registry: 'https://config.example.com/' }, npmrc)).toBe('https://config.example.com');
+    expect(resolveDefaultRegistry({}, npmrc)).toBe('https://npmrc.example.com');
+    expect(resolveDefaultRegistry({})).toBe('https://registry.npmjs.org');
+  });
+});
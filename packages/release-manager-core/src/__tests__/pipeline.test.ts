@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { execSync } from 'node:child_process';
+import { runReleasePipeline } from '../pipeline';
+import { recordApiSurface } from '../api-surface';
+import { loadJournal } from '../journal';
+import { approveRelease, readReleaseApproval, rejectRelease } from '../approval';
+import { readReleaseLock } from '../lock';
+import type { RegistryClient } from '../registry';
+import type { PackagePublisher, PipelineOptions } from '../types';
+
+/** Nothing is on the registry yet */
+const noRegistry: RegistryClient = { getPackageInfo: async () => null };
+
+/** Publisher that records what it published; `crashAfter` dies like a killed process after that many packages */
+function recordingPublisher(options: { crashAfter?: number } = {}): PackagePublisher & { published: string[] } {
+  const published: string[] = [];
+  return {
+    published,
+    async publish(packages, { onPublished }) {
+      const specs: string[] = [];
+      for (const pkg of packages) {
+        if (options.crashAfter !== undefined && published.length >= options.crashAfter) {
+          throw new Error('Process killed');
+        }
+        const spec = `${pkg.name}@${pkg.version}`;
+        published.push(spec);
+        specs.push(spec);
+        await onPublished?.(pkg, pkg.registries?.[0]);
+      }
+      return { published: specs, skipped: [], errors: [] };
+    },
+  };
+}
+
+function writeFiles(dir: string, files: Record<string, string>): void {
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(join(dir, file, '..'), { recursive: true });
+    writeFileSync(join(dir, file), content);
+  }
+}
+
+/**
+ * Monorepo with @kb-labs/a and @kb-labs/b at 1.0.0, committed and pushed to a local bare remote.
+ */
+function makeRepo(root: string, remote: string, files: Record<string, string> = {}): void {
+  const git = (cmd: string, cwd = root) => execSync(`git ${cmd}`, { cwd, stdio: 'pipe' });
+
+  writeFiles(root, {
+    'package.json': JSON.stringify({ private: true }),
+    'pnpm-workspace.yaml': 'packages:\n  - "packages/*"\n',
+    'packages/a/package.json': JSON.stringify({ name: '@kb-labs/a', version: '1.0.0' }),
+    'packages/b/package.json': JSON.stringify({ name: '@kb-labs/b', version: '1.0.0' }),
+    ...files,
+  });
+  git('init -q -b main');
+  git('config user.email "test@test.com"');
+  git('config user.name "Test"');
+  git('add -A');
+  git('commit -q -m "init"');
+  mkdirSync(remote, { recursive: true });
+  git('init -q --bare', remote);
+  git(`remote add origin ${remote}`);
+  git('push -q -u origin main');
+}
+
+const version = (root: string, dir: string) =>
+  JSON.parse(readFileSync(join(root, 'packages', dir, 'package.json'), 'utf-8')).version;
+
+// ─── API check after build ────────────────────────────────────────────────────
+
+describe('runReleasePipeline — API check after build', () => {
+  let root: string;
+  let remote: string;
+
+  // Built declarations lose `wave`, which the recorded baseline still has
+  const BUILD = `node -e "require('fs').mkdirSync('dist',{recursive:true});require('fs').writeFileSync('dist/index.d.ts','export declare function greet(): void;\\n')"`;
+
+  beforeEach(async () => {
+    const id = randomBytes(4).toString('hex');
+    root = join(tmpdir(), `kb-pipeline-api-${id}`);
+    remote = join(tmpdir(), `kb-pipeline-api-${id}-remote.git`);
+    const pkgDir = join(root, 'packages', 'a');
+    const manifest = JSON.stringify({ name: '@kb-labs/a', version: '1.0.0', types: './dist/index.d.ts', scripts: { build: BUILD } });
+    writeFiles(pkgDir, {
+      'package.json': manifest,
+      'dist/index.d.ts': 'export declare function greet(): void;\nexport declare function wave(): void;\n',
+    });
+    await recordApiSurface(pkgDir);
+    rmSync(join(pkgDir, 'dist'), { recursive: true });
+    makeRepo(root, remote, {
+      'packages/a/package.json': manifest,
+      'packages/b/package.json': JSON.stringify({ name: '@kb-labs/b', version: '1.0.0', private: true }),
+    });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(remote, { recursive: true, force: true });
+  });
+
+  it('fails the build step, so a resumed run checks the API again instead of publishing', async () => {
+    const publisher = recordingPublisher();
+    const options: PipelineOptions = {
+      cwd: root,
+      repoRoot: root,
+      scopeCwd: root,
+      config: { bump: 'patch', api: { check: 'error' } },
+      skipChecks: true,
+      skipVerify: true,
+      publisher,
+      registryClient: noRegistry,
+    };
+
+    const first = await runReleasePipeline(options);
+
+    expect(first.success).toBe(false);
+    expect(first.report.result.errors).toEqual([
+      'API check failed: @kb-labs/a: patch planned but the API changes require major (removed: wave)',
+    ]);
+    const journal = await loadJournal(root);
+    expect(journal).toMatchObject({ status: 'failed', steps: { build: { status: 'failed' } } });
+    expect(version(root, 'a')).toBe('1.0.0');
+
+    const resumed = await runReleasePipeline({ ...options, resume: true });
+
+    expect(resumed.success).toBe(false);
+    expect(resumed.report.result.errors?.[0]).toMatch(/^API check failed: /);
+    expect(publisher.published).toEqual([]);
+  }, 60_000);
+});
+
+// ─── Resume ───────────────────────────────────────────────────────────────────
+
+describe('runReleasePipeline — resume', () => {
+  let root: string;
+  let remote: string;
+  let options: PipelineOptions;
+
+  beforeEach(() => {
+    const id = randomBytes(4).toString('hex');
+    root = join(tmpdir(), `kb-pipeline-resume-${id}`);
+    remote = join(tmpdir(), `kb-pipeline-resume-${id}-remote.git`);
+    makeRepo(root, remote);
+    options = {
+      cwd: root,
+      repoRoot: root,
+      scopeCwd: root,
+      config: { bump: 'patch' },
+      skipChecks: true,
+      skipBuild: true,
+      skipVerify: true,
+      publisher: recordingPublisher(),
+      registryClient: noRegistry,
+    };
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(remote, { recursive: true, force: true });
+  });
+
+  it('publishes only the packages a crashed run did not get to', async () => {
+    const crashing = recordingPublisher({ crashAfter: 1 });
+
+    await expect(runReleasePipeline({ ...options, publisher: crashing })).rejects.toThrow('Process killed');
+
+    expect(crashing.published).toHaveLength(1);
+    const crashed = await loadJournal(root);
+    expect(crashed?.published).toEqual(crashing.published);
+    expect(crashed?.steps).toMatchObject({
+      checks: { status: 'skipped' },
+      build: { status: 'skipped' },
+      version: { status: 'completed' },
+    });
+    expect(crashed?.steps.publish).toBeUndefined();
+
+    const publisher = recordingPublisher();
+    const messages: string[] = [];
+    const resumed = await runReleasePipeline({ ...options, publisher, resume: true, onProgress: (_, msg) => messages.push(msg) });
+
+    expect(resumed.success).toBe(true);
+    expect([...crashing.published, ...publisher.published].sort()).toEqual(['@kb-labs/a@1.0.1', '@kb-labs/b@1.0.1']);
+    expect(publisher.published).toHaveLength(1);
+    expect(resumed.report.result.published?.sort()).toEqual(['@kb-labs/a@1.0.1', '@kb-labs/b@1.0.1']);
+    // Finished steps are not redone — the versions are bumped once
+    expect(messages).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^Resuming release .+ \(1\/2 package\(s\) already published\)$/),
+      'Pre-release checks already passed — skipping',
+      'Package versions already updated — skipping',
+    ]));
+    expect(version(root, 'a')).toBe('1.0.1');
+    expect(version(root, 'b')).toBe('1.0.1');
+    expect(await loadJournal(root)).toMatchObject({ status: 'completed', steps: { publish: { status: 'completed' } } });
+  }, 60_000);
+
+  it('refuses to resume a completed release', async () => {
+    const first = await runReleasePipeline(options);
+    expect(first.success).toBe(true);
+
+    await expect(runReleasePipeline({ ...options, resume: true })).rejects.toThrow(/already completed — nothing to resume$/);
+  }, 60_000);
+
+  it('refuses to resume without a journal', async () => {
+    await expect(runReleasePipeline({ ...options, resume: true }))
+      .rejects.toThrow('No release journal found for scope "root" — nothing to resume');
+  });
+
+  it('refuses to resume in dry-run mode', async () => {
+    await expect(runReleasePipeline({ ...options, resume: true, dryRun: true }))
+      .rejects.toThrow('Cannot resume a release in dry-run mode');
+  });
+});
+
+// ─── Hooks ────────────────────────────────────────────────────────────────────
+
+describe('runReleasePipeline — failing hooks', () => {
+  let root: string;
+  let remote: string;
+
+  beforeEach(() => {
+    const id = randomBytes(4).toString('hex');
+    root = join(tmpdir(), `kb-pipeline-hooks-${id}`);
+    remote = join(tmpdir(), `kb-pipeline-hooks-${id}-remote.git`);
+    makeRepo(root, remote);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(remote, { recursive: true, force: true });
+  });
+
+  it('fails the journal step the hook ran in, so a resumed run redoes it', async () => {
+    const publisher = recordingPublisher();
+    const options: PipelineOptions = {
+      cwd: root,
+      repoRoot: root,
+      scopeCwd: root,
+      config: { bump: 'patch', hooks: { afterVersion: 'echo "changelog not approved" >&2; exit 1' } },
+      skipChecks: true,
+      skipBuild: true,
+      skipVerify: true,
+      publisher,
+      registryClient: noRegistry,
+    };
+
+    const result = await runReleasePipeline(options);
+
+    expect(result.success).toBe(false);
+    const error = 'Hook afterVersion failed (echo "changelog not approved" >&2; exit 1): changelog not approved';
+    expect(result.report.result.errors).toEqual([error]);
+    expect(await loadJournal(root)).toMatchObject({ status: 'failed', steps: { version: { status: 'failed', error } } });
+    // Nothing was published, so the version bump was rolled back
+    expect(version(root, 'a')).toBe('1.0.0');
+
+    const resumed = await runReleasePipeline({ ...options, config: { bump: 'patch' }, resume: true });
+
+    expect(resumed.success).toBe(true);
+    expect(publisher.published.sort()).toEqual(['@kb-labs/a@1.0.1', '@kb-labs/b@1.0.1']);
+    expect(version(root, 'a')).toBe('1.0.1');
+  }, 60_000);
+});
+
+// ─── Approval ─────────────────────────────────────────────────────────────────
+
+describe('runReleasePipeline — approval', () => {
+  let root: string;
+  let remote: string;
+  let options: PipelineOptions;
+  let publisher: ReturnType<typeof recordingPublisher>;
+
+  beforeEach(() => {
+    const id = randomBytes(4).toString('hex');
+    root = join(tmpdir(), `kb-pipeline-approval-${id}`);
+    remote = join(tmpdir(), `kb-pipeline-approval-${id}-remote.git`);
+    makeRepo(root, remote);
+    publisher = recordingPublisher();
+    options = {
+      cwd: root,
+      repoRoot: root,
+      scopeCwd: root,
+      config: { bump: 'patch', approval: { required: true }, hooks: { onFailure: 'touch failed.txt' } },
+      skipChecks: true,
+      skipBuild: true,
+      skipVerify: true,
+      publisher,
+      registryClient: noRegistry,
+      lockOwner: 'alice',
+    };
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(remote, { recursive: true, force: true });
+  });
+
+  it('stops at pending-approval without the lock, and publishes when resumed after approval', async () => {
+    const pending = await runReleasePipeline(options);
+
+    expect(pending.success).toBe(false);
+    expect(pending.report.stage).toBe('pending-approval');
+    expect(pending.report.result.errors).toBeUndefined();
+    expect(publisher.published).toEqual([]);
+    expect(await readReleaseLock(root, 'root')).toBeNull();
+    // Not a failure — the bump stays for the resumed run and no onFailure hook runs
+    expect(version(root, 'a')).toBe('1.0.1');
+    expect(existsSync(join(root, 'failed.txt'))).toBe(false);
+    expect(await loadJournal(root)).toMatchObject({ status: 'running' });
+
+    const stillPending = await runReleasePipeline({ ...options, resume: true });
+    expect(stillPending.report.stage).toBe('pending-approval');
+
+    const request = await readReleaseApproval(root, 'root');
+    await approveRelease(root, 'root', { approver: 'bob', planHash: request!.planHash });
+    const resumed = await runReleasePipeline({ ...options, resume: true });
+
+    expect(resumed.success).toBe(true);
+    expect(resumed.report.result.approval).toMatchObject({ approver: 'bob' });
+    expect(publisher.published.sort()).toEqual(['@kb-labs/a@1.0.1', '@kb-labs/b@1.0.1']);
+  }, 60_000);
+
+  it('rolls a rejected release back when resumed', async () => {
+    await runReleasePipeline(options);
+    await rejectRelease(root, 'root', { rejectedBy: 'bob', reason: 'not this week' });
+
+    const resumed = await runReleasePipeline({ ...options, resume: true });
+
+    expect(resumed.success).toBe(false);
+    expect(resumed.report.result.errors).toEqual(['Release rejected by bob: not this week']);
+    expect(await loadJournal(root)).toMatchObject({ status: 'failed', steps: { approval: { status: 'failed' } } });
+    expect(version(root, 'a')).toBe('1.0.0');
+    expect(publisher.published).toEqual([]);
+  }, 60_000);
+
+  it('waits in-process for the decision with approval.wait', async () => {
+    const waiting = runReleasePipeline({ ...options, config: { bump: 'patch', approval: { required: true, wait: true } } });
+
+    let request = await readReleaseApproval(root, 'root');
+    for (let i = 0; !request && i < 100; i++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      request = await readReleaseApproval(root, 'root');
+    }
+    expect((await readReleaseLock(root, 'root'))?.owner).toBe('alice');
+    await approveRelease(root, 'root', { approver: 'bob', planHash: request!.planHash });
+
+    expect((await waiting).success).toBe(true);
+    expect(publisher.published).toHaveLength(2);
+  }, 60_000);
+});
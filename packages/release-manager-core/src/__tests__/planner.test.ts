@@ -6,6 +6,12 @@ import { randomBytes } from 'node:crypto';
 import { execSync } from 'node:child_process';
 import { matchesPackagePattern } from '../planner';
 import { planRelease } from '../planner';
+import { applyVersionStrategy } from '../versioning-strategies';
+import type { PackageVersion } from '../types';
+import type { RegistryClient, RegistryPackageInfo } from '../registry';
+
+/** Planning never reaches the real registry in tests */
+const noRegistry: RegistryClient = { getPackageInfo: async () => null };
 
 // ─── matchesPackagePattern ────────────────────────────────────────────────────
 
@@ -67,7 +73,7 @@ describe('matchesPackagePattern', () => {
 
 // ─── discoverPackages via planRelease ─────────────────────────────────────────
 
-function makeTmpMonorepo(packages: Array<{ name: string; version?: string; dir?: string }>): string {
+function makeTmpMonorepo(packages: Array<{ name: string; version?: string; dir?: string; dependencies?: Record<string, string>; devDependencies?: Record<string, string> }>): string {
   const root = join(tmpdir(), `kb-planner-test-${randomBytes(4).toString('hex')}`);
   mkdirSync(root, { recursive: true });
 
@@ -92,6 +98,8 @@ function makeTmpMonorepo(packages: Array<{ name: string; version?: string; dir?:
     writeFileSync(join(pkgDir, 'package.json'), JSON.stringify({
       name: pkg.name,
       version: pkg.version ?? '1.0.0',
+      ...(pkg.dependencies && { dependencies: pkg.dependencies }),
+      ...(pkg.devDependencies && { devDependencies: pkg.devDependencies }),
     }));
     // Minimal dist so verifier doesn't complain (planner doesn't need it)
   }
@@ -116,7 +124,7 @@ describe('planRelease — packages filter', () => {
   });
 
   it('discovers all non-private packages by default', async () => {
-    const plan = await planRelease({ cwd: root, config: {} });
+    const plan = await planRelease({ cwd: root, config: {}, registryClient: noRegistry });
     const names = plan.packages.map(p => p.name).sort();
     expect(names).toContain('@scope/alpha');
     expect(names).toContain('@scope/beta');
@@ -128,6 +136,7 @@ describe('planRelease — packages filter', () => {
     const plan = await planRelease({
       cwd: root,
       config: { packages: { exclude: ['@scope/devkit'] } },
+      registryClient: noRegistry,
     });
     const names = plan.packages.map(p => p.name);
     expect(names).not.toContain('@scope/devkit');
@@ -138,6 +147,7 @@ describe('planRelease — packages filter', () => {
     const plan = await planRelease({
       cwd: root,
       config: { packages: { exclude: ['@scope/d*'] } },
+      registryClient: noRegistry,
     });
     const names = plan.packages.map(p => p.name);
     expect(names).not.toContain('@scope/devkit');
@@ -148,6 +158,7 @@ describe('planRelease — packages filter', () => {
     const plan = await planRelease({
       cwd: root,
       config: { packages: { include: ['@scope/alpha', '@scope/beta'] } },
+      registryClient: noRegistry,
     });
     const names = plan.packages.map(p => p.name).sort();
     expect(names).toEqual(['@scope/alpha', '@scope/beta']);
@@ -157,6 +168,7 @@ describe('planRelease — packages filter', () => {
     const plan = await planRelease({
       cwd: root,
       config: { packages: { paths: ['packages/*'] } },
+      registryClient: noRegistry,
     });
     const names = plan.packages.map(p => p.name);
     // apps/gamma should not appear
@@ -177,6 +189,7 @@ describe('planRelease — packages filter', () => {
         },
       },
       scope: '@scope/*',
+      registryClient: noRegistry,
     });
     const names = plan.packages.map(p => p.name);
     expect(names).not.toContain('@scope/devkit'); // global exclude
@@ -184,3 +197,391 @@ describe('planRelease — packages filter', () => {
     expect(names).toContain('@scope/beta');
   });
 });
+
+// ─── dependency ordering ──────────────────────────────────────────────────────
+
+describe('planRelease — dependency graph', () => {
+  let root: string;
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('records workspace dependencies and orders dependencies first', async () => {
+    root = makeTmpMonorepo([
+      { name: '@scope/app', dependencies: { '@scope/core': 'workspace:*', '@scope/utils': 'workspace:*', lodash: '^4.0.0' } },
+      { name: '@scope/core', dependencies: { '@scope/utils': 'workspace:*' } },
+      { name: '@scope/utils' },
+    ]);
+
+    const plan = await planRelease({ cwd: root, config: {}, registryClient: noRegistry });
+    const names = plan.packages.map(p => p.name);
+    expect(names).toEqual(['@scope/utils', '@scope/core', '@scope/app']);
+
+    const app = plan.packages.find(p => p.name === '@scope/app')!;
+    expect(app.dependencies?.sort()).toEqual(['@scope/core', '@scope/utils']);
+  });
+
+  it('fails with a cycle report', async () => {
+    root = makeTmpMonorepo([
+      { name: '@scope/a', dependencies: { '@scope/b': 'workspace:*' } },
+      { name: '@scope/b', dependencies: { '@scope/a': 'workspace:*' } },
+      { name: '@scope/c' },
+    ]);
+
+    await expect(planRelease({ cwd: root, config: {}, registryClient: noRegistry })).rejects.toThrow(/@scope\/a → @scope\/b → @scope\/a/);
+  });
+
+  it('orders builds by devDependencies without failing on their cycles', async () => {
+    root = makeTmpMonorepo([
+      { name: '@scope/app', dependencies: { '@scope/core': 'workspace:*' } },
+      { name: '@scope/core', devDependencies: { '@scope/testkit': 'workspace:*' } },
+      // The test kit exercises core — a dev-only cycle
+      { name: '@scope/testkit', dependencies: { '@scope/utils': 'workspace:*' }, devDependencies: { '@scope/core': 'workspace:*' } },
+      { name: '@scope/utils' },
+    ]);
+
+    const plan = await planRelease({ cwd: root, config: {}, registryClient: noRegistry });
+    const names = plan.packages.map(p => p.name);
+    expect(names.indexOf('@scope/utils')).toBeLessThan(names.indexOf('@scope/testkit'));
+    expect(names.indexOf('@scope/core')).toBeLessThan(names.indexOf('@scope/app'));
+
+    const core = plan.packages.find(p => p.name === '@scope/core')!;
+    expect(core).toMatchObject({ dependencies: [], devDependencies: ['@scope/testkit'] });
+  });
+});
+
+// ─── change detection ─────────────────────────────────────────────────────────
+
+describe('planRelease — changes since last release tag', () => {
+  let root: string;
+  const git = (cmd: string) => execSync(`git ${cmd}`, { cwd: root, stdio: 'pipe' });
+
+  beforeEach(() => {
+    root = makeTmpMonorepo([
+      { name: '@scope/alpha' },
+      { name: '@scope/beta' },
+      { name: '@scope/gamma' },
+      { name: '@scope/delta', version: '0.1.0' },
+    ]);
+    git('add -A');
+    git('commit -q -m "release"');
+    git('tag @scope/alpha@1.0.0');
+    git('tag @scope/beta@1.0.0');
+    git('tag v1.0.0'); // lockstep tag covers gamma
+    // delta (0.1.0) has no tag at all
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('includes only packages with relevant committed changes and records why', async () => {
+    mkdirSync(join(root, 'packages/alpha/src'), { recursive: true });
+    writeFileSync(join(root, 'packages/alpha/src/index.ts'), 'export {};\n');
+    writeFileSync(join(root, 'packages/beta/README.md'), '# beta\n');
+    git('add -A');
+    git('commit -q -m "feat: alpha"');
+
+    const plan = await planRelease({
+      cwd: root,
+      config: { changes: { ignore: ['**/*.md'] } },
+      registryClient: noRegistry,
+    });
+
+    const byName = Object.fromEntries(plan.packages.map(p => [p.name, p]));
+    expect(Object.keys(byName).sort()).toEqual(['@scope/alpha', '@scope/delta']);
+    expect(byName['@scope/alpha']!.changes).toEqual({
+      reason: 'changed',
+      since: '@scope/alpha@1.0.0',
+      files: ['src/index.ts'],
+    });
+    expect(byName['@scope/delta']!.changes).toEqual({ reason: 'no-release-tag' });
+  });
+
+  it('uses the lockstep vX.Y.Z tag when there is no package tag', async () => {
+    writeFileSync(join(root, 'packages/gamma/index.js'), 'module.exports = 1;\n');
+    git('add -A');
+    git('commit -q -m "fix: gamma"');
+
+    const plan = await planRelease({ cwd: root, config: {}, registryClient: noRegistry });
+    const gamma = plan.packages.find(p => p.name === '@scope/gamma');
+    expect(gamma?.changes?.since).toBe('v1.0.0');
+  });
+
+  it('finds release tags in the configured tag format', async () => {
+    git('tag release/alpha/1.0.0');
+    git('tag release/beta/1.0.0');
+    writeFileSync(join(root, 'packages/alpha/index.js'), 'module.exports = 2;\n');
+    git('add -A');
+    git('commit -q -m "fix: alpha"');
+
+    const plan = await planRelease({
+      cwd: root,
+      config: { git: { tagFormat: 'release/{unscopedName}/{version}' } },
+      registryClient: noRegistry,
+    });
+    const byName = Object.fromEntries(plan.packages.map(p => [p.name, p.changes]));
+    expect(Object.keys(byName).sort()).toEqual(['@scope/alpha', '@scope/delta']);
+    expect(byName['@scope/alpha']?.since).toBe('release/alpha/1.0.0');
+  });
+});
+
+// ─── conventional-commit bumps ────────────────────────────────────────────────
+
+describe('planRelease — bump from commits since release tag', () => {
+  let root: string;
+  const git = (cmd: string) => execSync(`git ${cmd}`, { cwd: root, stdio: 'pipe' });
+
+  const commitTo = (pkg: string, message: string) => {
+    const file = join(root, 'packages', pkg, 'index.js');
+    writeFileSync(file, `// ${randomBytes(4).toString('hex')}\n`);
+    git('add -A');
+    execSync('git commit -q -F -', { cwd: root, input: message, stdio: ['pipe', 'pipe', 'pipe'] });
+  };
+
+  beforeEach(() => {
+    root = makeTmpMonorepo([
+      { name: '@scope/alpha' },
+      { name: '@scope/beta' },
+      { name: '@scope/gamma', version: '0.3.0' },
+    ]);
+    git('add -A');
+    // Old breaking change before the release must not count
+    execSync('git commit -q -F -', { cwd: root, input: 'feat!: old break', stdio: ['pipe', 'pipe', 'pipe'] });
+    git('tag @scope/alpha@1.0.0');
+    git('tag @scope/beta@1.0.0');
+    git('tag @scope/gamma@0.3.0');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('detects breaking changes from footers and scoped ! headers', async () => {
+    commitTo('alpha', 'fix(core): tweak\n\nBREAKING CHANGE: removed option');
+    commitTo('beta', 'fix(api)!: drop legacy endpoint');
+
+    const plan = await planRelease({ cwd: root, config: {}, registryClient: noRegistry });
+    const next = Object.fromEntries(plan.packages.map(p => [p.name, p.nextVersion]));
+    expect(next).toEqual({ '@scope/alpha': '2.0.0', '@scope/beta': '2.0.0' });
+  });
+
+  it('applies configured bump rules and 0.x handling', async () => {
+    commitTo('alpha', 'perf: faster parse');
+    commitTo('beta', 'docs: readme');
+    commitTo('gamma', 'feat!: new config format');
+
+    const plan = await planRelease({
+      cwd: root,
+      config: { bumpRules: { types: { perf: 'minor' }, preMajor: true } },
+      registryClient: noRegistry,
+    });
+    const next = Object.fromEntries(plan.packages.map(p => [p.name, p.nextVersion]));
+    expect(next).toEqual({
+      '@scope/alpha': '1.1.0',
+      '@scope/beta': '1.0.1', // changed without release-worthy commits → patch
+      '@scope/gamma': '0.4.0',
+    });
+  });
+});
+
+// ─── registry state ───────────────────────────────────────────────────────────
+
+function fakeRegistry(packages: Record<string, RegistryPackageInfo>): RegistryClient {
+  return {
+    async getPackageInfo(name) {
+      return packages[name] ?? null;
+    },
+  };
+}
+
+describe('planRelease — registry', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = makeTmpMonorepo([
+      { name: '@scope/alpha', version: '1.0.0' },
+      { name: '@scope/beta', version: '2.0.0' },
+    ]);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('marks published packages and flags drift', async () => {
+    const plan = await planRelease({
+      cwd: root,
+      config: {},
+      bumpOverride: 'minor',
+      registryClient: fakeRegistry({
+        '@scope/alpha': { versions: ['0.9.0', '1.0.0'], distTags: { latest: '1.0.0' } },
+        '@scope/beta': { versions: ['2.0.0', '2.0.5'], distTags: { latest: '2.0.5' } },
+      }),
+    });
+
+    const alpha = plan.packages.find(p => p.name === '@scope/alpha')!;
+    const beta = plan.packages.find(p => p.name === '@scope/beta')!;
+    expect(alpha.isPublished).toBe(true);
+    expect(alpha.drift).toBeUndefined();
+    expect(beta.drift).toBe(true);
+    expect(beta.registryLatest).toBe('2.0.5');
+    expect(plan.warnings).toHaveLength(1);
+    expect(plan.warnings![0]).toMatch(/@scope\/beta.*2\.0\.5/);
+  });
+
+  it('refuses versions that are already published', async () => {
+    await expect(planRelease({
+      cwd: root,
+      config: {},
+      bumpOverride: 'minor',
+      registryClient: fakeRegistry({
+        '@scope/alpha': { versions: ['1.0.0', '1.1.0'], distTags: { latest: '1.0.0' } },
+      }),
+    })).rejects.toThrow(/already published.*\n\s+@scope\/alpha@1\.1\.0/);
+  });
+
+  it('warns instead of failing when the registry is unreachable', async () => {
+    const plan = await planRelease({
+      cwd: root,
+      config: {},
+      registryClient: { getPackageInfo: async () => { throw new Error('ECONNREFUSED'); } },
+    });
+
+    expect(plan.packages).toHaveLength(2);
+    expect(plan.warnings?.every(w => w.includes('ECONNREFUSED'))).toBe(true);
+  });
+});
+
+// ─── registry routing ─────────────────────────────────────────────────────────
+
+describe('planRelease — registry routing', () => {
+  let root: string;
+  const plan = (config: Parameters<typeof planRelease>[0]['config'], scope?: string) =>
+    planRelease({ cwd: root, config, scope, bumpOverride: 'minor', registryClient: noRegistry });
+  const registriesOf = (packages: PackageVersion[]) =>
+    Object.fromEntries(packages.map(p => [p.name, p.registries]));
+
+  beforeEach(() => {
+    root = makeTmpMonorepo([
+      { name: '@acme/internal', version: '1.0.0' },
+      { name: '@scope/alpha', version: '1.0.0' },
+      { name: 'plain', version: '1.0.0' },
+    ]);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('keeps every package on the default registry without routing', async () => {
+    const result = await plan({ registry: 'https://npm.example.com/' });
+
+    expect(result.registry).toBe('https://npm.example.com');
+    expect(registriesOf(result.packages)).toEqual({ '@acme/internal': undefined, '@scope/alpha': undefined, plain: undefined });
+  });
+
+  it('honors publishConfig.registry and .npmrc scoped registries', async () => {
+    writeFileSync(join(root, 'packages/alpha/package.json'), JSON.stringify({
+      name: '@scope/alpha', version: '1.0.0', publishConfig: { registry: 'https://alpha.example.com/' },
+    }));
+    writeFileSync(join(root, '.npmrc'), '@acme:registry=https://verdaccio.example.com/\n');
+
+    const result = await plan({});
+
+    expect(registriesOf(result.packages)).toEqual({
+      '@acme/internal': ['https://verdaccio.example.com'],
+      '@scope/alpha': ['https://alpha.example.com'],
+      plain: undefined,
+    });
+  });
+
+  it('applies routing rules before package and .npmrc settings, first match wins', async () => {
+    writeFileSync(join(root, '.npmrc'), '@acme:registry=https://verdaccio.example.com/\n');
+
+    const result = await plan({
+      registries: [
+        { packages: '@acme/*', registry: ['https://verdaccio.example.com', 'https://registry.npmjs.org'] },
+        { packages: ['plain', '@acme/*'], registry: 'https://other.example.com' },
+      ],
+    });
+
+    expect(registriesOf(result.packages)).toEqual({
+      '@acme/internal': ['https://verdaccio.example.com', 'https://registry.npmjs.org'],
+      '@scope/alpha': undefined,
+      plain: ['https://other.example.com'],
+    });
+  });
+
+  it('checks the scope rules before the global ones', async () => {
+    const result = await plan({
+      registries: [{ packages: '@scope/*', registry: 'https://global.example.com' }],
+      scopes: {
+        '@scope/alpha': { registries: [{ packages: '@scope/*', registry: 'https://scope.example.com' }] },
+      },
+    }, '@scope/alpha');
+
+    expect(registriesOf(result.packages)).toEqual({ '@scope/alpha': ['https://scope.example.com'] });
+  });
+
+  it('mirrors the packages of a scope to every scope registry', async () => {
+    const result = await plan({
+      scopes: { '@scope/alpha': { registry: ['https://registry.npmjs.org', 'https://mirror.example.com'] } },
+    }, '@scope/alpha');
+
+    expect(registriesOf(result.packages)).toEqual({
+      '@scope/alpha': ['https://registry.npmjs.org', 'https://mirror.example.com'],
+    });
+  });
+});
+
+// ─── ripple strategy ──────────────────────────────────────────────────────────
+
+describe('applyVersionStrategy — ripple', () => {
+  const pkg = (name: string, currentVersion: string, dependencies: string[] = []): PackageVersion => ({
+    name, path: `/tmp/${name}`, currentVersion, nextVersion: currentVersion, bump: 'auto', isPublished: false, dependencies,
+  });
+
+  const workspace = [
+    pkg('core', '1.0.0'),
+    pkg('cli', '2.3.0', ['core']),
+    pkg('studio', '0.4.0', ['cli']),
+    pkg('docs', '1.0.0'),
+  ];
+
+  it('patch-bumps direct and transitive dependents with rippleFrom', () => {
+    const bumped = [{ ...workspace[0]!, nextVersion: '1.1.0', bump: 'minor' as const }];
+    const result = applyVersionStrategy(bumped, { strategy: 'ripple', workspacePackages: workspace });
+
+    expect(result.map(p => [p.name, p.nextVersion])).toEqual([
+      ['core', '1.1.0'],
+      ['cli', '2.3.1'],
+      ['studio', '0.4.1'],
+    ]);
+    expect(result.find(p => p.name === 'cli')?.rippleFrom).toEqual(['core']);
+    expect(result.find(p => p.name === 'studio')?.rippleFrom).toEqual(['core']);
+  });
+
+  it('does not ripple packages that are already bumped', () => {
+    const bumped = [
+      { ...workspace[0]!, nextVersion: '1.1.0', bump: 'minor' as const },
+      { ...workspace[1]!, nextVersion: '3.0.0', bump: 'major' as const },
+    ];
+    const result = applyVersionStrategy(bumped, { strategy: 'ripple', workspacePackages: workspace });
+
+    expect(result.find(p => p.name === 'cli')?.nextVersion).toBe('3.0.0');
+    expect(result.find(p => p.name === 'cli')?.rippleFrom).toBeUndefined();
+    expect(result.find(p => p.name === 'studio')?.rippleFrom).toEqual(['cli', 'core']);
+  });
+
+  it('does not ripple packages that only build with the bumped package', () => {
+    const bumped = [{ ...workspace[0]!, nextVersion: '1.1.0', bump: 'minor' as const }];
+    const result = applyVersionStrategy(bumped, {
+      strategy: 'ripple',
+      workspacePackages: [...workspace, { ...pkg('testkit', '1.0.0'), devDependencies: ['core'] }],
+    });
+
+    expect(result.map(p => p.name)).not.toContain('testkit');
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import {
+  createProviderReleases,
+  createReleaseProviderClient,
+  providerReleasesEnabled,
+  resolveReleaseProviderClient,
+} from '../provider-release';
+import type { GitReleaseResult } from '../publisher';
+import type { ReleasePlan } from '../types';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: string;
+}
+
+/** Minimal provider API: routes keyed by `METHOD path`, everything else 404 */
+function startMockServer(routes: Record<string, (body: string) => unknown>): Promise<{ server: Server; url: string; requests: RecordedRequest[] }> {
+  const requests: RecordedRequest[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf-8');
+      const path = req.url!.split('?')[0];
+      requests.push({ method: req.method!, url: req.url!, body });
+      const route = routes[`${req.method} ${path}`];
+      res.setHeader('content-type', 'application/json');
+      if (!route) {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ message: 'Not Found' }));
+        return;
+      }
+      res.end(JSON.stringify(route(body) ?? {}));
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address() as AddressInfo;
+    resolve({ server, url: `http://127.0.0.1:${port}`, requests });
+  }));
+}
+
+function makePlan(versions: Record<string, string>): ReleasePlan {
+  return {
+    packages: Object.entries(versions).map(([name, nextVersion]) => ({
+      name,
+      path: `/repo/${name}`,
+      currentVersion: '1.0.0',
+      nextVersion,
+      bump: 'minor',
+      isPublished: false,
+    })),
+    strategy: 'semver',
+    registry: 'https://registry.npmjs.org',
+    rollbackEnabled: true,
+  };
+}
+
+const CHANGELOG = [
+  '## @kb-labs/core 1.1.0-rc.0',
+  '',
+  '- feat: new core api',
+  '',
+  '## @kb-labs/cli 1.0.1',
+  '',
+  '- fix: cli flag',
+].join('\n');
+
+// ─── GitHub ───────────────────────────────────────────────────────────────────
+
+describe('createProviderReleases — GitHub', () => {
+  let mock: Awaited<ReturnType<typeof startMockServer>>;
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = join(tmpdir(), `kb-provider-release-${randomBytes(4).toString('hex')}`);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'kb-labs-core-1.1.0-rc.0.tgz'), 'tarball');
+
+    mock = await startMockServer({
+      // cli already has a release for its tag (with a stale asset); core does not
+      'GET /repos/kb-labs/tools/releases/tags/%40kb-labs%2Fcli%401.0.1': () => ({
+        id: 7, html_url: 'https://github.com/kb-labs/tools/releases/7', upload_url: '', assets: [],
+      }),
+      'POST /repos/kb-labs/tools/releases': () => ({
+        id: 8,
+        html_url: 'https://github.com/kb-labs/tools/releases/8',
+        upload_url: `${mock.url}/uploads/releases/8/assets{?name,label}`,
+        assets: [],
+      }),
+      'PATCH /repos/kb-labs/tools/releases/7': () => ({ id: 7, html_url: 'https://github.com/kb-labs/tools/releases/7' }),
+      'POST /uploads/releases/8/assets': () => ({ id: 1 }),
+    });
+  });
+
+  afterEach(() => {
+    mock.server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates or updates one release per package tag with its changelog section and tarball', async () => {
+    const client = createReleaseProviderClient({
+      provider: { type: 'github', baseUrl: 'https://github.com/kb-labs/tools' },
+      apiUrl: mock.url,
+      token: 'test-token',
+    })!;
+    const git: GitReleaseResult = {
+      committed: true,
+      pushed: true,
+      tagged: ['@kb-labs/core@1.1.0-rc.0', '@kb-labs/cli@1.0.1'],
+      tagRefs: [
+        { cwd: '/repo', name: '@kb-labs/core@1.1.0-rc.0', package: '@kb-labs/core' },
+        { cwd: '/repo', name: '@kb-labs/cli@1.0.1', package: '@kb-labs/cli' },
+      ],
+    };
+
+    const result = await createProviderReleases({
+      plan: makePlan({ '@kb-labs/core': '1.1.0-rc.0', '@kb-labs/cli': '1.0.1' }),
+      git,
+      changelog: CHANGELOG,
+      client,
+      tarballs: { '@kb-labs/core': join(dir, 'kb-labs-core-1.1.0-rc.0.tgz') },
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.releases).toEqual([
+      {
+        tag: '@kb-labs/core@1.1.0-rc.0',
+        action: 'created',
+        url: 'https://github.com/kb-labs/tools/releases/8',
+        assets: ['kb-labs-core-1.1.0-rc.0.tgz'],
+      },
+      { tag: '@kb-labs/cli@1.0.1', action: 'updated', url: 'https://github.com/kb-labs/tools/releases/7', assets: [] },
+    ]);
+
+    const created = JSON.parse(mock.requests.find(r => r.method === 'POST' && r.url === '/repos/kb-labs/tools/releases')!.body);
+    expect(created).toMatchObject({ tag_name: '@kb-labs/core@1.1.0-rc.0', prerelease: true });
+    expect(created.body).toContain('feat: new core api');
+    expect(created.body).not.toContain('fix: cli flag');
+
+    const upload = mock.requests.find(r => r.url.startsWith('/uploads/'))!;
+    expect(upload.url).toBe('/uploads/releases/8/assets?name=kb-labs-core-1.1.0-rc.0.tgz');
+    expect(upload.body).toBe('tarball');
+
+    const updated = JSON.parse(mock.requests.find(r => r.method === 'PATCH')!.body);
+    expect(updated).toMatchObject({ prerelease: false });
+  });
+
+  it('collects API failures instead of throwing', async () => {
+    const client = createReleaseProviderClient({
+      provider: { type: 'github', baseUrl: 'https://github.com/kb-labs/other' },
+      apiUrl: mock.url,
+      fetch: async () => new Response('{"message":"Bad credentials"}', { status: 401 }),
+    })!;
+
+    const result = await createProviderReleases({
+      plan: makePlan({ '@kb-labs/core': '2.0.0' }),
+      git: { committed: true, pushed: true, tagged: ['v2.0.0'], tagRefs: [{ cwd: '/repo', name: 'v2.0.0' }] },
+      changelog: '',
+      client,
+    });
+
+    expect(result.releases).toEqual([]);
+    expect(result.errors[0]).toMatch(/^github release v2\.0\.0: .*401/);
+  });
+});
+
+// ─── GitLab ───────────────────────────────────────────────────────────────────
+
+describe('createProviderReleases — GitLab', () => {
+  let mock: Awaited<ReturnType<typeof startMockServer>>;
+
+  beforeEach(async () => {
+    mock = await startMockServer({
+      'POST /projects/kb-labs%2Ftools/releases': () => ({ tag_name: 'v2.0.0', _links: { self: 'https://gitlab.com/kb-labs/tools/-/releases/v2.0.0' } }),
+    });
+  });
+
+  afterEach(() => {
+    mock.server.close();
+  });
+
+  it('creates a lockstep release with the full changelog', async () => {
+    const client = createReleaseProviderClient({
+      provider: { type: 'gitlab', baseUrl: 'https://gitlab.com/kb-labs/tools' },
+      apiUrl: mock.url,
+    })!;
+
+    const result = await createProviderReleases({
+      plan: makePlan({ '@kb-labs/core': '2.0.0', '@kb-labs/cli': '2.0.0' }),
+      git: { committed: true, pushed: true, tagged: ['v2.0.0'], tagRefs: [{ cwd: '/repo', name: 'v2.0.0' }] },
+      changelog: CHANGELOG,
+      client,
+    });
+
+    expect(result.releases).toEqual([
+      { tag: 'v2.0.0', action: 'created', url: 'https://gitlab.com/kb-labs/tools/-/releases/v2.0.0', assets: [] },
+    ]);
+    const created = JSON.parse(mock.requests.find(r => r.method === 'POST')!.body);
+    expect(created).toEqual({ tag_name: 'v2.0.0', name: 'v2.0.0', description: CHANGELOG });
+  });
+});
+
+// ─── Provider selection ───────────────────────────────────────────────────────
+
+describe('resolveReleaseProviderClient', () => {
+  const SELF_HOSTED = 'https://git.example.com/kb-labs/tools';
+
+  it('detects the provider from the repository URL by default', async () => {
+    expect((await resolveReleaseProviderClient('/repo', { git: { baseUrl: 'https://gitlab.com/kb-labs/tools' } }))?.type).toBe('gitlab');
+    expect(await resolveReleaseProviderClient('/repo', { git: { provider: 'auto', baseUrl: SELF_HOSTED } })).toBeNull();
+  });
+
+  it('uses the configured provider for hosts it cannot detect', async () => {
+    expect((await resolveReleaseProviderClient('/repo', { git: { provider: 'gitlab', baseUrl: SELF_HOSTED } }))?.type).toBe('gitlab');
+    expect((await resolveReleaseProviderClient('/repo', { git: { provider: 'github', baseUrl: SELF_HOSTED } }))?.type).toBe('github');
+  });
+
+  it('creates no client when the provider is configured as generic', async () => {
+    expect(await resolveReleaseProviderClient('/repo', { git: { provider: 'generic', baseUrl: 'https://github.com/kb-labs/tools' } })).toBeNull();
+  });
+});
+
+describe('providerReleasesEnabled', () => {
+  it('reads providerRelease.enabled, falling back to the github alias', () => {
+    expect(providerReleasesEnabled({})).toBe(false);
+    expect(providerReleasesEnabled({ publish: { providerRelease: { enabled: true } } })).toBe(true);
+    expect(providerReleasesEnabled({ publish: { github: true } })).toBe(true);
+    expect(providerReleasesEnabled({ publish: { github: true, providerRelease: { enabled: false } } })).toBe(false);
+  });
+});
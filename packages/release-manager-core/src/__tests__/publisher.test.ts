@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { execSync } from 'node:child_process';
+import { commitAndTagRelease } from '../publisher';
+import type { PackageVersion, ReleasePlan } from '../types';
+
+function makePlan(root: string, packages: Array<{ name: string; dir: string; nextVersion: string }>): ReleasePlan {
+  return {
+    packages: packages.map((pkg): PackageVersion => ({
+      name: pkg.name,
+      path: join(root, pkg.dir),
+      currentVersion: '1.0.0',
+      nextVersion: pkg.nextVersion,
+      bump: 'minor',
+      isPublished: false,
+    })),
+    strategy: 'semver',
+    registry: 'https://registry.npmjs.org',
+    rollbackEnabled: true,
+  };
+}
+
+// ─── commitAndTagRelease ──────────────────────────────────────────────────────
+
+describe('commitAndTagRelease — git templates', () => {
+  let root: string;
+  let remote: string;
+  const git = (cmd: string) => execSync(`git ${cmd}`, { cwd: root, stdio: 'pipe' }).toString().trim();
+
+  beforeEach(() => {
+    const id = randomBytes(4).toString('hex');
+    root = join(tmpdir(), `kb-publisher-test-${id}`);
+    remote = join(tmpdir(), `kb-publisher-remote-${id}.git`);
+    execSync(`git init -q --bare ${remote}`);
+    mkdirSync(join(root, 'packages/core'), { recursive: true });
+    mkdirSync(join(root, 'packages/cli'), { recursive: true });
+    git('init -q');
+    git('config user.email "test@test.com"');
+    git('config user.name "Test"');
+    git(`remote add origin ${remote}`);
+    writeFileSync(join(root, 'packages/core/package.json'), JSON.stringify({ name: '@kb-labs/core', version: '1.0.0' }));
+    writeFileSync(join(root, 'packages/cli/package.json'), JSON.stringify({ name: '@kb-labs/cli', version: '1.0.0' }));
+    git('add -A');
+    git('commit -q -m "init"');
+    git('push -q -u origin HEAD');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(remote, { recursive: true, force: true });
+  });
+
+  it('renders the commit message and creates annotated tags in the configured format', async () => {
+    writeFileSync(join(root, 'packages/core/package.json'), JSON.stringify({ name: '@kb-labs/core', version: '1.1.0' }));
+    const plan = makePlan(root, [{ name: '@kb-labs/core', dir: 'packages/core', nextVersion: '1.1.0' }]);
+
+    const result = await commitAndTagRelease({
+      cwd: root,
+      plan,
+      git: {
+        commitMessage: 'release({unscopedName}): v{version} [skip ci]',
+        tagFormat: '{unscopedName}-v{version}',
+        tagType: 'annotated',
+        tagMessage: 'Release {name} {version}',
+      },
+    });
+
+    expect(result.tagged).toEqual(['core-v1.1.0']);
+    expect(git('log -1 --format=%s')).toBe('release(core): v1.1.0 [skip ci]');
+    expect(git('cat-file -t core-v1.1.0')).toBe('tag');
+    expect(git("tag -l --format='%(contents:subject)' core-v1.1.0")).toBe('Release @kb-labs/core 1.1.0');
+  });
+
+  it('keeps the default commit message and lockstep tag', async () => {
+    writeFileSync(join(root, 'packages/core/package.json'), JSON.stringify({ name: '@kb-labs/core', version: '2.0.0' }));
+    writeFileSync(join(root, 'packages/cli/package.json'), JSON.stringify({ name: '@kb-labs/cli', version: '2.0.0' }));
+    const plan = makePlan(root, [
+      { name: '@kb-labs/core', dir: 'packages/core', nextVersion: '2.0.0' },
+      { name: '@kb-labs/cli', dir: 'packages/cli', nextVersion: '2.0.0' },
+    ]);
+
+    const result = await commitAndTagRelease({ cwd: root, plan });
+
+    expect(result.tagged).toEqual(['v2.0.0']);
+    expect(git('log -1 --format=%s')).toBe('chore(release): publish 2 packages');
+    expect(git('cat-file -t v2.0.0')).toBe('commit');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import {
+  saveSnapshot,
+  restoreSnapshot,
+  rollbackRelease,
+  updateSnapshotRelease,
+  listSnapshots,
+} from '../rollback';
+import { createJournal, loadJournal, saveJournal } from '../journal';
+import type { ReleasePlan } from '../types';
+
+function makePlan(root: string): ReleasePlan {
+  return {
+    packages: [
+      { name: '@scope/a', path: join(root, 'packages/a'), currentVersion: '1.0.0', nextVersion: '1.1.0', bump: 'minor', isPublished: false },
+      { name: '@scope/b', path: join(root, 'packages/b'), currentVersion: '2.0.0', nextVersion: '2.0.1', bump: 'patch', isPublished: false },
+    ],
+    strategy: 'semver',
+    registry: 'https://registry.npmjs.org',
+    rollbackEnabled: true,
+  };
+}
+
+function writePackage(dir: string, name: string, version: string): void {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'package.json'), JSON.stringify({ name, version }, null, 2) + '\n');
+}
+
+// ─── snapshots ────────────────────────────────────────────────────────────────
+
+describe('rollback snapshots', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = join(tmpdir(), `kb-rollback-test-${randomBytes(4).toString('hex')}`);
+    writePackage(join(root, 'packages/a'), '@scope/a', '1.0.0');
+    writePackage(join(root, 'packages/b'), '@scope/b', '2.0.0');
+    writeFileSync(join(root, 'packages/a', 'CHANGELOG.md'), '# a\n');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('prunes snapshots to maxHistory', async () => {
+    for (let i = 0; i < 4; i++) {
+      await saveSnapshot({ cwd: root, plan: makePlan(root), maxHistory: 2 });
+      await new Promise(resolve => { setTimeout(resolve, 5); });
+    }
+    expect(readdirSync(join(root, '.kb/release/snapshots'))).toHaveLength(2);
+  });
+
+  it('keeps the snapshot of a run that can still be resumed', async () => {
+    const interrupted = await saveSnapshot({ cwd: root, plan: makePlan(root), maxHistory: 1 });
+    const journal = await createJournal(root, 'one', makePlan(root), interrupted.id);
+    for (let i = 0; i < 2; i++) {
+      await new Promise(resolve => { setTimeout(resolve, 5); });
+      await saveSnapshot({ cwd: root, plan: makePlan(root), maxHistory: 1 });
+    }
+
+    const snapshots = readdirSync(join(root, '.kb/release/snapshots'));
+    expect(snapshots).toHaveLength(2);
+    expect(snapshots).toContain(interrupted.id);
+
+    await saveJournal(root, { ...(await loadJournal(root, 'one'))!, status: 'completed' });
+    await saveSnapshot({ cwd: root, plan: makePlan(root), maxHistory: 1 });
+
+    expect(readdirSync(join(root, '.kb/release/snapshots'))).not.toContain(journal.snapshotId);
+  });
+
+  it('rejects snapshot ids that are not plain ids', async () => {
+    await expect(restoreSnapshot(root, '../../packages/a')).rejects.toThrow('Invalid snapshot id "../../packages/a"');
+    await expect(rollbackRelease({ cwd: root, id: '/etc', dryRun: true })).rejects.toThrow(/Invalid snapshot id/);
+  });
+
+  it('restores versions and CHANGELOG.md files', async () => {
+    const snapshot = await saveSnapshot({ cwd: root, plan: makePlan(root) });
+
+    writePackage(join(root, 'packages/a'), '@scope/a', '1.1.0');
+    writeFileSync(join(root, 'packages/a', 'CHANGELOG.md'), '# a\n\n## 1.1.0\n');
+    writeFileSync(join(root, 'packages/b', 'CHANGELOG.md'), '# b\n');
+
+    await restoreSnapshot(root, snapshot.id);
+
+    expect(JSON.parse(readFileSync(join(root, 'packages/a/package.json'), 'utf-8')).version).toBe('1.0.0');
+    expect(readFileSync(join(root, 'packages/a/CHANGELOG.md'), 'utf-8')).toBe('# a\n');
+    expect(existsSync(join(root, 'packages/b/CHANGELOG.md'))).toBe(false);
+  });
+
+  it('dry-run lists exactly what would be undone without changing anything', async () => {
+    const snapshot = await saveSnapshot({ cwd: root, plan: makePlan(root) });
+    await updateSnapshotRelease(root, snapshot.id!, {
+      published: ['@scope/a@1.1.0'],
+      publishedAt: new Date().toISOString(),
+      commits: [{ cwd: root, sha: 'abc1234' }],
+      tags: [{ cwd: root, name: '@scope/a@1.1.0' }],
+      pushed: true,
+    });
+    writePackage(join(root, 'packages/a'), '@scope/a', '1.1.0');
+
+    const result = await rollbackRelease({ cwd: root, dryRun: true, npm: 'deprecate' });
+
+    expect(result.id).toBe(snapshot.id);
+    expect(result.actions.map(a => a.type)).toEqual([
+      'npm-deprecate',
+      'delete-remote-tag',
+      'delete-tag',
+      'git-revert',
+      'git-push',
+    ]);
+    expect(result.actions.every(a => !a.done)).toBe(true);
+    expect(JSON.parse(readFileSync(join(root, 'packages/a/package.json'), 'utf-8')).version).toBe('1.1.0');
+  });
+
+  it('deprecates mirrored packages on every registry they went to', async () => {
+    const snapshot = await saveSnapshot({ cwd: root, plan: makePlan(root) });
+    await updateSnapshotRelease(root, snapshot.id!, {
+      published: ['@scope/a@1.1.0', '@scope/b@2.0.1'],
+      publishedAt: new Date().toISOString(),
+      registry: 'https://registry.npmjs.org',
+      publishedTo: { '@scope/a@1.1.0': ['https://registry.npmjs.org', 'https://mirror.example.com'] },
+    });
+
+    const result = await rollbackRelease({ cwd: root, dryRun: true, npm: 'deprecate', deprecateMessage: 'bad' });
+
+    expect(result.actions.map(a => a.description)).toEqual([
+      'npm deprecate @scope/a@1.1.0 "bad" --registry https://registry.npmjs.org',
+      'npm deprecate @scope/a@1.1.0 "bad" --registry https://mirror.example.com',
+      'npm deprecate @scope/b@2.0.1 "bad" --registry https://registry.npmjs.org',
+      expect.stringMatching(/^restore @scope\/a version/),
+      expect.stringMatching(/^restore @scope\/b version/),
+      expect.stringMatching(/CHANGELOG\.md$/),
+      expect.stringMatching(/CHANGELOG\.md$/),
+    ]);
+  });
+
+  it('refuses unpublish outside the registry window', async () => {
+    const snapshot = await saveSnapshot({ cwd: root, plan: makePlan(root) });
+    await updateSnapshotRelease(root, snapshot.id!, {
+      published: ['@scope/a@1.1.0'],
+      publishedAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toISOString(),
+    });
+
+    const result = await rollbackRelease({ cwd: root, id: snapshot.id, npm: 'unpublish' });
+    expect(result.errors[0]).toMatch(/72-hour/);
+    expect(result.actions.every(a => !a.done)).toBe(true);
+  });
+
+  it('lists snapshots newest first', async () => {
+    const first = await saveSnapshot({ cwd: root, plan: makePlan(root), scope: 'one' });
+    await new Promise(resolve => { setTimeout(resolve, 5); });
+    const second = await saveSnapshot({ cwd: root, plan: makePlan(root), scope: 'two' });
+
+    const ids = (await listSnapshots(root)).map(s => s.id);
+    expect(ids).toEqual([second.id, first.id]);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { isSecretAllowed, resolveSecretAllowlist, scanPackageSecrets } from '../secret-scan';
+import { verifyPackage } from '../verifier';
+
+// Credentials are generated, so this file never contains anything that looks like a real one
+const ALPHANUMERIC = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const randomToken = (length: number, alphabet = ALPHANUMERIC) =>
+  Array.from(randomBytes(length), byte => alphabet[byte % alphabet.length]).join('');
+
+const githubToken = `ghp_${randomToken(36)}`;
+const awsKeyId = `AKIA${randomToken(16, 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567')}`;
+const pemHeader = ['-----BEGIN', 'RSA PRIVATE', 'KEY-----'].join(' ');
+
+function writeFiles(dir: string, files: Record<string, string>): void {
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(join(dir, file, '..'), { recursive: true });
+    writeFileSync(join(dir, file), content);
+  }
+}
+
+// ─── scanPackageSecrets ───────────────────────────────────────────────────────
+
+describe('scanPackageSecrets', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `kb-secret-scan-${randomBytes(4).toString('hex')}`);
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('finds sensitive files, credentials and embedded sources anywhere in the tarball', async () => {
+    writeFiles(dir, {
+      'package.json': '{"name":"@kb-labs/app"}',
+      '.env.production': 'API_URL=https://example.com\n',
+      '.env.example': 'API_KEY=\n',
+      'fixtures/.npmrc': `registry=https://registry.npmjs.org/\n//registry.npmjs.org/:_authToken=${randomToken(36)}\n`,
+      'config/.npmrc': '//registry.npmjs.org/:_authToken=${NPM_TOKEN}\n',
+      'certs/server.pem': `${pemHeader}\nMIIE...\n`,
+      'dist/index.js': `const a = 1;\nconst client = new Client({\n  auth: "${githubToken}",\n  key: "${awsKeyId}",\n});\n`,
+      'dist/index.js.map': JSON.stringify({ version: 3, sources: ['../src/index.ts'], sourcesContent: ['export const a = 1;'], mappings: '' }),
+      'dist/other.js.map': JSON.stringify({ version: 3, sources: ['../src/other.ts'], mappings: '' }),
+    });
+
+    const findings = await scanPackageSecrets(dir);
+
+    expect(findings.sort((a, b) => a.path.localeCompare(b.path) || (a.line ?? 0) - (b.line ?? 0))).toEqual([
+      { kind: 'env-file', path: '.env.production', rule: '.env file' },
+      { kind: 'private-key', path: 'certs/server.pem', line: 1, rule: 'private key' },
+      { kind: 'token', path: 'dist/index.js', line: 3, rule: 'GitHub token' },
+      { kind: 'token', path: 'dist/index.js', line: 4, rule: 'AWS access key' },
+      { kind: 'sourcemap-sources', path: 'dist/index.js.map', rule: 'sourcemap embeds original sources (sourcesContent)' },
+      { kind: 'npmrc-token', path: 'fixtures/.npmrc', line: 2, rule: '.npmrc auth token' },
+    ]);
+  });
+
+  it('ignores placeholders and applies changelog.redactPatterns to random-looking matches', async () => {
+    writeFiles(dir, {
+      'README.md': `Set GITHUB_TOKEN to ghp_${'x'.repeat(36)}\n`,
+      'dist/internal.js': `export const key = "kbi-${randomToken(24)}";\nexport const id = "kbi-${'0'.repeat(24)}";\n`,
+    });
+
+    expect(await scanPackageSecrets(dir)).toEqual([]);
+    expect(await scanPackageSecrets(dir, { redactPatterns: ['kbi-[A-Za-z0-9]{24}'] })).toEqual([
+      { kind: 'token', path: 'dist/internal.js', line: 1, rule: 'changelog.redactPatterns match' },
+    ]);
+    await expect(scanPackageSecrets(dir, { redactPatterns: ['kbi-[' ] })).rejects.toThrow(/Invalid changelog\.redactPatterns entry "kbi-\["/);
+  });
+});
+
+// ─── allowlist and verification ───────────────────────────────────────────────
+
+describe('secret findings in verification', () => {
+  let pkgDir: string;
+
+  beforeEach(() => {
+    pkgDir = join(tmpdir(), `kb-secret-verify-${randomBytes(4).toString('hex')}`);
+    writeFiles(pkgDir, {
+      'package.json': JSON.stringify({ name: '@kb-labs/app', version: '1.0.0', main: 'dist/index.js', files: ['dist', 'fixtures'] }),
+      'dist/index.js': 'module.exports = 1;\n',
+      'dist/index.js.map': JSON.stringify({ version: 3, sources: ['../src/index.ts'], sourcesContent: ['export = 1;'], mappings: '' }),
+      'fixtures/keys/test.pem': `${pemHeader}\nMIIE...\n`,
+    });
+  });
+
+  afterEach(() => {
+    rmSync(pkgDir, { recursive: true, force: true });
+  });
+
+  it('blocks the package with the offending paths, never the secret itself', async () => {
+    const result = await verifyPackage(pkgDir, '@kb-labs/app');
+
+    expect(result.success).toBe(false);
+    expect(result.issues.sort()).toEqual([
+      'Secrets: dist/index.js.map — sourcemap embeds original sources (sourcesContent) (allowlist via secrets.allow if intended)',
+      'Secrets: fixtures/keys/test.pem:1 — private key (allowlist via secrets.allow if intended)',
+    ]);
+  }, 60_000);
+
+  it('accepts findings allowlisted for the package by path and kind', async () => {
+    const allow = resolveSecretAllowlist({
+      allow: [
+        { packages: '@kb-labs/app', paths: ['fixtures/**'] },
+        { packages: '@kb-labs/*', kinds: ['sourcemap-sources'] },
+        { packages: '@kb-labs/other', paths: ['**'] },
+      ],
+    }, { name: '@kb-labs/app', relativePath: 'packages/app' });
+
+    expect(allow).toHaveLength(2);
+    expect(isSecretAllowed({ kind: 'private-key', path: 'dist/key.pem', rule: 'private key' }, allow)).toBe(false);
+
+    const result = await verifyPackage(pkgDir, '@kb-labs/app', { secrets: { allow } });
+
+    expect(result).toMatchObject({ success: true, issues: [] });
+  }, 60_000);
+});
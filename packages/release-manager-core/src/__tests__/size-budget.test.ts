@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { checkSizeBudget, formatSizeDelta, parseSize, readReleasedSizes, resolveSizeBudget } from '../size-budget';
+import { verifyPackages } from '../verifier';
+import type { PackageSize, PackageVersion, ReleaseReport } from '../types';
+
+const size: PackageSize = {
+  packed: 1_250_000,
+  unpacked: 4_100_000,
+  files: 12,
+  largest: [{ path: 'dist/index.js.map', size: 3_000_000 }, { path: 'dist/index.js', size: 900_000 }],
+  previous: { version: '1.3.0', packed: 400_000, unpacked: 1_200_000, files: 6 },
+};
+
+function writeReport(root: string, id: string, report: Partial<ReleaseReport> & { ts: string }): void {
+  const dir = join(root, '.kb', 'release', 'history', 'root', id);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'report.json'), JSON.stringify({ schemaVersion: '1.0', stage: 'verifying', ...report }));
+}
+
+function releasedPlan(name: string, version: string, packed: number): ReleaseReport['plan'] {
+  const pkg: PackageVersion = {
+    name,
+    path: `/repo/${name}`,
+    currentVersion: '0.0.0',
+    nextVersion: version,
+    bump: 'minor',
+    isPublished: false,
+    size: { packed, unpacked: packed * 3, files: 4, largest: [] },
+  };
+  return { packages: [pkg], strategy: 'semver', registry: 'https://registry.npmjs.org', rollbackEnabled: true };
+}
+
+// ─── budgets ──────────────────────────────────────────────────────────────────
+
+describe('checkSizeBudget', () => {
+  it('reports every exceeded budget with the largest files', () => {
+    expect(checkSizeBudget(size, { maxPacked: '1MB', maxUnpacked: 5_000_000, maxFiles: 10, maxIncrease: 50 })).toEqual([
+      'Size: tarball is 1.3 MB, over the 1.0 MB budget',
+      'Size: 12 files, over the 10-file budget',
+      'Size: tarball grew 213% since 1.3.0 (400.0 kB → 1.3 MB), over the 50% budget',
+      'Size: largest files — dist/index.js.map (3.0 MB), dist/index.js (900.0 kB)',
+    ]);
+    expect(checkSizeBudget(size, { maxPacked: '2 MB', maxIncrease: 250 })).toEqual([]);
+    // Growth needs a previous release
+    expect(checkSizeBudget({ ...size, previous: undefined }, { maxIncrease: 10 })).toEqual([]);
+  });
+
+  it('lets the first matching package rule override the global budget', () => {
+    const config = {
+      maxPacked: '500kB',
+      onExceed: 'error' as const,
+      packages: [{ packages: '@kb-labs/studio*', maxPacked: '5MB', onExceed: 'warn' as const }],
+    };
+
+    expect(resolveSizeBudget(config, { name: '@kb-labs/studio-ui', relativePath: 'apps/studio' }))
+      .toEqual({ maxPacked: '5MB', onExceed: 'warn' });
+    expect(resolveSizeBudget(config, { name: '@kb-labs/core', relativePath: 'packages/core' }))
+      .toEqual({ maxPacked: '500kB', onExceed: 'error' });
+  });
+
+  it('parses sizes with units and formats the change since the last release', () => {
+    expect(parseSize('500kB')).toBe(500_000);
+    expect(parseSize('1.5 MB')).toBe(1_500_000);
+    expect(parseSize(2048)).toBe(2048);
+    expect(() => parseSize('lots')).toThrow(/Invalid size "lots"/);
+
+    expect(formatSizeDelta(1_250_000, { version: '1.3.0', size: 400_000 })).toBe('+213% since 1.3.0');
+    expect(formatSizeDelta(390_000, { version: '1.3.0', size: 400_000 })).toBe('-3% since 1.3.0');
+    expect(formatSizeDelta(390_000, undefined)).toBe('first release');
+  });
+});
+
+// ─── history and verification ─────────────────────────────────────────────────
+
+describe('size regressions against release history', () => {
+  let root: string;
+  let pkgDir: string;
+
+  beforeEach(() => {
+    root = join(tmpdir(), `kb-size-budget-${randomBytes(4).toString('hex')}`);
+    pkgDir = join(root, 'packages', 'app');
+    mkdirSync(join(pkgDir, 'dist'), { recursive: true });
+    writeFileSync(join(pkgDir, 'package.json'), JSON.stringify({ name: '@kb-labs/app', version: '1.1.0', main: 'dist/index.js' }));
+    writeFileSync(join(pkgDir, 'dist', 'index.js'), 'module.exports = 1;\n');
+    // An accidentally shipped sourcemap that doesn't compress
+    writeFileSync(join(pkgDir, 'dist', 'index.js.map'), randomBytes(60_000).toString('base64'));
+
+    writeReport(root, '2026-09-01', { ts: '2026-09-01T10:00:00.000Z', plan: releasedPlan('@kb-labs/app', '1.0.0', 1_000), result: { ok: true, published: ['@kb-labs/app@1.0.0'], timingMs: 1 } });
+    writeReport(root, '2026-09-20', { ts: '2026-09-20T10:00:00.000Z', plan: releasedPlan('@kb-labs/app', '1.1.0-canary.abc1234.20260920100000', 90_000), result: { ok: true, published: ['@kb-labs/app@1.1.0-canary.abc1234.20260920100000'], timingMs: 1 }, canary: true });
+    writeReport(root, '2026-09-25', { ts: '2026-09-25T10:00:00.000Z', plan: releasedPlan('@kb-labs/app', '1.1.0', 95_000), result: { ok: false, errors: ['publish failed'], timingMs: 1 } });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads the size of the last successful release, skipping canaries and failed runs', async () => {
+    expect(await readReleasedSizes(root)).toEqual(new Map([
+      ['@kb-labs/app', { version: '1.0.0', packed: 1_000, unpacked: 3_000, files: 4 }],
+    ]));
+    expect(await readReleasedSizes(join(root, 'packages'))).toEqual(new Map());
+  });
+
+  it('measures the tarball and fails or warns when it outgrew its budget', async () => {
+    const pkg: PackageVersion = { name: '@kb-labs/app', path: pkgDir, currentVersion: '1.0.0', nextVersion: '1.1.0', bump: 'minor', isPublished: true };
+
+    const [failed] = await verifyPackages([pkg], { repoRoot: root, size: { maxIncrease: 100 } });
+
+    expect(failed!.size).toMatchObject({ files: 3, previous: { version: '1.0.0', packed: 1_000 } });
+    expect(failed!.size!.largest[0]).toEqual({ path: 'dist/index.js.map', size: 80_000 });
+    expect(failed!.success).toBe(false);
+    expect(failed!.issues[0]).toMatch(/^Size: tarball grew \d+% since 1\.0\.0 \(1\.0 kB → [\d.]+ kB\), over the 100% budget\nSize: largest files — dist\/index\.js\.map \(80\.0 kB\)/);
+
+    const [warned] = await verifyPackages([pkg], { repoRoot: root, size: { maxIncrease: 100, onExceed: 'warn' } });
+
+    expect(warned!.success).toBe(true);
+    expect(warned!.warnings?.[0]).toMatch(/^Size: tarball grew/);
+  }, 60_000);
+});
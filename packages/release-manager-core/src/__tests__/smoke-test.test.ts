@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { packPackage } from '../pack';
+import { resolveSmokeTest, smokeTestTarballs, formatSmokeTestFailure } from '../smoke-test';
+
+function writePackage(dir: string, pkgJson: Record<string, unknown>, files: Record<string, string>): void {
+  mkdirSync(join(dir, 'dist'), { recursive: true });
+  writeFileSync(join(dir, 'package.json'), JSON.stringify({ version: '1.0.0', files: ['dist'], ...pkgJson }, null, 2));
+  for (const [file, content] of Object.entries(files)) {
+    writeFileSync(join(dir, file), content);
+  }
+}
+
+// ─── resolveSmokeTest ─────────────────────────────────────────────────────────
+
+describe('resolveSmokeTest', () => {
+  it('uses the first matching package rule, else the global setting', () => {
+    const config = {
+      enabled: true,
+      packages: [
+        { packages: '@kb-labs/cli', skip: ['./bin'] },
+        { packages: ['@kb-labs/studio-*', 'apps/*'], enabled: false },
+      ],
+    };
+
+    expect(resolveSmokeTest(config, { name: '@kb-labs/cli', relativePath: 'packages/cli' })).toEqual({ enabled: true, skip: ['./bin'] });
+    expect(resolveSmokeTest(config, { name: '@kb-labs/studio-ui', relativePath: 'packages/studio-ui' }).enabled).toBe(false);
+    expect(resolveSmokeTest(config, { name: '@kb-labs/docs', relativePath: 'apps/docs' }).enabled).toBe(false);
+    expect(resolveSmokeTest(config, { name: '@kb-labs/core', relativePath: 'packages/core' })).toEqual({ enabled: true, skip: [] });
+    expect(resolveSmokeTest(undefined, { name: '@kb-labs/core', relativePath: 'packages/core' }).enabled).toBe(false);
+  });
+});
+
+// ─── smokeTestTarballs ────────────────────────────────────────────────────────
+
+describe('smokeTestTarballs', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = join(tmpdir(), `kb-smoke-test-${randomBytes(4).toString('hex')}`);
+    mkdirSync(root, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('installs sibling tarballs offline and reports exports that fail to load', async () => {
+    writePackage(join(root, 'core'), {
+      name: '@kb-labs/core',
+      type: 'module',
+      exports: {
+        '.': './dist/index.js',
+        './broken': './dist/broken.js',
+        './cli': './dist/cli.js',
+        './package.json': './package.json',
+      },
+    }, {
+      'dist/index.js': 'export const answer = 42;\n',
+      'dist/broken.js': "throw new Error('boom on load');\n",
+      'dist/cli.js': 'process.exit(3);\n',
+    });
+    writePackage(join(root, 'app'), {
+      name: '@kb-labs/app',
+      type: 'module',
+      exports: { '.': './dist/index.js', './format': './dist/format.js' },
+      dependencies: { '@kb-labs/core': '^1.0.0' },
+    }, {
+      'dist/index.js': "export { answer } from '@kb-labs/core';\n",
+      // A runtime dependency package.json doesn't declare
+      'dist/format.js': "export { default } from 'left-pad';\n",
+    });
+    const versions = { '@kb-labs/core': '1.0.0', '@kb-labs/app': '1.0.0' };
+    const tarballs = {
+      '@kb-labs/core': await packPackage(join(root, 'core'), join(root, 'artifacts'), { versions, workspace: null }),
+      '@kb-labs/app': await packPackage(join(root, 'app'), join(root, 'artifacts'), { versions, workspace: null }),
+    };
+
+    const result = await smokeTestTarballs(tarballs, [{ name: '@kb-labs/core', skip: ['./cli'] }, { name: '@kb-labs/app' }]);
+
+    expect(result.installError).toBeUndefined();
+    expect(result.failures.map(f => `${f.loader} ${f.specifier}`)).toEqual([
+      'import @kb-labs/core/broken',
+      'require @kb-labs/core/broken',
+      'import @kb-labs/app/format',
+      'require @kb-labs/app/format',
+    ]);
+    expect(result.failures[0]!.error).toContain('Error: boom on load');
+    expect(result.failures[0]!.error).toMatch(/at .*broken\.js/);
+    expect(result.failures[2]!.error).toContain("Cannot find package 'left-pad'");
+    expect(formatSmokeTestFailure(result.failures[0]!)).toMatch(/^Smoke test: import\("@kb-labs\/core\/broken"\) failed\n/);
+  }, 120_000);
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { checkTypeResolution } from '../type-resolution';
+
+// ─── checkTypeResolution ──────────────────────────────────────────────────────
+
+describe('checkTypeResolution', () => {
+  let dir: string;
+
+  function writePackage(pkgJson: Record<string, unknown>, files: string[]): void {
+    writeFileSync(join(dir, 'package.json'), JSON.stringify({ name: '@kb-labs/app', version: '1.0.0', ...pkgJson }));
+    for (const file of files) {
+      mkdirSync(dirname(join(dir, file)), { recursive: true });
+      writeFileSync(join(dir, file), '');
+    }
+  }
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `kb-type-resolution-test-${randomBytes(4).toString('hex')}`);
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('accepts dual packages whose declarations match each format', () => {
+    writePackage({
+      exports: {
+        '.': {
+          import: { types: './dist/index.d.mts', default: './dist/index.mjs' },
+          require: { types: './dist/index.d.cts', default: './dist/index.cjs' },
+        },
+        './utils': { types: './dist/utils.d.ts', import: './dist/utils.js' },
+        './package.json': './package.json',
+      },
+      type: 'module',
+    }, ['dist/index.mjs', 'dist/index.d.mts', 'dist/index.cjs', 'dist/index.d.cts', 'dist/utils.js', 'dist/utils.d.ts']);
+
+    expect(checkTypeResolution(dir)).toEqual([]);
+  });
+
+  it('reports CJS declarations an import resolves to ESM JavaScript', () => {
+    writePackage({
+      exports: { '.': { types: './dist/index.d.ts', import: './dist/index.mjs', require: './dist/index.js' } },
+    }, ['dist/index.mjs', 'dist/index.js', 'dist/index.d.ts']);
+
+    expect(checkTypeResolution(dir)).toEqual([{
+      entrypoint: '.',
+      kind: 'false-cjs',
+      modes: ['node16-esm'],
+      js: 'dist/index.mjs',
+      types: 'dist/index.d.ts',
+      message: 'Types: "." masquerades as CJS under node16 (import) (dist/index.d.ts is CommonJS, dist/index.mjs is ESM)',
+    }]);
+  });
+
+  it('reports ESM declarations for CommonJS JavaScript', () => {
+    writePackage({
+      exports: { '.': { types: './dist/index.d.mts', require: './dist/index.cjs' } },
+    }, ['dist/index.cjs', 'dist/index.d.mts']);
+
+    expect(checkTypeResolution(dir).map(p => p.message)).toEqual([
+      'Types: "." masquerades as ESM under node16 (require) (dist/index.d.mts is ESM, dist/index.cjs is CommonJS)',
+    ]);
+  });
+
+  it('reports untyped subpaths in every mode that resolves them', () => {
+    writePackage({
+      type: 'module',
+      exports: {
+        '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+        './cli': './dist/cli.js',
+        './plugins/*': './dist/plugins/*.js',
+      },
+    }, ['dist/index.js', 'dist/index.d.ts', 'dist/cli.js']);
+
+    expect(checkTypeResolution(dir).map(p => p.message)).toEqual([
+      'Types: "./cli" is untyped under node16 (require), node16 (import), bundler (no declarations for dist/cli.js)',
+    ]);
+  });
+
+  it('resolves packages without exports through types and main', () => {
+    writePackage({ main: 'lib/index.js', types: 'types/index.d.ts' }, ['lib/index.js', 'types/index.d.ts']);
+    expect(checkTypeResolution(dir)).toEqual([]);
+
+    // Declarations elsewhere in the package don't type main
+    writePackage({ main: 'lib/index.js' }, []);
+    expect(checkTypeResolution(dir).map(p => p.kind)).toEqual(['untyped']);
+  });
+
+  it('skips packages that ship no declarations', () => {
+    writePackage({ exports: { '.': './dist/index.js' } }, ['dist/index.js']);
+
+    expect(checkTypeResolution(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, appendFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { execSync } from 'node:child_process';
+import { verifyPackage } from '../verifier';
+import { assertTarballIntegrity, computeIntegrity } from '../pack';
+
+// ─── verified artifacts ───────────────────────────────────────────────────────
+
+describe('verifyPackage — kept tarball', () => {
+  let root: string;
+  let pkgDir: string;
+  let artifactsDir: string;
+  const pkgJson = {
+    name: '@kb-labs/app',
+    version: '1.1.0',
+    main: 'dist/index.js',
+    dependencies: { '@kb-labs/core': 'workspace:*', '@kb-labs/utils': 'link:../utils' },
+  };
+
+  beforeEach(() => {
+    root = join(tmpdir(), `kb-verifier-test-${randomBytes(4).toString('hex')}`);
+    pkgDir = join(root, 'app');
+    artifactsDir = join(root, 'artifacts');
+    mkdirSync(join(pkgDir, 'dist'), { recursive: true });
+    mkdirSync(join(root, 'utils'), { recursive: true });
+    writeFileSync(join(pkgDir, 'package.json'), JSON.stringify(pkgJson, null, 2));
+    writeFileSync(join(pkgDir, 'dist', 'index.js'), 'module.exports = 1;\n');
+    writeFileSync(join(root, 'utils', 'package.json'), JSON.stringify({ name: '@kb-labs/utils', version: '0.4.0' }));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('keeps the tarball with publishable dependency ranges and records its integrity', async () => {
+    const result = await verifyPackage(pkgDir, '@kb-labs/app', {
+      artifactsDir,
+      versions: { '@kb-labs/app': '1.1.0', '@kb-labs/core': '2.0.0' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.tarball).toBe(join(artifactsDir, 'kb-labs-app-1.1.0.tgz'));
+    expect(existsSync(result.tarball!)).toBe(true);
+    expect(result.integrity).toBe(await computeIntegrity(result.tarball!));
+    expect(result.integrity).toMatch(/^sha512-/);
+
+    const packed = JSON.parse(execSync(`tar xzOf ${result.tarball} package/package.json`).toString());
+    expect(packed.dependencies).toEqual({ '@kb-labs/core': '2.0.0', '@kb-labs/utils': '^0.4.0' });
+    // Working tree is left untouched
+    expect(JSON.parse(readFileSync(join(pkgDir, 'package.json'), 'utf-8'))).toEqual(pkgJson);
+  }, 60_000);
+
+  it('refuses a tarball that changed after verification', async () => {
+    const result = await verifyPackage(pkgDir, '@kb-labs/app', { artifactsDir, versions: { '@kb-labs/core': '2.0.0' } });
+    await expect(assertTarballIntegrity(result.tarball!, result.integrity!)).resolves.toBeUndefined();
+
+    appendFileSync(result.tarball!, 'tampered');
+    await expect(assertTarballIntegrity(result.tarball!, result.integrity!)).rejects.toThrow(/changed since verification/);
+  }, 60_000);
+
+  it('fails a package that was not built instead of skipping it', async () => {
+    rmSync(join(pkgDir, 'dist'), { recursive: true });
+
+    const result = await verifyPackage(pkgDir, '@kb-labs/app', { artifactsDir, versions: { '@kb-labs/core': '2.0.0' } });
+
+    expect(result.success).toBe(false);
+    expect(result.issues).toContain('main: dist/index.js does not exist in published package');
+  }, 60_000);
+
+  it('verifies and keeps the tarball of a package without a build', async () => {
+    rmSync(join(pkgDir, 'dist'), { recursive: true });
+    writeFileSync(join(pkgDir, 'package.json'), JSON.stringify({ ...pkgJson, main: 'index.js', dependencies: undefined }));
+    writeFileSync(join(pkgDir, 'index.js'), 'module.exports = 1;\n');
+
+    const result = await verifyPackage(pkgDir, '@kb-labs/app', { artifactsDir });
+
+    expect(result).toMatchObject({ success: true, issues: [], tarball: join(artifactsDir, 'kb-labs-app-1.1.0.tgz') });
+    expect(result.integrity).toMatch(/^sha512-/);
+  }, 60_000);
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, writeFileSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { execSync } from 'node:child_process';
+import { createPublishManifest, loadWorkspace, parseWorkspaceYaml, resolveDependencySpec } from '../workspace-protocol';
+import { packPackage } from '../pack';
+
+const WORKSPACE_YAML = [
+  'packages:',
+  '  - packages/*',
+  '  # generated fixtures are not published',
+  '',
+  'catalog:',
+  '  zod: ^3.23.0',
+  "  '@types/node': ^20.0.0",
+  '',
+  'catalogs:',
+  '  react18:',
+  '    react: ^18.2.0',
+  '  react19:',
+  '    react: ^19.0.0',
+].join('\n');
+
+function writePackage(dir: string, pkgJson: Record<string, unknown>): void {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'package.json'), JSON.stringify(pkgJson, null, 2));
+}
+
+// ─── parseWorkspaceYaml ───────────────────────────────────────────────────────
+
+describe('parseWorkspaceYaml', () => {
+  it('reads packages, the default catalog and named catalogs', () => {
+    expect(parseWorkspaceYaml(WORKSPACE_YAML)).toEqual({
+      packages: ['packages/*'],
+      catalog: { zod: '^3.23.0', '@types/node': '^20.0.0' },
+      catalogs: { react18: { react: '^18.2.0' }, react19: { react: '^19.0.0' } },
+    });
+  });
+});
+
+// ─── createPublishManifest ────────────────────────────────────────────────────
+
+describe('createPublishManifest', () => {
+  let root: string;
+  let appDir: string;
+
+  beforeEach(() => {
+    root = join(tmpdir(), `kb-workspace-protocol-${randomBytes(4).toString('hex')}`);
+    appDir = join(root, 'packages', 'app');
+    mkdirSync(root, { recursive: true });
+    writeFileSync(join(root, 'pnpm-workspace.yaml'), WORKSPACE_YAML);
+    writePackage(join(root, 'packages', 'core'), { name: '@kb-labs/core', version: '1.4.0' });
+    writePackage(join(root, 'packages', 'utils'), { name: '@kb-labs/utils', version: '0.3.1' });
+    writePackage(join(root, 'packages', 'shared'), { name: '@kb-labs/shared', version: '2.1.0' });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('loads the workspace package map from any package directory', async () => {
+    writePackage(appDir, { name: '@kb-labs/app', version: '1.0.0' });
+    const workspace = await loadWorkspace(appDir);
+
+    expect(workspace?.root).toBe(root);
+    expect([...workspace!.packages.keys()].sort()).toEqual(['@kb-labs/app', '@kb-labs/core', '@kb-labs/shared', '@kb-labs/utils']);
+    expect(workspace?.packages.get('@kb-labs/core')?.version).toBe('1.4.0');
+  });
+
+  it('resolves workspace ranges, catalogs and aliases in every dependency section', async () => {
+    const pkgJson = {
+      name: '@kb-labs/app',
+      version: '1.0.0',
+      dependencies: {
+        '@kb-labs/core': 'workspace:*',
+        '@kb-labs/utils': 'workspace:~',
+        zod: 'catalog:',
+        react: 'catalog:react18',
+        lodash: '^4.17.21',
+      },
+      devDependencies: { '@kb-labs/shared': 'workspace:^', '@types/node': 'catalog:default' },
+      optionalDependencies: { 'shared-alias': 'workspace:@kb-labs/shared@^' },
+      peerDependencies: { '@kb-labs/core': 'workspace:^1.0.0' },
+    };
+    writePackage(appDir, pkgJson);
+    const workspace = await loadWorkspace(appDir);
+
+    const manifest = createPublishManifest(pkgJson, appDir, { workspace, versions: { '@kb-labs/core': '1.5.0' } });
+
+    expect(manifest.dependencies).toEqual({
+      '@kb-labs/core': '1.5.0',
+      '@kb-labs/utils': '~0.3.1',
+      zod: '^3.23.0',
+      react: '^18.2.0',
+      lodash: '^4.17.21',
+    });
+    expect(manifest.devDependencies).toEqual({ '@kb-labs/shared': '^2.1.0', '@types/node': '^20.0.0' });
+    expect(manifest.optionalDependencies).toEqual({ 'shared-alias': 'npm:@kb-labs/shared@^2.1.0' });
+    expect(manifest.peerDependencies).toEqual({ '@kb-labs/core': '^1.0.0' });
+    // Input is left untouched
+    expect(pkgJson.dependencies['@kb-labs/core']).toBe('workspace:*');
+  });
+
+  it('resolves relative workspace paths and hoists publishConfig fields', () => {
+    const manifest = createPublishManifest(
+      {
+        name: '@kb-labs/app',
+        version: '1.0.0',
+        main: 'src/index.ts',
+        dependencies: { '@kb-labs/core': 'workspace:../core' },
+        publishConfig: { main: 'dist/index.js', types: 'dist/index.d.ts', access: 'public' },
+      },
+      appDir,
+    );
+
+    expect(manifest.dependencies).toEqual({ '@kb-labs/core': '1.4.0' });
+    expect(manifest.main).toBe('dist/index.js');
+    expect(manifest.types).toBe('dist/index.d.ts');
+    expect(manifest.access).toBeUndefined();
+  });
+
+  it('publishes the planned version and pins planned dependencies with pinVersions', async () => {
+    const pkgJson = {
+      name: '@kb-labs/app',
+      version: '1.0.0',
+      dependencies: { '@kb-labs/core': 'workspace:^', '@kb-labs/utils': 'workspace:*' },
+      peerDependencies: { '@kb-labs/core': '^1.4.0' },
+      optionalDependencies: { 'core-alias': 'workspace:@kb-labs/core@^' },
+    };
+    writePackage(appDir, pkgJson);
+    const workspace = await loadWorkspace(appDir);
+    const versions = { '@kb-labs/app': '1.1.0-canary.abc1234.20261019120000', '@kb-labs/core': '1.5.0-canary.abc1234.20261019120000' };
+
+    const manifest = createPublishManifest(pkgJson, appDir, { workspace, versions, pinVersions: true });
+
+    expect(manifest.version).toBe('1.1.0-canary.abc1234.20261019120000');
+    expect(manifest.dependencies).toEqual({ '@kb-labs/core': '1.5.0-canary.abc1234.20261019120000', '@kb-labs/utils': '0.3.1' });
+    expect(manifest.peerDependencies).toEqual({ '@kb-labs/core': '1.5.0-canary.abc1234.20261019120000' });
+    expect(manifest.optionalDependencies).toEqual({ 'core-alias': 'npm:@kb-labs/core@^1.5.0-canary.abc1234.20261019120000' });
+    // Without pinVersions the version stays what package.json says (the bump writes it there)
+    expect(createPublishManifest(pkgJson, appDir, { workspace, versions }).version).toBe('1.0.0');
+  });
+
+  it('refuses to publish specs it cannot resolve', async () => {
+    writePackage(appDir, { name: '@kb-labs/app', version: '1.0.0' });
+    const workspace = await loadWorkspace(appDir);
+
+    expect(() => resolveDependencySpec('@kb-labs/missing', 'workspace:^', appDir, { workspace }))
+      .toThrow(/not a workspace package/);
+    expect(() => resolveDependencySpec('react', 'catalog:react17', appDir, { workspace }))
+      .toThrow(/react17 catalog/);
+    // devDependencies are never installed by consumers, so they don't block the release
+    const manifest = createPublishManifest(
+      { name: '@kb-labs/app', devDependencies: { '@kb-labs/missing': 'workspace:*' } },
+      appDir,
+      { workspace },
+    );
+    expect(manifest.devDependencies).toEqual({ '@kb-labs/missing': '*' });
+  });
+
+  it('packs the publish manifest without touching package.json on disk', async () => {
+    const pkgJson = {
+      name: '@kb-labs/app',
+      version: '1.0.0',
+      files: ['dist'],
+      dependencies: { '@kb-labs/core': 'workspace:^', zod: 'catalog:' },
+      publishConfig: { main: 'dist/index.js' },
+    };
+    writePackage(appDir, pkgJson);
+    mkdirSync(join(appDir, 'dist'));
+    writeFileSync(join(appDir, 'dist', 'index.js'), 'export default 1;\n');
+    writeFileSync(join(appDir, 'notes.txt'), 'not in files');
+    const before = readFileSync(join(appDir, 'package.json'), 'utf-8');
+
+    const tarball = await packPackage(appDir, join(root, 'out'));
+
+    const listing = execSync(`tar tzf ${JSON.stringify(tarball)}`).toString().trim().split('\n').sort();
+    expect(listing).toEqual(['package/dist/index.js', 'package/package.json']);
+    const packed = JSON.parse(execSync(`tar xzOf ${JSON.stringify(tarball)} package/package.json`).toString());
+    expect(packed.dependencies).toEqual({ '@kb-labs/core': '^1.4.0', zod: '^3.23.0' });
+    expect(packed.main).toBe('dist/index.js');
+    expect(readFileSync(join(appDir, 'package.json'), 'utf-8')).toBe(before);
+  }, 60_000);
+});
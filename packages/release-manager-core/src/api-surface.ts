@@ -0,0 +1,196 @@
+/**
+ * Public API surface — what each package exports, and how that changed since the last release.
+ *
+ * The surface is read from the built declarations of every entrypoint (`exports` subpaths, or
+ * types/main): each export's declaration is printed without comments and normalized, so only a
+ * real signature change shows up as a change. The surface at release time is recorded in the
+ * package (`.kb/release/api.json`, committed with the release) and is the baseline the next
+ * plan diffs against:
+ *
+ *   removed or changed export → major     added export → minor     nothing → patch
+ *
+ * Reading declarations uses the TypeScript compiler API.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import semver from 'semver';
+import type { ApiDiff, PackageVersion, ReleaseConfig } from './types';
+import { resolveEntrypointDeclarations } from './type-resolution';
+
+/** Where a package's recorded API surface lives, relative to the package */
+export const API_BASELINE_FILE = join('.kb', 'release', 'api.json');
+
+export interface ApiSurface {
+  /** Package version the surface was recorded at */
+  version: string;
+  /** Normalized declaration of each export, by entrypoint ('.', './utils') and export name */
+  entrypoints: Record<string, Record<string, string>>;
+}
+
+const BUMP_RANK: Record<ApiDiff['bump'], number> = { patch: 0, minor: 1, major: 2 };
+
+/** Manifest fields pnpm hoists from publishConfig — declarations are looked up as published */
+const PUBLISHED_ENTRY_FIELDS = ['exports', 'main', 'types', 'typings'];
+
+/**
+ * Extract a package's public API from its built declarations.
+ * Returns null when no entrypoint has declarations (not built, or not a typed package).
+ */
+export async function extractApiSurface(packagePath: string): Promise<ApiSurface | null> {
+  const pkgJson = JSON.parse(await readFile(join(packagePath, 'package.json'), 'utf-8'));
+  const manifest = { ...pkgJson };
+  for (const field of PUBLISHED_ENTRY_FIELDS) {
+    if (pkgJson.publishConfig?.[field] !== undefined) {manifest[field] = pkgJson.publishConfig[field];}
+  }
+
+  const declarations = resolveEntrypointDeclarations(packagePath, manifest);
+  if (declarations.length === 0) {return null;}
+
+  const ts = (await import('typescript')).default;
+  const files = declarations.map(d => join(packagePath, d.types));
+  const program = ts.createProgram(files, {
+    noEmit: true,
+    noLib: true,
+    skipLibCheck: true,
+    types: [],
+    module: ts.ModuleKind.NodeNext,
+    moduleResolution: ts.ModuleResolutionKind.NodeNext,
+  });
+  const checker = program.getTypeChecker();
+  const printer = ts.createPrinter({ removeComments: true });
+
+  const print = (node: import('typescript').Node): string => {
+    let text = printer.printNode(ts.EmitHint.Unspecified, node, node.getSourceFile());
+    if (ts.isVariableDeclaration(node)) {
+      const flags = ts.getCombinedNodeFlags(node);
+      text = `${flags & ts.NodeFlags.Const ? 'const' : flags & ts.NodeFlags.Let ? 'let' : 'var'} ${text}`;
+    }
+    // How a declaration is exported (`export declare` vs a separate `export { }`) is not its signature
+    return text.replace(/^(?:(?:export|declare|default)\s+)+/, '').replace(/\s+/g, ' ').trim();
+  };
+
+  const entrypoints: ApiSurface['entrypoints'] = {};
+  for (const [i, { entrypoint }] of declarations.entries()) {
+    const sourceFile = program.getSourceFile(files[i]!);
+    const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+    const exports: Record<string, string> = {};
+    for (const symbol of moduleSymbol ? checker.getExportsOfModule(moduleSymbol) : []) {
+      const target = symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+      exports[symbol.name] = (target.declarations ?? []).map(print).join('\n');
+    }
+    entrypoints[entrypoint] = Object.fromEntries(Object.entries(exports).sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  return { version: pkgJson.version, entrypoints };
+}
+
+/**
+ * The API surface recorded at the package's last release, or null if none was recorded.
+ */
+export async function readApiBaseline(packagePath: string): Promise<ApiSurface | null> {
+  const file = join(packagePath, API_BASELINE_FILE);
+  if (!existsSync(file)) {return null;}
+  return JSON.parse(await readFile(file, 'utf-8'));
+}
+
+/**
+ * Record the package's current API surface as the baseline for the next release.
+ * Returns the recorded surface, or null when the package has no declarations to record.
+ */
+export async function recordApiSurface(packagePath: string): Promise<ApiSurface | null> {
+  const surface = await extractApiSurface(packagePath);
+  if (!surface) {return null;}
+
+  const file = join(packagePath, API_BASELINE_FILE);
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(surface, null, 2) + '\n', 'utf-8');
+  return surface;
+}
+
+/**
+ * Diff two API surfaces and the bump the changes require.
+ */
+export function diffApiSurface(baseline: ApiSurface, current: ApiSurface): ApiDiff {
+  const label = (entrypoint: string, name: string) => (entrypoint === '.' ? name : `${entrypoint}#${name}`);
+  const removed: string[] = [];
+  const changed: string[] = [];
+  const added: string[] = [];
+
+  for (const [entrypoint, exports] of Object.entries(baseline.entrypoints)) {
+    const now = current.entrypoints[entrypoint];
+    if (!now) {
+      removed.push(entrypoint);
+      continue;
+    }
+    for (const [name, signature] of Object.entries(exports)) {
+      if (!(name in now)) {
+        removed.push(label(entrypoint, name));
+      } else if (now[name] !== signature) {
+        changed.push(label(entrypoint, name));
+      }
+    }
+  }
+  for (const [entrypoint, exports] of Object.entries(current.entrypoints)) {
+    const before = baseline.entrypoints[entrypoint];
+    if (!before && entrypoint !== '.') {
+      added.push(entrypoint);
+      continue;
+    }
+    for (const name of Object.keys(exports)) {
+      if (!before || !(name in before)) {added.push(label(entrypoint, name));}
+    }
+  }
+
+  const bump = removed.length > 0 || changed.length > 0 ? 'major' : added.length > 0 ? 'minor' : 'patch';
+  return { bump, removed, changed, added };
+}
+
+/**
+ * Attach the API diff to every planned package that has a recorded baseline, and describe
+ * packages whose planned bump is lower than their API changes require.
+ * On 0.x versions with `bumpRules.preMajor`, breaking changes require minor and additions patch.
+ */
+export async function checkApiChanges(
+  packages: PackageVersion[],
+  config: ReleaseConfig,
+): Promise<{ insufficient: string[]; warnings: string[] }> {
+  const insufficient: string[] = [];
+  const warnings: string[] = [];
+
+  for (const pkg of packages) {
+    const baseline = await readApiBaseline(pkg.path);
+    if (!baseline) {continue;}
+
+    let current: ApiSurface | null;
+    try {
+      current = await extractApiSurface(pkg.path);
+    } catch (err) {
+      warnings.push(`${pkg.name}: public API not checked — ${err instanceof Error ? err.message : String(err)}`);
+      continue;
+    }
+    if (!current) {
+      warnings.push(`${pkg.name}: public API not checked — no built declarations (build before planning)`);
+      continue;
+    }
+
+    const diff = diffApiSurface(baseline, current);
+    pkg.api = diff;
+
+    let required = diff.bump;
+    if (config.bumpRules?.preMajor && semver.major(pkg.currentVersion) === 0) {
+      required = required === 'major' ? 'minor' : 'patch';
+    }
+    if (pkg.bump !== 'auto' && BUMP_RANK[pkg.bump] < BUMP_RANK[required]) {
+      const details = [
+        diff.removed.length > 0 && `removed: ${diff.removed.join(', ')}`,
+        diff.changed.length > 0 && `changed: ${diff.changed.join(', ')}`,
+        diff.added.length > 0 && `added: ${diff.added.join(', ')}`,
+      ].filter(Boolean).join('; ');
+      insufficient.push(`${pkg.name}: ${pkg.bump} planned but the API changes require ${required} (${details})`);
+    }
+  }
+
+  return { insufficient, warnings };
+}
@@ -0,0 +1,232 @@
+/**
+ * Release approval — a second person signs off between verify and publish.
+ *
+ * With `approval.required`, the pipeline writes a pending request to
+ * .kb/release/plans/{scopeDir}/current/status.json once the release is verified, and stops
+ * at 'pending-approval' (releasing the lock). Resuming the release publishes it once approved;
+ * with `approval.wait` the run waits in-process instead, holding the lock until the decision.
+ * Approvers sign the hash of the plan they reviewed, so an approval never covers a plan that
+ * changed since. The run that finds a release rejected or expired rolls it back via its snapshot.
+ */
+
+import { readFile, writeFile, mkdir, rename } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createHash, randomBytes } from 'node:crypto';
+import type { ReleaseApproval, ReleasePlan } from './types';
+import { readReleaseLock } from './lock';
+
+const DEFAULT_EXPIRES_IN_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_POLL_MS = 2_000;
+
+export type ReleaseApprovalState = 'pending-approval' | 'approved' | 'rejected' | 'expired';
+
+export interface ReleaseRejection {
+  rejectedBy: string;
+  rejectedAt: string;
+  reason?: string;
+}
+
+export interface ReleaseApprovalStatus {
+  status: ReleaseApprovalState;
+  scope: string;
+  /** Release run (journal id) the request belongs to */
+  releaseId: string;
+  planHash: string;
+  /** What would be published, for the approver to review */
+  packages: Array<{ name: string; version: string; integrity?: string }>;
+  distTag?: string;
+  /** Who started the release — can't approve it themselves */
+  requestedBy: string;
+  requestedAt: string;
+  expiresAt: string;
+  approval?: ReleaseApproval;
+  rejection?: ReleaseRejection;
+}
+
+function statusPath(repoRoot: string, scope?: string): string {
+  const scopeDir = scope && scope !== 'root' ? scope.replace(/[@/]/g, '-').replace(/^-/, '') : 'root';
+  return join(repoRoot, '.kb', 'release', 'plans', scopeDir, 'current', 'status.json');
+}
+
+/**
+ * Stable hash of what a release would publish: package names, versions, tarball integrity
+ * and dist-tag.
+ */
+export function computePlanHash(plan: ReleasePlan): string {
+  const content = {
+    distTag: plan.distTag ?? null,
+    packages: approvalPackages(plan).sort((a, b) => a.name.localeCompare(b.name)),
+  };
+  return `sha256-${createHash('sha256').update(JSON.stringify(content)).digest('hex')}`;
+}
+
+/**
+ * Ask for approval of a verified plan. A request already made for the same release and plan
+ * (a resumed run) is returned as-is, keeping its expiry and any decision made meanwhile.
+ */
+export async function requestReleaseApproval(
+  repoRoot: string,
+  scope: string | undefined,
+  options: { plan: ReleasePlan; releaseId: string; requestedBy: string; expiresInMs?: number },
+): Promise<ReleaseApprovalStatus> {
+  const planHash = computePlanHash(options.plan);
+  const existing = await readReleaseApproval(repoRoot, scope);
+  if (existing && existing.releaseId === options.releaseId && existing.planHash === planHash) {
+    return existing;
+  }
+
+  const now = new Date();
+  const request: ReleaseApprovalStatus = {
+    status: 'pending-approval',
+    scope: scope || 'root',
+    releaseId: options.releaseId,
+    planHash,
+    packages: approvalPackages(options.plan),
+    ...(options.plan.distTag && { distTag: options.plan.distTag }),
+    requestedBy: options.requestedBy,
+    requestedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + (options.expiresInMs ?? DEFAULT_EXPIRES_IN_MS)).toISOString(),
+  };
+  await saveStatus(repoRoot, scope, request);
+  return request;
+}
+
+/**
+ * Current approval request for a scope, or null if there is none.
+ * A pending request past its expiry is reported as expired.
+ */
+export async function readReleaseApproval(repoRoot: string, scope: string | undefined): Promise<ReleaseApprovalStatus | null> {
+  let status: ReleaseApprovalStatus;
+  try {
+    status = JSON.parse(await readFile(statusPath(repoRoot, scope), 'utf-8'));
+  } catch {
+    return null;
+  }
+  if (status.status === 'pending-approval' && Date.now() > new Date(status.expiresAt).getTime()) {
+    return { ...status, status: 'expired' };
+  }
+  return status;
+}
+
+/**
+ * Approve the pending release of a scope. `planHash` is the hash the approver reviewed —
+ * the approval is refused if the plan has changed since, or if the approver started the release
+ * (requested it, or holds the release lock).
+ */
+export async function approveRelease(
+  repoRoot: string,
+  scope: string | undefined,
+  options: { approver: string; planHash: string },
+): Promise<ReleaseApprovalStatus> {
+  const pending = await readPendingApproval(repoRoot, scope);
+  if (options.planHash !== pending.planHash) {
+    throw new Error(`Plan changed since it was reviewed (reviewed ${options.planHash}, pending ${pending.planHash})`);
+  }
+  const lock = await readReleaseLock(repoRoot, scope);
+  if (options.approver === pending.requestedBy || options.approver === lock?.owner) {
+    throw new Error(`Release started by ${options.approver} must be approved by someone else`);
+  }
+
+  const approved: ReleaseApprovalStatus = {
+    ...pending,
+    status: 'approved',
+    approval: { approver: options.approver, approvedAt: new Date().toISOString(), planHash: options.planHash },
+  };
+  await saveStatus(repoRoot, scope, approved);
+  return approved;
+}
+
+/**
+ * Reject the pending release of a scope. The resumed (or waiting) pipeline rolls it back.
+ */
+export async function rejectRelease(
+  repoRoot: string,
+  scope: string | undefined,
+  options: { rejectedBy: string; reason?: string },
+): Promise<ReleaseApprovalStatus> {
+  const pending = await readPendingApproval(repoRoot, scope);
+  const rejected: ReleaseApprovalStatus = {
+    ...pending,
+    status: 'rejected',
+    rejection: { rejectedBy: options.rejectedBy, rejectedAt: new Date().toISOString(), ...(options.reason && { reason: options.reason }) },
+  };
+  await saveStatus(repoRoot, scope, rejected);
+  return rejected;
+}
+
+/**
+ * Current state of the request for `releaseId` (expiry is persisted).
+ * Throws if the request is withdrawn.
+ */
+export async function checkReleaseApproval(
+  repoRoot: string,
+  scope: string | undefined,
+  options: { releaseId: string },
+): Promise<ReleaseApprovalStatus> {
+  const status = await readReleaseApproval(repoRoot, scope);
+  if (!status || status.releaseId !== options.releaseId) {
+    throw new Error(`Approval request for scope "${scope || 'root'}" was withdrawn`);
+  }
+  if (status.status === 'expired') {
+    await saveStatus(repoRoot, scope, status);
+  }
+  return status;
+}
+
+/**
+ * Wait until the request for `releaseId` is decided or expires (expiry is persisted).
+ * Returns the still-pending request if `signal` aborts first; throws if the request is withdrawn.
+ */
+export async function waitForReleaseApproval(
+  repoRoot: string,
+  scope: string | undefined,
+  options: { releaseId: string; pollMs?: number; signal?: AbortSignal },
+): Promise<ReleaseApprovalStatus> {
+  for (;;) {
+    const status = await checkReleaseApproval(repoRoot, scope, options);
+    if (status.status !== 'pending-approval' || options.signal?.aborted) {
+      return status;
+    }
+
+    await new Promise<void>(resolve => {
+      const wake = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, options.pollMs ?? DEFAULT_POLL_MS);
+      options.signal?.addEventListener('abort', wake, { once: true });
+    });
+  }
+}
+
+async function readPendingApproval(repoRoot: string, scope: string | undefined): Promise<ReleaseApprovalStatus> {
+  const status = await readReleaseApproval(repoRoot, scope);
+  if (!status) {
+    throw new Error(`No release awaiting approval for scope "${scope || 'root'}"`);
+  }
+  if (status.status === 'expired') {
+    throw new Error(`Approval request for scope "${status.scope}" expired at ${status.expiresAt}`);
+  }
+  if (status.status !== 'pending-approval') {
+    throw new Error(`Release for scope "${status.scope}" is not awaiting approval (${status.status})`);
+  }
+  return status;
+}
+
+function approvalPackages(plan: ReleasePlan): ReleaseApprovalStatus['packages'] {
+  return plan.packages.map(pkg => ({
+    name: pkg.name,
+    version: pkg.nextVersion,
+    ...(pkg.artifact && { integrity: pkg.artifact.integrity }),
+  }));
+}
+
+async function saveStatus(repoRoot: string, scope: string | undefined, status: ReleaseApprovalStatus): Promise<void> {
+  const path = statusPath(repoRoot, scope);
+  await mkdir(join(path, '..'), { recursive: true });
+  // Approver and pipeline may write from different processes — each through its own temp file
+  const tmpPath = `${path}.${randomBytes(4).toString('hex')}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(status, null, 2), 'utf-8');
+  await rename(tmpPath, path);
+}
@@ -0,0 +1,146 @@
+/**
+ * Incremental builds — content hash of a package's build inputs, recorded after each successful build.
+ *
+ * Stored at .kb/release/builds/{package}.json (one file per package, so parallel builds never race).
+ * Inputs: src/**, package.json (minus `version`), tsconfig*.json, tsup.config.*,
+ * installed dependency versions, and the hashes of workspace dependencies.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { createHash } from 'node:crypto';
+import globby from 'globby';
+import type { PackageVersion } from './types';
+import { sortPackagesTopologically } from './graph';
+
+export type BuildFreshness = 'fresh' | 'outdated' | 'not_built';
+
+export interface BuildCacheEntry {
+  name: string;
+  hash: string;
+  builtAt: string;
+}
+
+const BUILD_INPUTS = ['src/**', 'package.json', 'tsconfig*.json', 'tsup.config.*'];
+
+const DEPENDENCY_SECTIONS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'] as const;
+
+function cachePath(repoRoot: string, packageName: string): string {
+  const file = packageName.replace(/^@/, '').replace(/\//g, '-');
+  return join(repoRoot, '.kb', 'release', 'builds', `${file}.json`);
+}
+
+/**
+ * Hash everything that affects a package's build output.
+ * `dependencyHashes` are the build hashes of its workspace dependencies, so a changed
+ * dependency makes its dependents stale too.
+ */
+export async function computeBuildHash(packagePath: string, dependencyHashes: string[] = []): Promise<string> {
+  const hash = createHash('sha256');
+
+  const files = await globby(BUILD_INPUTS, {
+    cwd: packagePath,
+    onlyFiles: true,
+    dot: false,
+    ignore: ['**/node_modules/**', '**/dist/**'],
+  });
+
+  for (const file of files.sort()) {
+    let content = await readFile(join(packagePath, file));
+    if (file === 'package.json') {
+      // Version bumps don't change build output
+      const { version: _version, ...rest } = JSON.parse(content.toString('utf-8'));
+      content = Buffer.from(JSON.stringify(rest));
+    }
+    hash.update(file).update('\0').update(content).update('\0');
+  }
+
+  for (const [name, version] of await resolveDependencyVersions(packagePath)) {
+    hash.update(`dep:${name}@${version}\0`);
+  }
+
+  for (const depHash of [...dependencyHashes].sort()) {
+    hash.update(`workspace:${depHash}\0`);
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Build hashes for a set of packages, computed dependencies-first so each hash
+ * includes its workspace dependencies' hashes.
+ */
+export async function computeBuildHashes(
+  packages: Array<Pick<PackageVersion, 'name' | 'path' | 'dependencies' | 'devDependencies'>>,
+): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+  for (const pkg of sortPackagesTopologically(packages)) {
+    const depHashes = [...pkg.dependencies ?? [], ...pkg.devDependencies ?? []].flatMap(dep => hashes.get(dep) ?? []);
+    hashes.set(pkg.name, await computeBuildHash(pkg.path, depHashes));
+  }
+  return hashes;
+}
+
+/**
+ * Installed version of each declared dependency (falls back to the declared range when not installed).
+ */
+async function resolveDependencyVersions(packagePath: string): Promise<Array<[string, string]>> {
+  const resolved = new Map<string, string>();
+  try {
+    const pkgJson = JSON.parse(await readFile(join(packagePath, 'package.json'), 'utf-8'));
+    for (const section of DEPENDENCY_SECTIONS) {
+      for (const [name, range] of Object.entries<string>(pkgJson[section] ?? {})) {
+        let version = range;
+        try {
+          const installed = JSON.parse(await readFile(join(packagePath, 'node_modules', name, 'package.json'), 'utf-8'));
+          version = installed.version ?? range;
+        } catch {
+          // Not installed — the declared range is the best we have
+        }
+        resolved.set(name, version);
+      }
+    }
+  } catch {
+    // Unreadable package.json — hash covers files only
+  }
+  return [...resolved.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * Load the last recorded build for a package, or null.
+ */
+export async function loadBuildCacheEntry(repoRoot: string, packageName: string): Promise<BuildCacheEntry | null> {
+  const path = cachePath(repoRoot, packageName);
+  if (!existsSync(path)) {return null;}
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as BuildCacheEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record a successful build.
+ */
+export async function saveBuildCacheEntry(repoRoot: string, packageName: string, hash: string): Promise<void> {
+  const path = cachePath(repoRoot, packageName);
+  await mkdir(join(path, '..'), { recursive: true });
+  const entry: BuildCacheEntry = { name: packageName, hash, builtAt: new Date().toISOString() };
+  await writeFile(path, JSON.stringify(entry, null, 2), 'utf-8');
+}
+
+/**
+ * Compare a package's current build hash (see computeBuildHashes) with its last recorded build.
+ * A package without dist/ is `not_built`; one built before hashes were recorded is `outdated`.
+ */
+export async function getBuildFreshness(
+  repoRoot: string,
+  packageName: string,
+  packagePath: string,
+  hash: string,
+): Promise<BuildFreshness> {
+  if (!existsSync(join(packagePath, 'dist'))) {return 'not_built';}
+  const entry = await loadBuildCacheEntry(repoRoot, packageName);
+  return entry?.hash === hash ? 'fresh' : 'outdated';
+}
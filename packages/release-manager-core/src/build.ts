@@ -10,33 +10,84 @@ import { spawn } from 'node:child_process';
 import { tmpdir } from 'node:os';
 import { randomBytes } from 'node:crypto';
 import type { BuildResult, PackageVersion } from './types';
+import { groupPackagesIntoWaves } from './graph';
+import { DEFAULT_CONCURRENCY, runWithConcurrency } from './concurrency';
+import { computeBuildHashes, getBuildFreshness, saveBuildCacheEntry } from './build-cache';
 
 /**
  * Build all packages in a plan using safe build strategy.
- * Stops on first failure.
+ * Packages are built in dependency waves: each wave only depends on earlier waves,
+ * and up to `concurrency` packages of a wave build at once.
+ *
+ * failFast (default): no new builds start after the first failure.
+ * Otherwise every buildable package is built; dependents of failed packages are reported as skipped.
+ *
+ * With `repoRoot`, builds are incremental: packages whose content hash matches their last
+ * successful build (see build-cache.ts) are skipped unless `force` is set.
  */
 export async function buildPackages(
   packages: PackageVersion[],
   options?: {
     logger?: { info?: (...args: any[]) => void; warn?: (...args: any[]) => void; error?: (...args: any[]) => void };
     onProgress?: (pkg: string, result: BuildResult) => void;
+    /** Max parallel builds within a wave. Default: DEFAULT_CONCURRENCY */
+    concurrency?: number;
+    /** Stop on first failure (default: true) */
+    failFast?: boolean;
+    /** Repo root for the build hash cache. Omit to always rebuild. */
+    repoRoot?: string;
+    /** Rebuild even if the build hash is unchanged */
+    force?: boolean;
+    /** Aborting kills running builds and starts no new ones */
+    signal?: AbortSignal;
   },
 ): Promise<BuildResult[]> {
+  const concurrency = options?.concurrency ?? DEFAULT_CONCURRENCY;
+  const failFast = options?.failFast ?? true;
+  const repoRoot = options?.repoRoot;
   const results: BuildResult[] = [];
+  const failed = new Set<string>();
+  const hashes = repoRoot ? await computeBuildHashes(packages) : new Map<string, string>();
+  const signal = options?.signal;
 
-  for (const pkg of packages) {
-    options?.logger?.info?.(`Building ${pkg.name}...`);
-    const result = await runSafeBuild(pkg.path, pkg.name);
-    results.push({ ...result, name: pkg.name });
+  for (const wave of groupPackagesIntoWaves(packages)) {
+    if ((failFast && failed.size > 0) || signal?.aborted) {break;}
 
-    options?.onProgress?.(pkg.name, { ...result, name: pkg.name });
+    const waveResults = await runWithConcurrency(wave, concurrency, async (pkg): Promise<BuildResult> => {
+      const blockedBy = [...pkg.dependencies ?? [], ...pkg.devDependencies ?? []].filter(dep => failed.has(dep));
+      if (blockedBy.length > 0) {
+        failed.add(pkg.name);
+        const skipped = { success: false, name: pkg.name, error: `Skipped — dependency failed to build: ${blockedBy.join(', ')}`, durationMs: 0 };
+        options?.onProgress?.(pkg.name, skipped);
+        return skipped;
+      }
 
-    if (!result.success) {
-      options?.logger?.error?.(`Build failed for ${pkg.name}: ${result.error}`);
-      break;
-    }
+      const hash = hashes.get(pkg.name);
+      if (repoRoot && hash && !options?.force
+        && await getBuildFreshness(repoRoot, pkg.name, pkg.path, hash) === 'fresh') {
+        const cached = { success: true, name: pkg.name, durationMs: 0, cached: true };
+        options?.logger?.info?.(`${pkg.name} is up to date — skipping build`);
+        options?.onProgress?.(pkg.name, cached);
+        return cached;
+      }
+
+      options?.logger?.info?.(`Building ${pkg.name}...`);
+      const result = { ...await runSafeBuild(pkg.path, pkg.name, { signal }), name: pkg.name };
 
-    options?.logger?.info?.(`Built ${pkg.name} in ${result.durationMs}ms`);
+      if (!result.success) {
+        failed.add(pkg.name);
+        options?.logger?.error?.(`Build failed for ${pkg.name}: ${result.error}`);
+      } else {
+        if (repoRoot && hash) {await saveBuildCacheEntry(repoRoot, pkg.name, hash);}
+        options?.logger?.info?.(`Built ${pkg.name} in ${result.durationMs}ms`);
+      }
+      options?.onProgress?.(pkg.name, result);
+      return result;
+    }, () => (failFast && failed.size > 0) || signal?.aborted === true);
+
+    for (const result of waveResults) {
+      if (result) {results.push(result);}
+    }
   }
 
   return results;
@@ -46,15 +97,19 @@ export async function buildPackages(
  * Run build for a single package using safe temp-dir strategy when tsup is detected.
  * Falls back to regular `pnpm run build` for non-tsup packages.
  */
-export async function runSafeBuild(packagePath: string, packageName: string): Promise<BuildResult> {
+export async function runSafeBuild(
+  packagePath: string,
+  packageName: string,
+  options: { signal?: AbortSignal } = {},
+): Promise<BuildResult> {
   const usesTsup = existsSync(join(packagePath, 'tsup.config.ts'))
     || existsSync(join(packagePath, 'tsup.config.js'));
 
   if (usesTsup) {
-    return runTsupSafeBuild(packagePath, packageName);
+    return runTsupSafeBuild(packagePath, packageName, options.signal);
   }
 
-  return runDirectBuild(packagePath, packageName);
+  return runDirectBuild(packagePath, packageName, options.signal);
 }
 
 /**
@@ -65,7 +120,7 @@ export function isBuildCommand(command: string, args?: string[]): boolean {
   return /\b(pnpm|npm|yarn)\s+(run\s+)?build\b/.test(full);
 }
 
-async function runTsupSafeBuild(packagePath: string, packageName: string): Promise<BuildResult> {
+async function runTsupSafeBuild(packagePath: string, packageName: string, signal?: AbortSignal): Promise<BuildResult> {
   const startTime = Date.now();
   const buildId = randomBytes(6).toString('hex');
   const tempDir = join(tmpdir(), `kb-release-build-${buildId}`);
@@ -73,7 +128,7 @@ async function runTsupSafeBuild(packagePath: string, packageName: string): Promi
   const backupDir = join(packagePath, `dist.bak-${buildId}`);
 
   try {
-    const buildResult = await spawnCommand(`npx tsup -d ${tempDir}`, packagePath);
+    const buildResult = await spawnCommand(`npx tsup -d ${tempDir}`, packagePath, undefined, { signal });
 
     if (!buildResult.success) {
       await rm(tempDir, { recursive: true, force: true }).catch(() => {});
@@ -107,8 +162,8 @@ async function runTsupSafeBuild(packagePath: string, packageName: string): Promi
   }
 }
 
-async function runDirectBuild(packagePath: string, packageName: string): Promise<BuildResult> {
-  const result = await spawnCommand('pnpm run build', packagePath);
+async function runDirectBuild(packagePath: string, packageName: string, signal?: AbortSignal): Promise<BuildResult> {
+  const result = await spawnCommand('pnpm run build', packagePath, undefined, { signal });
   return { ...result, name: packageName };
 }
 
@@ -118,23 +173,80 @@ export interface SpawnResult extends Omit<BuildResult, 'name'> {
   exitCode: number;
 }
 
+export interface SpawnOptions {
+  /** Written to the command's stdin, which is then closed */
+  input?: string;
+  /** Extra environment variables */
+  env?: Record<string, string>;
+  /** Aborting kills the command and every process it started */
+  signal?: AbortSignal;
+}
+
+/** How long a killed command gets to exit after SIGTERM before it is SIGKILLed */
+const KILL_GRACE_MS = 5_000;
+
 /**
  * Spawn a shell command and collect results.
  * Captures both stdout and stderr — build tools often write errors to stdout.
+ *
+ * With a `signal`, the command runs in its own process group and a timeout or abort kills the
+ * whole tree (the shell, the tool it runs and anything that tool spawned). Without one it stays
+ * in our group so Ctrl+C still reaches it, and a timeout can only kill the shell.
  */
-export function spawnCommand(command: string, cwd: string, timeoutMs = 5 * 60 * 1000): Promise<SpawnResult> {
+export function spawnCommand(
+  command: string,
+  cwd: string,
+  timeoutMs = 5 * 60 * 1000,
+  options: SpawnOptions = {},
+): Promise<SpawnResult> {
   const startTime = Date.now();
 
   return new Promise((resolve) => {
+    let stdout = '';
+    let stderr = '';
+    const failure = (error: string): SpawnResult =>
+      ({ success: false, error, durationMs: Date.now() - startTime, stdout, stderr, exitCode: 1 });
+
+    if (options.signal?.aborted) {
+      resolve(failure('Cancelled'));
+      return;
+    }
+
+    const ownGroup = options.signal !== undefined && process.platform !== 'win32';
     const child = spawn(command, [], {
       cwd,
       stdio: 'pipe',
       shell: true,
-      env: { ...process.env },
+      env: { ...process.env, ...options.env },
+      detached: ownGroup,
     });
 
-    let stdout = '';
-    let stderr = '';
+    let settled = false;
+    const settle = (result: SpawnResult) => {
+      if (settled) {return;}
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve(result);
+    };
+    const kill = (reason: string) => {
+      if (ownGroup) {
+        killProcessGroup(child.pid);
+      } else {
+        child.kill();
+      }
+      child.stdout?.destroy();
+      child.stderr?.destroy();
+      settle(failure(reason));
+    };
+    const onAbort = () => kill('Cancelled');
+
+    if (options.input !== undefined) {
+      // Commands that never read stdin close it early — that's not an error
+      child.stdin?.on('error', () => {});
+      child.stdin?.end(options.input);
+    }
+
     child.stdout?.on('data', (data) => { stdout += data.toString(); });
     child.stderr?.on('data', (data) => { stderr += data.toString(); });
 
@@ -142,7 +254,7 @@ export function spawnCommand(command: string, cwd: string, timeoutMs = 5 * 60 *
       const exitCode = code ?? 1;
       const durationMs = Date.now() - startTime;
       if (exitCode === 0) {
-        resolve({ success: true, durationMs, stdout, stderr, exitCode });
+        settle({ success: true, durationMs, stdout, stderr, exitCode });
         return;
       }
 
@@ -153,7 +265,7 @@ export function spawnCommand(command: string, cwd: string, timeoutMs = 5 * 60 *
         .slice(-30)
         .join('\n');
 
-      resolve({
+      settle({
         success: false,
         error: tail || `Build failed with exit code ${exitCode}`,
         durationMs,
@@ -164,12 +276,24 @@ export function spawnCommand(command: string, cwd: string, timeoutMs = 5 * 60 *
     });
 
     child.on('error', (err) => {
-      resolve({ success: false, error: err.message, durationMs: Date.now() - startTime, stdout: '', stderr: '', exitCode: 1 });
+      settle(failure(err.message));
     });
 
-    setTimeout(() => {
-      child.kill();
-      resolve({ success: false, error: `Timed out after ${timeoutMs / 1000}s`, durationMs: Date.now() - startTime, stdout: '', stderr: '', exitCode: 1 });
-    }, timeoutMs);
+    const timer = setTimeout(() => kill(`Timed out after ${timeoutMs / 1000}s`), timeoutMs);
+    options.signal?.addEventListener('abort', onAbort, { once: true });
   });
 }
+
+function killProcessGroup(pid: number | undefined): void {
+  if (pid === undefined) {return;}
+  const signalGroup = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      // Group already gone
+    }
+  };
+  signalGroup('SIGTERM');
+  // Tools that ignore SIGTERM (or are stuck) get killed for good
+  setTimeout(() => signalGroup('SIGKILL'), KILL_GRACE_MS).unref();
+}
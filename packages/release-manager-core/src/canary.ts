@@ -0,0 +1,69 @@
+/**
+ * Canary releases — publish the changed packages of any commit for testing, without releasing them.
+ *
+ * A canary takes the planned version of each changed package and turns it into a prerelease
+ * unique to the commit and the moment: 1.4.0 → `1.4.0-canary.<shortsha>.<timestamp>`, published
+ * under the `canary` dist-tag. Nothing in the repo changes — no package.json, CHANGELOG or tag;
+ * the versions only exist in the packed manifests (see `pinVersions` in workspace-protocol.ts).
+ */
+
+import simpleGit from 'simple-git';
+import semver from 'semver';
+import type { ReleasePlan } from './types';
+
+/** npm dist-tag canaries are published under */
+export const CANARY_DIST_TAG = 'canary';
+
+export interface CanaryVersionOptions {
+  /** Short SHA of the commit being published */
+  sha: string;
+  /** When the canary was cut (default: now) */
+  timestamp?: Date;
+}
+
+/**
+ * Canary version for a planned version: `1.4.0` → `1.4.0-canary.1a2b3c4.20261019143005`.
+ * A planned prerelease keeps only its base (`1.4.0-rc.2` → `1.4.0-canary...`); the timestamp is UTC.
+ */
+export function computeCanaryVersion(version: string, options: CanaryVersionOptions): string {
+  const parsed = semver.parse(version);
+  if (!parsed) {
+    throw new Error(`Cannot compute a canary version from "${version}"`);
+  }
+
+  // An all-digit SHA would be a numeric identifier, which must not have a leading zero
+  const sha = /^\d+$/.test(options.sha) ? `g${options.sha}` : options.sha;
+  const timestamp = (options.timestamp ?? new Date()).toISOString().replace(/\D/g, '').slice(0, 14);
+  return `${parsed.major}.${parsed.minor}.${parsed.patch}-canary.${sha}.${timestamp}`;
+}
+
+/**
+ * Turn a release plan into a canary plan: every package gets its canary version,
+ * the plan publishes under the `canary` dist-tag and is flagged `canary`.
+ */
+export function toCanaryPlan(plan: ReleasePlan, options: CanaryVersionOptions): ReleasePlan {
+  const timestamp = options.timestamp ?? new Date();
+  return {
+    ...plan,
+    packages: plan.packages.map(pkg => ({
+      ...pkg,
+      nextVersion: computeCanaryVersion(pkg.nextVersion, { sha: options.sha, timestamp }),
+      isPublished: false,
+    })),
+    channel: undefined,
+    graduate: undefined,
+    distTag: CANARY_DIST_TAG,
+    canary: true,
+  };
+}
+
+/**
+ * Short SHA of HEAD in `cwd`.
+ */
+export async function resolveCanarySha(cwd: string): Promise<string> {
+  const sha = (await simpleGit(cwd).revparse(['--short', 'HEAD'])).trim();
+  if (!sha) {
+    throw new Error(`Cannot cut a canary: no commit checked out in ${cwd}`);
+  }
+  return sha;
+}
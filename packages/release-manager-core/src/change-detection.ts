@@ -0,0 +1,99 @@
+/**
+ * Change detection — which packages changed since their last release tag.
+ *
+ * The last release of a package is its `name@version` tag, or the lockstep `vX.Y.Z` tag,
+ * for the version in package.json (formats configurable via config.git). Changes are the committed files between that tag and HEAD,
+ * minus ignore globs (build output by default, plus config.changes.ignore).
+ */
+
+import simpleGit from 'simple-git';
+import { findReleaseTag, type TagFormatOptions } from '@kb-labs/release-manager-changelog';
+import type { PackageChangeInfo, PackageVersion } from './types';
+
+/** Always ignored — build output and tooling caches never warrant a release */
+export const DEFAULT_CHANGE_IGNORE = [
+  '**/node_modules/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/coverage/**',
+  '**/.cache/**',
+  '**/tmp/**',
+];
+
+export interface ChangeDetectionOptions {
+  /** Extra ignore globs, relative to the package root (e.g. `**\/*.md`, `**\/__tests__/**`) */
+  ignore?: string[];
+  /** Configured tag formats (config.git), so release tags are found the way they were created */
+  tagFormats?: TagFormatOptions;
+}
+
+/**
+ * Compute `changes` for each package and return only the packages that need a release.
+ * Packages without a release tag are included as initial releases.
+ */
+export async function detectChangedPackages(
+  packages: PackageVersion[],
+  options: ChangeDetectionOptions = {},
+): Promise<PackageVersion[]> {
+  const ignore = [...DEFAULT_CHANGE_IGNORE, ...(options.ignore ?? [])].map(globToRegExp);
+  const changed: PackageVersion[] = [];
+
+  for (const pkg of packages) {
+    const changes = await detectPackageChanges(pkg, ignore, options.tagFormats);
+    if (changes) {changed.push({ ...pkg, changes });}
+  }
+
+  return changed;
+}
+
+/**
+ * Changes for one package, or null if nothing relevant changed since its release tag.
+ */
+async function detectPackageChanges(
+  pkg: PackageVersion,
+  ignore: RegExp[],
+  tagFormats?: TagFormatOptions,
+): Promise<PackageChangeInfo | null> {
+  // Run git inside the package so sub-repos (submodules) use their own history and tags
+  const git = simpleGit(pkg.path, { timeout: { block: 60000 } });
+
+  const tag = await findReleaseTag(git, pkg.name, pkg.currentVersion, tagFormats);
+  if (!tag) {
+    return { reason: 'no-release-tag' };
+  }
+
+  const output = await git.raw(['diff', '--name-only', '--relative', tag, 'HEAD', '--', '.']);
+  const files = output
+    .split('\n')
+    .map(f => f.trim())
+    .filter(f => f && !ignore.some(re => re.test(f)));
+
+  return files.length > 0 ? { reason: 'changed', since: tag, files } : null;
+}
+
+/**
+ * Convert a glob (`*`, `**`, `?`) to a RegExp matched against a `/`-separated relative path.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches zero or more directories; a trailing `**` matches anything
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
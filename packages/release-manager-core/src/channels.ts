@@ -0,0 +1,105 @@
+/**
+ * Prerelease channels (alpha/beta/rc) — channel resolution and prerelease version math.
+ *
+ * A channel publishes versions like `2.1.0-rc.3` under a matching npm dist-tag.
+ * Graduating turns `2.1.0-rc.3` into `2.1.0` and publishes under `latest`.
+ */
+
+import semver from 'semver';
+import type { ReleaseConfig, VersionBump } from './types';
+
+export interface ResolvedChannel {
+  /** Channel name as configured (e.g. 'rc') */
+  name: string;
+  /** Prerelease identifier used in versions (e.g. 'rc' → 2.1.0-rc.1) */
+  preid: string;
+  /** npm dist-tag packages are published under */
+  distTag: string;
+}
+
+/**
+ * Resolve the active channel.
+ * Priority: explicit override (CLI/REST) → config.scopes[scope].channel → config.channel.
+ * Returns undefined for stable releases.
+ */
+export function resolveChannel(
+  config: ReleaseConfig,
+  scope?: string,
+  override?: string,
+): ResolvedChannel | undefined {
+  const name = override
+    || (scope ? config.scopes?.[scope]?.channel : undefined)
+    || config.channel;
+
+  if (!name) {return undefined;}
+
+  const channelConfig = config.channels?.[name];
+  const preid = channelConfig?.preid ?? name;
+
+  if (!/^[0-9A-Za-z-]+$/.test(preid)) {
+    throw new Error(`Invalid prerelease identifier "${preid}" for channel "${name}"`);
+  }
+
+  return {
+    name,
+    preid,
+    distTag: channelConfig?.distTag ?? name,
+  };
+}
+
+/**
+ * Compute the next prerelease version for a channel.
+ *
+ * - Stable current version: 2.0.0 + minor → 2.1.0-rc.1
+ * - Same channel, bump already covered by the prerelease base: 2.1.0-rc.3 + minor → 2.1.0-rc.4
+ * - Same channel, bump exceeds the base: 2.1.0-rc.3 + major → 3.0.0-rc.1
+ * - Channel switch: 2.1.0-alpha.2 → 2.1.0-beta.1
+ */
+export function computePrereleaseVersion(
+  currentVersion: string,
+  bump: Exclude<VersionBump, 'auto'>,
+  preid: string,
+): string {
+  const parsed = semver.parse(currentVersion);
+  if (!parsed) {return currentVersion;}
+
+  // Stable → start a new prerelease line for the requested bump
+  if (parsed.prerelease.length === 0) {
+    return semver.inc(currentVersion, `pre${bump}`, preid, '1') || currentVersion;
+  }
+
+  // Already a prerelease — stay on the same base unless the bump requires a higher one.
+  // A base like 2.1.0 already covers a minor bump; 3.0.0 covers major and minor.
+  const coversBump =
+    bump === 'patch'
+    || (bump === 'minor' && parsed.patch === 0)
+    || (bump === 'major' && parsed.minor === 0 && parsed.patch === 0);
+
+  const next = coversBump
+    ? semver.inc(currentVersion, 'prerelease', preid, '1')
+    : semver.inc(currentVersion, `pre${bump}`, preid, '1');
+
+  // Switching to a "lower" channel (beta → alpha) on the same base would go backwards
+  if (!next || !semver.gt(next, currentVersion)) {
+    return semver.inc(currentVersion, 'prepatch', preid, '1') || currentVersion;
+  }
+
+  return next;
+}
+
+/**
+ * Graduate a prerelease to its stable version: 2.1.0-rc.3 → 2.1.0.
+ * Stable versions are returned unchanged.
+ */
+export function graduateVersion(currentVersion: string): string {
+  const parsed = semver.parse(currentVersion);
+  if (!parsed) {return currentVersion;}
+  return `${parsed.major}.${parsed.minor}.${parsed.patch}`;
+}
+
+/**
+ * Check whether a version is a prerelease (has a `-tag.N` suffix).
+ */
+export function isPrereleaseVersion(version: string): boolean {
+  return (semver.prerelease(version)?.length ?? 0) > 0;
+}
@@ -12,6 +12,8 @@ export interface CheckRunnerOptions {
   packagePaths: string[];
   scopePath?: string;
   logger?: { info?: (...args: any[]) => void; warn?: (...args: any[]) => void };
+  /** Aborting kills the running check and skips the rest */
+  signal?: AbortSignal;
 }
 
 /**
@@ -25,6 +27,7 @@ export async function runReleaseChecks(
   const results: CheckResult[] = [];
 
   for (const check of checks) {
+    if (options.signal?.aborted) {break;}
     const result = await runSingleCheck(check, options);
     results.push(result);
 
@@ -67,7 +70,7 @@ async function runSingleCheck(
 
     const fullCommand = [check.command, ...resolvedArgs].join(' ');
     const timeoutMs = check.timeoutMs ?? 120_000;
-    const result = await spawnCommand(fullCommand, pkgPath, timeoutMs);
+    const result = await spawnCommand(fullCommand, pkgPath, timeoutMs, { signal: options.signal });
     totalDurationMs += result.durationMs;
 
     const ok = evaluateParser(check, result.stdout, result.stderr, result.exitCode);
@@ -0,0 +1,33 @@
+/**
+ * Concurrency helpers for build/verify stages.
+ */
+
+import { availableParallelism } from 'node:os';
+
+/** Default worker count: CPU count, capped so parallel builds don't exhaust memory */
+export const DEFAULT_CONCURRENCY = Math.max(1, Math.min(4, availableParallelism()));
+
+/**
+ * Run `worker` over `items` with at most `limit` in flight.
+ * Results keep the input order. Items not started because `shouldStop()` returned true stay undefined.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  shouldStop: () => boolean = () => false,
+): Promise<Array<R | undefined>> {
+  const results: Array<R | undefined> = new Array(items.length).fill(undefined);
+  let next = 0;
+
+  const run = async (): Promise<void> => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      results[index] = await worker(items[index]!, index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, run));
+  return results;
+}
@@ -0,0 +1,242 @@
+/**
+ * Intra-workspace dependency graph — topological ordering, cycle detection, ripple dependents.
+ *
+ * Runtime dependencies drive ripple bumps and must be acyclic; devDependencies only order builds.
+ *
+ * Graph shape matches the changelog package: package name → names of workspace packages it depends on.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { PackageVersion } from './types';
+
+export type DependencyGraph = Record<string, string[]>;
+
+/** What a package needs when installed — these edges drive ripple bumps and must not form cycles */
+const RUNTIME_DEPENDENCY_SECTIONS = [
+  'dependencies',
+  'peerDependencies',
+  'optionalDependencies',
+] as const;
+
+/**
+ * Build the dependency graph for the given packages from their package.json files.
+ * Only edges to other packages in the list are kept; external deps are ignored.
+ *
+ * By default the graph has runtime dependencies only. With `dev`, it has the workspace
+ * packages needed only to build (devDependencies that aren't also runtime dependencies).
+ */
+export async function buildDependencyGraph(
+  packages: PackageVersion[],
+  options: { dev?: boolean } = {},
+): Promise<DependencyGraph> {
+  const names = new Set(packages.map(p => p.name));
+  const graph: DependencyGraph = {};
+
+  for (const pkg of packages) {
+    const deps = new Set<string>();
+    try {
+      const pkgJson = JSON.parse(await readFile(join(pkg.path, 'package.json'), 'utf-8'));
+      const runtime = new Set(RUNTIME_DEPENDENCY_SECTIONS.flatMap(section => Object.keys(pkgJson[section] ?? {})));
+      const declared = options.dev
+        ? Object.keys(pkgJson.devDependencies ?? {}).filter(dep => !runtime.has(dep))
+        : [...runtime];
+      for (const dep of declared) {
+        if (dep !== pkg.name && names.has(dep)) {deps.add(dep);}
+      }
+    } catch {
+      // Unreadable package.json — treat as a leaf
+    }
+    graph[pkg.name] = [...deps];
+  }
+
+  return graph;
+}
+
+/**
+ * Find all dependency cycles (strongly connected components with more than one node,
+ * or a node depending on itself). Each cycle is returned as a closed path: a → b → a.
+ */
+export function findDependencyCycles(graph: DependencyGraph): string[][] {
+  return findStronglyConnectedComponents(graph)
+    .filter(component => component.length > 1 || (graph[component[0]!] ?? []).includes(component[0]!))
+    .map(component => traceCycle(component, graph));
+}
+
+/**
+ * Tarjan's SCC — every node of the graph ends up in exactly one component.
+ */
+function findStronglyConnectedComponents(graph: DependencyGraph): string[][] {
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (node: string): void => {
+    index.set(node, counter);
+    lowlink.set(node, counter);
+    counter++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const dep of graph[node] ?? []) {
+      if (!(dep in graph)) {continue;}
+      if (!index.has(dep)) {
+        visit(dep);
+        lowlink.set(node, Math.min(lowlink.get(node)!, lowlink.get(dep)!));
+      } else if (onStack.has(dep)) {
+        lowlink.set(node, Math.min(lowlink.get(node)!, index.get(dep)!));
+      }
+    }
+
+    if (lowlink.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component);
+    }
+  };
+
+  for (const node of Object.keys(graph).sort()) {
+    if (!index.has(node)) {visit(node);}
+  }
+
+  return components;
+}
+
+/**
+ * Walk a strongly connected component to produce a readable closed path.
+ */
+function traceCycle(component: string[], graph: DependencyGraph): string[] {
+  const members = new Set(component);
+  const start = [...component].sort()[0]!;
+  const path = [start];
+  const seen = new Set([start]);
+  let current = start;
+
+  for (;;) {
+    const deps = (graph[current] ?? []).filter(d => members.has(d));
+    const next = deps.find(d => !seen.has(d)) ?? (deps.includes(start) ? start : deps[0]);
+    if (!next) {break;}
+    path.push(next);
+    if (seen.has(next)) {break;}
+    seen.add(next);
+    current = next;
+  }
+
+  return path;
+}
+
+/**
+ * Format cycles for an error message.
+ */
+export function formatDependencyCycles(cycles: string[][]): string {
+  return cycles.map(cycle => `  ${cycle.join(' → ')}`).join('\n');
+}
+
+type GraphNode = Pick<PackageVersion, 'name' | 'dependencies' | 'devDependencies'>;
+
+/**
+ * Sort packages so that every package comes after the workspace packages it depends on.
+ * Uses `pkg.dependencies`, and `pkg.devDependencies` where they don't form a cycle;
+ * packages keep their original relative order where unconstrained.
+ * Throws with a cycle report if the runtime dependencies have cycles.
+ */
+export function sortPackagesTopologically<T extends GraphNode>(packages: T[]): T[] {
+  return orderPackages(packages).sorted;
+}
+
+/**
+ * Group packages into dependency levels ("waves"): every package's workspace dependencies
+ * are in an earlier wave, so packages within a wave can be processed in parallel.
+ * Throws with a cycle report if the runtime dependencies have cycles.
+ */
+export function groupPackagesIntoWaves<T extends GraphNode>(packages: T[]): T[][] {
+  const { sorted, graph } = orderPackages(packages);
+  const level = new Map<string, number>();
+  const waves: T[][] = [];
+
+  for (const pkg of sorted) {
+    const depLevels = graph[pkg.name]!.filter(d => level.has(d)).map(d => level.get(d)!);
+    const wave = depLevels.length > 0 ? Math.max(...depLevels) + 1 : 0;
+    level.set(pkg.name, wave);
+    (waves[wave] ??= []).push(pkg);
+  }
+
+  return waves;
+}
+
+/**
+ * Topological order and the graph it follows. A devDependency only orders a build, so one
+ * that closes a cycle is dropped instead of failing; runtime cycles are errors.
+ */
+function orderPackages<T extends GraphNode>(packages: T[]): { sorted: T[]; graph: DependencyGraph } {
+  const runtime: DependencyGraph = {};
+  const combined: DependencyGraph = {};
+  for (const pkg of packages) {
+    runtime[pkg.name] = pkg.dependencies ?? [];
+    combined[pkg.name] = [...runtime[pkg.name]!, ...pkg.devDependencies ?? []];
+  }
+
+  const cycles = findDependencyCycles(runtime);
+  if (cycles.length > 0) {
+    throw new Error(`Dependency cycle detected between workspace packages:\n${formatDependencyCycles(cycles)}`);
+  }
+
+  // Runtime edges are acyclic, so keeping only the dev edges between components leaves no cycle
+  const component = new Map<string, number>();
+  findStronglyConnectedComponents(combined).forEach((members, i) => members.forEach(m => component.set(m, i)));
+  const graph: DependencyGraph = {};
+  for (const pkg of packages) {
+    const devDeps = (pkg.devDependencies ?? []).filter(dep => component.get(dep) !== component.get(pkg.name));
+    graph[pkg.name] = [...runtime[pkg.name]!, ...devDeps];
+  }
+
+  const byName = new Map(packages.map(p => [p.name, p]));
+  const sorted: T[] = [];
+  const done = new Set<string>();
+
+  const visit = (pkg: T): void => {
+    if (done.has(pkg.name)) {return;}
+    done.add(pkg.name);
+    for (const dep of graph[pkg.name]!) {
+      const depPkg = byName.get(dep);
+      if (depPkg) {visit(depPkg);}
+    }
+    sorted.push(pkg);
+  };
+
+  for (const pkg of packages) {
+    visit(pkg);
+  }
+
+  return { sorted, graph };
+}
+
+/**
+ * Find all packages that depend (directly or transitively) on the given package.
+ */
+export function getDependents(packageName: string, graph: DependencyGraph): string[] {
+  const result: string[] = [];
+  const queue = [packageName];
+  const visited = new Set(queue);
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const [pkg, deps] of Object.entries(graph)) {
+      if (!visited.has(pkg) && deps.includes(current)) {
+        visited.add(pkg);
+        result.push(pkg);
+        queue.push(pkg);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,115 @@
+/**
+ * Release lifecycle hooks — user commands and modules run at fixed points of the pipeline.
+ *
+ * Shell hooks get the payload as JSON on stdin (and the hook name in KB_RELEASE_HOOK);
+ * module hooks are called with the payload object. A hook fails on a non-zero exit,
+ * a thrown error, a timeout or cancellation (shell hooks are killed). Hooks never throw —
+ * failures come back as results.
+ */
+
+import { isAbsolute, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { spawnCommand } from './build';
+import type {
+  ReleaseConfig,
+  ReleaseHookConfig,
+  ReleaseHookName,
+  ReleaseHookResult,
+  ReleasePlan,
+  ReleaseReport,
+} from './types';
+
+const DEFAULT_HOOK_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface ReleaseHookPayload {
+  hook: ReleaseHookName;
+  scope?: string;
+  dryRun: boolean;
+  plan?: ReleasePlan;
+  /** Report so far (afterPublish, afterGit) or the failed report (onFailure) */
+  report?: ReleaseReport;
+  /** Why the release failed (onFailure) */
+  error?: string;
+}
+
+export interface RunHooksOptions {
+  /** Working directory for commands and base for relative module paths */
+  cwd: string;
+  logger?: { info?: (...args: any[]) => void; warn?: (...args: any[]) => void };
+  /** Kills running shell hooks when the release is cancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * Run every hook configured for `payload.hook`, in order, stopping at the first failure.
+ * Returns one result per hook that ran (empty when none is configured).
+ */
+export async function runReleaseHooks(
+  hooks: ReleaseConfig['hooks'],
+  payload: ReleaseHookPayload,
+  options: RunHooksOptions,
+): Promise<ReleaseHookResult[]> {
+  const configured = hooks?.[payload.hook];
+  if (!configured) {return [];}
+
+  const results: ReleaseHookResult[] = [];
+  for (const hook of Array.isArray(configured) ? configured : [configured]) {
+    const result = await runSingleHook(hook, payload, options);
+    results.push(result);
+    options.logger?.info?.(`Hook ${payload.hook} (${result.target}): ${result.ok ? 'passed' : 'failed'} (${result.durationMs}ms)`);
+    if (!result.ok) {break;}
+  }
+  return results;
+}
+
+async function runSingleHook(
+  hook: ReleaseHookConfig,
+  payload: ReleaseHookPayload,
+  options: RunHooksOptions,
+): Promise<ReleaseHookResult> {
+  const startTime = Date.now();
+  const timeoutMs = (typeof hook === 'string' ? undefined : hook.timeoutMs) ?? DEFAULT_HOOK_TIMEOUT_MS;
+
+  if (typeof hook === 'string' || 'command' in hook) {
+    const command = typeof hook === 'string' ? hook : hook.command;
+    const result = await spawnCommand(command, options.cwd, timeoutMs, {
+      input: JSON.stringify(payload),
+      env: { KB_RELEASE_HOOK: payload.hook },
+      signal: options.signal,
+    });
+    return {
+      hook: payload.hook,
+      target: command,
+      ok: result.success,
+      durationMs: Date.now() - startTime,
+      ...(!result.success && { error: result.error ?? `exit code ${result.exitCode}` }),
+    };
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const modulePath = isAbsolute(hook.module) ? hook.module : resolve(options.cwd, hook.module);
+    const mod = await import(pathToFileURL(modulePath).href);
+    const fn = typeof mod.default === 'function' ? mod.default : mod[payload.hook];
+    if (typeof fn !== 'function') {
+      throw new Error(`Module exports neither a default function nor "${payload.hook}"`);
+    }
+    await Promise.race([
+      fn(payload),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs / 1000}s`)), timeoutMs);
+      }),
+    ]);
+    return { hook: payload.hook, target: hook.module, ok: true, durationMs: Date.now() - startTime };
+  } catch (err) {
+    return {
+      hook: payload.hook,
+      target: hook.module,
+      ok: false,
+      durationMs: Date.now() - startTime,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
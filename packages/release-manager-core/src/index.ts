@@ -6,11 +6,31 @@ export * from './runner';
 export * from './reporters';
 export * from './shell-adapter';
 export * from './versioning-strategies';
+export * from './channels';
+export * from './canary';
+export * from './graph';
+export * from './journal';
+export * from './registry';
+export * from './build-cache';
+export * from './change-detection';
+export * from './provider-release';
+export * from './pack';
 
 // Pipeline v2 — unified core
 export { runReleasePipeline } from './pipeline';
 export { buildPackages, runSafeBuild, isBuildCommand, spawnCommand } from './build';
 export { runReleaseChecks } from './checks';
 export { verifyPackage, verifyPackages } from './verifier';
+export * from './type-resolution';
+export * from './smoke-test';
+export * from './api-surface';
+export * from './size-budget';
+export * from './secret-scan';
 export { resolveScopePath } from './scope';
 
+export * from './workspace-protocol';
+export * from './hooks';
+export * from './lock';
+export * from './jobs';
+export * from './approval';
+export * from './npmrc';
@@ -0,0 +1,334 @@
+/**
+ * Release jobs — long-running releases and builds started over REST and followed by job ID.
+ *
+ * A job runs in the background of the process that started it. Its status
+ * (.kb/release/runs/{id}/job.json) and event log (events.jsonl) live on disk, so any process
+ * can poll the status or tail the events. A job whose process died is reported as interrupted.
+ *
+ * Cancelling a job (cancelReleaseJob) aborts the signal handed to its function — directly when
+ * the job runs in this process, otherwise through a `cancel` marker file its process polls for.
+ */
+
+import { readFile, writeFile, appendFile, mkdir, rename, access } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { isProcessAlive } from './lock';
+import type { PackageProgressEvent, ReleaseStage } from './types';
+
+const DEFAULT_POLL_MS = 500;
+
+export type ReleaseJobKind = 'run' | 'build';
+
+export type ReleaseJobStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface ReleaseJob<TResult = unknown> {
+  id: string;
+  kind: ReleaseJobKind;
+  scope: string;
+  status: ReleaseJobStatus;
+  /** Last stage reported by the job, with its message */
+  stage?: ReleaseStage;
+  message?: string;
+  pid: number;
+  host: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  /** When cancellation was requested (the job stays "running" until its function returns) */
+  cancelRequestedAt?: string;
+  /** What the job's function returned (status "completed" or "cancelled") */
+  result?: TResult;
+  /** Why the job threw (status "failed") */
+  error?: string;
+}
+
+export type ReleaseJobEventData =
+  | { type: 'stage'; stage: ReleaseStage; message: string }
+  | ({ type: 'package' } & PackageProgressEvent)
+  | { type: 'log'; level: 'info' | 'warn' | 'error'; message: string }
+  | { type: 'done'; status: Exclude<ReleaseJobStatus, 'running'>; error?: string };
+
+export type ReleaseJobEvent = ReleaseJobEventData & {
+  /** 1-based position in the job's event log (the SSE event id) */
+  seq: number;
+  ts: string;
+};
+
+type JobLogger = { info?: (...args: any[]) => void; warn?: (...args: any[]) => void; error?: (...args: any[]) => void };
+
+/** Handed to the job's function to report progress */
+export interface ReleaseJobReporter {
+  stage(stage: ReleaseStage, message: string): void;
+  package(event: PackageProgressEvent): void;
+  log(level: 'info' | 'warn' | 'error', message: string): void;
+  /** Logger that forwards to `logger` (if given) and records every line as a log event */
+  logger: Required<JobLogger>;
+  /** Aborted when the job is cancelled */
+  signal: AbortSignal;
+}
+
+export interface StartedReleaseJob<TResult> {
+  job: ReleaseJob<TResult>;
+  /** Settles with the final job record once the job has finished */
+  done: Promise<ReleaseJob<TResult>>;
+}
+
+/** Jobs running in this process, for immediate cancellation */
+const activeJobs = new Map<string, () => void>();
+
+function runsDir(repoRoot: string): string {
+  return join(repoRoot, '.kb', 'release', 'runs');
+}
+
+function jobDir(repoRoot: string, id: string): string {
+  // IDs come from URLs — never let one point outside the runs directory
+  if (!/^[\w-]+$/.test(id)) {
+    throw new Error(`Invalid job id "${id}"`);
+  }
+  return join(runsDir(repoRoot), id);
+}
+
+/**
+ * Start `run` in the background and return its job record immediately.
+ * The job completes with whatever `run` returns and fails if it throws — or ends "cancelled"
+ * either way once it has been cancelled.
+ */
+export async function startReleaseJob<TResult>(
+  repoRoot: string,
+  options: { kind: ReleaseJobKind; scope: string; logger?: JobLogger },
+  run: (reporter: ReleaseJobReporter) => Promise<TResult>,
+): Promise<StartedReleaseJob<TResult>> {
+  const now = new Date().toISOString();
+  const job: ReleaseJob<TResult> = {
+    id: `${now.replace(/[:.]/g, '-')}-${randomBytes(3).toString('hex')}`,
+    kind: options.kind,
+    scope: options.scope,
+    status: 'running',
+    pid: process.pid,
+    host: hostname(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  const dir = jobDir(repoRoot, job.id);
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, 'events.jsonl'), '', 'utf-8');
+  await saveJob(dir, job);
+
+  // All writes go through one queue so events land in order and job.json is never written concurrently
+  let seq = 0;
+  let queue: Promise<void> = Promise.resolve();
+  const enqueue = (write: () => Promise<void>) => {
+    queue = queue.then(write).catch(() => {
+      // A lost progress event must not fail the release itself
+    });
+  };
+  const emit = (data: ReleaseJobEventData) => {
+    const event = { seq: ++seq, ts: new Date().toISOString(), ...data } as ReleaseJobEvent;
+    enqueue(async () => {
+      await appendFile(join(dir, 'events.jsonl'), JSON.stringify(event) + '\n', 'utf-8');
+      if (data.type === 'stage') {
+        job.stage = data.stage;
+        job.message = data.message;
+        job.updatedAt = event.ts;
+        await saveJob(dir, job);
+      }
+    });
+  };
+
+  const log = (level: 'info' | 'warn' | 'error', args: any[]) => {
+    options.logger?.[level]?.(...args);
+    emit({ type: 'log', level, message: args.map(a => (typeof a === 'string' ? a : JSON.stringify(a))).join(' ') });
+  };
+  const abort = new AbortController();
+  const cancel = () => {
+    if (abort.signal.aborted) {return;}
+    job.cancelRequestedAt = new Date().toISOString();
+    emit({ type: 'log', level: 'warn', message: 'Cancellation requested' });
+    enqueue(() => saveJob(dir, job));
+    abort.abort();
+  };
+  activeJobs.set(job.id, cancel);
+  // Cancellation requested by another process
+  const cancelWatcher = setInterval(() => {
+    access(join(dir, 'cancel')).then(cancel, () => {});
+  }, DEFAULT_POLL_MS);
+  cancelWatcher.unref();
+
+  const reporter: ReleaseJobReporter = {
+    stage: (stage, message) => emit({ type: 'stage', stage, message }),
+    package: (event) => emit({ type: 'package', ...event }),
+    log: (level, message) => emit({ type: 'log', level, message }),
+    logger: {
+      info: (...args) => log('info', args),
+      warn: (...args) => log('warn', args),
+      error: (...args) => log('error', args),
+    },
+    signal: abort.signal,
+  };
+
+  const done = (async () => {
+    try {
+      job.result = await run(reporter);
+      job.status = 'completed';
+    } catch (err) {
+      job.status = 'failed';
+      job.error = err instanceof Error ? err.message : String(err);
+    } finally {
+      clearInterval(cancelWatcher);
+      activeJobs.delete(job.id);
+    }
+    if (abort.signal.aborted) {job.status = 'cancelled';}
+    job.finishedAt = new Date().toISOString();
+    job.updatedAt = job.finishedAt;
+    emit({ type: 'done', status: job.status as 'completed' | 'failed' | 'cancelled', ...(job.error && { error: job.error }) });
+    enqueue(() => saveJob(dir, job));
+    await queue;
+    return job;
+  })();
+
+  return { job: { ...job }, done };
+}
+
+/**
+ * Request cancellation of a running job. Returns the job (unchanged if it already finished),
+ * or null if there is no such job.
+ */
+export async function cancelReleaseJob<TResult = unknown>(repoRoot: string, id: string): Promise<ReleaseJob<TResult> | null> {
+  const job = await readReleaseJob<TResult>(repoRoot, id);
+  if (!job || job.status !== 'running') {return job;}
+
+  const requestedAt = job.cancelRequestedAt ?? new Date().toISOString();
+  const cancelLocal = activeJobs.get(id);
+  if (cancelLocal) {
+    cancelLocal();
+  } else {
+    await writeFile(join(jobDir(repoRoot, id), 'cancel'), requestedAt, 'utf-8');
+  }
+  return { ...job, cancelRequestedAt: requestedAt };
+}
+
+/**
+ * Current state of a job, or null if there is no such job.
+ */
+export async function readReleaseJob<TResult = unknown>(repoRoot: string, id: string): Promise<ReleaseJob<TResult> | null> {
+  let job: ReleaseJob<TResult>;
+  try {
+    job = JSON.parse(await readFile(join(jobDir(repoRoot, id), 'job.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+  if (job.status === 'running' && isProcessAlive(job.pid, job.host) === false) {
+    return { ...job, status: 'interrupted', error: `Process ${job.pid} exited before the job finished` };
+  }
+  return job;
+}
+
+/**
+ * Events recorded for a job after event `after` (0 = from the start).
+ */
+export async function readReleaseJobEvents(repoRoot: string, id: string, after = 0): Promise<ReleaseJobEvent[]> {
+  let content: string;
+  try {
+    content = await readFile(join(jobDir(repoRoot, id), 'events.jsonl'), 'utf-8');
+  } catch {
+    return [];
+  }
+  const events: ReleaseJobEvent[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {continue;}
+    try {
+      const event = JSON.parse(line) as ReleaseJobEvent;
+      if (event.seq > after) {events.push(event);}
+    } catch {
+      // A line still being appended — picked up on the next read
+      break;
+    }
+  }
+  return events;
+}
+
+/**
+ * Yield a job's events as they are recorded, ending after its "done" event.
+ * Jobs interrupted by a dead process end with a synthetic "done" event.
+ */
+export async function* followReleaseJobEvents(
+  repoRoot: string,
+  id: string,
+  options: { after?: number; pollMs?: number; signal?: AbortSignal } = {},
+): AsyncGenerator<ReleaseJobEvent> {
+  let after = options.after ?? 0;
+
+  while (!options.signal?.aborted) {
+    for (const event of await readReleaseJobEvents(repoRoot, id, after)) {
+      yield event;
+      after = event.seq;
+      if (event.type === 'done') {return;}
+    }
+
+    const job = await readReleaseJob(repoRoot, id);
+    if (!job) {
+      throw new Error(`Job "${id}" not found`);
+    }
+    if (job.status === 'interrupted') {
+      yield { seq: after + 1, ts: new Date().toISOString(), type: 'done', status: 'interrupted', error: job.error };
+      return;
+    }
+
+    await new Promise<void>(resolve => {
+      const wake = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, options.pollMs ?? DEFAULT_POLL_MS);
+      options.signal?.addEventListener('abort', wake, { once: true });
+    });
+  }
+}
+
+/**
+ * One Server-Sent Events message for a job event.
+ */
+export function formatSseEvent(event: ReleaseJobEvent): string {
+  return `id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * A job's events as a `text/event-stream` body, from event `after` until the job is done.
+ * Cancelling the stream (client disconnect) stops following the job.
+ */
+export function createReleaseJobEventStream(
+  repoRoot: string,
+  id: string,
+  options: { after?: number; pollMs?: number } = {},
+): ReadableStream<Uint8Array> {
+  const abort = new AbortController();
+  const events = followReleaseJobEvents(repoRoot, id, { ...options, signal: abort.signal });
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await events.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(formatSseEvent(next.value)));
+        }
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+}
+
+async function saveJob(dir: string, job: ReleaseJob<unknown>): Promise<void> {
+  // Write-then-rename so readers never see a half-written job.json
+  const tmpPath = join(dir, 'job.json.tmp');
+  await writeFile(tmpPath, JSON.stringify(job, null, 2), 'utf-8');
+  await rename(tmpPath, join(dir, 'job.json'));
+}
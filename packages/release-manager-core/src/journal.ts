@@ -0,0 +1,166 @@
+/**
+ * Release journal — persisted per-stage state for resuming an interrupted release.
+ *
+ * Stored at .kb/release/journal/{scopeDir}.json. Written after every completed step
+ * and after every published package, so a crash mid-publish leaves an accurate record.
+ */
+
+import { readFile, writeFile, mkdir, readdir, rename, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import type { ReleaseApproval, ReleasePlan } from './types';
+import type { GitReleaseResult } from './publisher';
+import type { ProviderReleaseOutcome } from './provider-release';
+
+export type JournalStep = 'plan' | 'checks' | 'build' | 'verify' | 'version' | 'changelog' | 'approval' | 'publish' | 'git' | 'release';
+
+export interface JournalStepEntry {
+  status: 'completed' | 'failed' | 'skipped';
+  at: string;
+  error?: string;
+}
+
+export interface ReleaseJournal {
+  schemaVersion: '1.0';
+  /** Identifies the release run (ISO timestamp of the first attempt) */
+  id: string;
+  scope: string;
+  status: 'running' | 'failed' | 'completed';
+  startedAt: string;
+  updatedAt: string;
+  /** Plan frozen at the start of the run — resume never re-plans */
+  plan: ReleasePlan;
+  /** Rollback snapshot taken before the run (see rollback.ts) */
+  snapshotId?: string;
+  steps: Partial<Record<JournalStep, JournalStepEntry>>;
+  /** Published packages as `name@version`, in publish order */
+  published: string[];
+  /** Registries each published package is live on, primary first (mirrored releases) */
+  publishedTo?: Record<string, string[]>;
+  /** Generated changelog, kept so a resumed run can report it */
+  changelog?: string;
+  /** Sign-off on the verified plan (scopes that require approval) */
+  approval?: ReleaseApproval;
+  git?: GitReleaseResult;
+  /** GitHub/GitLab releases created after tagging */
+  releases?: ProviderReleaseOutcome[];
+}
+
+function journalsDir(repoRoot: string): string {
+  return join(repoRoot, '.kb', 'release', 'journal');
+}
+
+function journalPath(repoRoot: string, scope?: string): string {
+  const scopeDir = scope && scope !== 'root' ? scope.replace(/[@/]/g, '-').replace(/^-/, '') : 'root';
+  return join(journalsDir(repoRoot), `${scopeDir}.json`);
+}
+
+/**
+ * Start a new journal for a release run (replaces any previous one for the scope).
+ */
+export async function createJournal(
+  repoRoot: string,
+  scope: string | undefined,
+  plan: ReleasePlan,
+  snapshotId?: string,
+): Promise<ReleaseJournal> {
+  const now = new Date().toISOString();
+  const journal: ReleaseJournal = {
+    schemaVersion: '1.0',
+    id: now,
+    scope: scope || 'root',
+    status: 'running',
+    startedAt: now,
+    updatedAt: now,
+    plan,
+    snapshotId,
+    steps: { plan: { status: 'completed', at: now } },
+    published: [],
+  };
+  await saveJournal(repoRoot, journal);
+  return journal;
+}
+
+/**
+ * Load the journal for a scope, or null if none exists.
+ */
+export async function loadJournal(repoRoot: string, scope?: string): Promise<ReleaseJournal | null> {
+  const path = journalPath(repoRoot, scope);
+  if (!existsSync(path)) {return null;}
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as ReleaseJournal;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the journals of every scope. Unreadable journals are skipped.
+ */
+export async function listJournals(repoRoot: string): Promise<ReleaseJournal[]> {
+  const dir = journalsDir(repoRoot);
+  if (!existsSync(dir)) {return [];}
+
+  const journals: ReleaseJournal[] = [];
+  for (const file of (await readdir(dir)).filter(f => f.endsWith('.json'))) {
+    try {
+      journals.push(JSON.parse(await readFile(join(dir, file), 'utf-8')));
+    } catch {
+      // Corrupt journal — nothing to resume from
+    }
+  }
+  return journals;
+}
+
+/**
+ * Persist the journal. Writes to a temp file first so a crash never leaves a truncated journal.
+ */
+export async function saveJournal(repoRoot: string, journal: ReleaseJournal): Promise<void> {
+  const path = journalPath(repoRoot, journal.scope);
+  await mkdir(join(path, '..'), { recursive: true });
+  journal.updatedAt = new Date().toISOString();
+  const tmpPath = `${path}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(journal, null, 2), 'utf-8');
+  await rename(tmpPath, path);
+}
+
+/**
+ * Remove the journal for a scope.
+ */
+export async function clearJournal(repoRoot: string, scope?: string): Promise<void> {
+  await rm(journalPath(repoRoot, scope), { force: true });
+}
+
+/**
+ * Record a step outcome and persist.
+ */
+export async function recordStep(
+  repoRoot: string,
+  journal: ReleaseJournal,
+  step: JournalStep,
+  status: JournalStepEntry['status'],
+  error?: string,
+): Promise<void> {
+  journal.steps[step] = { status, at: new Date().toISOString(), ...(error && { error }) };
+  if (status === 'failed') {journal.status = 'failed';}
+  await saveJournal(repoRoot, journal);
+}
+
+/**
+ * Record a single published package (on `registry`, when known) and persist.
+ */
+export async function recordPublished(repoRoot: string, journal: ReleaseJournal, spec: string, registry?: string): Promise<void> {
+  const registries = journal.publishedTo?.[spec] ?? [];
+  if (journal.published.includes(spec) && (!registry || registries.includes(registry))) {return;}
+  if (!journal.published.includes(spec)) {journal.published.push(spec);}
+  if (registry) {journal.publishedTo = { ...journal.publishedTo, [spec]: [...registries, registry] };}
+  await saveJournal(repoRoot, journal);
+}
+
+/**
+ * True if the step finished (completed or intentionally skipped) in a previous attempt.
+ */
+export function isStepDone(journal: ReleaseJournal | null, step: JournalStep): boolean {
+  const status = journal?.steps[step]?.status;
+  return status === 'completed' || status === 'skipped';
+}
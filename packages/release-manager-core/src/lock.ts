@@ -0,0 +1,178 @@
+/**
+ * Release lock — one running release per repo and scope, across processes and machines
+ * sharing the checkout.
+ *
+ * Stored at .kb/release/locks/{scopeDir}.lock and created atomically (written aside, then
+ * hard-linked into place, so it is never seen half-written). A lock is stale when its process
+ * is gone (same host) or it is older than `staleMs` (other hosts, where the process can't be
+ * checked); stale locks are taken over automatically.
+ */
+
+import { readFile, writeFile, mkdir, rm, link } from 'node:fs/promises';
+import { execFileSync } from 'node:child_process';
+import { hostname, userInfo } from 'node:os';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+
+/** Locks from other hosts are considered abandoned after this long */
+const DEFAULT_STALE_MS = 6 * 60 * 60 * 1000;
+
+export interface ReleaseLockInfo {
+  scope: string;
+  pid: number;
+  host: string;
+  /** Who started the release (user name, CI job, Studio user) */
+  owner: string;
+  acquiredAt: string;
+}
+
+export interface ReleaseLock {
+  info: ReleaseLockInfo;
+  /** Remove the lock (no-op if it was force-released and taken by someone else meanwhile) */
+  release(): Promise<void>;
+}
+
+export interface AcquireLockOptions {
+  owner?: string;
+  staleMs?: number;
+}
+
+function lockPath(repoRoot: string, scope?: string): string {
+  const scopeDir = scope && scope !== 'root' ? scope.replace(/[@/]/g, '-').replace(/^-/, '') : 'root';
+  return join(repoRoot, '.kb', 'release', 'locks', `${scopeDir}.lock`);
+}
+
+/**
+ * Who is acting when no owner is given: KB_RELEASE_OWNER, else the git user (user.email) of
+ * `cwd`, else the OS user. Releasing and approving resolve it the same way, so the person who
+ * started a release is recognized when they try to approve it.
+ */
+export function defaultReleaseOwner(cwd = process.cwd()): string {
+  if (process.env.KB_RELEASE_OWNER) {return process.env.KB_RELEASE_OWNER;}
+  try {
+    const email = execFileSync('git', ['config', 'user.email'], { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+    if (email) {return email;}
+  } catch {
+    // Not a git checkout, or no git user configured
+  }
+  try {
+    return userInfo().username;
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Take the release lock for a scope.
+ * Throws "Release in progress ..." when another live release holds it.
+ */
+export async function acquireReleaseLock(
+  repoRoot: string,
+  scope: string | undefined,
+  options: AcquireLockOptions = {},
+): Promise<ReleaseLock> {
+  const path = lockPath(repoRoot, scope);
+  const info: ReleaseLockInfo = {
+    scope: scope || 'root',
+    pid: process.pid,
+    host: hostname(),
+    owner: options.owner ?? defaultReleaseOwner(repoRoot),
+    acquiredAt: new Date().toISOString(),
+  };
+  await mkdir(join(repoRoot, '.kb', 'release', 'locks'), { recursive: true });
+
+  const tmpPath = `${path}.${randomBytes(4).toString('hex')}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(info, null, 2), 'utf-8');
+
+  try {
+    // Second attempt only after removing a stale lock
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await link(tmpPath, path);
+        return { info, release: () => releaseIfOwned(path, info) };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {throw err;}
+      }
+
+      const current = await readLockFile(path);
+      if (current && !isLockStale(current, options.staleMs)) {
+        throw new Error(
+          `Release in progress for scope "${current.scope}" by ${current.owner} `
+          + `(pid ${current.pid} on ${current.host}) since ${current.acquiredAt}`,
+        );
+      }
+      await rm(path, { force: true });
+    }
+  } finally {
+    await rm(tmpPath, { force: true });
+  }
+
+  throw new Error(`Could not acquire release lock for scope "${info.scope}" — another process took it`);
+}
+
+/**
+ * Current lock holder for a scope, or null when the scope isn't locked.
+ */
+export async function readReleaseLock(
+  repoRoot: string,
+  scope: string | undefined,
+  options: { staleMs?: number } = {},
+): Promise<(ReleaseLockInfo & { stale: boolean }) | null> {
+  const info = await readLockFile(lockPath(repoRoot, scope));
+  return info ? { ...info, stale: isLockStale(info, options.staleMs) } : null;
+}
+
+/**
+ * Remove a scope's lock regardless of who holds it. Returns the removed lock, if any.
+ * Only for locks left behind by crashed runs — a live release keeps running unlocked.
+ */
+export async function forceReleaseLock(repoRoot: string, scope: string | undefined): Promise<ReleaseLockInfo | null> {
+  const path = lockPath(repoRoot, scope);
+  const info = await readLockFile(path);
+  await rm(path, { force: true });
+  return info;
+}
+
+/**
+ * Whether a lock's owner is gone: a dead process on this host, or too old on another host.
+ */
+export function isLockStale(info: ReleaseLockInfo, staleMs = DEFAULT_STALE_MS): boolean {
+  const alive = isProcessAlive(info.pid, info.host);
+  return alive === undefined ? Date.now() - new Date(info.acquiredAt).getTime() > staleMs : !alive;
+}
+
+/**
+ * Whether a process is running — undefined when it is on another host and can't be checked.
+ */
+export function isProcessAlive(pid: number, host: string): boolean | undefined {
+  if (host !== hostname()) {return undefined;}
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function readLockFile(path: string): Promise<ReleaseLockInfo | null> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch {
+    return null;
+  }
+  try {
+    return JSON.parse(content) as ReleaseLockInfo;
+  } catch {
+    // Corrupt — nobody can be identified as the holder, treat it as abandoned
+    return { scope: 'unknown', pid: 0, host: '', owner: 'unknown', acquiredAt: new Date(0).toISOString() };
+  }
+}
+
+async function releaseIfOwned(path: string, info: ReleaseLockInfo): Promise<void> {
+  const current = await readLockFile(path);
+  if (current && current.pid === info.pid && current.host === info.host && current.acquiredAt === info.acquiredAt) {
+    await rm(path, { force: true });
+  }
+}
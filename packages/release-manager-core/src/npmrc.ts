@@ -0,0 +1,128 @@
+/**
+ * npm configuration the release honors — scoped registries and auth tokens from .npmrc,
+ * and the token to use for each registry.
+ *
+ * Only the keys the release needs are read: `registry`, `@scope:registry` and
+ * `//host/path/:_authToken`. `${VAR}` references are expanded from the environment,
+ * like npm does.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import type { ReleaseConfig } from './types';
+import { DEFAULT_REGISTRY, normalizeRegistryUrl } from './registry';
+
+export interface NpmrcConfig {
+  /** Default `registry` */
+  registry?: string;
+  /** `@scope:registry` entries, keyed by npm scope (e.g. '@acme') */
+  scopedRegistries: Record<string, string>;
+  /** `//host/path/:_authToken` entries, keyed by the `//host/path/` prefix */
+  authTokens: Record<string, string>;
+}
+
+/**
+ * Read .npmrc files; a key set in an earlier file wins. Missing files are ignored.
+ */
+export async function readNpmrc(files: string[], env: NodeJS.ProcessEnv = process.env): Promise<NpmrcConfig> {
+  const config: NpmrcConfig = { scopedRegistries: {}, authTokens: {} };
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await readFile(file, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    for (const line of content.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith(';')) {continue;}
+      const eq = trimmed.indexOf('=');
+      if (eq === -1) {continue;}
+
+      const key = trimmed.slice(0, eq).trim();
+      const value = trimmed.slice(eq + 1).trim()
+        .replace(/\$\{([^}?]+)\??\}/g, (_, name: string) => env[name] ?? '');
+
+      const scoped = key.match(/^(@[^:]+):registry$/);
+      const auth = key.match(/^(\/\/.+\/):_authToken$/);
+      if (key === 'registry') {
+        config.registry ??= value;
+      } else if (scoped) {
+        config.scopedRegistries[scoped[1]!] ??= value;
+      } else if (auth && value) {
+        config.authTokens[auth[1]!] ??= value;
+      }
+    }
+  }
+
+  return config;
+}
+
+/**
+ * The .npmrc files npm reads for a release: each of `dirs` (nearest first), then the user's.
+ */
+export function loadNpmrc(dirs: string[], env: NodeJS.ProcessEnv = process.env): Promise<NpmrcConfig> {
+  return readNpmrc([...dirs.map(dir => join(dir, '.npmrc')), join(homedir(), '.npmrc')], env);
+}
+
+/**
+ * Registry packages publish to unless routed elsewhere: config, then .npmrc, then npmjs.
+ */
+export function resolveDefaultRegistry(config: ReleaseConfig, npmrc?: NpmrcConfig): string {
+  return normalizeRegistryUrl(config.registry || npmrc?.registry || DEFAULT_REGISTRY);
+}
+
+export interface RegistryTokenOptions {
+  config?: ReleaseConfig;
+  npmrc?: NpmrcConfig;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Auth token for a registry:
+ * 1. the env var named for it in `registryTokens`
+ * 2. the `_authToken` .npmrc has for it (longest matching `//host/path/` prefix)
+ * 3. NPM_TOKEN / NODE_AUTH_TOKEN — for the default registry only, so a token meant for one
+ *    registry is never sent to another
+ */
+export function resolveRegistryToken(registry: string, options: RegistryTokenOptions = {}): string | undefined {
+  const env = options.env ?? process.env;
+  const url = normalizeRegistryUrl(registry);
+
+  const tokenEnv = Object.entries(options.config?.registryTokens ?? {})
+    .find(([key]) => normalizeRegistryUrl(key) === url)?.[1];
+  if (tokenEnv && env[tokenEnv]) {return env[tokenEnv];}
+
+  const nerfDart = `${url.replace(/^https?:/, '')}/`;
+  const authKey = Object.keys(options.npmrc?.authTokens ?? {})
+    .filter(key => nerfDart.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  if (authKey) {return options.npmrc!.authTokens[authKey];}
+
+  if (url === resolveDefaultRegistry(options.config ?? {}, options.npmrc)) {
+    return env.NPM_TOKEN || env.NODE_AUTH_TOKEN || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Token lookup for publishers, reading the repo's and the user's .npmrc once.
+ * An undefined registry stands for the default one.
+ */
+export async function createRegistryTokenResolver(
+  repoRoot: string,
+  config: ReleaseConfig,
+): Promise<(registry?: string) => string | undefined> {
+  const npmrc = await loadNpmrc([repoRoot]);
+  return registry => resolveRegistryToken(registry ?? resolveDefaultRegistry(config, npmrc), { config, npmrc });
+}
+
+/**
+ * The .npmrc key holding the auth token for exactly this registry: `//host/path/:_authToken`.
+ */
+export function registryAuthKey(registry: string): string {
+  return `${normalizeRegistryUrl(registry).replace(/^https?:/, '')}/:_authToken`;
+}
@@ -0,0 +1,103 @@
+/**
+ * Packing — `npm pack` a package into a tarball, exactly as it will be published.
+ *
+ * The package's files are staged in a temp directory next to the publish manifest from
+ * workspace-protocol.ts (local dependency specs resolved), so package.json on disk is never
+ * modified. The verifier packs once, records the tarball's sha512 integrity, and publishers
+ * ship that same file.
+ */
+
+import { readFile, writeFile, mkdir, mkdtemp, copyFile, rm } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { createHash } from 'node:crypto';
+import { createPublishManifest, loadWorkspace, type PublishManifestOptions } from './workspace-protocol';
+
+const execAsync = promisify(exec);
+
+export type PackOptions = PublishManifestOptions & {
+  /** Aborting kills the running `npm pack` */
+  signal?: AbortSignal;
+};
+
+/**
+ * Pack a package into `destDir` and return the tarball path.
+ * Throws when npm pack fails or produces no tarball.
+ */
+export async function packPackage(packagePath: string, destDir: string, options: PackOptions = {}): Promise<string> {
+  await mkdir(destDir, { recursive: true });
+
+  const pkgJson = JSON.parse(await readFile(join(packagePath, 'package.json'), 'utf-8'));
+  const workspace = options.workspace === undefined ? await loadWorkspace(packagePath) : options.workspace;
+  const manifest = createPublishManifest(pkgJson, packagePath, {
+    versions: options.versions,
+    workspace,
+    pinVersions: options.pinVersions,
+  });
+
+  // Stage exactly the files npm would pack, with the publish manifest in place of package.json
+  const { stdout: listing } = await execAsync('npm pack --dry-run --json --ignore-scripts', {
+    cwd: packagePath,
+    timeout: 30_000,
+    signal: options.signal,
+  });
+  const files = parsePackOutput(listing)?.files?.map(f => f.path) ?? [];
+
+  const stageDir = await mkdtemp(join(tmpdir(), 'kb-release-pack-'));
+  let stdout: string;
+  try {
+    for (const file of files) {
+      await mkdir(dirname(join(stageDir, file)), { recursive: true });
+      await copyFile(join(packagePath, file), join(stageDir, file));
+    }
+    await writeFile(join(stageDir, 'package.json'), JSON.stringify(manifest, null, 2) + '\n');
+
+    ({ stdout } = await execAsync(`npm pack --json --ignore-scripts --pack-destination ${JSON.stringify(destDir)}`, {
+      cwd: stageDir,
+      timeout: 30_000,
+      signal: options.signal,
+    }));
+  } finally {
+    await rm(stageDir, { recursive: true, force: true });
+  }
+
+  const filename = parsePackOutput(stdout)?.filename;
+  if (!filename) {
+    throw new Error('npm pack produced no tarball');
+  }
+  // npm reports scoped names as `@scope/name-1.0.0.tgz` but writes `scope-name-1.0.0.tgz`
+  return join(destDir, filename.replace(/^@/, '').replace(/\//g, '-'));
+}
+
+function parsePackOutput(stdout: string): { filename?: string; files?: Array<{ path: string }> } | undefined {
+  try {
+    return (JSON.parse(stdout) as Array<{ filename?: string; files?: Array<{ path: string }> }>)[0];
+  } catch {
+    // Unparseable output — treated as no tarball by the caller
+    return undefined;
+  }
+}
+
+/**
+ * Subresource-integrity string (`sha512-<base64>`) of a file, as npm records it.
+ */
+export async function computeIntegrity(file: string): Promise<string> {
+  return `sha512-${createHash('sha512').update(await readFile(file)).digest('base64')}`;
+}
+
+/**
+ * Throw if a verified tarball no longer matches the integrity recorded at verification.
+ */
+export async function assertTarballIntegrity(tarball: string, integrity: string): Promise<void> {
+  let actual: string;
+  try {
+    actual = await computeIntegrity(tarball);
+  } catch {
+    throw new Error(`Verified tarball ${tarball} is missing — refusing to publish`);
+  }
+  if (actual !== integrity) {
+    throw new Error(`Tarball ${tarball} changed since verification (expected ${integrity}, got ${actual}) — refusing to publish`);
+  }
+}
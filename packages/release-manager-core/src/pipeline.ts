@@ -1,71 +1,301 @@
 /**
  * Unified release pipeline — single orchestrator for CLI and REST.
  *
- * Flow: plan → snapshot → checks → build → verify → version bump → changelog → publish → git → report
+ * Flow: plan → snapshot → checks → build → version bump → changelog → verify → approval → publish
+ *       → git → provider releases → report
+ *
+ * Every step is recorded in the release journal (see journal.ts). With `resume: true` the
+ * pipeline reuses the journaled plan and continues from the first step that didn't complete.
+ *
+ * Configured lifecycle hooks (config.hooks, see hooks.ts) run around the steps; a failing hook
+ * aborts the release like a failing step, and `onFailure` hooks run whenever the release fails.
+ *
+ * Real runs hold the scope's release lock (see lock.ts) for their whole duration. On scopes that
+ * require approval (see approval.ts) the run stops at stage "pending-approval" once sign-off is
+ * requested, and a resumed run continues after the decision — unless `approval.wait` keeps it
+ * waiting, lock held.
+ *
+ * Aborting `options.signal` cancels the release: running child processes are killed, the
+ * pipeline stops at the next step boundary, restores the snapshot if nothing was published yet,
+ * and reports stage "cancelled".
+ *
+ * With `canary: true` the changed packages are published as canaries (see canary.ts): the plan and
+ * verification are the same, but nothing in the repo changes — no snapshot, journal, version bump,
+ * changelog, git commit/tag or provider release — and the report is kept in history flagged `canary`.
  */
 
 import { join } from 'node:path';
-import { writeFile, mkdir } from 'node:fs/promises';
+import { writeFile, mkdir, rm } from 'node:fs/promises';
 import { planRelease } from './planner';
-import { saveSnapshot, restoreSnapshot } from './rollback';
+import { saveSnapshot, restoreSnapshot, updateSnapshotRelease } from './rollback';
 import { updatePackageVersions } from './publisher';
-import { copyChangelogToPackages, commitAndTagRelease } from './publisher';
+import { copyChangelogToPackages, commitAndTagRelease, type GitReleaseResult } from './publisher';
 import { buildPackages } from './build';
+import { checkApiChanges, recordApiSurface } from './api-surface';
 import { runReleaseChecks } from './checks';
 import { verifyPackages } from './verifier';
+import { createRegistryClient, isVersionPublished, packageRegistries } from './registry';
+import { loadNpmrc, resolveRegistryToken } from './npmrc';
+import { packPackage, computeIntegrity } from './pack';
+import { toCanaryPlan, resolveCanarySha } from './canary';
+import { createProviderReleases, providerReleasesEnabled, resolveReleaseProviderClient, type ProviderReleasesResult } from './provider-release';
+import { runReleaseHooks, type ReleaseHookPayload } from './hooks';
+import { acquireReleaseLock, defaultReleaseOwner, type ReleaseLock } from './lock';
+import { checkReleaseApproval, requestReleaseApproval, waitForReleaseApproval, type ReleaseApprovalStatus } from './approval';
+import {
+  createJournal,
+  loadJournal,
+  saveJournal,
+  recordStep,
+  recordPublished,
+  isStepDone,
+  type JournalStep,
+  type JournalStepEntry,
+  type ReleaseJournal,
+} from './journal';
 import type {
   PipelineOptions,
   PipelineResult,
+  PublishablePackage,
+  PublishResult,
+  ReleaseApproval,
+  ReleaseHookName,
+  ReleaseHookResult,
+  ReleasePlan,
   ReleaseReport,
   ReleaseStage,
+  RegistryPublishResult,
   VersionBump,
 } from './types';
 
+/** Journal step each hook runs as part of — a failing hook fails that step */
+const HOOK_STEPS: Record<Exclude<ReleaseHookName, 'onFailure'>, JournalStep> = {
+  beforePlan: 'plan',
+  afterPlan: 'plan',
+  beforeBuild: 'build',
+  afterVersion: 'version',
+  beforePublish: 'publish',
+  afterPublish: 'publish',
+  afterGit: 'git',
+};
+
 /**
  * Run the complete release pipeline.
  * Both CLI and REST call this with different injected publishers/changelog generators.
  */
 export async function runReleasePipeline(options: PipelineOptions): Promise<PipelineResult> {
+  // Throws "Release in progress ..." before anything runs if another release holds the scope
+  const lock: ReleaseLock | null = options.dryRun
+    ? null
+    : await acquireReleaseLock(options.repoRoot, options.scope, { owner: options.lockOwner });
+
+  try {
+    return await runLockedPipeline(options);
+  } finally {
+    await lock?.release();
+  }
+}
+
+async function runLockedPipeline(options: PipelineOptions): Promise<PipelineResult> {
+  const hookResults: ReleaseHookResult[] = [];
+  const runFailureHooks = async (payload: Omit<ReleaseHookPayload, 'hook' | 'scope' | 'dryRun'>) => {
+    hookResults.push(...await runReleaseHooks(options.config.hooks, {
+      hook: 'onFailure',
+      scope: options.scope,
+      dryRun: options.dryRun ?? false,
+      ...payload,
+    }, { cwd: options.repoRoot, logger: options.logger, signal: options.signal }));
+  };
+
+  let result: PipelineResult;
+  try {
+    result = await runPipelineSteps(options, hookResults);
+  } catch (err) {
+    await runFailureHooks({ error: err instanceof Error ? err.message : String(err) });
+    throw err;
+  }
+
+  // A release stopped for sign-off hasn't failed
+  if (!result.success && result.report.stage !== 'pending-approval') {
+    await runFailureHooks({ plan: result.plan, report: result.report, error: result.report.result.errors?.join('\n') });
+  }
+  if (hookResults.length > 0) {
+    result.report.result.hooks = hookResults;
+  }
+  return result;
+}
+
+async function runPipelineSteps(options: PipelineOptions, hookResults: ReleaseHookResult[]): Promise<PipelineResult> {
   const {
     cwd, repoRoot, scopeCwd, scope, config, dryRun = false,
     skipChecks = false, skipBuild = false, skipVerify = false,
     checks: checkConfigs, publisher, changelog: changelogGen,
-    logger, onProgress,
+    channel, graduate, resume = false, canary = false, logger, onProgress, onPackageEvent, signal,
   } = options;
+  const concurrency = options.concurrency ?? config.concurrency;
+  const failFast = options.failFast ?? config.failFast;
 
   const startTime = Date.now();
+  const scopeDir = scope ? scope.replace(/[@/]/g, '-').replace(/^-/, '') : 'root';
+  // Canary tarballs are kept apart, so a canary never replaces the artifacts of an interrupted release
+  const artifactsDir = join(repoRoot, '.kb', 'release', canary ? 'canary' : 'artifacts', scopeDir);
   const progress = (stage: ReleaseStage, msg: string) => {
     logger?.info?.(msg);
     onProgress?.(stage, msg);
   };
 
-  // 1. Plan — always discover from repoRoot with scope as a filter.
-  // scopeCwd is used only for checks/git/changelog (physical path ops), not for discovery.
-  progress('planning', 'Discovering packages and planning release...');
-  const plan = await planRelease({
-    cwd: repoRoot,
-    config,
-    scope,
-    bumpOverride: config.bump as VersionBump | undefined,
+  // Journal and snapshot are only kept for real runs — a dry-run has nothing to resume or undo
+  let journal: ReleaseJournal | null = null;
+  let snapshotId: string | undefined;
+  const step = async (name: JournalStep, status: JournalStepEntry['status'], error?: string) => {
+    if (journal) {await recordStep(repoRoot, journal, name, status, error);}
+  };
+  const done = (name: JournalStep) => resume && isStepDone(journal, name);
+  // Once anything is live on the registry, reverting package.json would lie about what was released
+  const restoreIfNothingPublished = async () => {
+    if (!snapshotId || journal?.published.length) {return;}
+    await restoreSnapshot(repoRoot, snapshotId);
+    if (journal) {
+      // The restore undid the version bump and changelog — a resumed run has to redo them
+      delete journal.steps.version;
+      delete journal.steps.changelog;
+      await saveJournal(repoRoot, journal);
+    }
+  };
+  const emptyPlan = (): ReleasePlan => ({
+    packages: [],
+    strategy: 'semver',
+    registry: config.registry || 'https://registry.npmjs.org',
+    rollbackEnabled: config.rollback?.enabled ?? true,
   });
+  // Stop the release on cancellation; `name` is the step that was interrupted, if any
+  const cancelled = async (cancelPlan: ReleasePlan | undefined, name?: JournalStep): Promise<PipelineResult> => {
+    if (name) {await step(name, 'failed', 'Cancelled');}
+    await restoreIfNothingPublished();
+    const published = journal?.published ?? [];
+    const resultPlan = cancelPlan ?? emptyPlan();
+    progress('cancelled', 'Release cancelled');
+    return {
+      success: false,
+      plan: resultPlan,
+      report: buildReport('cancelled', resultPlan, repoRoot, dryRun, startTime, {
+        ok: false,
+        published: published.length > 0 ? published : undefined,
+        errors: [published.length > 0
+          ? `Release cancelled after publishing ${published.length} package(s) — resume to publish the rest`
+          : 'Release cancelled'],
+        timingMs: Date.now() - startTime,
+      }),
+    };
+  };
+  // Run the hooks for one pipeline point; on failure, restore and return the failed result
+  const hook = async (
+    name: keyof typeof HOOK_STEPS,
+    stage: ReleaseStage,
+    hookPlan: ReleasePlan | undefined,
+    report?: ReleaseReport,
+  ): Promise<PipelineResult | undefined> => {
+    const results = await runReleaseHooks(config.hooks, { hook: name, scope, dryRun, plan: hookPlan, report }, { cwd: repoRoot, logger, signal });
+    hookResults.push(...results);
+    const failed = results.find(r => !r.ok);
+    if (!failed) {return undefined;}
 
-  if (plan.packages.length === 0) {
+    const error = `Hook ${name} failed (${failed.target}): ${failed.error}`;
+    await restoreIfNothingPublished();
+    // Recorded after the restore (which drops the version step), so a resumed run redoes the step and reruns the hook
+    await step(HOOK_STEPS[name], 'failed', error);
+    const failedPlan = hookPlan ?? emptyPlan();
     return {
       success: false,
-      plan,
-      report: buildReport('planning', plan, repoRoot, dryRun, startTime, {
-        ok: false, errors: [`No packages found for scope: ${scope || 'all'}`], timingMs: 0,
+      plan: failedPlan,
+      report: buildReport(stage, failedPlan, repoRoot, dryRun, startTime, {
+        ...report?.result,
+        ok: false,
+        hooks: hookResults,
+        errors: [error],
+        timingMs: Date.now() - startTime,
       }),
     };
+  };
+
+  if (canary && (resume || graduate)) {
+    throw new Error(`Cannot ${resume ? 'resume' : 'graduate'} a canary release`);
   }
 
-  progress('planning', `Found ${plan.packages.length} package(s) to release`);
+  let plan: ReleasePlan;
+  if (resume) {
+    if (dryRun) {
+      throw new Error('Cannot resume a release in dry-run mode');
+    }
+    journal = await loadJournal(repoRoot, scope);
+    if (!journal) {
+      throw new Error(`No release journal found for scope "${scope || 'root'}" — nothing to resume`);
+    }
+    if (journal.status === 'completed') {
+      throw new Error(`Release ${journal.id} for scope "${journal.scope}" already completed — nothing to resume`);
+    }
+    plan = journal.plan;
+    snapshotId = journal.snapshotId;
+    journal.status = 'running';
+    await saveJournal(repoRoot, journal);
+    progress('planning', `Resuming release ${journal.id} (${journal.published.length}/${plan.packages.length} package(s) already published)`);
+  } else {
+    // 1. Plan — always discover from repoRoot with scope as a filter.
+    // scopeCwd is used only for checks/git/changelog (physical path ops), not for discovery.
+    if (signal?.aborted) {return cancelled(undefined);}
+    const beforePlanFailed = await hook('beforePlan', 'planning', undefined);
+    if (beforePlanFailed) {return beforePlanFailed;}
+
+    progress('planning', 'Discovering packages and planning release...');
+    plan = await planRelease({
+      cwd: repoRoot,
+      config,
+      scope,
+      bumpOverride: config.bump as VersionBump | undefined,
+      channel,
+      graduate,
+      registryClient: options.registryClient,
+    });
+
+    if (plan.packages.length === 0) {
+      return {
+        success: false,
+        plan,
+        report: buildReport('planning', plan, repoRoot, dryRun, startTime, {
+          ok: false, errors: [`No packages to release for scope: ${scope || 'all'} (nothing changed since the last release)`], timingMs: 0,
+        }),
+      };
+    }
+
+    if (canary) {
+      plan = toCanaryPlan(plan, { sha: await resolveCanarySha(scopeCwd) });
+      await rm(artifactsDir, { recursive: true, force: true });
+    }
+
+    progress('planning', `Found ${plan.packages.length} package(s) to release`
+      + (plan.canary ? ` as canaries (dist-tag: ${plan.distTag})` : '')
+      + (plan.channel ? ` on channel "${plan.channel}" (dist-tag: ${plan.distTag})` : '')
+      + (plan.graduate ? ' (graduating prereleases)' : ''));
+    for (const warning of plan.warnings ?? []) {
+      progress('planning', `Warning: ${warning}`);
+    }
+
+    // 2. Snapshot (for rollback) — a canary changes nothing that would need rolling back
+    if (!dryRun && !canary) {
+      const snapshot = await saveSnapshot({ cwd: repoRoot, plan, scope, maxHistory: config.rollback?.maxHistory });
+      snapshotId = snapshot.id;
+      journal = await createJournal(repoRoot, scope, plan, snapshotId);
+    }
 
-  // 2. Snapshot (for rollback)
-  await saveSnapshot({ cwd: repoRoot, plan });
+    const afterPlanFailed = await hook('afterPlan', 'planning', plan);
+    if (afterPlanFailed) {return afterPlanFailed;}
+  }
 
   // 3. Checks
-  if (!skipChecks && checkConfigs && checkConfigs.length > 0) {
+  if (signal?.aborted) {return cancelled(plan);}
+  if (done('checks')) {
+    progress('checking', 'Pre-release checks already passed — skipping');
+  } else if (!skipChecks && checkConfigs && checkConfigs.length > 0) {
     progress('checking', `Running ${checkConfigs.length} pre-release check(s)...`);
 
     const packagePaths = plan.packages.map(p => p.path);
@@ -74,11 +304,14 @@ export async function runReleasePipeline(options: PipelineOptions): Promise<Pipe
       packagePaths,
       scopePath: scopeCwd,
       logger,
+      signal,
     });
+    if (signal?.aborted) {return cancelled(plan, 'checks');}
 
     const failed = checkResults.filter(r => !r.ok && r.hint !== 'optional');
     if (failed.length > 0) {
-      await restoreSnapshot(repoRoot);
+      await step('checks', 'failed', `Pre-release checks failed: ${failed.map(f => f.id).join(', ')}`);
+      await restoreIfNothingPublished();
       return {
         success: false,
         plan,
@@ -91,17 +324,48 @@ export async function runReleasePipeline(options: PipelineOptions): Promise<Pipe
       };
     }
 
+    await step('checks', 'completed');
     progress('checking', 'Pre-release checks passed');
+  } else {
+    await step('checks', 'skipped');
   }
 
   // 4. Build
-  if (!skipBuild && !dryRun) {
+  if (signal?.aborted) {return cancelled(plan);}
+  if (done('build')) {
+    progress('versioning', 'Packages already built — skipping');
+  } else if (!skipBuild && !dryRun) {
+    const beforeBuildFailed = await hook('beforeBuild', 'versioning', plan);
+    if (beforeBuildFailed) {return beforeBuildFailed;}
+
     progress('versioning', `Building ${plan.packages.length} package(s)...`);
-    const buildResults = await buildPackages(plan.packages, { logger });
+    const buildResults = await buildPackages(plan.packages, {
+      logger,
+      concurrency,
+      failFast,
+      repoRoot,
+      force: options.forceBuild,
+      signal,
+      // Per-package progress goes to the callbacks only — the builder already logs
+      onProgress: (name, result) => {
+        onProgress?.('versioning', !result.success
+          ? `Build failed: ${name}`
+          : result.cached ? `${name} is up to date — build skipped` : `Built ${name} (${result.durationMs}ms)`);
+        onPackageEvent?.({
+          package: name,
+          phase: 'build',
+          status: !result.success ? 'failed' : result.cached ? 'skipped' : 'succeeded',
+          message: result.error,
+          durationMs: result.durationMs,
+        });
+      },
+    });
+    if (signal?.aborted) {return cancelled(plan, 'build');}
     const buildFailed = buildResults.filter(r => !r.success);
 
     if (buildFailed.length > 0) {
-      await restoreSnapshot(repoRoot);
+      await step('build', 'failed', buildFailed.map(f => f.name).join(', '));
+      await restoreIfNothingPublished();
       return {
         success: false,
         plan,
@@ -112,16 +376,123 @@ export async function runReleasePipeline(options: PipelineOptions): Promise<Pipe
         }),
       };
     }
+
+    // Planning may have read stale declarations — the fresh build has the API that will ship.
+    // The check gates the build step, so a resumed run checks again instead of skipping ahead.
+    const apiCheck = config.api?.check ?? 'warn';
+    if (apiCheck !== 'off') {
+      const api = await checkApiChanges(plan.packages, config);
+      for (const warning of [...api.warnings, ...api.insufficient]) {
+        progress('versioning', `Warning: ${warning}`);
+      }
+      if (api.insufficient.length > 0 && apiCheck === 'error') {
+        await step('build', 'failed', `API check failed: ${api.insufficient.join('; ')}`);
+        await restoreIfNothingPublished();
+        return {
+          success: false,
+          plan,
+          report: buildReport('versioning', plan, repoRoot, dryRun, startTime, {
+            ok: false,
+            errors: api.insufficient.map(message => `API check failed: ${message}`),
+            timingMs: Date.now() - startTime,
+          }),
+        };
+      }
+    }
+    await step('build', 'completed');
+  } else {
+    await step('build', 'skipped');
   }
 
-  // 5. Verify (pack + install check)
-  if (!skipVerify && !dryRun) {
+  // 5. Version bump
+  if (signal?.aborted) {return cancelled(plan);}
+  if (done('version')) {
+    progress('versioning', 'Package versions already updated — skipping');
+  } else if (!dryRun && !canary) {
+    progress('versioning', 'Updating package versions...');
+    const versionUpdates = await updatePackageVersions(plan);
+    const failedUpdates = versionUpdates.filter(u => !u.updated);
+    if (failedUpdates.length > 0) {
+      await step('version', 'failed', failedUpdates.map(u => u.package).join(', '));
+      await restoreIfNothingPublished();
+      return {
+        success: false,
+        plan,
+        report: buildReport('versioning', plan, repoRoot, dryRun, startTime, {
+          ok: false,
+          errors: failedUpdates.map(u => `Version update failed: ${u.package}`),
+          versionUpdates,
+          timingMs: Date.now() - startTime,
+        }),
+      };
+    }
+    await step('version', 'completed');
+
+    const afterVersionFailed = await hook('afterVersion', 'versioning', plan);
+    if (afterVersionFailed) {return afterVersionFailed;}
+  }
+
+  // 6. Changelog
+  let changelogMd = '';
+  if (done('changelog')) {
+    changelogMd = journal?.changelog ?? '';
+  } else if (changelogGen && !canary) {
+    progress('versioning', 'Generating changelog...');
+    try {
+      changelogMd = await changelogGen.generate(plan, { repoRoot, gitCwd: scopeCwd, config });
+    } catch (err) {
+      logger?.warn?.(`Changelog generation failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (changelogMd && !dryRun) {
+    await copyChangelogToPackages({ cwd: repoRoot, plan, changelog: changelogMd });
+    const changelogPath = join(repoRoot, '.kb', 'release', 'CHANGELOG.md');
+    await mkdir(join(repoRoot, '.kb', 'release'), { recursive: true });
+    await writeFile(changelogPath, changelogMd, 'utf-8');
+  }
+  if (journal && !done('changelog')) {
+    journal.changelog = changelogMd || undefined;
+    await step('changelog', 'completed');
+  }
+
+  // 7. Verify — after versioning and changelog, so the verified tarball is exactly what gets published
+  if (signal?.aborted) {return cancelled(plan);}
+  if (done('verify')) {
+    progress('verifying', 'Package artifacts already verified — skipping');
+  } else if (!skipVerify && !dryRun) {
     progress('verifying', 'Verifying package artifacts...');
-    const verifyResults = await verifyPackages(plan.packages, { logger });
+    await rm(artifactsDir, { recursive: true, force: true });
+    const verifyResults = await verifyPackages(plan.packages, {
+      logger,
+      concurrency,
+      failFast,
+      artifactsDir,
+      pinVersions: canary,
+      smokeTest: config.smokeTest,
+      size: config.size,
+      secrets: config.secrets,
+      redactPatterns: config.changelog?.redactPatterns,
+      repoRoot,
+      signal,
+      onProgress: (name, result) => {
+        onProgress?.('verifying', result.success
+          ? `Verified ${name}`
+          : `Verification failed: ${name} (${result.issues.length} issue(s))`);
+        onPackageEvent?.({
+          package: name,
+          phase: 'verify',
+          status: result.success ? 'succeeded' : 'failed',
+          message: result.issues.join('\n') || undefined,
+        });
+      },
+    });
+    if (signal?.aborted) {return cancelled(plan, 'verify');}
     const verifyFailed = verifyResults.filter(r => !r.success);
 
     if (verifyFailed.length > 0) {
-      await restoreSnapshot(repoRoot);
+      await step('verify', 'failed', verifyFailed.map(f => f.name).join(', '));
+      await restoreIfNothingPublished();
       const allIssues = verifyFailed.flatMap(r => r.issues.map(i => `${r.name}: ${i}`));
       return {
         success: false,
@@ -134,85 +505,381 @@ export async function runReleasePipeline(options: PipelineOptions): Promise<Pipe
       };
     }
 
+    for (const result of verifyResults) {
+      for (const warning of result.warnings ?? []) {
+        progress('verifying', `Warning: ${result.name}: ${warning}`);
+      }
+    }
+
+    // Record tarballs, integrity and sizes in the plan (journaled with the step, reported with the plan — and so kept in history)
+    const verified = new Map(verifyResults.map(r => [r.name, r]));
+    plan.packages = plan.packages.map(pkg => {
+      const result = verified.get(pkg.name);
+      return {
+        ...pkg,
+        ...(result?.tarball && result.integrity && { artifact: { tarball: result.tarball, integrity: result.integrity } }),
+        ...(result?.size && { size: result.size }),
+      };
+    });
+    if (journal) {journal.plan = plan;}
+
+    await step('verify', 'completed');
     progress('verifying', 'Package artifacts verified');
+  } else {
+    await step('verify', 'skipped');
   }
 
-  // 6. Version bump
-  progress('versioning', 'Updating package versions...');
-  if (!dryRun) {
-    const versionUpdates = await updatePackageVersions(plan);
-    const failedUpdates = versionUpdates.filter(u => !u.updated);
-    if (failedUpdates.length > 0) {
-      await restoreSnapshot(repoRoot);
+  // Canary versions only exist in packed manifests — pack whatever verification didn't,
+  // so no publisher packs from package.json
+  if (canary && plan.packages.some(pkg => !pkg.artifact)) {
+    if (signal?.aborted) {return cancelled(plan);}
+    const versions = Object.fromEntries(plan.packages.map(p => [p.name, p.nextVersion]));
+    const packErrors: string[] = [];
+    const packed: ReleasePlan['packages'] = [];
+    for (const pkg of plan.packages) {
+      if (pkg.artifact) {
+        packed.push(pkg);
+        continue;
+      }
+      try {
+        const tarball = await packPackage(pkg.path, artifactsDir, { versions, pinVersions: true, signal });
+        packed.push({ ...pkg, artifact: { tarball, integrity: await computeIntegrity(tarball) } });
+      } catch (err) {
+        if (signal?.aborted) {return cancelled(plan);}
+        packErrors.push(`${pkg.name}: ${err instanceof Error ? err.message : String(err)}`);
+        packed.push(pkg);
+      }
+    }
+    plan.packages = packed;
+
+    if (packErrors.length > 0) {
       return {
         success: false,
         plan,
-        report: buildReport('versioning', plan, repoRoot, dryRun, startTime, {
+        report: buildReport('verifying', plan, repoRoot, dryRun, startTime, {
           ok: false,
-          errors: failedUpdates.map(u => `Version update failed: ${u.package}`),
-          versionUpdates,
+          errors: [`Packing canaries failed:\n  ${packErrors.join('\n  ')}`],
           timingMs: Date.now() - startTime,
         }),
       };
     }
   }
 
-  // 7. Changelog
-  let changelogMd = '';
-  if (changelogGen) {
-    progress('versioning', 'Generating changelog...');
+  // 8. Approval — a second person signs off on the verified plan before anything is published
+  // (dry-runs and canaries keep no journal, so they never wait for sign-off)
+  if (signal?.aborted) {return cancelled(plan);}
+  const approvalConfig = (scope ? config.scopes?.[scope]?.approval : undefined) ?? config.approval;
+  let approval: ReleaseApproval | undefined = journal?.approval;
+  if (done('approval')) {
+    progress('approval', `Release already approved by ${approval?.approver ?? 'unknown'} — skipping`);
+  } else if (approvalConfig?.required && journal) {
+    const request = await requestReleaseApproval(repoRoot, scope, {
+      plan,
+      releaseId: journal.id,
+      requestedBy: options.lockOwner ?? defaultReleaseOwner(repoRoot),
+      expiresInMs: approvalConfig.expiresInMs,
+    });
+    if (approvalConfig.wait) {
+      progress('approval', `Waiting for approval of plan ${request.planHash} (expires ${request.expiresAt}) — the release lock is held until then`);
+    }
+
+    let decision: ReleaseApprovalStatus | undefined;
+    let refusal: string | undefined;
     try {
-      changelogMd = await changelogGen.generate(plan, { repoRoot, gitCwd: scopeCwd, config });
+      decision = approvalConfig.wait
+        ? await waitForReleaseApproval(repoRoot, scope, { releaseId: journal.id, signal })
+        : await checkReleaseApproval(repoRoot, scope, { releaseId: journal.id });
     } catch (err) {
-      logger?.warn?.(`Changelog generation failed: ${err instanceof Error ? err.message : String(err)}`);
+      refusal = err instanceof Error ? err.message : String(err);
+    }
+    if (signal?.aborted) {return cancelled(plan, 'approval');}
+    if (decision?.status === 'pending-approval') {
+      // Stop here with the versions bumped and the tarballs verified — resuming after the decision publishes or rolls back
+      progress('approval', `Awaiting approval of plan ${request.planHash} (expires ${request.expiresAt}) — resume the release once decided`);
+      return {
+        success: false,
+        plan,
+        report: buildReport('pending-approval', plan, repoRoot, dryRun, startTime, {
+          ok: false,
+          timingMs: Date.now() - startTime,
+        }),
+      };
+    }
+    if (decision?.status === 'rejected') {
+      refusal = `Release rejected by ${decision.rejection?.rejectedBy ?? 'unknown'}`
+        + (decision.rejection?.reason ? `: ${decision.rejection.reason}` : '');
+    } else if (decision?.status === 'expired') {
+      refusal = `Approval request expired at ${decision.expiresAt}`;
     }
-  }
 
-  if (changelogMd && !dryRun) {
-    await copyChangelogToPackages({ cwd: repoRoot, plan, changelog: changelogMd });
-    const changelogPath = join(repoRoot, '.kb', 'release', 'CHANGELOG.md');
-    await mkdir(join(repoRoot, '.kb', 'release'), { recursive: true });
-    await writeFile(changelogPath, changelogMd, 'utf-8');
+    if (refusal || !decision?.approval) {
+      const error = refusal ?? 'Release was not approved';
+      await step('approval', 'failed', error);
+      await restoreIfNothingPublished();
+      return {
+        success: false,
+        plan,
+        report: buildReport('approval', plan, repoRoot, dryRun, startTime, {
+          ok: false,
+          errors: [error],
+          timingMs: Date.now() - startTime,
+        }),
+      };
+    }
+
+    approval = decision.approval;
+    journal.approval = approval;
+    await step('approval', 'completed');
+    progress('approval', `Approved by ${approval.approver}`);
+  } else {
+    await step('approval', 'skipped');
   }
 
-  // 8. Publish
+  // 9. Publish
+  if (signal?.aborted) {return cancelled(plan);}
   progress('publishing', dryRun ? 'Simulating publish (dry-run)...' : 'Publishing packages...');
-  const packagesToPublish = plan.packages.map(pkg => ({
+  let packagesToPublish: PublishablePackage[] = plan.packages.map(pkg => ({
     name: pkg.name,
     version: pkg.nextVersion,
     path: pkg.path,
+    registries: packageRegistries(plan, pkg),
+    ...(pkg.artifact && { tarball: pkg.artifact.tarball, integrity: pkg.artifact.integrity }),
   }));
 
-  const publishResult = await publisher.publish(packagesToPublish, {
-    dryRun,
-    access: 'public',
-  });
+  // Registries a previous attempt already published to, for the per-registry report
+  const alreadyLive: RegistryPublishResult[] = [];
+  if (resume && journal) {
+    // Skip what a previous attempt already published — per the journal or per each registry
+    const npmrc = await loadNpmrc([repoRoot]);
+    const remaining: typeof packagesToPublish = [];
+    for (const pkg of packagesToPublish) {
+      const spec = `${pkg.name}@${pkg.version}`;
+      // Journals from before mirroring only know the package was published
+      const journaled = journal.published.includes(spec) ? journal.publishedTo?.[spec] ?? pkg.registries! : [];
+      const registries: string[] = [];
+      for (const registry of pkg.registries!) {
+        if (!journaled.includes(registry)) {
+          const client = options.registryClient
+            ?? createRegistryClient({ registry, token: resolveRegistryToken(registry, { config, npmrc }) });
+          if (!await isVersionPublished(pkg.name, pkg.version, registry, client)) {
+            registries.push(registry);
+            continue;
+          }
+          progress('publishing', `${spec} is already on ${registry} — skipping`);
+          await recordPublished(repoRoot, journal, spec, registry);
+        }
+        alreadyLive.push({ registry, published: [], skipped: [`${spec} (already published)`], errors: [] });
+      }
+      if (registries.length > 0) {remaining.push({ ...pkg, registries });}
+    }
+    packagesToPublish = remaining;
+  }
+
+  if (packagesToPublish.length > 0) {
+    const beforePublishFailed = await hook('beforePublish', 'publishing', plan);
+    if (beforePublishFailed) {return beforePublishFailed;}
+  }
+
+  const reportedPublished = new Set<string>();
+  const publishResult: PublishResult = packagesToPublish.length > 0
+    ? await publisher.publish(packagesToPublish, {
+      dryRun,
+      access: 'public',
+      tag: plan.distTag,
+      signal,
+      onPublished: async (pkg, registry) => {
+        const spec = `${pkg.name}@${pkg.version}`;
+        // Mirrors report in after the primary — the package is live from the first call
+        if (!reportedPublished.has(spec)) {
+          reportedPublished.add(spec);
+          onPackageEvent?.({ package: pkg.name, phase: 'publish', status: 'succeeded' });
+        }
+        if (journal) {await recordPublished(repoRoot, journal, spec, registry);}
+      },
+    })
+    : { published: [], skipped: [], errors: [] };
+
+  // Publishers that don't report progress still get their outcomes reported once the batch returns
+  for (const pkg of packagesToPublish) {
+    const spec = `${pkg.name}@${pkg.version}`;
+    if (reportedPublished.has(spec)) {continue;}
+    const error = publishResult.errors.find(e => e.includes(pkg.name));
+    const status = publishResult.published.includes(spec) ? 'succeeded'
+      : publishResult.skipped.some(s => s.startsWith(spec)) ? 'skipped'
+        // Not attempted because the release was cancelled
+        : signal?.aborted && !error ? 'skipped'
+          : 'failed';
+    onPackageEvent?.({
+      package: pkg.name,
+      phase: 'publish',
+      status,
+      message: status === 'failed' ? error : status === 'skipped' && signal?.aborted ? 'Cancelled' : undefined,
+    });
+  }
 
-  // 9. Git commit + tag
-  let gitResult: { committed: boolean; tagged: string[]; pushed: boolean } | undefined;
-  if (!dryRun && publishResult.errors.length === 0) {
+  if (journal) {
+    // Publishers that don't report progress still get journaled once the batch returns
+    for (const spec of publishResult.published) {
+      await recordPublished(repoRoot, journal, spec);
+    }
+    if (signal?.aborted) {
+      await step('publish', 'failed', 'Cancelled');
+    } else {
+      await step('publish', publishResult.errors.length > 0 ? 'failed' : 'completed', publishResult.errors.join('\n') || undefined);
+    }
+    if (snapshotId && journal.published.length > 0) {
+      await updateSnapshotRelease(repoRoot, snapshotId, {
+        published: journal.published,
+        publishedAt: new Date().toISOString(),
+        registry: plan.registry,
+        ...(journal.publishedTo && { publishedTo: journal.publishedTo }),
+      });
+    }
+  }
+  if (signal?.aborted) {return cancelled(plan);}
+
+  if (publishResult.errors.length === 0 && publishResult.published.length > 0) {
+    const afterPublishFailed = await hook('afterPublish', 'publishing', plan, buildReport('publishing', plan, repoRoot, dryRun, startTime, {
+      ok: true,
+      published: journal ? journal.published : publishResult.published,
+      skipped: publishResult.skipped,
+      changelog: changelogMd || undefined,
+      timingMs: Date.now() - startTime,
+    }));
+    if (afterPublishFailed) {return afterPublishFailed;}
+  }
+
+  // 10. Git commit + tag
+  let gitResult: GitReleaseResult | undefined;
+  if (done('git')) {
+    gitResult = journal?.git;
+  } else if (!dryRun && !canary && publishResult.errors.length === 0) {
+    // The released API is the baseline the next plan diffs against — committed with the release
+    for (const pkg of plan.packages) {
+      try {
+        await recordApiSurface(pkg.path);
+      } catch (err) {
+        progress('verifying', `Warning: ${pkg.name}: public API not recorded — ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
     progress('verifying', 'Committing and tagging release...');
-    gitResult = await commitAndTagRelease({ cwd: scopeCwd, plan, dryRun });
+    try {
+      gitResult = await commitAndTagRelease({ cwd: scopeCwd, plan, dryRun, git: config.git, signal });
+    } catch (err) {
+      if (signal?.aborted) {return cancelled(plan, 'git');}
+      throw err;
+    }
+    if (journal) {
+      journal.git = gitResult;
+      await step('git', 'completed');
+    }
+    if (snapshotId) {
+      await updateSnapshotRelease(repoRoot, snapshotId, {
+        commits: gitResult.commits,
+        tags: gitResult.tagRefs,
+        pushed: gitResult.pushed,
+      });
+    }
+
+    const afterGitFailed = await hook('afterGit', 'verifying', plan, buildReport('verifying', plan, repoRoot, dryRun, startTime, {
+      ok: true,
+      published: journal ? journal.published : publishResult.published,
+      skipped: publishResult.skipped,
+      changelog: changelogMd || undefined,
+      git: gitResult,
+      timingMs: Date.now() - startTime,
+    }));
+    if (afterGitFailed) {return afterGitFailed;}
   }
 
-  // 10. Report
+  // 11. Provider releases (GitHub/GitLab)
+  if (signal?.aborted) {return cancelled(plan);}
+  let providerReleases: ProviderReleasesResult | undefined;
+  if (done('release')) {
+    providerReleases = { releases: journal?.releases ?? [], errors: [] };
+  } else if (providerReleasesEnabled(config) && gitResult?.tagged.length && !dryRun) {
+    progress('verifying', 'Creating provider releases...');
+    providerReleases = await runProviderReleases(plan, gitResult, changelogMd);
+    if (journal) {
+      journal.releases = providerReleases.releases;
+      await step('release', providerReleases.errors.length > 0 ? 'failed' : 'completed', providerReleases.errors.join('\n') || undefined);
+    }
+  }
+
+  // 12. Report
+  const errors = [...publishResult.errors, ...(providerReleases?.errors ?? [])];
+  const registryResults = mergeRegistryResults([...alreadyLive, ...(publishResult.registries ?? [])]);
   const report = buildReport('verifying', plan, repoRoot, dryRun, startTime, {
-    ok: publishResult.errors.length === 0,
-    published: publishResult.published,
+    ok: errors.length === 0,
+    published: journal ? journal.published : publishResult.published,
     skipped: publishResult.skipped,
     changelog: changelogMd || undefined,
     git: gitResult ?? undefined,
-    errors: publishResult.errors.length > 0 ? publishResult.errors : undefined,
+    releases: providerReleases?.releases.length ? providerReleases.releases : undefined,
+    hooks: hookResults.length > 0 ? hookResults : undefined,
+    approval,
+    registries: registryResults.length > 0 ? registryResults : undefined,
+    errors: errors.length > 0 ? errors : undefined,
     timingMs: Date.now() - startTime,
   });
 
   // Save report
-  const scopeDir = scope ? scope.replace(/[@/]/g, '-').replace(/^-/, '') : 'root';
   const historyDir = join(repoRoot, '.kb', 'release', 'history', scopeDir, new Date().toISOString().replace(/[:.]/g, '-'));
   await mkdir(historyDir, { recursive: true });
   await writeFile(join(historyDir, 'report.json'), JSON.stringify(report, null, 2), 'utf-8');
 
+  if (journal) {
+    journal.status = report.result.ok ? 'completed' : 'failed';
+    await saveJournal(repoRoot, journal);
+  }
+
   return { success: report.result.ok, plan, report };
+
+  async function runProviderReleases(
+    releasePlan: ReleasePlan,
+    git: GitReleaseResult,
+    changelog: string,
+  ): Promise<ProviderReleasesResult> {
+    const client = options.releaseClient ?? await resolveReleaseProviderClient(scopeCwd, config);
+    if (!client) {
+      return { releases: [], errors: ['Provider release skipped: git remote is neither GitHub nor GitLab'] };
+    }
+
+    const tarballs: Record<string, string> = {};
+    const errors: string[] = [];
+    if (config.publish?.providerRelease?.assets !== false) {
+      const versions = Object.fromEntries(releasePlan.packages.map(p => [p.name, p.nextVersion]));
+      for (const pkg of releasePlan.packages) {
+        if (pkg.artifact) {
+          tarballs[pkg.name] = pkg.artifact.tarball;
+          continue;
+        }
+        try {
+          tarballs[pkg.name] = await packPackage(pkg.path, artifactsDir, { versions });
+        } catch (err) {
+          errors.push(`Packing ${pkg.name} for release assets failed: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+    }
+
+    const result = await createProviderReleases({ plan: releasePlan, git, changelog, client, tarballs });
+    return { releases: result.releases, errors: [...errors, ...result.errors] };
+  }
+}
+
+/**
+ * Combine per-registry outcomes into one entry per registry, in first-seen order.
+ */
+function mergeRegistryResults(results: RegistryPublishResult[]): RegistryPublishResult[] {
+  const merged = new Map<string, RegistryPublishResult>();
+  for (const result of results) {
+    const entry = merged.get(result.registry) ?? { registry: result.registry, published: [], skipped: [], errors: [] };
+    entry.published.push(...result.published);
+    entry.skipped.push(...result.skipped);
+    entry.errors.push(...result.errors);
+    merged.set(result.registry, entry);
+  }
+  return [...merged.values()];
 }
 
 function buildReport(
@@ -230,5 +897,6 @@ function buildReport(
     stage,
     plan,
     result: { ...result, timingMs: result.timingMs ?? (Date.now() - startTime) },
+    ...(plan?.canary && { canary: true }),
   };
 }
@@ -5,25 +5,42 @@
 import { readFile } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { join, relative } from 'node:path';
-import simpleGit from 'simple-git';
 import semver from 'semver';
 import globby from 'globby';
 import { discoverSubRepoPaths } from '@kb-labs/sdk';
 import type { PackageVersion, VersionBump, ReleaseConfig, ReleasePlan } from './types';
 import { applyVersionStrategy, type VersionStrategy } from './versioning-strategies';
+import { buildDependencyGraph, sortPackagesTopologically } from './graph';
+import { resolveChannel, computePrereleaseVersion, graduateVersion, isPrereleaseVersion } from './channels';
+import { createRegistryClient, inspectRegistryState, normalizeRegistryUrl, type RegistryClient } from './registry';
+import { loadNpmrc, resolveDefaultRegistry, resolveRegistryToken, readNpmrc, type NpmrcConfig } from './npmrc';
+import { detectChangedPackages } from './change-detection';
+import { checkApiChanges } from './api-surface';
+import { parseCommits, computeBump, resolvePackageRange } from '@kb-labs/release-manager-changelog';
 
 export interface PlannerOptions {
   cwd: string;
   config: ReleaseConfig;
   scope?: string;
   bumpOverride?: VersionBump;
+  /** Prerelease channel override (alpha/beta/rc). Takes precedence over config. */
+  channel?: string;
+  /** Promote current prereleases to stable (2.1.0-rc.3 → 2.1.0) */
+  graduate?: boolean;
+  /** Registry client for every registry in the plan (defaults to a client per registry) */
+  registryClient?: RegistryClient;
 }
 
 /**
  * Plan release by detecting changes and computing version bumps
  */
 export async function planRelease(options: PlannerOptions): Promise<ReleasePlan> {
-  const { cwd, config, scope, bumpOverride } = options;
+  const { cwd, config, scope, bumpOverride, graduate } = options;
+
+  if (graduate && options.channel) {
+    throw new Error('Cannot graduate and release to a prerelease channel at the same time');
+  }
+  const channel = graduate ? undefined : resolveChannel(config, scope, options.channel);
 
   // Step 1: discover all candidates according to config (paths/include/exclude)
   const allPackages = await discoverPackages(cwd, config);
@@ -56,35 +73,49 @@ export async function planRelease(options: PlannerOptions): Promise<ReleasePlan>
     packages = allPackages;
   }
 
-  // Workspace root with submodules: each sub-repo has its own git,
-  // so we skip workspace-level detectModifiedPackages and use per-repo git.
-  const isWorkspaceRoot = existsSync(join(cwd, '.gitmodules')) && !scope;
+  // Record intra-workspace dependencies — runtime ones for ordering and ripple bumps, dev ones for build order
+  const graph = await buildDependencyGraph(packages);
+  const devGraph = await buildDependencyGraph(packages, { dev: true });
+  packages = packages.map(pkg => ({ ...pkg, dependencies: graph[pkg.name] ?? [], devDependencies: devGraph[pkg.name] ?? [] }));
 
   let modifiedPackages: PackageVersion[];
-  if (isWorkspaceRoot) {
-    // All sub-repos are candidates — change detection happens per-repo
-    modifiedPackages = packages;
+  if (graduate) {
+    // Graduation promotes every prerelease in scope, regardless of new changes
+    modifiedPackages = packages
+      .filter(pkg => isPrereleaseVersion(pkg.currentVersion))
+      .map(pkg => ({ ...pkg, changes: { reason: 'graduate' as const } }));
+    if (modifiedPackages.length === 0) {
+      throw new Error('Nothing to graduate: no packages in scope have a prerelease version');
+    }
   } else {
-    const git = simpleGit(cwd, { timeout: { block: 60000 } });
-    modifiedPackages = await detectModifiedPackages(git, packages);
+    // Changes since each package's last release tag (git runs per package, so sub-repos work too)
+    modifiedPackages = await detectChangedPackages(packages, { ignore: config.changes?.ignore, tagFormats: config.git });
   }
 
   // Compute version bumps
   let planPackages: PackageVersion[] = [];
   for (const pkg of modifiedPackages) {
-    const bump = bumpOverride || config.bump || 'auto';
+    if (graduate) {
+      const nextVersion = graduateVersion(pkg.currentVersion);
+      planPackages.push({ ...pkg, nextVersion, bump: detectBumpType(pkg.currentVersion, nextVersion) });
+      continue;
+    }
 
-    // For workspace root, use per-sub-repo git instance
-    const git = isWorkspaceRoot
-      ? simpleGit(pkg.path, { timeout: { block: 60000 } })
-      : simpleGit(cwd, { timeout: { block: 60000 } });
+    const bump = bumpOverride || config.bump || 'auto';
+    const releaseType = bump === 'auto' ? await detectBumpFromCommits(pkg, config) : bump;
+
+    if (channel) {
+      // Keep the requested release type as bump — detectBumpType can't tell
+      // 2.1.0-rc.3 → 2.1.0-rc.4 (minor line) from a patch
+      planPackages.push({
+        ...pkg,
+        nextVersion: computePrereleaseVersion(pkg.currentVersion, releaseType, channel.preid),
+        bump: releaseType,
+      });
+      continue;
+    }
 
-    const nextVersion = await computeNextVersion(
-      pkg.path,
-      pkg.currentVersion,
-      bump,
-      git
-    );
+    const nextVersion = semver.inc(pkg.currentVersion, releaseType) || pkg.currentVersion;
 
     planPackages.push({
       ...pkg,
@@ -101,16 +132,132 @@ export async function planRelease(options: PlannerOptions): Promise<ReleasePlan>
   planPackages = applyVersionStrategy(planPackages, {
     strategy: versionStrategy,
     umbrellaPath: scope,
+    preid: channel?.preid,
+    graduate,
+    workspacePackages: packages,
   });
 
+  // Packages added by the strategy (ripple/lockstep) were pulled in by their dependencies
+  planPackages = planPackages.map(pkg => pkg.changes ? pkg : { ...pkg, changes: { reason: 'dependency' } });
+
+  // Dependencies first — build, verify and publish all follow plan order
+  planPackages = sortPackagesTopologically(planPackages);
+
+  const npmrc = await loadNpmrc([cwd]);
+  const registry = resolveDefaultRegistry(config, npmrc);
+  await assignRegistries(planPackages, { cwd, config, scope, npmrc, registry });
+
+  const clientFor = (url: string) => options.registryClient ?? createRegistryClient({
+    registry: url,
+    token: resolveRegistryToken(url, { config, npmrc }),
+  });
+  const warnings = await applyRegistryState(planPackages, clientFor, registry);
+
+  const apiCheck = config.api?.check ?? 'warn';
+  if (apiCheck !== 'off') {
+    const api = await checkApiChanges(planPackages, config);
+    warnings.push(...api.warnings);
+    if (api.insufficient.length > 0 && apiCheck === 'error') {
+      throw new Error(`Planned bumps are lower than the API changes require:\n  ${api.insufficient.join('\n  ')}`);
+    }
+    warnings.push(...api.insufficient);
+  }
+
   return {
     packages: planPackages,
     strategy: config.strategy || 'semver',
-    registry: config.registry || 'https://registry.npmjs.org',
+    registry,
     rollbackEnabled: config.rollback?.enabled ?? true,
+    ...(channel ? { channel: channel.name, distTag: channel.distTag } : {}),
+    ...(graduate ? { graduate: true } : {}),
+    ...(warnings.length > 0 ? { warnings } : {}),
   };
 }
 
+/**
+ * Route each package to its registries, from the first source that names one:
+ * 1. registry rules — the scope's, then the global `registries` (first match wins)
+ * 2. `publishConfig.registry` in package.json
+ * 3. an `@scope:registry` entry in .npmrc (the package's own, then the repo's and the user's)
+ * 4. the scope's `registry`, then the default registry
+ * Only packages that publish somewhere other than just the default registry get `registries`.
+ */
+async function assignRegistries(
+  packages: PackageVersion[],
+  options: { cwd: string; config: ReleaseConfig; scope?: string; npmrc: NpmrcConfig; registry: string },
+): Promise<void> {
+  const { cwd, config, scope, npmrc, registry } = options;
+  const scopeConfig = scope ? config.scopes?.[scope] : undefined;
+  const rules = [...(scopeConfig?.registries ?? []), ...(config.registries ?? [])];
+  const toArray = (value: string | string[]) => (Array.isArray(value) ? value : [value]);
+  const toList = (value: string | string[]) => [...new Set(toArray(value).map(normalizeRegistryUrl))];
+
+  for (const pkg of packages) {
+    const rule = rules.find(r => matchesPackagePattern(pkg.name, relative(cwd, pkg.path), toArray(r.packages)));
+    let registries: string[];
+    if (rule) {
+      registries = toList(rule.registry);
+    } else {
+      const packageJson = JSON.parse(await readFile(join(pkg.path, 'package.json'), 'utf-8'));
+      const npmScope = pkg.name.startsWith('@') ? pkg.name.split('/')[0]! : undefined;
+      const scoped = npmScope
+        ? (await readNpmrc([join(pkg.path, '.npmrc')])).scopedRegistries[npmScope] ?? npmrc.scopedRegistries[npmScope]
+        : undefined;
+      const fallback = scopeConfig?.registry ?? registry;
+      registries = toList(packageJson.publishConfig?.registry ?? scoped ?? fallback);
+    }
+
+    if (registries.length !== 1 || registries[0] !== registry) {pkg.registries = registries;}
+  }
+}
+
+/**
+ * Annotate packages with what their primary registry already has.
+ * Throws if a planned version is already published; drift and lookup failures become warnings.
+ */
+async function applyRegistryState(
+  packages: PackageVersion[],
+  clientFor: (registry: string) => RegistryClient,
+  defaultRegistry: string,
+): Promise<string[]> {
+  const byRegistry = new Map<string, PackageVersion[]>();
+  for (const pkg of packages) {
+    const registry = pkg.registries?.[0] ?? defaultRegistry;
+    byRegistry.set(registry, [...(byRegistry.get(registry) ?? []), pkg]);
+  }
+
+  const warnings: string[] = [];
+  const taken: string[] = [];
+
+  for (const [registry, group] of byRegistry) {
+    const states = await inspectRegistryState(group, clientFor(registry));
+
+    for (const [i, state] of states.entries()) {
+      const pkg = group[i]!;
+      if (state.error) {
+        warnings.push(`Could not check ${pkg.name} on ${registry}: ${state.error}`);
+        continue;
+      }
+      pkg.isPublished = state.isPublished;
+      if (state.registryLatest) {pkg.registryLatest = state.registryLatest;}
+      if (state.drift) {
+        pkg.drift = true;
+        warnings.push(`${pkg.name}: package.json has ${pkg.currentVersion} but ${registry} latest is ${state.registryLatest}`);
+      }
+      if (state.nextVersionTaken) {taken.push(`${pkg.name}@${pkg.nextVersion} (${registry})`);}
+    }
+  }
+
+  if (taken.length > 0) {
+    throw new Error(
+      `Planned versions are already published:\n  ${taken.join('\n  ')}\n` +
+      'Sync package.json with the registry or choose a higher bump.'
+    );
+  }
+
+  return warnings;
+}
+
 /**
  * Map changelog.bumpStrategy to VersionStrategy
  */
@@ -118,7 +265,8 @@ function mapBumpStrategyToVersionStrategy(
   bumpStrategy: 'independent' | 'ripple' | 'lockstep' | 'adaptive'
 ): VersionStrategy {
   if (bumpStrategy === 'lockstep') {return 'lockstep';}
-  if (bumpStrategy === 'ripple' || bumpStrategy === 'adaptive') {return 'adaptive';}
+  if (bumpStrategy === 'ripple') {return 'ripple';}
+  if (bumpStrategy === 'adaptive') {return 'adaptive';}
   return 'independent';
 }
 
@@ -294,126 +442,37 @@ async function discoverSubRepoPackages(workspaceRoot: string, config?: ReleaseCo
 }
 
 /**
- * Check if file should be ignored (node_modules, dist, etc.)
+ * Detect the bump from conventional commits since the package's last release.
+ * Uses the changelog parser, range and filters, so the planned bump always matches the changelog.
  */
-function shouldIgnoreFile(file: string): boolean {
-  const ignoredPaths = [
-    'node_modules/',
-    '.git/',
-    'dist/',
-    'build/',
-    '.next/',
-    '.nuxt/',
-    'coverage/',
-    '.cache/',
-    'tmp/',
-  ];
-
-  return ignoredPaths.some(path => file.includes(path));
-}
-
-async function detectModifiedPackages(
-  git: ReturnType<typeof simpleGit>,
-  packages: PackageVersion[]
-): Promise<PackageVersion[]> {
-
-  // Get list of modified files
-  const status = await git.status();
-  const diffSummary = await git.diffSummary(['HEAD']);
-
-  // Filter out node_modules and other build artifacts
-  const modifiedPaths = [
-    ...status.files.map(f => f.path),
-    ...diffSummary.files.map(f => f.file),
-  ].filter(path => !shouldIgnoreFile(path));
-
-
-  // Find packages that have changes
-  const modified: PackageVersion[] = [];
-  for (let i = 0; i < packages.length; i++) {
-    // Освобождаем event loop каждые 10 пакетов
-    if (i % 10 === 0) {
-      await new Promise((resolve) => {
-        setImmediate(resolve);
-      });
-    }
-
-    const pkg = packages[i]!;
-
-    // Check if any file in this package is modified
-    const packageModified = modifiedPaths.some(path =>
-      path.startsWith(pkg.path) || path.includes(pkg.name)
-    );
-
-    if (packageModified) {
-      modified.push(pkg);
-    }
-  }
-
-
-  // If no modified packages detected, include all packages (for initial release)
-  return modified.length > 0 ? modified : packages;
-}
-
-async function computeNextVersion(
-  packagePath: string,
-  currentVersion: string,
-  bump: VersionBump,
-  git: ReturnType<typeof simpleGit>
-): Promise<string> {
-
-  // If auto, detect from conventional commits
-  if (bump === 'auto') {
-    const detectedBump = await detectVersionFromCommits(git, packagePath);
-    return semver.inc(currentVersion, detectedBump) || currentVersion;
-  }
-
-  // Manual bump
-  return semver.inc(currentVersion, bump) || currentVersion;
-}
-
-async function detectVersionFromCommits(
-  git: ReturnType<typeof simpleGit>,
-  packagePath: string
+async function detectBumpFromCommits(
+  pkg: PackageVersion,
+  config: ReleaseConfig
 ): Promise<'major' | 'minor' | 'patch'> {
-
   try {
-    // Get recent commits for this package
-
-    const log = await git.log({
-      maxCount: 50,
-      file: packagePath,
+    const range = pkg.changes?.since
+      ? { from: pkg.changes.since, to: 'HEAD' }
+      : await resolvePackageRange({
+          cwd: pkg.path,
+          packageName: pkg.name,
+          currentVersion: pkg.currentVersion,
+          tagFormats: config.git,
+        });
+
+    const changes = await parseCommits({
+      cwd: pkg.path,
+      from: range.from,
+      to: range.to,
+      packagePath: '.',
+      ignoreAuthors: config.changelog?.ignoreAuthors,
+      includeTypes: config.changelog?.includeTypes,
+      excludeTypes: config.changelog?.excludeTypes,
     });
 
-
-    let hasMinor = false;
-    let hasBreaking = false;
-
-    for (const commit of log.all) {
-      const message = commit.message.toLowerCase();
-
-      // Detect conventional commits
-      if (message.includes('!:')) {
-        hasBreaking = true;
-      } else if (message.startsWith('feat') || message.startsWith('feature')) {
-        hasMinor = true;
-      }
-      // else if fix/bugfix -> patch level (default)
-    }
-
-    // If breaking change detected
-    if (hasBreaking) {
-      return 'major';
-    }
-
-    // If feature added
-    if (hasMinor) {
-      return 'minor';
-    }
-
-    // Default to patch
-    return 'patch';
-  } catch (error) {
+    const bump = computeBump(changes, { rules: config.bumpRules, currentVersion: pkg.currentVersion });
+    // The package changed, so it ships — even if no commit is release-worthy on its own
+    return bump === 'none' ? 'patch' : bump;
+  } catch {
     // On error, default to patch
     return 'patch';
   }
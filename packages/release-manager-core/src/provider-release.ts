@@ -0,0 +1,254 @@
+/**
+ * Provider releases — a GitHub or GitLab release per release tag.
+ *
+ * The provider (and repository) is detected by release-manager-changelog's detectProvider,
+ * unless config.git.provider names it.
+ * Releases are created, or updated when the tag already has one, with the package's
+ * changelog section as the body. Prereleases are marked and packed tarballs attached.
+ *
+ * All HTTP goes through an injectable `fetch`, so tests can point the client at a local server.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import semver from 'semver';
+import { detectProvider, type GitProvider } from '@kb-labs/release-manager-changelog';
+import type { GitReleaseResult } from './publisher';
+import { createPackageChangelog } from './publisher';
+import type { ReleaseConfig, ReleasePlan } from './types';
+
+export interface ProviderReleaseInput {
+  tag: string;
+  name: string;
+  body: string;
+  prerelease: boolean;
+  /** Files to attach (tarballs) */
+  assets: string[];
+}
+
+export interface ProviderReleaseOutcome {
+  tag: string;
+  action: 'created' | 'updated';
+  url?: string;
+  /** Attached asset file names */
+  assets: string[];
+}
+
+export interface ReleaseProviderClient {
+  type: 'github' | 'gitlab';
+  /** Create the release for `release.tag`, or update it if it already exists */
+  upsertRelease(release: ProviderReleaseInput): Promise<ProviderReleaseOutcome>;
+}
+
+export interface ReleaseProviderClientOptions {
+  provider: GitProvider;
+  /** API root override (GitHub Enterprise, self-hosted GitLab, tests). Derived from provider.baseUrl by default */
+  apiUrl?: string;
+  token?: string;
+  timeoutMs?: number;
+  /** Custom fetch implementation (defaults to global fetch) */
+  fetch?: typeof fetch;
+}
+
+export interface ProviderReleasesResult {
+  releases: ProviderReleaseOutcome[];
+  errors: string[];
+}
+
+/**
+ * Create a client for the detected provider, or null for generic remotes.
+ */
+export function createReleaseProviderClient(options: ReleaseProviderClientOptions): ReleaseProviderClient | null {
+  const { provider } = options;
+  if (provider.type === 'generic' || !provider.baseUrl) {return null;}
+
+  const repoUrl = new URL(provider.baseUrl);
+  const repoPath = repoUrl.pathname.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '');
+  const http = createHttp(options);
+
+  if (provider.type === 'github') {
+    const apiUrl = options.apiUrl
+      ?? (repoUrl.host === 'github.com' ? 'https://api.github.com' : `${repoUrl.origin}/api/v3`);
+    return createGitHubClient(http, `${apiUrl.replace(/\/+$/, '')}/repos/${repoPath}`);
+  }
+
+  const apiUrl = options.apiUrl ?? `${repoUrl.origin}/api/v4`;
+  return createGitLabClient(http, `${apiUrl.replace(/\/+$/, '')}/projects/${encodeURIComponent(repoPath)}`, provider.baseUrl);
+}
+
+/**
+ * True when the config asks for provider releases (`publish.providerRelease.enabled`, or its alias `publish.github`).
+ */
+export function providerReleasesEnabled(config: ReleaseConfig): boolean {
+  return config.publish?.providerRelease?.enabled ?? config.publish?.github ?? false;
+}
+
+/**
+ * Client for the repository at `cwd`: repository from the git remote (or config.git.baseUrl),
+ * provider from config.git.provider unless 'auto', token from GITHUB_TOKEN / GH_TOKEN or GITLAB_TOKEN.
+ * Null when the provider is neither GitHub nor GitLab.
+ */
+export async function resolveReleaseProviderClient(cwd: string, config: ReleaseConfig): Promise<ReleaseProviderClient | null> {
+  const detected = await detectProvider(cwd, config.git?.baseUrl);
+  // Self-hosted hosts can't be told apart by URL — a configured provider wins over the guess
+  const configured = config.git?.provider;
+  const provider: GitProvider = configured && configured !== 'auto' ? { ...detected, type: configured } : detected;
+  const token = provider.type === 'gitlab'
+    ? process.env.GITLAB_TOKEN
+    : process.env.GITHUB_TOKEN ?? process.env.GH_TOKEN;
+  return createReleaseProviderClient({ provider, token, apiUrl: config.publish?.providerRelease?.apiUrl });
+}
+
+/**
+ * Create or update one provider release per tag created by commitAndTagRelease.
+ * A lockstep tag gets the whole changelog and every tarball; a package tag gets its own section and tarball.
+ * Never throws — failures are collected per tag.
+ */
+export async function createProviderReleases(options: {
+  plan: ReleasePlan;
+  git: GitReleaseResult;
+  changelog: string;
+  client: ReleaseProviderClient;
+  /** Packed tarball per package name */
+  tarballs?: Record<string, string>;
+}): Promise<ProviderReleasesResult> {
+  const { plan, git, changelog, client, tarballs = {} } = options;
+  const result: ProviderReleasesResult = { releases: [], errors: [] };
+
+  const refs: NonNullable<GitReleaseResult['tagRefs']> = git.tagRefs ?? git.tagged.map(name => ({ name, cwd: '' }));
+  for (const ref of refs) {
+    const pkg = ref.package ? plan.packages.find(p => p.name === ref.package) : undefined;
+    const packages = pkg ? [pkg] : plan.packages;
+    const version = packages[0]?.nextVersion ?? '';
+
+    const release: ProviderReleaseInput = {
+      tag: ref.name,
+      name: pkg ? `${pkg.name}@${pkg.nextVersion}` : ref.name,
+      body: (pkg ? createPackageChangelog(pkg, changelog) : changelog).trim()
+        || packages.map(p => `- ${p.name}@${p.nextVersion}`).join('\n'),
+      prerelease: semver.prerelease(version) !== null,
+      assets: packages.flatMap(p => tarballs[p.name] ?? []),
+    };
+
+    try {
+      result.releases.push(await client.upsertRelease(release));
+    } catch (err) {
+      result.errors.push(`${client.type} release ${ref.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return result;
+}
+
+// ─── HTTP ─────────────────────────────────────────────────────────────────────
+
+type Http = <T = any>(method: string, url: string, body?: unknown, headers?: Record<string, string>) => Promise<{ status: number; data: T }>;
+
+function createHttp(options: ReleaseProviderClientOptions): Http {
+  const doFetch = options.fetch ?? fetch;
+  const timeoutMs = options.timeoutMs ?? 30000;
+
+  return async (method, url, body, extraHeaders = {}) => {
+    const headers: Record<string, string> = { accept: 'application/json', ...extraHeaders };
+    if (options.token) {headers.authorization = `Bearer ${options.token}`;}
+
+    let payload: RequestInit['body'];
+    if (body instanceof Uint8Array || body instanceof FormData) {
+      payload = body as RequestInit['body'];
+    } else if (body !== undefined) {
+      payload = JSON.stringify(body);
+      headers['content-type'] = 'application/json';
+    }
+
+    const response = await doFetch(url, { method, headers, body: payload, signal: AbortSignal.timeout(timeoutMs) });
+    const text = await response.text();
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`${method} ${url} responded ${response.status}: ${text.slice(0, 200)}`);
+    }
+    return { status: response.status, data: text ? JSON.parse(text) : undefined };
+  };
+}
+
+// ─── GitHub ───────────────────────────────────────────────────────────────────
+
+function createGitHubClient(http: Http, repoApi: string): ReleaseProviderClient {
+  const headers = { accept: 'application/vnd.github+json', 'x-github-api-version': '2022-11-28' };
+
+  return {
+    type: 'github',
+    async upsertRelease(release) {
+      const fields = { name: release.name, body: release.body, prerelease: release.prerelease };
+      const existing = await http('GET', `${repoApi}/releases/tags/${encodeURIComponent(release.tag)}`, undefined, headers);
+
+      const { data } = existing.status === 404
+        ? await http('POST', `${repoApi}/releases`, { tag_name: release.tag, ...fields }, headers)
+        : await http('PATCH', `${repoApi}/releases/${existing.data.id}`, fields, headers);
+
+      const uploadUrl = String(data.upload_url).replace(/\{.*\}$/, '');
+      const assets: string[] = [];
+      for (const file of release.assets) {
+        const name = basename(file);
+        // Re-running a release replaces assets of the same name
+        const stale = (data.assets ?? []).find((a: { name: string }) => a.name === name);
+        if (stale) {await http('DELETE', `${repoApi}/releases/assets/${stale.id}`, undefined, headers);}
+        await http('POST', `${uploadUrl}?name=${encodeURIComponent(name)}`, new Uint8Array(await readFile(file)), {
+          ...headers,
+          'content-type': 'application/gzip',
+        });
+        assets.push(name);
+      }
+
+      return {
+        tag: release.tag,
+        action: existing.status === 404 ? 'created' : 'updated',
+        url: data.html_url,
+        assets,
+      };
+    },
+  };
+}
+
+// ─── GitLab ───────────────────────────────────────────────────────────────────
+
+function createGitLabClient(http: Http, projectApi: string, baseUrl: string): ReleaseProviderClient {
+  return {
+    type: 'gitlab',
+    async upsertRelease(release) {
+      const tagPath = `${projectApi}/releases/${encodeURIComponent(release.tag)}`;
+      // GitLab has no prerelease flag — mark it in the name
+      const fields = {
+        name: release.prerelease ? `${release.name} (prerelease)` : release.name,
+        description: release.body,
+      };
+      const existing = await http('GET', tagPath);
+
+      const { data } = existing.status === 404
+        ? await http('POST', `${projectApi}/releases`, { tag_name: release.tag, ...fields })
+        : await http('PUT', tagPath, fields);
+
+      const assets: string[] = [];
+      for (const file of release.assets) {
+        const name = basename(file);
+        const stale = (data.assets?.links ?? []).find((l: { name: string }) => l.name === name);
+        if (stale) {await http('DELETE', `${tagPath}/assets/links/${stale.id}`);}
+
+        const form = new FormData();
+        form.append('file', new Blob([new Uint8Array(await readFile(file))], { type: 'application/gzip' }), name);
+        const upload = await http('POST', `${projectApi}/uploads`, form);
+        await http('POST', `${tagPath}/assets/links`, {
+          name,
+          url: new URL(upload.data.full_path, new URL(baseUrl).origin).toString(),
+          link_type: 'package',
+        });
+        assets.push(name);
+      }
+
+      return {
+        tag: release.tag,
+        action: existing.status === 404 ? 'created' : 'updated',
+        url: data._links?.self,
+        assets,
+      };
+    },
+  };
+}
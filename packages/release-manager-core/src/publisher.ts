@@ -5,7 +5,15 @@
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
-import type { PackageVersion, ReleasePlan } from './types';
+import type { PackageVersion, ReleasePlan, ReleaseGitConfig } from './types';
+import { packageRegistries } from './registry';
+import { API_BASELINE_FILE } from './api-surface';
+import {
+  DEFAULT_COMMIT_MESSAGE,
+  formatLockstepTag,
+  formatPackageTag,
+  renderTemplate,
+} from '@kb-labs/release-manager-changelog';
 import type { ShellAPI } from '@kb-labs/sdk';
 import { createExecaShellAdapter } from './shell-adapter';
 
@@ -17,6 +25,16 @@ export interface PublisherOptions {
   config?: import('./types').ReleaseConfig;
 }
 
+export interface GitReleaseResult {
+  committed: boolean;
+  tagged: string[];
+  pushed: boolean;
+  /** Release commits created, per repository (for rollback) */
+  commits?: Array<{ cwd: string; sha: string }>;
+  /** Tags created, with the repository they live in (for rollback) and the package they release (none for lockstep) */
+  tagRefs?: Array<{ cwd: string; name: string; package?: string }>;
+}
+
 export interface PublishingResult {
   published: string[];
   skipped: string[];
@@ -60,8 +78,6 @@ export async function publishPackages(options: PublisherOptions): Promise<Publis
   // Publish each package
   for (const pkg of plan.packages) {
     try {
-      const registry = plan.registry || 'https://registry.npmjs.org';
-
       // 1. Update version in package.json BEFORE publishing
       try {
         await updatePackageVersion(pkg);
@@ -83,23 +99,30 @@ export async function publishPackages(options: PublisherOptions): Promise<Publis
         continue; // Skip publish if version update failed
       }
 
-      // 2. Publish to npm
+      // 2. Publish to npm — the primary registry first, then any mirrors
       const pm = options.config?.publish?.packageManager ?? 'pnpm';
       const access = options.config?.publish?.access ?? 'public';
-      const publishResult = await shellApi.exec(
-        pm,
-        ['publish', '--access', access, '--registry', registry],
-        {
-          cwd: pkg.path,
-          timeout: 60000,
-        }
-      );
+      for (const [i, registry] of packageRegistries(plan, pkg).entries()) {
+        const args = ['publish', '--access', access, '--registry', registry];
+        // Prerelease channels publish under their own dist-tag so `latest` stays stable
+        if (plan.distTag) {args.push('--tag', plan.distTag);}
+        const publishResult = await shellApi.exec(
+          pm,
+          args,
+          {
+            cwd: pkg.path,
+            timeout: 60000,
+          }
+        );
 
-      if (publishResult.ok) {
-        result.published.push(`${pkg.name}@${pkg.nextVersion}`);
-      } else {
-        const errorDetails = publishResult.stderr || publishResult.stdout || 'Unknown error';
-        result.errors.push(`Failed to publish ${pkg.name}: ${errorDetails}`);
+        if (publishResult.ok) {
+          if (i === 0) {result.published.push(`${pkg.name}@${pkg.nextVersion}`);}
+        } else {
+          const errorDetails = publishResult.stderr || publishResult.stdout || 'Unknown error';
+          result.errors.push(`Failed to publish ${pkg.name} to ${registry}: ${errorDetails}`);
+          // Mirrors never get ahead of the primary registry
+          if (i === 0) {break;}
+        }
       }
     } catch (error) {
       const msg = `Failed to publish ${pkg.name}: ${error instanceof Error ? error.message : String(error)}`;
@@ -321,7 +344,7 @@ export async function copyChangelogToPackages(options: {
 /**
  * Create package-specific changelog entry with proper header
  */
-function createPackageChangelog(pkg: PackageVersion, changelog: string): string {
+export function createPackageChangelog(pkg: PackageVersion, changelog: string): string {
   // Extract ONLY the section for this package from the full changelog
   // Format: ## @scope/package-name X.Y.Z
   const packageHeaderPattern = new RegExp(
@@ -337,7 +360,7 @@ function createPackageChangelog(pkg: PackageVersion, changelog: string): string
 
   for (let i = 0; i < allHeaders.length; i++) {
     const match = allHeaders[i];
-    if (!match || !match.index) {continue;}
+    if (!match || match.index === undefined) {continue;}
 
     if (packageHeaderPattern.test(match[0])) {
       startIdx = match.index;
@@ -363,19 +386,26 @@ function createPackageChangelog(pkg: PackageVersion, changelog: string): string
  *
  * Each package is committed inside its own git repo (supports submodules).
  * After all packages are committed, tags are created in cwd (the monorepo root).
+ * Commit message, tag names and tag type come from config.git (see ReleaseGitConfig).
  */
 export async function commitAndTagRelease(options: {
   cwd: string;
   plan: ReleasePlan;
   dryRun?: boolean;
-}): Promise<{ committed: boolean; tagged: string[]; pushed: boolean }> {
-  const { cwd, plan, dryRun } = options;
+  git?: ReleaseGitConfig;
+  /** Aborting kills the running git command; the release is left partially committed/tagged */
+  signal?: AbortSignal;
+}): Promise<GitReleaseResult> {
+  const { cwd, plan, dryRun, git: gitConfig = {}, signal } = options;
   const simpleGit = (await import('simple-git')).default;
+  const gitAt = (dir: string) => simpleGit(dir, { abort: signal });
 
-  const result = {
+  const result: GitReleaseResult = {
     committed: false,
-    tagged: [] as string[],
+    tagged: [],
     pushed: false,
+    commits: [],
+    tagRefs: [],
   };
 
   if (dryRun) {
@@ -383,21 +413,27 @@ export async function commitAndTagRelease(options: {
   }
 
   try {
-    const commitMessage = createCommitMessage(plan);
+    const commitMessage = createCommitMessage(plan, gitConfig.commitMessage);
 
     // 1. Commit each package in its own git repo
     for (const pkg of plan.packages) {
-      const pkgGit = simpleGit(pkg.path);
+      const pkgGit = gitAt(pkg.path);
 
-      // Stage package.json and CHANGELOG.md (only if it exists)
+      // Stage package.json, CHANGELOG.md and the recorded API surface (only if they exist)
       const filesToStage = ['package.json'];
       const changelogPath = join(pkg.path, 'CHANGELOG.md');
       if (existsSync(changelogPath)) {filesToStage.push('CHANGELOG.md');}
+      if (existsSync(join(pkg.path, API_BASELINE_FILE))) {filesToStage.push(API_BASELINE_FILE);}
       await pkgGit.add(filesToStage);
 
       try {
-        await pkgGit.commit(commitMessage);
+        const commit = await pkgGit.commit(commitMessage);
         result.committed = true;
+        if (commit.commit) {
+          const repo = (await pkgGit.revparse(['--show-toplevel'])).trim();
+          const sha = (await pkgGit.revparse(['HEAD'])).trim();
+          result.commits!.push({ cwd: repo, sha });
+        }
       } catch (commitError) {
         const msg = commitError instanceof Error ? commitError.message : String(commitError);
         if (!msg.includes('nothing to commit') && !msg.includes('nothing added to commit')) {
@@ -407,30 +443,32 @@ export async function commitAndTagRelease(options: {
     }
 
     // 2. Create tags in cwd (monorepo root)
-    const git = simpleGit(cwd);
+    const git = gitAt(cwd);
 
-    // Lockstep (all packages same version) → single repo-level tag: v{version}
-    // Independent → per-package tag: {name}@{version}
+    // Lockstep (all packages same version) → single repo-level tag: v{version} by default
+    // Independent → per-package tag: {name}@{version} by default
     const uniqueVersions = new Set(plan.packages.map(p => p.nextVersion));
     const isLockstep = plan.packages.length > 1 && uniqueVersions.size === 1;
 
     if (isLockstep) {
       const version = plan.packages[0]!.nextVersion;
-      const tagName = `v${version}`;
-      await git.addTag(tagName);
+      const tagName = formatLockstepTag(version, gitConfig);
+      await createTag(git, tagName, { version }, gitConfig);
       result.tagged.push(tagName);
+      result.tagRefs!.push({ cwd, name: tagName });
     } else {
       for (const pkg of plan.packages) {
-        const pkgGit = simpleGit(pkg.path);
-        const tagName = `${pkg.name}@${pkg.nextVersion}`;
-        await pkgGit.addTag(tagName);
+        const pkgGit = gitAt(pkg.path);
+        const tagName = formatPackageTag(pkg.name, pkg.nextVersion, gitConfig);
+        await createTag(pkgGit, tagName, { name: pkg.name, version: pkg.nextVersion }, gitConfig);
         result.tagged.push(tagName);
+        result.tagRefs!.push({ cwd: pkg.path, name: tagName, package: pkg.name });
       }
     }
 
     // 3. Push each package repo
     for (const pkg of plan.packages) {
-      const pkgGit = simpleGit(pkg.path);
+      const pkgGit = gitAt(pkg.path);
       if (result.committed) {
         await pkgGit.push(['--no-verify']);
       }
@@ -446,18 +484,38 @@ export async function commitAndTagRelease(options: {
   return result;
 }
 
+/**
+ * Create a lightweight, annotated or GPG-signed tag
+ */
+async function createTag(
+  git: import('simple-git').SimpleGit,
+  tagName: string,
+  values: { name?: string; version: string },
+  gitConfig: ReleaseGitConfig,
+): Promise<void> {
+  const tagType = gitConfig.tagType ?? 'lightweight';
+  if (tagType === 'lightweight') {
+    await git.addTag(tagName);
+    return;
+  }
+  const message = gitConfig.tagMessage ? renderTemplate(gitConfig.tagMessage, values) : tagName;
+  await git.raw(['tag', tagType === 'signed' ? '-s' : '-a', tagName, '-m', message]);
+}
+
 /**
  * Create conventional commit message for release
  */
-function createCommitMessage(plan: ReleasePlan): string {
+function createCommitMessage(plan: ReleasePlan, template = DEFAULT_COMMIT_MESSAGE): string {
   const lines: string[] = [];
 
-  if (plan.packages.length === 1 && plan.packages[0]) {
-    const pkg = plan.packages[0];
-    lines.push(`chore(release): publish ${pkg.name}@${pkg.nextVersion}`);
-  } else {
-    lines.push(`chore(release): publish ${plan.packages.length} packages`);
-  }
+  const single = plan.packages.length === 1 ? plan.packages[0] : undefined;
+  const versions = new Set(plan.packages.map(p => p.nextVersion));
+  lines.push(renderTemplate(template, {
+    name: single?.name,
+    // Lockstep releases share one version; independent multi-package releases have none
+    version: versions.size === 1 ? plan.packages[0]?.nextVersion : undefined,
+    packages: single ? `${single.name}@${single.nextVersion}` : `${plan.packages.length} packages`,
+  }));
 
   lines.push('');
 
@@ -467,4 +525,3 @@ function createCommitMessage(plan: ReleasePlan): string {
 
   return lines.join('\n');
 }
-
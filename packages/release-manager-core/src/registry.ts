@@ -0,0 +1,154 @@
+/**
+ * Registry client — asks an npm-compatible registry which versions of a package exist.
+ *
+ * The planner and pipeline take a `RegistryClient` so tests (or a local fake registry)
+ * can stand in for the real one.
+ */
+
+import semver from 'semver';
+import type { PackageVersion, ReleasePlan } from './types';
+
+export const DEFAULT_REGISTRY = 'https://registry.npmjs.org';
+
+export interface RegistryPackageInfo {
+  /** All published versions */
+  versions: string[];
+  /** dist-tags, e.g. { latest: '1.2.0', next: '2.0.0-rc.1' } */
+  distTags: Record<string, string>;
+}
+
+export interface RegistryClient {
+  /** Package metadata, or null if the package has never been published */
+  getPackageInfo(name: string): Promise<RegistryPackageInfo | null>;
+}
+
+export interface RegistryClientOptions {
+  registry?: string;
+  /** Bearer token for private registries */
+  token?: string;
+  timeoutMs?: number;
+  /** Custom fetch implementation (defaults to global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Create a client for an npm-compatible registry using the abbreviated packument endpoint.
+ */
+export function createRegistryClient(options: RegistryClientOptions = {}): RegistryClient {
+  const registry = normalizeRegistryUrl(options.registry || DEFAULT_REGISTRY);
+  const doFetch = options.fetch ?? fetch;
+  const timeoutMs = options.timeoutMs ?? 10000;
+
+  return {
+    async getPackageInfo(name: string): Promise<RegistryPackageInfo | null> {
+      const headers: Record<string, string> = {
+        accept: 'application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8',
+      };
+      if (options.token) {headers.authorization = `Bearer ${options.token}`;}
+
+      const response = await doFetch(`${registry}/${name.replace('/', '%2F')}`, {
+        headers,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (response.status === 404) {return null;}
+      if (!response.ok) {
+        throw new Error(`Registry ${registry} responded ${response.status} for ${name}`);
+      }
+
+      const packument = await response.json() as {
+        versions?: Record<string, unknown>;
+        'dist-tags'?: Record<string, string>;
+      };
+
+      return {
+        versions: Object.keys(packument.versions ?? {}),
+        distTags: packument['dist-tags'] ?? {},
+      };
+    },
+  };
+}
+
+export interface RegistryPackageState {
+  name: string;
+  currentVersion: string;
+  nextVersion: string;
+  /** package.json version exists on the registry */
+  isPublished: boolean;
+  /** Planned next version already exists on the registry */
+  nextVersionTaken: boolean;
+  /** dist-tags.latest on the registry */
+  registryLatest?: string;
+  /** package.json version is behind the registry's latest */
+  drift: boolean;
+  /** Set when the registry could not be queried */
+  error?: string;
+}
+
+/**
+ * Compare packages against the registry: published state, taken versions and drift.
+ * Lookup failures are reported per package instead of thrown.
+ */
+export async function inspectRegistryState(
+  packages: Array<Pick<PackageVersion, 'name' | 'currentVersion' | 'nextVersion'>>,
+  client: RegistryClient,
+): Promise<RegistryPackageState[]> {
+  return Promise.all(packages.map(async (pkg): Promise<RegistryPackageState> => {
+    const state: RegistryPackageState = {
+      name: pkg.name,
+      currentVersion: pkg.currentVersion,
+      nextVersion: pkg.nextVersion,
+      isPublished: false,
+      nextVersionTaken: false,
+      drift: false,
+    };
+
+    try {
+      const info = await client.getPackageInfo(pkg.name);
+      if (!info) {return state;}
+
+      const latest = info.distTags.latest;
+      state.isPublished = info.versions.includes(pkg.currentVersion);
+      state.nextVersionTaken = pkg.nextVersion !== pkg.currentVersion && info.versions.includes(pkg.nextVersion);
+      state.registryLatest = latest;
+      state.drift = !!latest && !!semver.valid(latest) && !!semver.valid(pkg.currentVersion)
+        && semver.gt(latest, pkg.currentVersion);
+    } catch (error) {
+      state.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return state;
+  }));
+}
+
+/**
+ * Check whether `name@version` is already published.
+ * Returns false when the registry can't be reached — the publish step will report the real error.
+ */
+export async function isVersionPublished(
+  name: string,
+  version: string,
+  registry: string = DEFAULT_REGISTRY,
+  client: RegistryClient = createRegistryClient({ registry }),
+): Promise<boolean> {
+  try {
+    const info = await client.getPackageInfo(name);
+    return info?.versions.includes(version) ?? false;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Registry URL without trailing slashes, so configured URLs compare equal.
+ */
+export function normalizeRegistryUrl(registry: string): string {
+  return registry.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Registries a planned package publishes to, primary first.
+ */
+export function packageRegistries(plan: Pick<ReleasePlan, 'registry'>, pkg: Pick<PackageVersion, 'registries'>): string[] {
+  return pkg.registries ?? [plan.registry];
+}
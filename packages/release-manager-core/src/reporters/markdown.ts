@@ -3,6 +3,7 @@
  */
 
 import type { ReleaseReport } from '../types';
+import { formatSize, formatSizeDelta } from '../size-budget';
 
 export function renderMarkdown(report: ReleaseReport): string {
   const lines: string[] = [];
@@ -67,6 +68,21 @@ export function renderMarkdown(report: ReleaseReport): string {
     lines.push('');
   }
 
+  // Package sizes (measured at verification)
+  const sized = report.plan?.packages.filter(pkg => pkg.size) ?? [];
+  if (sized.length > 0) {
+    lines.push('## 📦 Package Sizes');
+    lines.push('');
+    lines.push('| Package | Packed | Unpacked | Files | Change |');
+    lines.push('|---|---|---|---|---|');
+    for (const pkg of sized) {
+      const size = pkg.size!;
+      const previous = size.previous && { version: size.previous.version, size: size.previous.packed };
+      lines.push(`| ${pkg.name} | ${formatSize(size.packed)} | ${formatSize(size.unpacked)} | ${size.files} | ${formatSizeDelta(size.packed, previous)} |`);
+    }
+    lines.push('');
+  }
+
   // Errors
   if (report.result.errors && report.result.errors.length > 0) {
     lines.push('## ❌ Errors');
@@ -1,18 +1,101 @@
 /**
  * Rollback - manages release snapshots and recovery
+ *
+ * Each release run saves a timestamped snapshot under .kb/release/snapshots/{id}/snapshot.json
+ * holding package versions and CHANGELOG.md contents from before the release. As the release
+ * progresses the snapshot is updated with what it created (published versions, commits, tags),
+ * so `rollbackRelease` can undo exactly that.
  */
 
-import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { readFile, writeFile, mkdir, readdir, rm } from 'node:fs/promises';
 import { join } from 'node:path';
 import { existsSync } from 'node:fs';
+import simpleGit from 'simple-git';
+import type { ShellAPI } from '@kb-labs/sdk';
 import type { ReleasePlan, PackageVersion } from './types';
+import { createExecaShellAdapter } from './shell-adapter';
+import { listJournals } from './journal';
 
 export interface RollbackSnapshot {
+  /** Snapshot id — ISO timestamp with `:` and `.` replaced, sortable */
+  id?: string;
   ts: string;
+  scope?: string;
   packages: PackageVersion[];
+  /** CHANGELOG.md content before the release, keyed by package path. null = file did not exist */
+  changelogs?: Record<string, string | null>;
+  /** What the release created — filled in by the pipeline as it goes */
+  release?: {
+    published?: string[];
+    publishedAt?: string;
+    registry?: string;
+    /** Registries each published package went to, when not just `registry` */
+    publishedTo?: Record<string, string[]>;
+    commits?: Array<{ cwd: string; sha: string }>;
+    tags?: Array<{ cwd: string; name: string }>;
+    pushed?: boolean;
+  };
+}
+
+export type RollbackActionType =
+  | 'npm-deprecate'
+  | 'npm-unpublish'
+  | 'delete-remote-tag'
+  | 'delete-tag'
+  | 'git-revert'
+  | 'git-push'
+  | 'restore-version'
+  | 'restore-changelog';
+
+export interface RollbackAction {
+  type: RollbackActionType;
+  /** Package spec, tag name, commit sha or file path */
+  target: string;
+  /** Exact operation, e.g. `git revert --no-edit abc1234 (in /repo)` */
+  description: string;
+  /** Registry an npm action applies to */
+  registry?: string;
+  done: boolean;
+  error?: string;
+}
+
+export interface RollbackOptions {
+  cwd: string;
+  /** Snapshot id; defaults to the latest snapshot */
+  id?: string;
+  dryRun?: boolean;
+  /** Undo published versions on npm. Default: leave the registry alone */
+  npm?: 'none' | 'deprecate' | 'unpublish';
+  /** Message for `npm deprecate` */
+  deprecateMessage?: string;
+  shell?: ShellAPI;
+  logger?: { info?: (...args: any[]) => void; warn?: (...args: any[]) => void; error?: (...args: any[]) => void };
+}
+
+export interface RollbackResult {
+  id: string;
+  dryRun: boolean;
+  actions: RollbackAction[];
+  errors: string[];
+}
+
+const DEFAULT_MAX_HISTORY = 5;
+const DEFAULT_DEPRECATE_MESSAGE = 'This version was rolled back';
+
+/** npm only allows unpublishing within 72 hours of publishing */
+const NPM_UNPUBLISH_WINDOW_MS = 72 * 60 * 60 * 1000;
+
+function snapshotsDir(cwd: string): string {
+  return join(cwd, '.kb', 'release', 'snapshots');
 }
 
-// MAX_HISTORY = 5; // Future use for snapshot retention
+function snapshotPath(cwd: string, id: string): string {
+  // IDs come from --id — never let one point outside the snapshots directory
+  if (!/^[\w-]+$/.test(id)) {
+    throw new Error(`Invalid snapshot id "${id}"`);
+  }
+  return join(snapshotsDir(cwd), id, 'snapshot.json');
+}
 
 /**
  * Save current state for potential rollback
@@ -20,53 +103,308 @@ export interface RollbackSnapshot {
 export async function saveSnapshot(options: {
   cwd: string;
   plan: ReleasePlan;
-}): Promise<void> {
-  const { cwd, plan } = options;
-  
+  scope?: string;
+  maxHistory?: number;
+}): Promise<RollbackSnapshot> {
+  const { cwd, plan, scope } = options;
+
+  const ts = new Date().toISOString();
+  const changelogs: Record<string, string | null> = {};
+  for (const pkg of plan.packages) {
+    const changelogPath = join(pkg.path, 'CHANGELOG.md');
+    changelogs[pkg.path] = existsSync(changelogPath) ? await readFile(changelogPath, 'utf-8') : null;
+  }
+
   const snapshot: RollbackSnapshot = {
-    ts: new Date().toISOString(),
+    id: ts.replace(/[:.]/g, '-'),
+    ts,
+    scope,
     packages: plan.packages.map(pkg => ({
       ...pkg,
       nextVersion: pkg.currentVersion, // Store current before update
     })),
+    changelogs,
   };
 
-  const snapshotDir = join(cwd, '.kb', 'release');
-  await mkdir(snapshotDir, { recursive: true });
-  
-  const snapshotPath = join(snapshotDir, 'backup.json');
-  await writeFile(snapshotPath, JSON.stringify(snapshot, null, 2), 'utf-8');
-  
+  await writeSnapshot(cwd, snapshot);
+
   // Cleanup old snapshots
-  await cleanupOldSnapshots(snapshotDir);
+  await cleanupOldSnapshots(cwd, options.maxHistory ?? DEFAULT_MAX_HISTORY);
+
+  return snapshot;
+}
+
+/**
+ * Merge what the release created into its snapshot.
+ */
+export async function updateSnapshotRelease(
+  cwd: string,
+  id: string,
+  release: NonNullable<RollbackSnapshot['release']>,
+): Promise<void> {
+  const snapshot = await loadSnapshot(cwd, id);
+  if (!snapshot) {return;}
+  snapshot.release = { ...snapshot.release, ...release };
+  await writeSnapshot(cwd, snapshot);
+}
+
+/**
+ * List snapshots, newest first.
+ */
+export async function listSnapshots(cwd: string): Promise<RollbackSnapshot[]> {
+  const dir = snapshotsDir(cwd);
+  if (!existsSync(dir)) {return [];}
+
+  const ids = (await readdir(dir)).sort().reverse();
+  const snapshots: RollbackSnapshot[] = [];
+  for (const id of ids) {
+    const snapshot = await loadSnapshot(cwd, id);
+    if (snapshot) {snapshots.push(snapshot);}
+  }
+  return snapshots;
+}
+
+/**
+ * Load a snapshot by id, or the latest one.
+ * Falls back to the legacy single .kb/release/backup.json.
+ */
+export async function loadSnapshot(cwd: string, id?: string): Promise<RollbackSnapshot | null> {
+  if (id) {
+    const path = snapshotPath(cwd, id);
+    if (!existsSync(path)) {return null;}
+    return { id, ...JSON.parse(await readFile(path, 'utf-8')) };
+  }
+
+  const dir = snapshotsDir(cwd);
+  if (existsSync(dir)) {
+    const latest = (await readdir(dir)).sort().pop();
+    if (latest) {return loadSnapshot(cwd, latest);}
+  }
+
+  const legacyPath = join(cwd, '.kb', 'release', 'backup.json');
+  if (existsSync(legacyPath)) {
+    return JSON.parse(await readFile(legacyPath, 'utf-8'));
+  }
+
+  return null;
+}
+
+/**
+ * Restore from snapshot — package.json versions and CHANGELOG.md files only.
+ * Use rollbackRelease() to also undo git and registry changes.
+ */
+export async function restoreSnapshot(cwd: string, id?: string): Promise<void> {
+  const snapshot = await loadSnapshot(cwd, id);
+
+  if (!snapshot) {
+    throw new Error(id ? `Snapshot "${id}" not found` : 'No backup snapshot found');
+  }
+
+  for (const action of planFileRestore(snapshot)) {
+    await runAction(action, cwd, snapshot);
+  }
+}
+
+/**
+ * Roll back a release: npm deprecate/unpublish, delete tags, revert release commits,
+ * and restore package.json versions and CHANGELOG.md files.
+ *
+ * With dryRun, returns the exact list of actions without executing any of them.
+ */
+export async function rollbackRelease(options: RollbackOptions): Promise<RollbackResult> {
+  const { cwd, dryRun = false, npm = 'none', logger } = options;
+  const snapshot = await loadSnapshot(cwd, options.id);
+
+  if (!snapshot) {
+    throw new Error(options.id ? `Snapshot "${options.id}" not found` : 'No release snapshot found');
+  }
+
+  const snapshotId = snapshot.id ?? 'backup';
+  const actions = planRollback(snapshot, options);
+  const errors: string[] = [];
+
+  if (npm === 'unpublish' && snapshot.release?.publishedAt) {
+    const age = Date.now() - new Date(snapshot.release.publishedAt).getTime();
+    if (age > NPM_UNPUBLISH_WINDOW_MS) {
+      errors.push('Release is older than npm\'s 72-hour unpublish window — use deprecate instead');
+      return { id: snapshotId, dryRun, actions, errors };
+    }
+  }
+
+  if (dryRun) {
+    return { id: snapshotId, dryRun, actions, errors };
+  }
+
+  const shell = options.shell ?? createExecaShellAdapter();
+  for (const action of actions) {
+    try {
+      logger?.info?.(`Rollback: ${action.description}`);
+      await runAction(action, cwd, snapshot, shell, options.deprecateMessage);
+      action.done = true;
+    } catch (error) {
+      action.error = error instanceof Error ? error.message : String(error);
+      errors.push(`${action.description}: ${action.error}`);
+      logger?.error?.(`Rollback step failed: ${action.description} — ${action.error}`);
+    }
+  }
+
+  return { id: snapshotId, dryRun, actions, errors };
 }
 
 /**
- * Restore from snapshot
+ * Compute the ordered rollback actions for a snapshot.
+ * Registry first (most visible), then tags, then commits; files are restored directly
+ * only when there is no release commit to revert (a revert already restores them).
  */
-export async function restoreSnapshot(cwd: string): Promise<void> {
-  const snapshotPath = join(cwd, '.kb', 'release', 'backup.json');
-  
-  if (!existsSync(snapshotPath)) {
-    throw new Error('No backup snapshot found');
+function planRollback(snapshot: RollbackSnapshot, options: RollbackOptions): RollbackAction[] {
+  const actions: RollbackAction[] = [];
+  const release = snapshot.release ?? {};
+
+  if (options.npm === 'deprecate' || options.npm === 'unpublish') {
+    for (const spec of release.published ?? []) {
+      // Mirrored packages are undone on every registry they went to
+      for (const registry of release.publishedTo?.[spec] ?? [release.registry]) {
+        const registryArg = registry ? ` --registry ${registry}` : '';
+        const npmAction = options.npm === 'deprecate'
+          ? action('npm-deprecate', spec, `npm deprecate ${spec} "${options.deprecateMessage ?? DEFAULT_DEPRECATE_MESSAGE}"${registryArg}`)
+          : action('npm-unpublish', spec, `npm unpublish ${spec}${registryArg}`);
+        actions.push(registry ? { ...npmAction, registry } : npmAction);
+      }
+    }
   }
 
-  const snapshotContent = await readFile(snapshotPath, 'utf-8');
-  const snapshot: RollbackSnapshot = JSON.parse(snapshotContent);
+  for (const tag of release.tags ?? []) {
+    if (release.pushed) {
+      actions.push(action('delete-remote-tag', tag.name, `git push origin --delete refs/tags/${tag.name} (in ${tag.cwd})`));
+    }
+    actions.push(action('delete-tag', tag.name, `git tag -d ${tag.name} (in ${tag.cwd})`));
+  }
+
+  const commits = release.commits ?? [];
+  // Newest first so reverts apply cleanly
+  for (const commit of [...commits].reverse()) {
+    actions.push(action('git-revert', commit.sha, `git revert --no-edit ${commit.sha} (in ${commit.cwd})`));
+  }
+  if (release.pushed) {
+    for (const repo of new Set(commits.map(c => c.cwd))) {
+      actions.push(action('git-push', repo, `git push --no-verify (in ${repo})`));
+    }
+  }
+
+  if (commits.length === 0) {
+    actions.push(...planFileRestore(snapshot));
+  }
+
+  return actions;
+}
+
+function planFileRestore(snapshot: RollbackSnapshot): RollbackAction[] {
+  const actions: RollbackAction[] = [];
 
-  // Restore package.json versions
   for (const pkg of snapshot.packages) {
-    const packageJsonPath = join(pkg.path, 'package.json');
-    const packageJson = JSON.parse(await readFile(packageJsonPath, 'utf-8'));
-    
-    packageJson.version = pkg.currentVersion;
-    await writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2) + '\n', 'utf-8');
+    actions.push(action(
+      'restore-version',
+      join(pkg.path, 'package.json'),
+      `restore ${pkg.name} version to ${pkg.currentVersion} in ${join(pkg.path, 'package.json')}`,
+    ));
+  }
+
+  for (const [pkgPath, content] of Object.entries(snapshot.changelogs ?? {})) {
+    const changelogPath = join(pkgPath, 'CHANGELOG.md');
+    actions.push(action(
+      'restore-changelog',
+      changelogPath,
+      content === null ? `delete ${changelogPath}` : `restore ${changelogPath}`,
+    ));
   }
+
+  return actions;
 }
 
-async function cleanupOldSnapshots(_snapshotDir: string): Promise<void> {
-  // For now, just keep the latest backup.json
-  // In the future, could maintain timestamped backups
-  // and trim to MAX_HISTORY
+function action(type: RollbackActionType, target: string, description: string): RollbackAction {
+  return { type, target, description, done: false };
 }
 
+async function runAction(
+  action: RollbackAction,
+  cwd: string,
+  snapshot: RollbackSnapshot,
+  shell?: ShellAPI,
+  deprecateMessage: string = DEFAULT_DEPRECATE_MESSAGE,
+): Promise<void> {
+  const release = snapshot.release ?? {};
+
+  switch (action.type) {
+    case 'npm-deprecate':
+    case 'npm-unpublish': {
+      const args = action.type === 'npm-deprecate'
+        ? ['deprecate', action.target, deprecateMessage]
+        : ['unpublish', action.target];
+      const registry = action.registry ?? release.registry;
+      if (registry) {args.push('--registry', registry);}
+      const result = await (shell ?? createExecaShellAdapter()).exec('npm', args, { cwd, timeout: 60000 });
+      if (!result.ok) {throw new Error(result.stderr || result.stdout || `npm ${args[0]} failed`);}
+      return;
+    }
+    case 'delete-remote-tag': {
+      const tag = release.tags?.find(t => t.name === action.target);
+      await simpleGit(tag?.cwd ?? cwd).push(['origin', '--delete', `refs/tags/${action.target}`, '--no-verify']);
+      return;
+    }
+    case 'delete-tag': {
+      const tag = release.tags?.find(t => t.name === action.target);
+      await simpleGit(tag?.cwd ?? cwd).tag(['-d', action.target]);
+      return;
+    }
+    case 'git-revert': {
+      const commit = release.commits?.find(c => c.sha === action.target);
+      await simpleGit(commit?.cwd ?? cwd).raw(['revert', '--no-edit', action.target]);
+      return;
+    }
+    case 'git-push':
+      await simpleGit(action.target).push(['--no-verify']);
+      return;
+    case 'restore-version': {
+      const pkg = snapshot.packages.find(p => join(p.path, 'package.json') === action.target);
+      if (!pkg) {return;}
+      const packageJson = JSON.parse(await readFile(action.target, 'utf-8'));
+      packageJson.version = pkg.currentVersion;
+      await writeFile(action.target, JSON.stringify(packageJson, null, 2) + '\n', 'utf-8');
+      return;
+    }
+    case 'restore-changelog': {
+      const pkgPath = join(action.target, '..');
+      const content = snapshot.changelogs?.[pkgPath];
+      if (content === null || content === undefined) {
+        await rm(action.target, { force: true });
+      } else {
+        await writeFile(action.target, content, 'utf-8');
+      }
+      return;
+    }
+  }
+}
+
+async function writeSnapshot(cwd: string, snapshot: RollbackSnapshot): Promise<void> {
+  const id = snapshot.id ?? snapshot.ts.replace(/[:.]/g, '-');
+  const dir = join(snapshotsDir(cwd), id);
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, 'snapshot.json'), JSON.stringify(snapshot, null, 2), 'utf-8');
+}
+
+/**
+ * Keep the newest `maxHistory` snapshots, plus any an unfinished run can still resume with.
+ */
+async function cleanupOldSnapshots(cwd: string, maxHistory: number): Promise<void> {
+  const snapshotDir = snapshotsDir(cwd);
+  if (!existsSync(snapshotDir) || maxHistory <= 0) {return;}
+
+  const pinned = new Set((await listJournals(cwd))
+    .filter(journal => journal.status !== 'completed')
+    .flatMap(journal => journal.snapshotId ?? []));
+  const ids = (await readdir(snapshotDir)).sort();
+  const stale = ids.slice(0, Math.max(0, ids.length - maxHistory)).filter(id => !pinned.has(id));
+  for (const id of stale) {
+    await rm(join(snapshotDir, id), { recursive: true, force: true });
+  }
+}
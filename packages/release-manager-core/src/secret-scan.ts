@@ -0,0 +1,185 @@
+/**
+ * Secret scanning — nothing sensitive leaves in a tarball.
+ *
+ * Every file of the extracted tarball is checked, not just dist/:
+ *
+ *   env-file            .env files (.env.example and other templates are fine)
+ *   private-key         PEM private key blocks
+ *   npmrc-token         .npmrc with a literal auth token (not an ${ENV_VAR} reference)
+ *   token               npm, GitHub and AWS credentials, and matches of changelog.redactPatterns
+ *   sourcemap-sources   sourcemaps that embed the original sources (sourcesContent)
+ *
+ * Token matches only count when they look random (Shannon entropy), so placeholders like
+ * `ghp_xxxx…` in docs don't block a release. Findings name the file, line and rule — never the
+ * secret. Accepted findings are allowlisted per package via config.secrets.allow.
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { basename, join, relative } from 'node:path';
+import type { ReleaseSecretAllowRule, ReleaseSecretScanConfig, SecretFindingKind } from './types';
+import { matchesPackagePattern } from './planner';
+
+export interface SecretFinding {
+  kind: SecretFindingKind;
+  /** File inside the tarball, relative to the package */
+  path: string;
+  /** 1-based line of the match, for content findings */
+  line?: number;
+  /** What matched, e.g. 'GitHub token' — never the secret itself */
+  rule: string;
+}
+
+/** Built-in credential patterns */
+const TOKEN_PATTERNS: Array<{ rule: string; pattern: RegExp }> = [
+  { rule: 'npm token', pattern: /\bnpm_[A-Za-z0-9]{36}\b/g },
+  { rule: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { rule: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g },
+  { rule: 'AWS secret key', pattern: /aws_?secret_?access_?key['"]?\s*[:=]\s*['"]?[A-Za-z0-9/+]{40}/gi },
+];
+
+const PRIVATE_KEY = /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----/g;
+
+/** Auth settings in .npmrc whose value is not an environment variable reference */
+const NPMRC_AUTH = /^\s*(?:\/\/[^\s=]*:)?_(?:authToken|auth|password)\s*=\s*(?!\$\{)\S+/gm;
+
+const ENV_FILE = /^\.env(?:\..+)?$/;
+const ENV_TEMPLATE = /\.(?:example|sample|template|defaults)$/;
+
+/** Minimum bits per character for a token match to count as a real secret */
+const MIN_ENTROPY = 3;
+
+/** Content of bigger files is not scanned */
+const MAX_SCANNED_SIZE = 10_000_000;
+
+/**
+ * Scan an extracted tarball (`packageDir` is its `package/`).
+ * `redactPatterns` are regular expression sources (changelog.redactPatterns).
+ */
+export async function scanPackageSecrets(
+  packageDir: string,
+  options: { redactPatterns?: string[] } = {},
+): Promise<SecretFinding[]> {
+  const patterns = [
+    ...TOKEN_PATTERNS,
+    ...(options.redactPatterns ?? []).map(source => ({ rule: 'changelog.redactPatterns match', pattern: compilePattern(source) })),
+  ];
+  const findings: SecretFinding[] = [];
+
+  for (const file of await listFiles(packageDir)) {
+    const path = relative(packageDir, file);
+    const name = basename(file);
+
+    if (ENV_FILE.test(name) && !ENV_TEMPLATE.test(name)) {
+      findings.push({ kind: 'env-file', path, rule: '.env file' });
+      continue;
+    }
+    if ((await stat(file)).size > MAX_SCANNED_SIZE) {continue;}
+    const buffer = await readFile(file);
+    if (buffer.subarray(0, 8000).includes(0)) {continue;} // binary
+    const content = buffer.toString('utf-8');
+
+    if (name === '.npmrc') {
+      for (const match of content.matchAll(NPMRC_AUTH)) {
+        findings.push({ kind: 'npmrc-token', path, line: lineOf(content, match.index), rule: '.npmrc auth token' });
+      }
+    }
+    for (const match of content.matchAll(PRIVATE_KEY)) {
+      findings.push({ kind: 'private-key', path, line: lineOf(content, match.index), rule: 'private key' });
+    }
+    for (const { rule, pattern } of patterns) {
+      for (const match of content.matchAll(pattern)) {
+        const line = lineOf(content, match.index);
+        // A redact pattern may well match a credential a built-in pattern already reported
+        if (entropy(match[0]) < MIN_ENTROPY || findings.some(f => f.kind === 'token' && f.path === path && f.line === line)) {continue;}
+        findings.push({ kind: 'token', path, line, rule });
+      }
+    }
+    if (name.endsWith('.map') && embedsSources(content)) {
+      findings.push({ kind: 'sourcemap-sources', path, rule: 'sourcemap embeds original sources (sourcesContent)' });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Allowlist rules that apply to one package (every matching rule).
+ * `relativePath` is the package's path relative to the repo, for path patterns.
+ */
+export function resolveSecretAllowlist(
+  config: ReleaseSecretScanConfig | undefined,
+  pkg: { name: string; relativePath: string },
+): ReleaseSecretAllowRule[] {
+  return (config?.allow ?? []).filter(rule =>
+    matchesPackagePattern(pkg.name, pkg.relativePath, Array.isArray(rule.packages) ? rule.packages : [rule.packages]));
+}
+
+/**
+ * Whether an allowlist rule accepts a finding. Path globs support `*` (within a segment) and `**`.
+ */
+export function isSecretAllowed(finding: SecretFinding, allow: ReleaseSecretAllowRule[]): boolean {
+  return allow.some(rule =>
+    (!rule.kinds || rule.kinds.includes(finding.kind))
+    && (!rule.paths || rule.paths.some(glob => globToRegExp(glob).test(finding.path))));
+}
+
+/**
+ * Verifier issue for a finding — the location and rule, without the secret.
+ */
+export function formatSecretFinding(finding: SecretFinding): string {
+  const location = finding.line ? `${finding.path}:${finding.line}` : finding.path;
+  return `Secrets: ${location} — ${finding.rule} (allowlist via secrets.allow if intended)`;
+}
+
+function compilePattern(source: string): RegExp {
+  try {
+    return new RegExp(source, 'g');
+  } catch (err) {
+    throw new Error(`Invalid changelog.redactPatterns entry "${source}": ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/** Shannon entropy in bits per character */
+function entropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {counts.set(char, (counts.get(char) ?? 0) + 1);}
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+function embedsSources(content: string): boolean {
+  try {
+    const map = JSON.parse(content);
+    return Array.isArray(map.sourcesContent) && map.sourcesContent.some((source: unknown) => typeof source === 'string' && source.length > 0);
+  } catch {
+    return false;
+  }
+}
+
+function lineOf(content: string, index: number | undefined): number {
+  return content.slice(0, index).split('\n').length;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .replace(/^\.\//, '')
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\/?|\*/g, match => (match === '*' ? '[^/]*' : '.*'));
+  return new RegExp(`^${source}$`);
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(path));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+}
@@ -0,0 +1,160 @@
+/**
+ * Package size budgets — how big each tarball is, and how much it grew since the last release.
+ *
+ * Verification measures every packed tarball: its own size, the total size and count of the
+ * files in it, and the largest files (so a leaked sourcemap or fixture is easy to spot). The
+ * sizes are recorded in the plan and with it in release history; the last successful release of
+ * a package in history is what growth is measured against.
+ *
+ * Budgets come from config.size, globally or per package, and either fail verification or only
+ * warn (`onExceed`).
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import type { PackageSize, ReleaseReport, ReleaseSizeBudget, ReleaseSizeConfig } from './types';
+import { matchesPackagePattern } from './planner';
+
+/** Largest files kept per package */
+const LARGEST_FILES = 5;
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1_000, mb: 1_000_000, gb: 1_000_000_000 };
+
+/**
+ * Measure a packed tarball and its extracted contents (`extractedDir` is the tarball's `package/`).
+ */
+export async function measurePackage(tarball: string, extractedDir: string): Promise<PackageSize> {
+  const files: Array<{ path: string; size: number }> = [];
+  const walk = async (dir: string): Promise<void> => {
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(path);
+      } else if (entry.isFile()) {
+        files.push({ path: relative(extractedDir, path), size: (await stat(path)).size });
+      }
+    }
+  };
+  await walk(extractedDir);
+
+  return {
+    packed: (await stat(tarball)).size,
+    unpacked: files.reduce((sum, file) => sum + file.size, 0),
+    files: files.length,
+    largest: files.sort((a, b) => b.size - a.size || a.path.localeCompare(b.path)).slice(0, LARGEST_FILES),
+  };
+}
+
+/**
+ * Sizes of each package at its last successful release in history (canaries and dry-runs don't count).
+ * Reads .kb/release/history/{scope}/{releaseId}/report.json across all scopes.
+ */
+export async function readReleasedSizes(repoRoot: string): Promise<Map<string, NonNullable<PackageSize['previous']>>> {
+  const historyDir = join(repoRoot, '.kb', 'release', 'history');
+  const reports: ReleaseReport[] = [];
+  for (const scopeDir of await listDirs(historyDir)) {
+    for (const releaseDir of await listDirs(join(historyDir, scopeDir))) {
+      try {
+        reports.push(JSON.parse(await readFile(join(historyDir, scopeDir, releaseDir, 'report.json'), 'utf-8')));
+      } catch {
+        // Incomplete release — no report
+      }
+    }
+  }
+
+  const sizes = new Map<string, NonNullable<PackageSize['previous']>>();
+  for (const report of reports.sort((a, b) => b.ts.localeCompare(a.ts))) {
+    if (!report.result?.ok || report.canary || report.context?.dryRun) {continue;}
+    for (const pkg of report.plan?.packages ?? []) {
+      if (!pkg.size || sizes.has(pkg.name) || !report.result.published?.includes(`${pkg.name}@${pkg.nextVersion}`)) {continue;}
+      sizes.set(pkg.name, { version: pkg.nextVersion, packed: pkg.size.packed, unpacked: pkg.size.unpacked, files: pkg.size.files });
+    }
+  }
+  return sizes;
+}
+
+/**
+ * Size budget for one package: the first matching `packages` rule over the global budget.
+ * `relativePath` is the package's path relative to the repo, for path patterns.
+ */
+export function resolveSizeBudget(
+  config: ReleaseSizeConfig | undefined,
+  pkg: { name: string; relativePath: string },
+): ReleaseSizeBudget {
+  const { packages: rules, ...global } = config ?? {};
+  const rule = rules?.find(r =>
+    matchesPackagePattern(pkg.name, pkg.relativePath, Array.isArray(r.packages) ? r.packages : [r.packages]));
+  if (!rule) {return global;}
+  const { packages: _patterns, ...budget } = rule;
+  return { ...global, ...Object.fromEntries(Object.entries(budget).filter(([, value]) => value !== undefined)) };
+}
+
+/**
+ * Budgets a measured package exceeds, as verifier messages. Growth is only checked with `size.previous`.
+ */
+export function checkSizeBudget(size: PackageSize, budget: ReleaseSizeBudget): string[] {
+  const exceeded: string[] = [];
+  const maxPacked = budget.maxPacked === undefined ? undefined : parseSize(budget.maxPacked);
+  const maxUnpacked = budget.maxUnpacked === undefined ? undefined : parseSize(budget.maxUnpacked);
+
+  if (maxPacked !== undefined && size.packed > maxPacked) {
+    exceeded.push(`Size: tarball is ${formatSize(size.packed)}, over the ${formatSize(maxPacked)} budget`);
+  }
+  if (maxUnpacked !== undefined && size.unpacked > maxUnpacked) {
+    exceeded.push(`Size: unpacked files are ${formatSize(size.unpacked)}, over the ${formatSize(maxUnpacked)} budget`);
+  }
+  if (budget.maxFiles !== undefined && size.files > budget.maxFiles) {
+    exceeded.push(`Size: ${size.files} files, over the ${budget.maxFiles}-file budget`);
+  }
+  if (budget.maxIncrease !== undefined && size.previous && size.previous.packed > 0) {
+    const increase = (size.packed / size.previous.packed - 1) * 100;
+    if (increase > budget.maxIncrease) {
+      exceeded.push(`Size: tarball grew ${Math.round(increase)}% since ${size.previous.version} `
+        + `(${formatSize(size.previous.packed)} → ${formatSize(size.packed)}), over the ${budget.maxIncrease}% budget`);
+    }
+  }
+
+  if (exceeded.length > 0) {
+    exceeded.push(`Size: largest files — ${size.largest.map(f => `${f.path} (${formatSize(f.size)})`).join(', ')}`);
+  }
+  return exceeded;
+}
+
+/**
+ * Bytes of a budget size: a number of bytes or '500kB', '1.5 MB'.
+ */
+export function parseSize(value: number | string): number {
+  if (typeof value === 'number') {return value;}
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([kmg]?b)?\s*$/i.exec(value);
+  if (!match) {
+    throw new Error(`Invalid size "${value}" — use a number of bytes or a size like '500kB' or '1.5MB'`);
+  }
+  return Math.round(Number(match[1]) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()]!);
+}
+
+/**
+ * Human-readable size: '812 B', '38.4 kB', '1.2 MB'.
+ */
+export function formatSize(bytes: number): string {
+  if (bytes < 1_000) {return `${bytes} B`;}
+  if (bytes < 1_000_000) {return `${(bytes / 1_000).toFixed(1)} kB`;}
+  return `${(bytes / 1_000_000).toFixed(1)} MB`;
+}
+
+/**
+ * Change of a size against the last release: '+212% since 0.4.0', '-3% since 0.4.0', or 'first release'.
+ */
+export function formatSizeDelta(current: number, previous: { version: string; size: number } | undefined): string {
+  if (!previous) {return 'first release';}
+  if (previous.size === 0) {return `+${formatSize(current)} since ${previous.version}`;}
+  const percent = Math.round((current / previous.size - 1) * 100);
+  return `${percent > 0 ? '+' : ''}${percent}% since ${previous.version}`;
+}
+
+async function listDirs(dir: string): Promise<string[]> {
+  try {
+    return (await readdir(dir, { withFileTypes: true })).filter(e => e.isDirectory()).map(e => e.name);
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Install-and-import smoke test — load the packed tarballs the way a consumer would.
+ *
+ * Every tarball of the plan is installed into a scratch project, offline, with the plan's own
+ * packages resolved to their sibling tarballs (dependencies and overrides point at the files),
+ * so the installed tree is exactly what the release would publish. Each public export subpath of
+ * the tested packages is then loaded in a fresh Node process, with `import()` and with
+ * `require()`: a missing runtime dependency or an export that throws on load fails the package
+ * with the stack trace. `require()` is not held against ESM-only exports.
+ *
+ * Opt-in and configurable per package via config.smokeTest.
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { ReleaseSmokeTestConfig } from './types';
+import { matchesPackagePattern } from './planner';
+import { listExportEntrypoints } from './type-resolution';
+
+const execFileAsync = promisify(execFile);
+
+/** require() errors that only mean the export is ESM-only */
+const ESM_ONLY_CODES = ['ERR_REQUIRE_ESM', 'ERR_REQUIRE_ASYNC_MODULE', 'ERR_PACKAGE_PATH_NOT_EXPORTED'];
+
+const REQUIRE_SCRIPT = `try { require(process.argv[1]); } catch (err) {
+  if (!${JSON.stringify(ESM_ONLY_CODES)}.includes(err && err.code)) { throw err; }
+}`;
+
+export interface SmokeTestTarget {
+  name: string;
+  /** Export subpaths not to load */
+  skip?: string[];
+}
+
+export interface SmokeTestFailure {
+  package: string;
+  /** What was loaded, e.g. '@kb-labs/app/utils' */
+  specifier: string;
+  loader: 'import' | 'require';
+  /** Error output of the failed load, with its stack trace */
+  error: string;
+}
+
+export interface SmokeTestResult {
+  /** Set when the tarballs could not be installed — nothing was loaded */
+  installError?: string;
+  failures: SmokeTestFailure[];
+}
+
+/**
+ * Smoke-test settings for one package: the first matching `packages` rule, else the global default.
+ * `relativePath` is the package's path relative to the repo, for path patterns.
+ */
+export function resolveSmokeTest(
+  config: ReleaseSmokeTestConfig | undefined,
+  pkg: { name: string; relativePath: string },
+): { enabled: boolean; skip: string[] } {
+  const rule = config?.packages?.find(r =>
+    matchesPackagePattern(pkg.name, pkg.relativePath, Array.isArray(r.packages) ? r.packages : [r.packages]));
+  return {
+    enabled: rule?.enabled ?? config?.enabled ?? false,
+    skip: rule?.skip ?? [],
+  };
+}
+
+/**
+ * Install `tarballs` (package name → packed tarball) into a scratch project and load every
+ * export subpath of the `targets`. The scratch project is removed afterwards.
+ */
+export async function smokeTestTarballs(
+  tarballs: Record<string, string>,
+  targets: SmokeTestTarget[],
+  options: { signal?: AbortSignal } = {},
+): Promise<SmokeTestResult> {
+  const scratch = await mkdtemp(join(tmpdir(), 'kb-release-smoke-'));
+  try {
+    const files = Object.fromEntries(Object.entries(tarballs).map(([name, tarball]) => [name, `file:${tarball}`]));
+    await writeFile(join(scratch, 'package.json'), JSON.stringify({
+      name: 'kb-release-smoke-test',
+      version: '0.0.0',
+      private: true,
+      dependencies: files,
+      // Dependencies between the plan's packages resolve to the sibling tarballs, not the registry
+      overrides: files,
+    }, null, 2));
+
+    try {
+      await execFileAsync('npm', ['install', '--offline', '--ignore-scripts', '--no-audit', '--no-fund', '--no-package-lock'], {
+        cwd: scratch,
+        timeout: 300_000,
+        signal: options.signal,
+      });
+    } catch (err) {
+      return { installError: errorOutput(err), failures: [] };
+    }
+
+    const failures: SmokeTestFailure[] = [];
+    for (const target of targets) {
+      const manifest = JSON.parse(await readFile(join(scratch, 'node_modules', target.name, 'package.json'), 'utf-8'));
+      const subpaths = listExportEntrypoints(manifest)
+        .map(([subpath]) => subpath)
+        .filter(subpath => !target.skip?.includes(subpath));
+
+      for (const subpath of subpaths) {
+        const specifier = target.name + subpath.slice(1);
+        const loads: Array<[SmokeTestFailure['loader'], string[]]> = [
+          ['import', ['--input-type=module', '-e', 'await import(process.argv[1]);', specifier]],
+          ['require', ['-e', REQUIRE_SCRIPT, specifier]],
+        ];
+        for (const [loader, args] of loads) {
+          if (options.signal?.aborted) {return { failures };}
+          try {
+            await execFileAsync(process.execPath, args, { cwd: scratch, timeout: 30_000, signal: options.signal });
+          } catch (err) {
+            failures.push({ package: target.name, specifier, loader, error: errorOutput(err) });
+          }
+        }
+      }
+    }
+    return { failures };
+  } finally {
+    await rm(scratch, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Verifier issue for a failed load.
+ */
+export function formatSmokeTestFailure(failure: SmokeTestFailure): string {
+  return `Smoke test: ${failure.loader}("${failure.specifier}") failed\n${failure.error}`;
+}
+
+/** stderr of a failed child process, without Node's version footer */
+function errorOutput(err: unknown): string {
+  const stderr = (err as { stderr?: string }).stderr?.replace(/\n*Node\.js v[\d.]+\s*$/, '').trim();
+  return stderr || (err instanceof Error ? err.message : String(err));
+}
@@ -0,0 +1,255 @@
+/**
+ * Type declaration resolution — can TypeScript consumers resolve the types of every entrypoint?
+ *
+ * For each entrypoint (every `exports` subpath, or the package root without `exports`) and each
+ * resolution mode a consumer may use — node16 from a `require`, node16 from an `import`, and
+ * bundler — the JavaScript the runtime loads is resolved next to the declarations TypeScript
+ * picks, following the same condition order and `.js` → `.d.ts` substitution. Problems found:
+ *
+ *   untyped       the entrypoint's JavaScript has no declarations (e.g. a subpath without `types`)
+ *   false-esm     the declarations are ESM but the JavaScript is CommonJS
+ *   false-cjs     the declarations are CommonJS but the JavaScript is ESM
+ *
+ * Module formats are only compared under node16 — bundlers don't care. A mode the runtime can't
+ * resolve at all (an ESM-only package required from CommonJS) is not checked, and packages that
+ * ship no declarations at all are assumed to be untyped on purpose.
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+
+export type TypeResolutionMode = 'node16-cjs' | 'node16-esm' | 'bundler';
+
+export type TypeResolutionProblemKind = 'untyped' | 'false-esm' | 'false-cjs';
+
+export interface TypeResolutionProblem {
+  /** Export subpath ('.', './utils') */
+  entrypoint: string;
+  kind: TypeResolutionProblemKind;
+  /** Modes the problem shows up in */
+  modes: TypeResolutionMode[];
+  /** JavaScript the runtime loads, relative to the package */
+  js: string;
+  /** Declarations TypeScript resolves, relative to the package */
+  types?: string;
+  message: string;
+}
+
+/** Conditions each mode matches (besides `default`), in TypeScript's view */
+const MODE_CONDITIONS: Record<TypeResolutionMode, string[]> = {
+  'node16-cjs': ['require', 'node'],
+  'node16-esm': ['import', 'node'],
+  bundler: ['import'],
+};
+
+const MODE_LABELS: Record<TypeResolutionMode, string> = {
+  'node16-cjs': 'node16 (require)',
+  'node16-esm': 'node16 (import)',
+  bundler: 'bundler',
+};
+
+/** Source extension → the declaration files TypeScript looks for in its place */
+const DECLARATION_SUBSTITUTES: Array<[RegExp, string[]]> = [
+  [/\.mjs$/, ['.mts', '.d.mts']],
+  [/\.cjs$/, ['.cts', '.d.cts']],
+  [/\.jsx?$/, ['.ts', '.tsx', '.d.ts']],
+];
+
+type ModuleFormat = 'esm' | 'cjs';
+
+/**
+ * Check how an unpacked package's entrypoints resolve for TypeScript consumers.
+ * `packageDir` is the package as published (e.g. the extracted tarball).
+ */
+export function checkTypeResolution(packageDir: string): TypeResolutionProblem[] {
+  const pkg = JSON.parse(readFileSync(join(packageDir, 'package.json'), 'utf-8'));
+  if (!hasDeclarations(packageDir)) {return [];}
+
+  const problems: TypeResolutionProblem[] = [];
+  for (const [entrypoint, target] of listExportEntrypoints(pkg)) {
+    for (const mode of Object.keys(MODE_CONDITIONS) as TypeResolutionMode[]) {
+      const conditions = MODE_CONDITIONS[mode];
+      const js = target === undefined
+        ? resolveMain(packageDir, pkg)
+        : resolveTarget(target, conditions, file => existsSync(join(packageDir, file)) ? file : undefined);
+      if (!js || isDeclaration(js)) {continue;}
+
+      const types = target === undefined
+        ? resolveRootTypes(packageDir, pkg, js)
+        : resolveTarget(target, ['types', ...conditions], file => findDeclaration(packageDir, file));
+
+      if (!types) {
+        addProblem(problems, { entrypoint, kind: 'untyped', mode, js });
+        continue;
+      }
+      if (mode === 'bundler') {continue;}
+
+      const typesFormat = moduleFormat(packageDir, types);
+      const jsFormat = moduleFormat(packageDir, js);
+      if (typesFormat !== jsFormat) {
+        addProblem(problems, { entrypoint, kind: typesFormat === 'esm' ? 'false-esm' : 'false-cjs', mode, js, types });
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Declarations of each entrypoint, as an `import` under node16 resolves them — or a `require`,
+ * for entrypoints only typed for CommonJS. Entrypoints without declarations are left out.
+ * `pkg` is the manifest as published (publishConfig fields hoisted).
+ */
+export function resolveEntrypointDeclarations(packageDir: string, pkg: any): Array<{ entrypoint: string; types: string }> {
+  const resolved: Array<{ entrypoint: string; types: string }> = [];
+  for (const [entrypoint, target] of listExportEntrypoints(pkg)) {
+    const types = target === undefined
+      ? resolveRootTypes(packageDir, pkg, resolveMain(packageDir, pkg))
+      : resolveTarget(target, ['types', ...MODE_CONDITIONS['node16-esm']], file => findDeclaration(packageDir, file))
+        ?? resolveTarget(target, ['types', ...MODE_CONDITIONS['node16-cjs']], file => findDeclaration(packageDir, file));
+    if (types) {resolved.push({ entrypoint, types });}
+  }
+  return resolved;
+}
+
+/**
+ * Public entrypoints of a package manifest with their `exports` target — undefined for a package
+ * without `exports`, which resolves through main/types. Wildcard subpaths and ./package.json are skipped.
+ */
+export function listExportEntrypoints(pkg: any): Array<[string, unknown]> {
+  const exports = pkg.exports;
+  if (exports === undefined) {return [['.', undefined]];}
+  if (typeof exports === 'string' || Array.isArray(exports)) {return [['.', exports]];}
+  if (!exports || typeof exports !== 'object') {return [];}
+
+  const keys = Object.keys(exports);
+  if (!keys.some(key => key.startsWith('.'))) {return [['.', exports]];}
+  return keys
+    .filter(key => key.startsWith('.') && !key.includes('*') && key !== './package.json')
+    .map(key => [key, exports[key]]);
+}
+
+/**
+ * Walk an `exports` target: the first matching condition (in key order) whose target loads wins,
+ * like TypeScript and Node do. `load` returns the resolved file or undefined to keep looking.
+ */
+function resolveTarget(
+  target: unknown,
+  conditions: string[],
+  load: (file: string) => string | undefined,
+): string | undefined {
+  if (typeof target === 'string') {
+    return target.startsWith('./') ? load(target.slice(2)) : undefined;
+  }
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const resolved = resolveTarget(item, conditions, load);
+      if (resolved) {return resolved;}
+    }
+    return undefined;
+  }
+  if (target && typeof target === 'object') {
+    for (const [condition, value] of Object.entries(target)) {
+      if (condition !== 'default' && !conditions.includes(condition)) {continue;}
+      const resolved = resolveTarget(value, conditions, load);
+      if (resolved) {return resolved;}
+    }
+  }
+  return undefined;
+}
+
+/** JavaScript a package without `exports` loads: main, or index.js */
+function resolveMain(packageDir: string, pkg: any): string | undefined {
+  const main = typeof pkg.main === 'string' ? pkg.main.replace(/^\.\//, '') : 'index.js';
+  return [main, `${main}.js`, join(main, 'index.js')].find(file => isFile(join(packageDir, file)));
+}
+
+/** Declarations for a package without `exports`: types/typings, then next to main */
+function resolveRootTypes(packageDir: string, pkg: any, main: string | undefined): string | undefined {
+  const field = pkg.types ?? pkg.typings;
+  if (typeof field === 'string') {
+    const types = field.replace(/^\.\//, '');
+    if (isFile(join(packageDir, types))) {return types;}
+  }
+  return main ? findDeclaration(packageDir, main) : undefined;
+}
+
+/** The declaration file TypeScript uses for a target: the file itself, or its .d.ts substitute */
+function findDeclaration(packageDir: string, file: string): string | undefined {
+  if (isDeclaration(file) || /\.[mc]?tsx?$/.test(file)) {
+    return isFile(join(packageDir, file)) ? file : undefined;
+  }
+  for (const [extension, substitutes] of DECLARATION_SUBSTITUTES) {
+    if (!extension.test(file)) {continue;}
+    return substitutes
+      .map(substitute => file.replace(extension, substitute))
+      .find(candidate => isFile(join(packageDir, candidate)));
+  }
+  return undefined;
+}
+
+function isDeclaration(file: string): boolean {
+  return /\.d\.[mc]?ts$/.test(file);
+}
+
+/** Format by extension (.mjs/.d.mts, .cjs/.d.cts), else by the nearest package.json "type" */
+function moduleFormat(packageDir: string, file: string): ModuleFormat {
+  if (/\.(mjs|mts)$/.test(file)) {return 'esm';}
+  if (/\.(cjs|cts)$/.test(file)) {return 'cjs';}
+
+  for (let dir = dirname(join(packageDir, file)); ; dir = dirname(dir)) {
+    const manifest = join(dir, 'package.json');
+    if (existsSync(manifest)) {
+      try {
+        return JSON.parse(readFileSync(manifest, 'utf-8')).type === 'module' ? 'esm' : 'cjs';
+      } catch {
+        // Unreadable nested package.json — keep walking up
+      }
+    }
+    if (relative(packageDir, dir) === '' || dirname(dir) === dir) {return 'cjs';}
+  }
+}
+
+function hasDeclarations(dir: string): boolean {
+  try {
+    return readdirSync(dir, { withFileTypes: true }).some(entry =>
+      entry.isDirectory()
+        ? entry.name !== 'node_modules' && hasDeclarations(join(dir, entry.name))
+        : isDeclaration(entry.name));
+  } catch {
+    return false;
+  }
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/** Record a problem, merging it into the same problem already seen in another mode */
+function addProblem(
+  problems: TypeResolutionProblem[],
+  found: { entrypoint: string; kind: TypeResolutionProblemKind; mode: TypeResolutionMode; js: string; types?: string },
+): void {
+  const existing = problems.find(p =>
+    p.entrypoint === found.entrypoint && p.kind === found.kind && p.js === found.js && p.types === found.types);
+  const problem = existing ?? {
+    entrypoint: found.entrypoint,
+    kind: found.kind,
+    modes: [],
+    js: found.js,
+    ...(found.types && { types: found.types }),
+    message: '',
+  };
+  problem.modes.push(found.mode);
+
+  const modes = problem.modes.map(mode => MODE_LABELS[mode]).join(', ');
+  problem.message = found.kind === 'untyped'
+    ? `Types: "${found.entrypoint}" is untyped under ${modes} (no declarations for ${found.js})`
+    : `Types: "${found.entrypoint}" masquerades as ${found.kind === 'false-esm' ? 'ESM' : 'CJS'} under ${modes} `
+      + `(${found.types} is ${found.kind === 'false-esm' ? 'ESM' : 'CommonJS'}, ${found.js} is ${found.kind === 'false-esm' ? 'CommonJS' : 'ESM'})`;
+
+  if (!existing) {problems.push(problem);}
+}
@@ -2,7 +2,10 @@
  * Core types for @kb-labs/release-manager-core
  */
 
-export type ReleaseStage = 'planning' | 'checking' | 'versioning' | 'publishing' | 'verifying' | 'rollback';
+import type { RegistryClient } from './registry';
+import type { ReleaseProviderClient } from './provider-release';
+
+export type ReleaseStage = 'planning' | 'checking' | 'versioning' | 'approval' | 'pending-approval' | 'publishing' | 'verifying' | 'rollback' | 'cancelled';
 
 export type VersionBump = 'patch' | 'minor' | 'major' | 'auto';
 
@@ -14,6 +17,21 @@ export interface ReleaseContext {
   dryRun?: boolean;
 }
 
+/** Why a package is in the release plan */
+export interface PackageChangeInfo {
+  /**
+   * changed — files changed since the last release tag
+   * no-release-tag — no tag for the current version (first release or untagged history)
+   * dependency — pulled in by a bumped workspace dependency (ripple/lockstep)
+   * graduate — prerelease promoted to stable
+   */
+  reason: 'changed' | 'no-release-tag' | 'dependency' | 'graduate';
+  /** Release tag the changes were computed from */
+  since?: string;
+  /** Changed files relative to the package, after ignore globs */
+  files?: string[];
+}
+
 export interface PackageVersion {
   name: string;
   path: string;
@@ -21,14 +39,75 @@ export interface PackageVersion {
   nextVersion: string;
   bump: VersionBump;
   isPublished: boolean;
+  /** Names of workspace packages this package depends on at runtime (dependencies, peer and optional) */
   dependencies?: string[];
+  /** Names of workspace packages needed only to build it (devDependencies) — build order only, never ripple */
+  devDependencies?: string[];
+  /** Set when the bump was caused by a bumped dependency (ripple strategy) */
+  rippleFrom?: string[];
+  /** Why the package was included in the plan */
+  changes?: PackageChangeInfo;
+  /** dist-tags.latest on the registry at planning time */
+  registryLatest?: string;
+  /** True when package.json is behind the registry's latest (someone published out-of-band) */
+  drift?: boolean;
+  /** Tarball kept by verification — publishers ship exactly this file */
+  artifact?: PackageArtifact;
+  /**
+   * Registries the package publishes to, primary first (the rest are mirrors).
+   * Unset when it publishes only to the plan's registry (see registry-routing.ts).
+   */
+  registries?: string[];
+  /** Public API changes since the last release (see api-surface.ts) — unset without a recorded baseline */
+  api?: ApiDiff;
+  /** Tarball size measured by verification, with the last release's size (see size-budget.ts) */
+  size?: PackageSize;
+}
+
+export interface ApiDiff {
+  /** Bump the changes require: major for removed or changed exports, minor for added ones */
+  bump: 'major' | 'minor' | 'patch';
+  /** Exports as `name` (root entrypoint) or `./subpath#name`; a removed entrypoint as `./subpath` */
+  removed: string[];
+  changed: string[];
+  added: string[];
+}
+
+export interface PackageSize {
+  /** Tarball size in bytes */
+  packed: number;
+  /** Total size of the packed files in bytes */
+  unpacked: number;
+  files: number;
+  /** Largest packed files, biggest first (paths relative to the package) */
+  largest: Array<{ path: string; size: number }>;
+  /** Size at the package's last release, when history has one */
+  previous?: { version: string; packed: number; unpacked: number; files: number };
+}
+
+export interface PackageArtifact {
+  /** Absolute path to the packed .tgz */
+  tarball: string;
+  /** sha512 subresource integrity (`sha512-<base64>`) at verification time */
+  integrity: string;
 }
 
 export interface ReleasePlan {
   packages: PackageVersion[];
   strategy: 'semver';
+  /** Default registry — packages routed elsewhere list their own `registries` */
   registry: string;
   rollbackEnabled: boolean;
+  /** Prerelease channel (e.g. 'rc'). Undefined for stable releases. */
+  channel?: string;
+  /** npm dist-tag to publish under. Undefined means the registry default ('latest'). */
+  distTag?: string;
+  /** True when the plan graduates prereleases to their stable versions */
+  graduate?: boolean;
+  /** True for canary plans — versions only exist in the published manifests (see canary.ts) */
+  canary?: boolean;
+  /** Non-fatal planning issues (registry drift, registry unreachable) */
+  warnings?: string[];
 }
 
 export interface CheckResult {
@@ -64,6 +143,36 @@ export interface CustomCheckConfig {
   runIn?: 'repoRoot' | 'scopePath' | 'perPackage';
 }
 
+/** Pipeline points where configured hooks run */
+export type ReleaseHookName =
+  | 'beforePlan'
+  | 'afterPlan'
+  | 'beforeBuild'
+  | 'afterVersion'
+  | 'beforePublish'
+  | 'afterPublish'
+  | 'afterGit'
+  | 'onFailure';
+
+/**
+ * Release hook — a shell command (gets the payload as JSON on stdin) or a module whose
+ * default export (or export named after the hook) is called with the payload.
+ * A plain string is a shell command. Relative module paths resolve from the repo root.
+ */
+export type ReleaseHookConfig =
+  | string
+  | { command: string; timeoutMs?: number }
+  | { module: string; timeoutMs?: number };
+
+export interface ReleaseHookResult {
+  hook: ReleaseHookName;
+  /** The command or module that ran */
+  target: string;
+  ok: boolean;
+  durationMs: number;
+  error?: string;
+}
+
 export interface ReleaseResult {
   ok: boolean;
   version?: string;
@@ -83,6 +192,19 @@ export interface ReleaseResult {
     tagged: string[];
     pushed: boolean;
   };
+  /** GitHub/GitLab releases created or updated for the tags */
+  releases?: Array<{
+    tag: string;
+    action: 'created' | 'updated';
+    url?: string;
+    assets: string[];
+  }>;
+  /** Lifecycle hooks that ran, in order */
+  hooks?: ReleaseHookResult[];
+  /** Sign-off the release was published under (scopes that require approval) */
+  approval?: ReleaseApproval;
+  /** Publish outcomes per registry (mirrored packages appear under each) */
+  registries?: RegistryPublishResult[];
   timingMs: number;
   errors?: string[];
 }
@@ -94,6 +216,8 @@ export interface ReleaseReport {
   stage: ReleaseStage;
   plan?: ReleasePlan;
   result: ReleaseResult;
+  /** True for canary releases, so history can tell them apart from real ones */
+  canary?: boolean;
 }
 
 export interface PackagesFilter {
@@ -106,17 +230,90 @@ export interface PackagesFilter {
   exclude?: string[];
 }
 
+export interface ReleaseChannelConfig {
+  /** Prerelease identifier used in versions. Defaults to the channel name. */
+  preid?: string;
+  /** npm dist-tag to publish under. Defaults to the channel name. */
+  distTag?: string;
+}
+
+/**
+ * Git settings. Templates accept {name}, {unscopedName}, {scope}, {version} and {date} (YYYY-MM-DD).
+ */
+export interface ReleaseGitConfig {
+  provider?: 'auto' | 'github' | 'gitlab' | 'generic';
+  baseUrl?: string | null;
+  autoUnshallow?: boolean;
+  requireSignedTags?: boolean;
+  /** Per-package tag, e.g. 'release/{unscopedName}/{version}'. Default: '{name}@{version}' */
+  tagFormat?: string;
+  /** Tag for lockstep releases (all packages on one version). Default: 'v{version}' */
+  lockstepTagFormat?: string;
+  /**
+   * Release commit subject; {packages} is `name@version` for one package or `N packages`.
+   * Default: 'chore(release): publish {packages}'. Append '[skip ci]' to skip CI runs.
+   */
+  commitMessage?: string;
+  /** 'lightweight' (default), 'annotated' (git tag -a) or 'signed' (git tag -s, GPG) */
+  tagType?: 'lightweight' | 'annotated' | 'signed';
+  /** Message for annotated/signed tags. Default: the tag name */
+  tagMessage?: string;
+}
+
 export interface ReleaseConfig {
+  /** Default registry. Default: https://registry.npmjs.org */
   registry?: string;
+  /** Per-package registry routing, first matching rule wins (see registry-routing.ts) */
+  registries?: ReleaseRegistryRule[];
+  /**
+   * Env var holding the auth token, keyed by registry URL. Registries not listed here use the
+   * `_authToken` from .npmrc; only the default registry falls back to NPM_TOKEN / NODE_AUTH_TOKEN.
+   */
+  registryTokens?: Record<string, string>;
   strategy?: 'semver';
   bump?: VersionBump;
-  versioningStrategy?: 'lockstep' | 'independent' | 'adaptive';
+  /** Default prerelease channel (e.g. 'beta'). Omit for stable releases. */
+  channel?: string;
+  /** Per-channel settings, keyed by channel name (alpha, beta, rc, ...) */
+  channels?: Record<string, ReleaseChannelConfig>;
+  versioningStrategy?: 'lockstep' | 'independent' | 'adaptive' | 'ripple';
+  /** Conventional-commit bump rules for `bump: 'auto'` (shared with the changelog) */
+  bumpRules?: {
+    /** Bump per commit type, e.g. { perf: 'minor' }. Defaults: feat → minor; fix, perf, refactor → patch */
+    types?: Record<string, 'major' | 'minor' | 'patch' | 'none'>;
+    /** 0.x versions: breaking changes bump minor and features bump patch */
+    preMajor?: boolean;
+  };
   strict?: boolean;
   verify?: CheckId[];
   checks?: CustomCheckConfig[];
+  /** Max packages built/verified in parallel. Default: CPU count, capped at 4. */
+  concurrency?: number;
+  /** Stop build/verify on the first failure instead of collecting all failures. */
+  failFast?: boolean;
+  /** Public API diff against the last release (see api-surface.ts) */
+  api?: {
+    /** 'error' fails planning when a planned bump is lower than the API changes require. Default: 'warn' */
+    check?: 'warn' | 'error' | 'off';
+  };
+  /** Install the packed tarballs into a scratch project and load every export (see smoke-test.ts) */
+  smokeTest?: ReleaseSmokeTestConfig;
+  /** Tarball size budgets checked at verification (see size-budget.ts) */
+  size?: ReleaseSizeConfig;
+  /** Secret scanning of the packed tarballs at verification (see secret-scan.ts) */
+  secrets?: ReleaseSecretScanConfig;
   publish?: {
     npm?: boolean;
+    /** @deprecated Alias of `providerRelease.enabled`, which takes precedence */
     github?: boolean;
+    providerRelease?: {
+      /** Create a release per tag on the git provider (GitHub or GitLab, see git.provider and git.baseUrl) */
+      enabled?: boolean;
+      /** API root override, e.g. for GitHub Enterprise or self-hosted GitLab */
+      apiUrl?: string;
+      /** Attach packed tarballs as release assets. Default: true */
+      assets?: boolean;
+    };
     /** npm publish --access. Default: 'public'. */
     access?: 'public' | 'restricted';
     /** Package manager to use for publishing. Default: 'pnpm'. */
@@ -124,11 +321,24 @@ export interface ReleaseConfig {
   };
   /** Filter which packages are discovered and released. */
   packages?: PackagesFilter;
+  /** Change detection since each package's last release tag */
+  changes?: {
+    /** Globs (relative to the package) whose changes never trigger a release, e.g. `**\/*.md` */
+    ignore?: string[];
+  };
   /** Per-scope overrides — packages filter merged with global, checks replace global entirely. */
   scopes?: Record<string, {
     packages?: PackagesFilter;
     /** If set, replaces global `checks` for this scope. */
     checks?: CustomCheckConfig[];
+    /** If set, overrides the global `channel` for this scope. */
+    channel?: string;
+    /** If set, overrides the global `approval` for this scope. */
+    approval?: ReleaseApprovalConfig;
+    /** Registry for this scope's packages — several mirror them to each */
+    registry?: string | string[];
+    /** Registry rules checked before the global `registries` */
+    registries?: ReleaseRegistryRule[];
   }>;
   rollback?: {
     enabled?: boolean;
@@ -166,12 +376,98 @@ export interface ReleaseConfig {
     ignoreSubmodules?: boolean;
     metadata?: Record<string, unknown>;
   };
-  git?: {
-    provider?: 'auto' | 'github' | 'gitlab' | 'generic';
-    baseUrl?: string | null;
-    autoUnshallow?: boolean;
-    requireSignedTags?: boolean;
-  };
+  git?: ReleaseGitConfig;
+  /** Lifecycle hooks — a failing hook aborts the release (onFailure failures are only reported) */
+  hooks?: Partial<Record<ReleaseHookName, ReleaseHookConfig | ReleaseHookConfig[]>>;
+  /** Manual sign-off between verify and publish (see approval.ts) */
+  approval?: ReleaseApprovalConfig;
+}
+
+export interface ReleaseRegistryRule {
+  /** Package names or paths, matched like `packages.include` (e.g. '@acme/*') */
+  packages: string | string[];
+  /** Registry URL, or several to mirror the packages to each (the first is the primary) */
+  registry: string | string[];
+}
+
+export interface ReleaseSmokeTestConfig {
+  /** Smoke-test every package. Default: false */
+  enabled?: boolean;
+  /** Per-package settings, first matching rule wins */
+  packages?: ReleaseSmokeTestRule[];
+}
+
+export interface ReleaseSmokeTestRule {
+  /** Package names or paths, matched like `packages.include` (e.g. '@acme/*') */
+  packages: string | string[];
+  /** Smoke-test the matched packages (default: the global `enabled`) */
+  enabled?: boolean;
+  /** Export subpaths not to load, e.g. './cli' when loading it starts the CLI */
+  skip?: string[];
+}
+
+/** Sizes are bytes or a string with a unit: '500kB', '1.5MB' (1 kB = 1000 bytes) */
+export interface ReleaseSizeBudget {
+  /** Max tarball size */
+  maxPacked?: number | string;
+  /** Max total size of the packed files */
+  maxUnpacked?: number | string;
+  /** Max number of packed files */
+  maxFiles?: number;
+  /** Max growth of the tarball over the last release, in percent (e.g. 20) */
+  maxIncrease?: number;
+  /** 'error' fails verification, 'warn' only reports. Default: 'error' */
+  onExceed?: 'warn' | 'error';
+}
+
+export interface ReleaseSizeConfig extends ReleaseSizeBudget {
+  /** Per-package budgets, first matching rule wins; unset fields fall back to the global budget */
+  packages?: ReleaseSizeRule[];
+}
+
+export interface ReleaseSizeRule extends ReleaseSizeBudget {
+  /** Package names or paths, matched like `packages.include` (e.g. '@acme/*') */
+  packages: string | string[];
+}
+
+export type SecretFindingKind = 'env-file' | 'private-key' | 'npmrc-token' | 'token' | 'sourcemap-sources';
+
+export interface ReleaseSecretScanConfig {
+  /** Findings accepted on purpose; every rule matching the package applies */
+  allow?: ReleaseSecretAllowRule[];
+}
+
+export interface ReleaseSecretAllowRule {
+  /** Package names or paths, matched like `packages.include` (e.g. '@acme/*') */
+  packages: string | string[];
+  /** Packed paths whose findings are accepted, e.g. 'fixtures/**' (default: any path) */
+  paths?: string[];
+  /** Finding kinds accepted, e.g. ['sourcemap-sources'] (default: any kind) */
+  kinds?: SecretFindingKind[];
+}
+
+export interface ReleaseApprovalConfig {
+  /**
+   * Require an approver before publishing. Default: false.
+   * The run stops at stage 'pending-approval' once the request is made and releases the lock;
+   * resume the release after the decision to publish it (or roll it back).
+   */
+  required?: boolean;
+  /**
+   * Wait in-process for the decision instead of stopping. Default: false.
+   * The run keeps the scope's release lock while it waits, so no other release of the scope can
+   * start until the request is decided or expires.
+   */
+  wait?: boolean;
+  /** Requests not approved within this time expire and the release is rolled back. Default: 24h */
+  expiresInMs?: number;
+}
+
+export interface ReleaseApproval {
+  approver: string;
+  approvedAt: string;
+  /** Hash of the plan the approver reviewed (see computePlanHash) */
+  planHash: string;
 }
 
 export interface AuditSummary {
@@ -187,29 +483,67 @@ export interface BuildResult {
   success: boolean;
   error?: string;
   durationMs: number;
+  /** True when the build was skipped because its inputs are unchanged since the last build */
+  cached?: boolean;
 }
 
 export interface VerifyResult {
   name: string;
   success: boolean;
   issues: string[];
+  /** Kept tarball (only when verifying into an artifacts directory) */
+  tarball?: string;
+  integrity?: string;
+  size?: PackageSize;
+  /** Non-fatal findings (size budgets set to warn) */
+  warnings?: string[];
 }
 
 export interface PublishablePackage {
   name: string;
   version: string;
   path: string;
+  /** Registries to publish to, primary first; publishers use their default registry when absent */
+  registries?: string[];
+  /** Verified tarball to publish as-is; publishers pack from `path` when absent */
+  tarball?: string;
+  /** Integrity recorded at verification — publishing is refused if the tarball no longer matches */
+  integrity?: string;
 }
 
 export interface PublishResult {
   published: string[];
   skipped: string[];
   errors: string[];
+  /** Outcomes per registry, for publishers that route packages to several */
+  registries?: RegistryPublishResult[];
+}
+
+export interface RegistryPublishResult {
+  registry: string;
+  published: string[];
+  /** Not published there: dry-run, or already live from a previous attempt */
+  skipped: string[];
+  errors: string[];
 }
 
 /** Injected by CLI (OTP) or REST (token-based) */
 export interface PackagePublisher {
-  publish(packages: PublishablePackage[], options: { dryRun?: boolean; access?: string }): Promise<PublishResult>;
+  publish(packages: PublishablePackage[], options: {
+    dryRun?: boolean;
+    access?: string;
+    tag?: string;
+    /**
+     * Called after each successful publish so the pipeline can journal progress — once per
+     * registry, primary first. Mirrors are only attempted after the primary succeeded.
+     */
+    onPublished?: (pkg: PublishablePackage, registry?: string) => void | Promise<void>;
+    /**
+     * Once aborted, publish nothing more. A publish already under way should be left to finish,
+     * so the registry never ends up in an unknown state.
+     */
+    signal?: AbortSignal;
+  }): Promise<PublishResult>;
 }
 
 /** Injected by caller — generates changelog */
@@ -234,6 +568,30 @@ export interface PipelineOptions {
   skipChecks?: boolean;
   skipBuild?: boolean;
   skipVerify?: boolean;
+  /** Prerelease channel override (takes precedence over config) */
+  channel?: string;
+  /** Graduate current prereleases to stable (2.1.0-rc.3 → 2.1.0) */
+  graduate?: boolean;
+  /** Continue the last interrupted release from its journal instead of planning a new one */
+  resume?: boolean;
+  /**
+   * Publish the changed packages as canaries (see canary.ts) under the `canary` dist-tag —
+   * no version bump, changelog, git commit/tag, snapshot or journal
+   */
+  canary?: boolean;
+  /** Registry client for planning and resume checks (defaults to the configured registry) */
+  registryClient?: RegistryClient;
+  /** Parallel build/verify workers (overrides config.concurrency) */
+  concurrency?: number;
+  /** Fail-fast vs. collect-all-failures for build/verify (overrides config.failFast) */
+  failFast?: boolean;
+  /** Rebuild every package even if its build hash is unchanged */
+  forceBuild?: boolean;
+  /**
+   * Who is releasing, recorded in the release lock and approval request
+   * (default: KB_RELEASE_OWNER, the git user or the OS user). The requester can't approve their own release.
+   */
+  lockOwner?: string;
 
   /** Custom check configs from kb.config.json */
   checks?: CustomCheckConfig[];
@@ -244,8 +602,27 @@ export interface PipelineOptions {
   /** Injected changelog generator (with or without LLM) */
   changelog?: ChangelogGenerator;
 
+  /** Provider release client (defaults to the provider detected from the git remote, token from env) */
+  releaseClient?: ReleaseProviderClient;
+
   logger?: { info?: (...args: any[]) => void; warn?: (...args: any[]) => void; error?: (...args: any[]) => void };
   onProgress?: (stage: ReleaseStage, message: string) => void;
+  /** Per-package build/verify/publish outcomes, as they happen */
+  onPackageEvent?: (event: PackageProgressEvent) => void;
+  /**
+   * Cancels the release: running checks, builds, verifications and git commands are killed,
+   * nothing new is published, the snapshot is restored if nothing was published yet, and the
+   * result reports stage "cancelled".
+   */
+  signal?: AbortSignal;
+}
+
+export interface PackageProgressEvent {
+  package: string;
+  phase: 'build' | 'verify' | 'publish';
+  status: 'succeeded' | 'failed' | 'skipped';
+  message?: string;
+  durationMs?: number;
 }
 
 export interface PipelineResult {
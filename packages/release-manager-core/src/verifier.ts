@@ -1,48 +1,196 @@
 /**
  * Package verifier — npm pack → extract → verify artifacts before publish.
- * Catches: directory imports, test file leaks, missing exports, syntax errors.
+ * Catches: directory imports, test file leaks, missing exports, syntax errors, and types
+ * TypeScript consumers can't resolve (see type-resolution.ts). Packages opted into the smoke test
+ * are also installed and loaded from their tarballs (see smoke-test.ts). Every tarball is measured
+ * and checked against the configured size budgets (see size-budget.ts), and every packed file is
+ * scanned for secrets (see secret-scan.ts).
+ *
+ * With `artifactsDir`, the tarball is kept there with its sha512 integrity, and
+ * publishers ship that exact file instead of packing again.
+ *
+ * External tools run asynchronously so verification never blocks the host's event loop.
  */
 
-import { existsSync, readFileSync, readdirSync, statSync, mkdirSync } from 'node:fs';
-import { join, dirname, resolve } from 'node:path';
-import { execSync } from 'node:child_process';
+import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs';
+import { readFile, mkdir, mkdtemp, rm } from 'node:fs/promises';
+import { join, dirname, relative, resolve } from 'node:path';
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
 import { tmpdir } from 'node:os';
 import { randomBytes } from 'node:crypto';
-import { rmSync, writeFileSync } from 'node:fs';
-import type { VerifyResult, PackageVersion } from './types';
+import type {
+  VerifyResult,
+  PackageVersion,
+  ReleaseSmokeTestConfig,
+  ReleaseSizeConfig,
+  ReleaseSecretScanConfig,
+  ReleaseSecretAllowRule,
+} from './types';
+import { sortPackagesTopologically } from './graph';
+import { packPackage, computeIntegrity, type PackOptions } from './pack';
+import { loadWorkspace } from './workspace-protocol';
+import { checkTypeResolution } from './type-resolution';
+import { resolveSmokeTest, smokeTestTarballs, formatSmokeTestFailure, type SmokeTestTarget } from './smoke-test';
+import { scanPackageSecrets, resolveSecretAllowlist, isSecretAllowed, formatSecretFinding } from './secret-scan';
+import { measurePackage, readReleasedSizes, resolveSizeBudget, checkSizeBudget } from './size-budget';
+import { DEFAULT_CONCURRENCY, runWithConcurrency } from './concurrency';
+
+const execAsync = promisify(exec);
 
 /**
  * Verify all packages in a plan are publishable.
+ * Packages are verified in parallel (up to `concurrency`); results keep dependency order.
+ * By default every package is verified so all issues are reported at once —
+ * with failFast, no new verifications start after the first failure.
  */
 export async function verifyPackages(
   packages: PackageVersion[],
   options?: {
     logger?: { info?: (...args: any[]) => void };
     onProgress?: (pkg: string, result: VerifyResult) => void;
+    /** Max parallel verifications. Default: DEFAULT_CONCURRENCY */
+    concurrency?: number;
+    /** Stop on first failure (default: false) */
+    failFast?: boolean;
+    /** Keep verified tarballs in this directory (see verifyPackage) */
+    artifactsDir?: string;
+    /** Pack the planned versions as-is, without bumping package.json (canary releases) */
+    pinVersions?: boolean;
+    /**
+     * Install-and-import smoke test settings. Runs once every package is verified;
+     * packages it fails are reported to onProgress a second time.
+     */
+    smokeTest?: ReleaseSmokeTestConfig;
+    /** Size budgets; growth is measured against the last release in the repo's history */
+    size?: ReleaseSizeConfig;
+    /** Secret-scan allowlist */
+    secrets?: ReleaseSecretScanConfig;
+    /** Extra secret patterns (changelog.redactPatterns) */
+    redactPatterns?: string[];
+    /** Repo root, for release history and path patterns in smoke-test, size and secret rules (default: the workspace root) */
+    repoRoot?: string;
+    /** Aborting stops running verifications and starts no new ones */
+    signal?: AbortSignal;
   },
 ): Promise<VerifyResult[]> {
-  const results: VerifyResult[] = [];
+  let failed = false;
+  // Local dependency specs on released packages resolve to their next versions
+  const versions = Object.fromEntries(packages.map(p => [p.name, p.nextVersion]));
+  const workspace = packages[0] ? await loadWorkspace(packages[0].path) : null;
 
+  const root = options?.repoRoot ?? workspace?.root ?? process.cwd();
+  const smokeTargets: SmokeTestTarget[] = [];
   for (const pkg of packages) {
-    const result = verifyPackage(pkg.path, pkg.name);
-    results.push(result);
-    options?.onProgress?.(pkg.name, result);
+    const settings = resolveSmokeTest(options?.smokeTest, { name: pkg.name, relativePath: relative(root, pkg.path) });
+    if (settings.enabled) {smokeTargets.push({ name: pkg.name, skip: settings.skip });}
   }
+  const releasedSizes = await readReleasedSizes(root);
+  // The smoke test installs every tarball of the plan, so they are kept even without an artifacts dir
+  const keepDir = options?.artifactsDir
+    ?? (smokeTargets.length > 0 ? await mkdtemp(join(tmpdir(), 'kb-verify-smoke-')) : undefined);
 
-  return results;
+  const results = await runWithConcurrency(
+    sortPackagesTopologically(packages),
+    options?.concurrency ?? DEFAULT_CONCURRENCY,
+    async (pkg) => {
+      const result = await verifyPackage(pkg.path, pkg.name, {
+        artifactsDir: keepDir,
+        versions,
+        workspace,
+        pinVersions: options?.pinVersions,
+        secrets: {
+          allow: resolveSecretAllowlist(options?.secrets, { name: pkg.name, relativePath: relative(root, pkg.path) }),
+          redactPatterns: options?.redactPatterns,
+        },
+        signal: options?.signal,
+      });
+      if (result.size) {
+        const previous = releasedSizes.get(pkg.name);
+        if (previous) {result.size.previous = previous;}
+        const budget = resolveSizeBudget(options?.size, { name: pkg.name, relativePath: relative(root, pkg.path) });
+        const exceeded = checkSizeBudget(result.size, budget);
+        if (exceeded.length > 0 && budget.onExceed === 'warn') {
+          result.warnings = exceeded;
+        } else if (exceeded.length > 0) {
+          result.issues.push(exceeded.join('\n'));
+          result.success = false;
+        }
+      }
+      if (!result.success) {failed = true;}
+      options?.onProgress?.(pkg.name, result);
+      return result;
+    },
+    () => (options?.failFast === true && failed) || options?.signal?.aborted === true,
+  );
+  const verified = results.filter((r): r is VerifyResult => r !== undefined);
+
+  try {
+    if (smokeTargets.length > 0 && !(options?.failFast === true && failed) && !options?.signal?.aborted) {
+      await runSmokeTest(verified, smokeTargets, options);
+    }
+  } finally {
+    if (!options?.artifactsDir && keepDir) {
+      await rm(keepDir, { recursive: true, force: true });
+      for (const result of verified) {
+        delete result.tarball;
+        delete result.integrity;
+      }
+    }
+  }
+
+  return verified;
+}
+
+/**
+ * Smoke-test the verified tarballs; failures become issues of the package they belong to.
+ */
+async function runSmokeTest(
+  results: VerifyResult[],
+  targets: SmokeTestTarget[],
+  options: { onProgress?: (pkg: string, result: VerifyResult) => void; signal?: AbortSignal } | undefined,
+): Promise<void> {
+  const tarballs = Object.fromEntries(results.filter(r => r.tarball).map(r => [r.name, r.tarball!]));
+  // Packages without a tarball (private) or that failed verification aren't loaded
+  const testable = targets.filter(t => tarballs[t.name] && results.find(r => r.name === t.name)?.success);
+  if (testable.length === 0) {return;}
+
+  const smoke = await smokeTestTarballs(tarballs, testable, { signal: options?.signal });
+  if (options?.signal?.aborted) {return;}
+
+  for (const target of testable) {
+    const issues = smoke.installError
+      ? [`Smoke test: installing the packed tarballs failed (the install runs offline — external dependencies must be in the npm cache)\n${smoke.installError}`]
+      : smoke.failures.filter(f => f.package === target.name).map(formatSmokeTestFailure);
+    if (issues.length === 0) {continue;}
+
+    const result = results.find(r => r.name === target.name)!;
+    result.issues.push(...issues);
+    result.success = false;
+    options?.onProgress?.(result.name, result);
+  }
 }
 
 /**
  * Verify a single package is publishable.
- * npm pack → extract → check exports, directory imports, test leaks, syntax.
+ * npm pack → extract → check exports, directory imports, test leaks, syntax, types, secrets.
+ * The tarball is kept in `artifactsDir` (if given) and its path and integrity returned.
  */
-export function verifyPackage(packagePath: string, packageName?: string): VerifyResult {
+export async function verifyPackage(
+  packagePath: string,
+  packageName?: string,
+  options: PackOptions & {
+    artifactsDir?: string;
+    /** Accepted secret findings and extra secret patterns (see secret-scan.ts) */
+    secrets?: { allow?: ReleaseSecretAllowRule[]; redactPatterns?: string[] };
+  } = {},
+): Promise<VerifyResult> {
   const pkgJsonPath = join(packagePath, 'package.json');
   if (!existsSync(pkgJsonPath)) {
     return { name: packageName ?? packagePath, success: true, issues: [] }; // skip
   }
 
-  const pkg = JSON.parse(readFileSync(pkgJsonPath, 'utf-8'));
+  const pkg = JSON.parse(await readFile(pkgJsonPath, 'utf-8'));
   const name = packageName ?? pkg.name ?? packagePath;
 
   // Skip private packages
@@ -50,48 +198,39 @@ export function verifyPackage(packagePath: string, packageName?: string): Verify
     return { name, success: true, issues: [] };
   }
 
-  if (!existsSync(join(packagePath, 'dist'))) {
-    return { name, success: true, issues: [] }; // no dist = not built yet
-  }
-
+  // No dist/ is no reason to skip: an unbuilt package fails on its missing entry points, and one
+  // without a build is verified as is — either way publishing never falls back to an unverified pack
   const issues: string[] = [];
   const tmpDir = join(tmpdir(), `kb-verify-${randomBytes(6).toString('hex')}`);
+  let tarball: string | undefined;
+  let integrity: string | undefined;
+  let size: VerifyResult['size'];
 
   try {
-    mkdirSync(tmpDir, { recursive: true });
-
-    // 1. npm pack (with link: → * replacement)
-    const origPkg = readFileSync(pkgJsonPath, 'utf-8');
-    const modPkg = JSON.parse(origPkg);
-    for (const section of ['dependencies', 'devDependencies', 'peerDependencies']) {
-      const deps = modPkg[section];
-      if (!deps) {continue;}
-      for (const [k, v] of Object.entries(deps)) {
-        if (typeof v === 'string' && (v as string).startsWith('link:')) {
-          deps[k] = '*';
-        }
-      }
-    }
-    writeFileSync(pkgJsonPath, JSON.stringify(modPkg, null, 2) + '\n');
+    await mkdir(tmpDir, { recursive: true });
 
-    let tgzFile: string | undefined;
+    // 1. npm pack (publish manifest, local dependency specs resolved)
+    let tgzFile: string;
     try {
-      execSync(`npm pack --pack-destination ${tmpDir}`, { cwd: packagePath, stdio: 'pipe', timeout: 30_000 });
-      const files = readdirSync(tmpDir).filter(f => f.endsWith('.tgz'));
-      tgzFile = files[0] ? join(tmpDir, files[0]) : undefined;
-    } finally {
-      // Always restore original package.json
-      writeFileSync(pkgJsonPath, origPkg);
-    }
-
-    if (!tgzFile) {
-      issues.push('npm pack produced no tarball');
+      tgzFile = await packPackage(packagePath, options.artifactsDir ?? tmpDir, {
+        versions: options.versions,
+        workspace: options.workspace,
+        pinVersions: options.pinVersions,
+        signal: options.signal,
+      });
+    } catch (err) {
+      issues.push(err instanceof Error ? err.message : String(err));
       return { name, success: false, issues };
     }
+    if (options.artifactsDir) {
+      tarball = tgzFile;
+      integrity = await computeIntegrity(tgzFile);
+    }
 
     // 2. Extract
-    execSync(`tar xzf ${tgzFile}`, { cwd: tmpDir, stdio: 'pipe' });
+    await execAsync(`tar xzf ${JSON.stringify(tgzFile)}`, { cwd: tmpDir, signal: options.signal });
     const extractedDir = join(tmpDir, 'package');
+    size = await measurePackage(tgzFile, extractedDir);
 
     // 3. Test file leaks
     const testFiles = findFiles(join(extractedDir, 'dist'), f =>
@@ -102,7 +241,7 @@ export function verifyPackage(packagePath: string, packageName?: string): Verify
     }
 
     // 4. Exports exist
-    const extractedPkg = JSON.parse(readFileSync(join(extractedDir, 'package.json'), 'utf-8'));
+    const extractedPkg = JSON.parse(await readFile(join(extractedDir, 'package.json'), 'utf-8'));
     for (const field of ['main', 'module', 'types'] as const) {
       const val = extractedPkg[field];
       if (val && !existsSync(join(extractedDir, val))) {
@@ -123,7 +262,7 @@ export function verifyPackage(packagePath: string, packageName?: string): Verify
 
         // Syntax check
         try {
-          execSync(`node --check ${esmPath}`, { stdio: 'pipe', timeout: 10_000 });
+          await execAsync(`node --check ${esmPath}`, { timeout: 10_000 });
         } catch {
           issues.push(`ESM syntax error in ${esmEntry}`);
         }
@@ -136,19 +275,30 @@ export function verifyPackage(packagePath: string, packageName?: string): Verify
       const cjsPath = join(extractedDir, cjsEntry);
       if (existsSync(cjsPath)) {
         try {
-          execSync(`node --check ${cjsPath}`, { stdio: 'pipe', timeout: 10_000 });
+          await execAsync(`node --check ${cjsPath}`, { timeout: 10_000 });
         } catch {
           issues.push(`CJS syntax error in ${cjsEntry}`);
         }
       }
     }
+
+    // 7. Type declarations resolve for every entrypoint, in every resolution mode
+    for (const problem of checkTypeResolution(extractedDir)) {
+      issues.push(problem.message);
+    }
+
+    // 8. No secrets or sensitive files anywhere in the tarball
+    const findings = await scanPackageSecrets(extractedDir, { redactPatterns: options.secrets?.redactPatterns });
+    for (const finding of findings) {
+      if (!isSecretAllowed(finding, options.secrets?.allow ?? [])) {issues.push(formatSecretFinding(finding));}
+    }
   } catch (err) {
     issues.push(`Verification error: ${err instanceof Error ? err.message : String(err)}`);
   } finally {
-    rmSync(tmpDir, { recursive: true, force: true });
+    await rm(tmpDir, { recursive: true, force: true });
   }
 
-  return { name, success: issues.length === 0, issues };
+  return { name, success: issues.length === 0, issues, ...(tarball && { tarball, integrity }), ...(size && { size }) };
 }
 
 function resolveEsmEntry(pkg: any): string | undefined {
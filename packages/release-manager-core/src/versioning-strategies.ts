@@ -4,16 +4,22 @@
  * - lockstep: All packages get the same version (maximum bump)
  * - independent: Each package has its own version
  * - adaptive: Lockstep if breaking changes, otherwise independent
+ * - ripple: Independent, plus a patch bump for every workspace dependent of a bumped package
  */
 
 import semver from 'semver';
 import type { PackageVersion, VersionBump } from './types';
+import { computePrereleaseVersion, graduateVersion } from './channels';
+import { getDependents, type DependencyGraph } from './graph';
 
-export type VersionStrategy = 'lockstep' | 'independent' | 'adaptive';
+export type VersionStrategy = 'lockstep' | 'independent' | 'adaptive' | 'ripple';
 
 export interface StrategyOptions {
   strategy: VersionStrategy;
   umbrellaPath?: string; // path to umbrella root (for filtering)
+  preid?: string; // prerelease channel identifier (e.g. 'rc')
+  graduate?: boolean; // promote prereleases to their stable versions
+  workspacePackages?: PackageVersion[]; // all candidates in scope, with dependencies (for ripple)
 }
 
 /**
@@ -24,11 +30,15 @@ export function applyVersionStrategy(
   options: StrategyOptions
 ): PackageVersion[] {
   if (options.strategy === 'lockstep') {
-    return applyLockstep(packages);
+    return applyLockstep(packages, options);
   }
 
   if (options.strategy === 'adaptive') {
-    return applyAdaptive(packages);
+    return applyAdaptive(packages, options);
+  }
+
+  if (options.strategy === 'ripple') {
+    return applyRipple(packages, options);
   }
 
   // independent (default) - no changes needed
@@ -43,7 +53,7 @@ export function applyVersionStrategy(
  * - Package B: 1.0.0 -> 2.0.0 (major)
  * Result: Both get 2.0.0 (maximum bump = major)
  */
-function applyLockstep(packages: PackageVersion[]): PackageVersion[] {
+function applyLockstep(packages: PackageVersion[], options?: StrategyOptions): PackageVersion[] {
   if (packages.length === 0) {return packages;}
 
   // Find the maximum bump level
@@ -57,7 +67,14 @@ function applyLockstep(packages: PackageVersion[]): PackageVersion[] {
   // Compute next version from max version + max bump
   // Filter out 'auto' since semver.inc expects ReleaseType
   const releaseType = maxBump === 'auto' ? 'patch' : maxBump;
-  const nextVersion = semver.inc(maxVersion, releaseType) || maxVersion;
+  let nextVersion: string;
+  if (options?.graduate) {
+    nextVersion = graduateVersion(maxVersion);
+  } else if (options?.preid) {
+    nextVersion = computePrereleaseVersion(maxVersion, releaseType, options.preid);
+  } else {
+    nextVersion = semver.inc(maxVersion, releaseType) || maxVersion;
+  }
 
   // Apply to all packages
   return packages.map(pkg => ({
@@ -73,18 +90,67 @@ function applyLockstep(packages: PackageVersion[]): PackageVersion[] {
  * This is useful for umbrellas where you want to keep versions in sync
  * when there are breaking changes, but allow independent releases otherwise.
  */
-function applyAdaptive(packages: PackageVersion[]): PackageVersion[] {
+function applyAdaptive(packages: PackageVersion[], options?: StrategyOptions): PackageVersion[] {
   const hasBreaking = packages.some(pkg => pkg.bump === 'major');
 
   // If any package has breaking changes, use lockstep
   if (hasBreaking) {
-    return applyLockstep(packages);
+    return applyLockstep(packages, options);
   }
 
   // Otherwise, use independent (no changes)
   return packages;
 }
 
+/**
+ * Ripple: Bumped packages keep their own versions; every workspace package that
+ * depends on them (directly or transitively) gets a patch bump with `rippleFrom`.
+ *
+ * Example:
+ * - core: 1.0.0 -> 1.1.0 (minor), cli depends on core
+ * Result: cli 2.3.0 -> 2.3.1 (patch, rippleFrom: ['core'])
+ */
+function applyRipple(packages: PackageVersion[], options: StrategyOptions): PackageVersion[] {
+  // Graduation only promotes existing prereleases — nothing to ripple
+  if (options.graduate) {return packages;}
+
+  const workspace = options.workspacePackages ?? packages;
+  const graph: DependencyGraph = {};
+  for (const pkg of workspace) {
+    graph[pkg.name] = pkg.dependencies ?? [];
+  }
+
+  const bumped = new Set(packages.map(p => p.name));
+  const rippleSources = new Map<string, Set<string>>();
+
+  for (const pkg of packages) {
+    for (const dependent of getDependents(pkg.name, graph)) {
+      if (bumped.has(dependent)) {continue;}
+      if (!rippleSources.has(dependent)) {rippleSources.set(dependent, new Set());}
+      rippleSources.get(dependent)!.add(pkg.name);
+    }
+  }
+
+  const rippled: PackageVersion[] = [];
+  for (const pkg of workspace) {
+    const sources = rippleSources.get(pkg.name);
+    if (!sources) {continue;}
+
+    const nextVersion = options.preid
+      ? computePrereleaseVersion(pkg.currentVersion, 'patch', options.preid)
+      : semver.inc(pkg.currentVersion, 'patch') || pkg.currentVersion;
+
+    rippled.push({
+      ...pkg,
+      nextVersion,
+      bump: 'patch',
+      rippleFrom: [...sources].sort(),
+    });
+  }
+
+  return [...packages, ...rippled];
+}
+
 /**
  * Get the maximum bump level from a list of packages
  *
@@ -0,0 +1,292 @@
+/**
+ * Workspace protocol rewriting — turns a package.json into the manifest that actually gets published.
+ *
+ * Follows pnpm's publish semantics:
+ *   workspace:*  → 1.2.3          workspace:^  → ^1.2.3        workspace:~ → ~1.2.3
+ *   workspace:^1.0.0 → ^1.0.0     workspace:../core → 1.2.3   workspace:alias@^ → npm:alias@^1.2.3
+ *   catalog: / catalog:name → the range from pnpm-workspace.yaml
+ *   publishConfig.{main,exports,types,...} → hoisted to the top level
+ * `link:` (cross-repo links) becomes `^{version}` of the linked package.
+ *
+ * Versions come from the release plan first (next versions), then the workspace package map.
+ * With `pinVersions` (canary releases) the manifest takes its version from the plan and
+ * dependencies on planned packages are pinned to their exact planned versions.
+ * The manifest is built in memory — package.json on disk is never touched.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import globby from 'globby';
+
+export const DEPENDENCY_SECTIONS = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'] as const;
+
+/** Fields pnpm copies from publishConfig to the top level of the published manifest */
+const PUBLISH_CONFIG_FIELDS = [
+  'bin', 'main', 'module', 'types', 'typings', 'exports', 'browser', 'esnext', 'es2015',
+  'unpkg', 'umd:main', 'typesVersions', 'cpu', 'os',
+];
+
+export interface WorkspacePackage {
+  name: string;
+  version: string;
+  path: string;
+}
+
+export interface WorkspaceInfo {
+  /** Directory containing pnpm-workspace.yaml (or the package.json with `workspaces`) */
+  root: string;
+  packages: Map<string, WorkspacePackage>;
+  /** Default catalog (`catalog:`) */
+  catalog: Record<string, string>;
+  /** Named catalogs (`catalog:<name>`) */
+  catalogs: Record<string, Record<string, string>>;
+}
+
+export interface PublishManifestOptions {
+  /** Next versions from the release plan, by package name — take precedence over the workspace */
+  versions?: Record<string, string>;
+  /** Workspace the package belongs to (see loadWorkspace) */
+  workspace?: WorkspaceInfo | null;
+  /**
+   * Publish the planned version of the package itself (package.json keeps its own) and pin
+   * dependencies on planned packages to exactly their planned versions
+   */
+  pinVersions?: boolean;
+}
+
+/**
+ * Find the workspace containing `startDir` and load its package map and catalogs.
+ * Returns null when the package is not part of a pnpm/npm workspace.
+ */
+export async function loadWorkspace(startDir: string): Promise<WorkspaceInfo | null> {
+  for (let dir = resolve(startDir); ; dir = dirname(dir)) {
+    const yamlPath = join(dir, 'pnpm-workspace.yaml');
+    if (existsSync(yamlPath)) {
+      const parsed = parseWorkspaceYaml(await readFile(yamlPath, 'utf-8'));
+      return {
+        root: dir,
+        packages: await readWorkspacePackages(dir, parsed.packages),
+        catalog: parsed.catalog,
+        catalogs: parsed.catalogs,
+      };
+    }
+
+    const pkgJsonPath = join(dir, 'package.json');
+    if (existsSync(pkgJsonPath)) {
+      try {
+        const pkgJson = JSON.parse(await readFile(pkgJsonPath, 'utf-8'));
+        const patterns = Array.isArray(pkgJson.workspaces) ? pkgJson.workspaces : pkgJson.workspaces?.packages;
+        if (Array.isArray(patterns)) {
+          return { root: dir, packages: await readWorkspacePackages(dir, patterns), catalog: {}, catalogs: {} };
+        }
+      } catch {
+        // Unreadable package.json — keep walking up
+      }
+    }
+
+    if (dirname(dir) === dir) {return null;}
+  }
+}
+
+async function readWorkspacePackages(root: string, patterns: string[]): Promise<Map<string, WorkspacePackage>> {
+  const manifests = await globby(patterns.map(p => `${p.replace(/\/+$/, '')}/package.json`), {
+    cwd: root,
+    ignore: ['**/node_modules/**'],
+    absolute: true,
+  });
+
+  const packages = new Map<string, WorkspacePackage>();
+  for (const manifest of manifests) {
+    try {
+      const pkgJson = JSON.parse(await readFile(manifest, 'utf-8'));
+      if (pkgJson.name) {
+        packages.set(pkgJson.name, { name: pkgJson.name, version: pkgJson.version ?? '0.0.0', path: dirname(manifest) });
+      }
+    } catch {
+      // Skip unreadable manifests
+    }
+  }
+  return packages;
+}
+
+/**
+ * Parse the parts of pnpm-workspace.yaml this module needs: `packages`, `catalog` and `catalogs`.
+ * (A full YAML parser isn't needed for these flat lists and maps.)
+ */
+export function parseWorkspaceYaml(content: string): {
+  packages: string[];
+  catalog: Record<string, string>;
+  catalogs: Record<string, Record<string, string>>;
+} {
+  const result = { packages: [] as string[], catalog: {} as Record<string, string>, catalogs: {} as Record<string, Record<string, string>> };
+  let section: string | undefined;
+  let namedCatalog: string | undefined;
+  let namedIndent = -1;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s+#.*$/, '').replace(/^#.*$/, '');
+    if (!line.trim()) {continue;}
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    if (indent === 0) {
+      section = text.replace(/:$/, '');
+      namedCatalog = undefined;
+      continue;
+    }
+
+    if (section === 'packages' && text.startsWith('- ')) {
+      result.packages.push(unquote(text.slice(2)));
+    } else if (section === 'catalog' || section === 'catalogs') {
+      const match = text.match(/^("[^"]+"|'[^']+'|[^:]+):\s*(.*)$/);
+      if (!match) {continue;}
+      const key = unquote(match[1]!);
+      const value = unquote(match[2]!);
+
+      if (section === 'catalog') {
+        result.catalog[key] = value;
+      } else if (!value) {
+        namedCatalog = key;
+        namedIndent = indent;
+        result.catalogs[key] = result.catalogs[key] ?? {};
+      } else if (namedCatalog && indent > namedIndent) {
+        result.catalogs[namedCatalog]![key] = value;
+      }
+    }
+  }
+
+  // `catalogs.default` is the same catalog as `catalog`
+  if (result.catalogs.default) {
+    result.catalog = { ...result.catalogs.default, ...result.catalog };
+  }
+  return result;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * Build the manifest to publish: local dependency specs resolved, publishConfig fields hoisted.
+ * Returns a new object; throws if a spec cannot be resolved (publishing it would break installs).
+ */
+export function createPublishManifest(
+  pkgJson: Record<string, any>,
+  packagePath: string,
+  options: PublishManifestOptions = {},
+): Record<string, any> {
+  const manifest: Record<string, any> = structuredClone(pkgJson);
+
+  for (const section of DEPENDENCY_SECTIONS) {
+    const deps = manifest[section];
+    if (!deps) {continue;}
+    for (const [depName, spec] of Object.entries(deps)) {
+      if (typeof spec !== 'string') {continue;}
+      try {
+        // An alias (npm:other@1, workspace:other@^) names another package — resolve it as usual
+        const aliased = spec.startsWith('npm:') || /^workspace:@?[^@]+@/.test(spec);
+        const pinned = options.pinVersions && !aliased ? options.versions?.[depName] : undefined;
+        deps[depName] = pinned ?? resolveDependencySpec(depName, spec, packagePath, options);
+      } catch (err) {
+        // Consumers never install devDependencies — an unresolvable one must not block the release
+        if (section !== 'devDependencies') {throw err;}
+        deps[depName] = '*';
+      }
+    }
+  }
+
+  if (options.pinVersions && options.versions?.[manifest.name]) {
+    manifest.version = options.versions[manifest.name];
+  }
+
+  for (const field of PUBLISH_CONFIG_FIELDS) {
+    if (manifest.publishConfig?.[field] !== undefined) {
+      manifest[field] = manifest.publishConfig[field];
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Resolve one dependency spec to what gets published. Non-local specs are returned unchanged.
+ */
+export function resolveDependencySpec(
+  depName: string,
+  spec: string,
+  packagePath: string,
+  options: PublishManifestOptions = {},
+): string {
+  if (spec.startsWith('workspace:')) {
+    return resolveWorkspaceSpec(depName, spec.slice('workspace:'.length), packagePath, options);
+  }
+
+  if (spec.startsWith('catalog:')) {
+    const catalogName = spec.slice('catalog:'.length) || 'default';
+    const catalog = catalogName === 'default' ? options.workspace?.catalog : options.workspace?.catalogs[catalogName];
+    const range = catalog?.[depName];
+    if (!range) {
+      throw new Error(`Cannot resolve "${spec}" for ${depName}: not in the ${catalogName} catalog of pnpm-workspace.yaml`);
+    }
+    return range;
+  }
+
+  if (spec.startsWith('link:')) {
+    const version = options.versions?.[depName] ?? readVersionAt(resolve(packagePath, spec.slice('link:'.length)));
+    if (!version) {
+      throw new Error(`Cannot resolve "${spec}" for ${depName}: no package.json at the linked path`);
+    }
+    return `^${version}`;
+  }
+
+  return spec;
+}
+
+function resolveWorkspaceSpec(
+  depName: string,
+  range: string,
+  packagePath: string,
+  options: PublishManifestOptions,
+): string {
+  // workspace:../path — a relative path to the package
+  if (range.startsWith('.') || range.startsWith('/')) {
+    const version = readVersionAt(resolve(packagePath, range));
+    if (!version) {
+      throw new Error(`Cannot resolve "workspace:${range}" for ${depName}: no package.json at that path`);
+    }
+    return version;
+  }
+
+  // workspace:real-name@^ — an aliased workspace package
+  let target = depName;
+  let alias = false;
+  const aliasMatch = range.match(/^(@?[^@]+)@(.*)$/);
+  if (aliasMatch) {
+    target = aliasMatch[1]!;
+    range = aliasMatch[2]!;
+    alias = true;
+  }
+
+  const version = options.versions?.[target] ?? options.workspace?.packages.get(target)?.version;
+  let resolved: string;
+  if (range === '*' || range === '^' || range === '~' || range === '') {
+    if (!version) {
+      throw new Error(`Cannot resolve "workspace:${range}" for ${depName}: ${target} is not a workspace package`);
+    }
+    resolved = range === '*' || range === '' ? version : `${range}${version}`;
+  } else {
+    // Explicit range (workspace:^1.2.0) is published as the range itself
+    resolved = range;
+  }
+
+  return alias ? `npm:${target}@${resolved}` : resolved;
+}
+
+function readVersionAt(dir: string): string | undefined {
+  try {
+    return JSON.parse(readFileSync(join(dir, 'package.json'), 'utf-8')).version;
+  } catch {
+    return undefined;
+  }
+}